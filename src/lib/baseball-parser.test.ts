@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseBaseballBoxScoreHtml,
+  inningsPitchedToOuts,
+  outsToInningsPitched,
+} from './baseball-parser.js';
+
+const caption = (team: string, kind: 'Batters' | 'Pitchers') =>
+  `<caption class="caption"><h2><span class="team-name">${team}</span> ${kind}</h2></caption>`;
+
+const battingTable = (team: string, rows: string, totals: string) => `
+<table>
+  ${caption(team, 'Batters')}
+  <thead><tr><th>Player</th><th>AB</th><th>R</th><th>H</th><th>RBI</th><th>BB</th><th>SO</th><th>LOB</th></tr></thead>
+  <tbody>${rows}</tbody>
+  <tfoot><tr><th>Totals</th>${totals}</tr></tfoot>
+</table>`;
+
+const pitchingTable = (team: string, rows: string) => `
+<table>
+  ${caption(team, 'Pitchers')}
+  <thead><tr><th>Player</th><th>IP</th><th>H</th><th>R</th><th>ER</th><th>BB</th><th>SO</th><th>HR</th><th>NP</th></tr></thead>
+  <tbody>${rows}</tbody>
+</table>`;
+
+const batter = (name: string, pos: string, stats: number[]) =>
+  `<tr><th class="row-head"><span class="player-name">${name}</span> <span>${pos}</span></th>${stats.map((s) => `<td>${s}</td>`).join('')}</tr>`;
+
+const pitcher = (name: string, decision: string, stats: (number | string)[]) =>
+  `<tr><th class="row-head"><a class="player-name" href="#">${name}</a> ${decision}</th>${stats.map((s) => `<td>${s}</td>`).join('')}</tr>`;
+
+const SAMPLE_HTML = `<!DOCTYPE html>
+<html>
+<head><meta property="og:title" content="Baseball vs Canada on 3/14/2024" /></head>
+<body>
+<span class="team-name">Canada</span>
+<span class="team-name">Marin</span>
+<div class="team-score">3</div>
+<div class="team-score">4</div>
+<div class="linescore"><table>
+  <tr><th class="name">Canada</th><td class="score">0</td><td class="score">1</td><td class="score">0</td><td class="score">0</td><td class="score">2</td><td class="score">0</td><td class="score">0</td><td class="score">0</td><td class="score">0</td><td class="score total">3</td><td class="score total">7</td><td class="score total">2</td></tr>
+  <tr><th class="name">Marin</th><td class="score">1</td><td class="score">0</td><td class="score">0</td><td class="score">0</td><td class="score">0</td><td class="score">2</td><td class="score">0</td><td class="score">1</td><td class="score">X</td><td class="score total">4</td><td class="score total">9</td><td class="score total">1</td></tr>
+</table></div>
+${battingTable(
+  'Canada',
+  batter('Alvarez, Tom', 'SS', [4, 1, 2, 1, 0, 1, 1]) + batter('Baker, Joe', 'CF', [4, 1, 1, 2, 1, 0, 2]),
+  '<td>8</td><td>2</td><td>3</td><td>3</td><td>1</td><td>1</td><td>6</td>'
+)}
+${battingTable(
+  'Marin',
+  batter('Chen, Leo', '2B', [4, 2, 3, 1, 0, 0, 0]) + batter('Diaz, Sam', 'C', [3, 1, 2, 2, 1, 1, 1]),
+  '<td>7</td><td>3</td><td>5</td><td>3</td><td>1</td><td>1</td><td>4</td>'
+)}
+${pitchingTable(
+  'Canada',
+  pitcher('Evans, Rick', '(L, 1-2)', ['7.2', 8, 4, 3, 1, 6, 1, 104])
+)}
+${pitchingTable(
+  'Marin',
+  pitcher('Fox, Max', '(W, 3-0)', ['6.0', 5, 3, 3, 2, 8, 0, 95]) +
+    pitcher('Gray, Ben', '(S, 4)', ['3.0', 2, 0, 0, 0, 4, 0, 38])
+)}
+<p>Weather: Sunny, 68 degrees</p>
+<p>Umpires - HP: Al Hart; 1B: Bo Lane</p>
+<p>Attendance: 214</p>
+<p>Time: 2:41</p>
+</body>
+</html>`;
+
+describe('parseBaseballBoxScoreHtml', () => {
+  it('should parse metadata from the scoreboard and game notes', () => {
+    const boxScore = parseBaseballBoxScoreHtml(SAMPLE_HTML);
+
+    expect(boxScore).not.toBeNull();
+    expect(boxScore!.metadata.away_team).toBe('Canada');
+    expect(boxScore!.metadata.home_team).toBe('Marin');
+    expect(boxScore!.metadata.away_score).toBe(3);
+    expect(boxScore!.metadata.home_score).toBe(4);
+    expect(boxScore!.metadata.innings).toBe(9);
+    expect(boxScore!.metadata.date).toBe('3/14/2024');
+    expect(boxScore!.metadata.attendance).toBe(214);
+    expect(boxScore!.metadata.duration).toBe('2:41');
+    expect(boxScore!.metadata.weather).toBe('Sunny, 68 degrees');
+    expect(boxScore!.metadata.umpires).toEqual(['HP: Al Hart', '1B: Bo Lane']);
+  });
+
+  it('should parse inning scores with the away team first', () => {
+    const boxScore = parseBaseballBoxScoreHtml(SAMPLE_HTML)!;
+
+    expect(boxScore.inning_scores).toEqual([
+      [0, 1, 0, 0, 2, 0, 0, 0, 0],
+      [1, 0, 0, 0, 0, 2, 0, 1, 0],
+    ]);
+  });
+
+  it('should take runs, hits and errors from the linescore', () => {
+    const boxScore = parseBaseballBoxScoreHtml(SAMPLE_HTML)!;
+
+    expect(boxScore.away_team.runs).toBe(3);
+    expect(boxScore.away_team.hits).toBe(7);
+    expect(boxScore.away_team.errors).toBe(2);
+    expect(boxScore.home_team.errors).toBe(1);
+    expect(boxScore.away_team.left_on_base).toBe(6);
+    expect(boxScore.home_team.left_on_base).toBe(4);
+  });
+
+  it('should parse batters with positions', () => {
+    const boxScore = parseBaseballBoxScoreHtml(SAMPLE_HTML)!;
+
+    const chen = boxScore.home_team.batters[0];
+    expect(chen.name).toBe('Chen, Leo');
+    expect(chen.position).toBe('2B');
+    expect(chen.at_bats).toBe(4);
+    expect(chen.hits).toBe(3);
+    expect(chen.left_on_base).toBe(0);
+  });
+
+  it('should parse pitchers with decisions, records and innings pitched', () => {
+    const boxScore = parseBaseballBoxScoreHtml(SAMPLE_HTML)!;
+
+    const [fox, gray] = boxScore.home_team.pitchers;
+    expect(fox.decision).toBe('W');
+    expect(fox.record).toBe('3-0');
+    expect(fox.strikeouts).toBe(8);
+    expect(fox.pitches).toBe(95);
+    expect(gray.decision).toBe('S');
+    expect(gray.record).toBe('4');
+
+    const evans = boxScore.away_team.pitchers[0];
+    expect(evans.innings_pitched).toBe(7.2);
+    expect(evans.decision).toBe('L');
+    expect(evans.home_runs_allowed).toBe(1);
+  });
+
+  it('should return null when the linescore is missing', () => {
+    expect(parseBaseballBoxScoreHtml('<html><body>Postponed</body></html>')).toBeNull();
+  });
+});
+
+describe('innings pitched conversion', () => {
+  it('should convert thirds notation to outs', () => {
+    expect(inningsPitchedToOuts(7.2)).toBe(23);
+    expect(inningsPitchedToOuts(5.1)).toBe(16);
+    expect(inningsPitchedToOuts(6)).toBe(18);
+  });
+
+  it('should convert outs back to thirds notation', () => {
+    expect(outsToInningsPitched(23)).toBeCloseTo(7.2);
+    expect(outsToInningsPitched(18)).toBe(6);
+  });
+});
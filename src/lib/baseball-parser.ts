@@ -2,9 +2,18 @@
  * Baseball Box Score HTML Parser
  *
  * Extracts relevant box score data from the College of Marin athletics HTML pages.
- * Converts the messy HTML into clean, structured text that can be parsed by the LLM.
+ * parseBaseballBoxScoreHtml reads the linescore, batting and pitching tables directly
+ * into a BaseballBoxScore. extractBaseballBoxScoreText converts the messy HTML into
+ * clean, structured text for the LLM fallback path.
  */
 
+import type {
+  BaseballBatterStats,
+  BaseballBoxScore,
+  BaseballPitcherStats,
+  BaseballTeamStats,
+} from '../../baml_client/index.js';
+
 /**
  * Extract clean box score text from HTML
  * This preprocessing step reduces the input size significantly for LLM parsing.
@@ -192,3 +201,277 @@ export function extractBaseballBoxScoreText(html: string): string {
 
   return lines.join('\n');
 }
+
+// ============================================================================
+// Structured Parsing
+// ============================================================================
+
+const TEAM_CAPTION = /<caption class="caption"><h2>[\s\S]*?(?:<span class="team-name[^"]*">|<a[^>]*class="team-name[^"]*"[^>]*>[\s\n]*)([^<]+?)(?:<\/span>|[\s\n]*<\/a>)[\s\S]*?/;
+
+/**
+ * Convert innings pitched in baseball notation (5.1 = 5 1/3) to outs recorded
+ */
+export function inningsPitchedToOuts(inningsPitched: number): number {
+  const whole = Math.trunc(inningsPitched);
+  const thirds = Math.round((inningsPitched - whole) * 10);
+  return whole * 3 + thirds;
+}
+
+/**
+ * Convert outs recorded back to innings pitched notation (16 outs = 5.1)
+ */
+export function outsToInningsPitched(outs: number): number {
+  return Math.trunc(outs / 3) + (outs % 3) / 10;
+}
+
+function toInt(value: string | undefined): number {
+  const parsed = parseInt((value || '').trim(), 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read column labels from a table's thead, skipping the player column.
+ * Returns null when there is no header row to map against.
+ */
+function readColumnLabels(tableContent: string): string[] | null {
+  const thead = tableContent.match(/<thead>([\s\S]*?)<\/thead>/);
+  if (!thead) return null;
+
+  const labels = [...thead[1].matchAll(/<th[^>]*>([\s\S]*?)<\/th>/g)].map(m => stripTags(m[1]).toUpperCase());
+  return labels.length > 1 ? labels.slice(1) : null;
+}
+
+/**
+ * Look up a stat by column label, falling back to a fixed position
+ */
+function statLookup(labels: string[] | null, stats: string[]) {
+  return (aliases: string[], fallbackIndex: number | null): string | undefined => {
+    if (labels) {
+      const index = labels.findIndex(label => aliases.includes(label));
+      return index === -1 ? undefined : stats[index];
+    }
+    return fallbackIndex === null ? undefined : stats[fallbackIndex];
+  };
+}
+
+/**
+ * Split a table body into row-head cells and their stat cells
+ */
+function readRows(tableContent: string): Array<{ cell: string; stats: string[] }> {
+  const body = tableContent.replace(/<tfoot>[\s\S]*?<\/tfoot>/, '').replace(/<thead>[\s\S]*?<\/thead>/, '');
+  return [...body.matchAll(/<th[^>]*class="row-head[^"]*"[^>]*>([\s\S]*?)<\/th>([\s\S]*?)(?=<\/tr>)/g)].map(row => ({
+    cell: row[1],
+    stats: [...row[2].matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim()),
+  }));
+}
+
+function readTotals(tableContent: string): string[] | null {
+  const tfoot = tableContent.match(/<tfoot>([\s\S]*?)<\/tfoot>/);
+  if (!tfoot) return null;
+  const totals = [...tfoot[1].matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim());
+  return totals.length > 0 ? totals : null;
+}
+
+function extractRowName(cell: string): string {
+  const nameMatch = cell.match(/class="player-name[^"]*"[^>]*>([^<]+)</) ||
+                    cell.match(/>([^<]+)<\/span>\s*<span>/) ||
+                    cell.match(/>([^<]+)<\/a>/);
+  return nameMatch ? nameMatch[1].trim() : stripTags(cell).replace(/\(.*?\)/g, '').trim();
+}
+
+function parseBatters(tableContent: string): { batters: BaseballBatterStats[]; leftOnBase: number | null } {
+  const labels = readColumnLabels(tableContent);
+  const batters: BaseballBatterStats[] = [];
+
+  for (const row of readRows(tableContent)) {
+    const name = extractRowName(row.cell);
+    if (!name || name.toLowerCase().includes('totals')) continue;
+    if (!labels && row.stats.length < 6) continue;
+
+    const stat = statLookup(labels, row.stats);
+    const posMatch = row.cell.match(/<span>(\w+)<\/span>/);
+    const optional = (aliases: string[]) => {
+      const value = stat(aliases, null);
+      return value === undefined ? null : toInt(value);
+    };
+
+    batters.push({
+      name,
+      position: posMatch ? posMatch[1] : null,
+      at_bats: toInt(stat(['AB'], 0)),
+      runs: toInt(stat(['R'], 1)),
+      hits: toInt(stat(['H'], 2)),
+      rbi: toInt(stat(['RBI'], 3)),
+      walks: toInt(stat(['BB'], 4)),
+      strikeouts: toInt(stat(['SO', 'K'], 5)),
+      left_on_base: toInt(stat(['LOB'], 6)),
+      doubles: optional(['2B']),
+      triples: optional(['3B']),
+      home_runs: optional(['HR']),
+      stolen_bases: optional(['SB']),
+      hit_by_pitch: optional(['HBP']),
+      sacrifice_flies: optional(['SF']),
+      sacrifice_bunts: optional(['SH']),
+    });
+  }
+
+  const totals = readTotals(tableContent);
+  let leftOnBase: number | null = null;
+  if (totals) {
+    // tfoot repeats the body columns, sometimes with a leading label cell
+    const offset = labels ? totals.length - labels.length : Math.max(0, totals.length - 7);
+    const lobIndex = labels ? labels.indexOf('LOB') : 6;
+    if (lobIndex !== -1 && totals[offset + lobIndex] !== undefined) {
+      leftOnBase = toInt(totals[offset + lobIndex]);
+    }
+  }
+
+  return { batters, leftOnBase };
+}
+
+function parsePitchers(tableContent: string): BaseballPitcherStats[] {
+  const labels = readColumnLabels(tableContent);
+  const pitchers: BaseballPitcherStats[] = [];
+
+  for (const row of readRows(tableContent)) {
+    const name = extractRowName(row.cell);
+    if (!name || name.toLowerCase().includes('totals')) continue;
+    if (!labels && row.stats.length < 6) continue;
+
+    const stat = statLookup(labels, row.stats);
+    const optional = (aliases: string[]) => {
+      const value = stat(aliases, null);
+      return value === undefined ? null : toInt(value);
+    };
+
+    // Decision and season record, e.g. "(W, 3-1)" or "(S, 4)"
+    const decisionMatch = stripTags(row.cell).match(/\((W|L|S|H)\s*,?\s*([\d-]*)\)/);
+    const era = stat(['ERA'], null);
+
+    pitchers.push({
+      name,
+      innings_pitched: parseFloat(stat(['IP'], 0) || '0') || 0,
+      hits_allowed: toInt(stat(['H'], 1)),
+      runs_allowed: toInt(stat(['R'], 2)),
+      earned_runs: toInt(stat(['ER'], 3)),
+      walks: toInt(stat(['BB'], 4)),
+      strikeouts: toInt(stat(['SO', 'K'], 5)),
+      home_runs_allowed: optional(['HR']),
+      pitches: optional(['NP', 'PITCHES']),
+      batters_faced: optional(['BF']),
+      decision: decisionMatch ? decisionMatch[1] : null,
+      record: decisionMatch && decisionMatch[2] ? decisionMatch[2] : null,
+      era: era === undefined || era === '' ? null : parseFloat(era),
+    });
+  }
+
+  return pitchers;
+}
+
+/**
+ * Parse the linescore into per-team inning runs and R/H/E totals (away first)
+ */
+function parseLineScore(html: string): Array<{ team: string; innings: number[]; runs: number; hits: number; errors: number }> {
+  const lineScoreSection = html.match(/<div class="linescore">([\s\S]*?)<\/table>/);
+  if (!lineScoreSection) return [];
+
+  const teamRowMatches = [...lineScoreSection[1].matchAll(/<th[^>]*class="name[^"]*"[^>]*>([^<]+)<\/th>([\s\S]*?)(?=<\/tr>)/g)];
+
+  return teamRowMatches.map(row => {
+    // Unplayed bottom halves show as "X" or blank
+    const innings = [...row[2].matchAll(/<td class="score">([^<]*)<\/td>/g)].map(m => toInt(m[1]));
+    const totals = [...row[2].matchAll(/<td class="score total">(\d+)<\/td>/g)].map(m => toInt(m[1]));
+    return {
+      team: row[1].trim(),
+      innings,
+      runs: totals[0] ?? innings.reduce((a, b) => a + b, 0),
+      hits: totals[1] ?? 0,
+      errors: totals[2] ?? 0,
+    };
+  });
+}
+
+/**
+ * Parse College of Marin / SIDEARM baseball box score HTML into a BaseballBoxScore
+ *
+ * This is the deterministic alternative to ParseBaseballBoxScore. Innings pitched
+ * stays in baseball notation (5.1 = 5 1/3); use inningsPitchedToOuts to do math on it.
+ *
+ * @param html - Raw box score page HTML
+ * @returns Parsed BaseballBoxScore, or null if the linescore or stat tables are missing
+ */
+export function parseBaseballBoxScoreHtml(html: string): BaseballBoxScore | null {
+  const lineScore = parseLineScore(html);
+  if (lineScore.length < 2) return null;
+
+  const batterSections = [...html.matchAll(new RegExp(TEAM_CAPTION.source + 'Batters[\\s\\S]*?<\\/caption>([\\s\\S]*?)<\\/table>', 'g'))];
+  const pitcherSections = [...html.matchAll(new RegExp(TEAM_CAPTION.source + 'Pitchers[\\s\\S]*?<\\/caption>([\\s\\S]*?)<\\/table>', 'g'))];
+  if (batterSections.length < 2 || pitcherSections.length < 2) return null;
+
+  // Team names from the scoreboard spans, falling back to the linescore labels
+  const teamNames: string[] = [];
+  for (const match of html.matchAll(/<span class="team-name[^"]*">([^<]+)<\/span>/g)) {
+    const name = match[1].trim();
+    if (name && !teamNames.includes(name)) teamNames.push(name);
+    if (teamNames.length >= 2) break;
+  }
+  const [awayName, homeName] = teamNames.length >= 2
+    ? teamNames
+    : [batterSections[0][1].trim(), batterSections[1][1].trim()];
+
+  const buildTeam = (index: number, teamName: string): BaseballTeamStats => {
+    const { batters, leftOnBase } = parseBatters(batterSections[index][2]);
+    const pitchers = parsePitchers(pitcherSections[index][2]);
+    const line = lineScore[index];
+    const atBats = batters.reduce((sum, b) => sum + b.at_bats, 0);
+
+    return {
+      team_name: teamName,
+      runs: line.runs,
+      hits: line.hits,
+      errors: line.errors,
+      left_on_base: leftOnBase,
+      batters,
+      pitchers,
+      team_batting_average: atBats > 0 ? Math.round((line.hits / atBats) * 1000) / 1000 : null,
+    };
+  };
+
+  const away_team = buildTeam(0, awayName);
+  const home_team = buildTeam(1, homeName);
+  if (away_team.batters.length === 0 || home_team.batters.length === 0) return null;
+
+  const attendanceMatch = html.match(/Attendance:\s*([\d,]+)/i);
+  const durationMatch = html.match(/Time:\s*([\d:]+)/i);
+  const dateMatch = html.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  const weatherMatch = stripTags(html).match(/Weather:\s*(.+?)(?=\s+(?:Umpires?|Attendance|Time|Start)\b|$)/i);
+  const umpiresMatch = stripTags(html).match(/Umpires?:?\s*-?\s*(.+?)(?=\s+(?:Weather|Attendance|Time|Start)\b|$)/i);
+  const venueMatch = stripTags(html).match(/(?:Site|Stadium|Location):\s*(.+?)(?=\s+(?:Weather|Umpires?|Attendance|Time|Start)\b|$)/i);
+
+  return {
+    metadata: {
+      date: dateMatch ? dateMatch[0] : null,
+      venue: venueMatch ? venueMatch[1].trim() : null,
+      home_team: homeName,
+      away_team: awayName,
+      home_score: home_team.runs,
+      away_score: away_team.runs,
+      innings: Math.max(lineScore[0].innings.length, lineScore[1].innings.length),
+      attendance: attendanceMatch ? toInt(attendanceMatch[1].replace(/,/g, '')) : null,
+      duration: durationMatch ? durationMatch[1] : null,
+      game_type: null,
+      weather: weatherMatch ? weatherMatch[1].trim() : null,
+      umpires: umpiresMatch
+        ? umpiresMatch[1].split(/[;,]/).map(u => u.trim()).filter(Boolean)
+        : null,
+    },
+    home_team,
+    away_team,
+    inning_scores: [lineScore[0].innings, lineScore[1].innings],
+    sport: 'baseball',
+  };
+}
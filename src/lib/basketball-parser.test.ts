@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseBasketballBoxScoreText } from './basketball-parser.js';
+
+const REGULATION_GAME = `
+                         Women's Basketball
+          Skyline vs Marin (11/01/2023 at Kentfield, Calif.)
+
+VISITORS: Skyline 0-1
+                                  TOT-FG  3-PT         REBOUNDS
+## Player Name                    FG-FGA FG-FGA FT-FTA OF DE TOT PF  TP   A TO BLK STL MIN
+03 SMITH, Jane............... *    6-14    2-5    3-4   1  4   5  2  17   3  2   0   1  34
+11 Lopez, Maria.............. *    4-10    0-2    2-2   3  6   9  3  10   1  3   1   0  30
+14 Nguyen, Ana...............      2-6     1-3    0-0   0  1   1  1   5   2  1   0   2  16
+   TEAM......................                          1  2   3
+   Totals....................     12-30    3-10   5-6   5 13  18  6  32   6  6   1   3  80
+TOTAL FG% 1st Half: 6-15 40.0%   2nd half: 6-15 40.0%   Game: 40.0%
+3-Pt. FG% 1st Half: 1-5 20.0%    2nd half: 2-5 40.0%    Game: 30.0%
+F Throw % 1st Half: 2-3 66.7%    2nd half: 3-3 100%     Game: 83.3%
+
+HOME TEAM: Marin 1-0
+                                  TOT-FG  3-PT         REBOUNDS
+## Player Name                    FG-FGA FG-FGA FT-FTA OF DE TOT PF  TP   A TO BLK STL MIN
+05 Crosswhite, Isobel........ *   10-16    0-0    4-6   6 10  16  2  24   2  1   3   1  36
+22 Park, Dana................ *    3-9     2-6    0-0   0  2   2  1   8   5  0   0   2  32
+30 Reyes, Sofia..............      1-4     0-1    2-2   1  1   2  0   4   0  2   0   0  12
+   TEAM......................                          0  1   1
+   Totals....................     14-29    2-7    6-8   7 14  21  3  36   7  3   3   3  80
+TOTAL FG% 1st Half: 7-14 50.0%   2nd half: 7-15 46.7%   Game: 48.3%
+
+Officials: Pat Jones, Lee Kim
+Attendance: 112
+Score by Periods                 1st  2nd  3rd  4th   Total
+Skyline........................    8    9    7    8  -  32
+Marin..........................   10    8    9    9  -  36
+`;
+
+const OVERTIME_GAME = `
+          Foothill vs Marin (11/10/2023 at Marin)
+          Conference game
+
+VISITORS: Foothill
+03 Gamble, Te'Shawn.........     *  3-11    0-5   8-10   0  4   4  2  14   3  4   0   7  40
+   Totals....................       3-11    0-5   8-10   0  4   4  2  14   3  4   0   7  40
+
+HOME TEAM: Marin
+10 Perez, Alex...............     *  5-12    1-3   1-2    2  8  10  1  12   1  0   1   0  40
+   Totals....................       5-12    1-3   1-2    2  8  10  1  12   1  0   1   0  40
+
+Score by Periods                 1st  2nd   OT   Total
+Foothill.......................    5    4    5  -  14
+Marin..........................    4    5    3  -  12
+`;
+
+describe('parseBasketballBoxScoreText', () => {
+  it('should parse game metadata from the header and totals rows', () => {
+    const boxScore = parseBasketballBoxScoreText(REGULATION_GAME);
+
+    expect(boxScore).not.toBeNull();
+    expect(boxScore!.metadata.away_team).toBe('Skyline');
+    expect(boxScore!.metadata.home_team).toBe('Marin');
+    expect(boxScore!.metadata.away_score).toBe(32);
+    expect(boxScore!.metadata.home_score).toBe(36);
+    expect(boxScore!.metadata.date).toBe('11/01/2023');
+    expect(boxScore!.metadata.venue).toBe('Kentfield, Calif.');
+    expect(boxScore!.metadata.periods).toBe(4);
+    expect(boxScore!.metadata.is_overtime).toBe(false);
+  });
+
+  it('should parse player rows with starters and normalized names', () => {
+    const boxScore = parseBasketballBoxScoreText(REGULATION_GAME)!;
+
+    expect(boxScore.away_team.players).toHaveLength(3);
+    const smith = boxScore.away_team.players[0];
+    expect(smith.name).toBe('Jane Smith');
+    expect(smith.starter).toBe(true);
+    expect(smith.points).toBe(17);
+    expect(smith.field_goals_made).toBe(6);
+    expect(smith.field_goals_attempted).toBe(14);
+    expect(smith.three_pointers_made).toBe(2);
+    expect(smith.free_throws_attempted).toBe(4);
+    expect(smith.rebounds).toBe(5);
+    expect(smith.minutes).toBe(34);
+
+    const nguyen = boxScore.away_team.players[2];
+    expect(nguyen.name).toBe('Ana Nguyen');
+    expect(nguyen.starter).toBe(false);
+  });
+
+  it('should compute team totals and percentages from the totals row', () => {
+    const boxScore = parseBasketballBoxScoreText(REGULATION_GAME)!;
+
+    expect(boxScore.home_team.total_points).toBe(36);
+    expect(boxScore.home_team.total_rebounds).toBe(21);
+    expect(boxScore.home_team.field_goal_percentage).toBe(48.3);
+    expect(boxScore.home_team.free_throw_percentage).toBe(75);
+  });
+
+  it('should parse quarter scores with the away team first', () => {
+    const boxScore = parseBasketballBoxScoreText(REGULATION_GAME)!;
+
+    expect(boxScore.quarter_scores).toEqual([
+      [8, 9, 7, 8],
+      [10, 8, 9, 9],
+    ]);
+  });
+
+  it('should detect overtime from the period labels', () => {
+    const boxScore = parseBasketballBoxScoreText(OVERTIME_GAME)!;
+
+    expect(boxScore.metadata.periods).toBe(3);
+    expect(boxScore.metadata.is_overtime).toBe(true);
+    expect(boxScore.metadata.game_type).toBe('Conference');
+    expect(boxScore.away_team.players[0].name).toBe("Te'Shawn Gamble");
+  });
+
+  it('should return null for text that is not a monospace box score', () => {
+    expect(parseBasketballBoxScoreText('State 78, Rival 74. Sarah Chen scored 24.')).toBeNull();
+  });
+
+  it('should be deterministic for the same input', () => {
+    expect(parseBasketballBoxScoreText(REGULATION_GAME)).toEqual(
+      parseBasketballBoxScoreText(REGULATION_GAME)
+    );
+  });
+});
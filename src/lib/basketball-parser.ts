@@ -0,0 +1,373 @@
+/**
+ * Basketball Box Score Monospace Parser
+ *
+ * Parses the fixed-width SIDEARM `bbxml-monospace-template` output (the classic
+ * StatCrew text box score) directly into a BoxScore. This is a rule-based parser
+ * with no LLM call, so a full season parses in milliseconds and always produces
+ * the same output for the same input.
+ *
+ * The expected layout looks like:
+ *
+ *   Skyline vs Marin (11/01/2023 at Kentfield, Calif.)
+ *
+ *   VISITORS: Skyline 0-1
+ *                                    TOT-FG  3-PT         REBOUNDS
+ *   ## Player Name                   FG-FGA FG-FGA FT-FTA OF DE TOT PF  TP   A TO BLK STL MIN
+ *   03 Smith, Jane.............. *    3-8    1-3    0-0   1  2   3  2   7   1  2   0   1  30
+ *      TEAM......................                          1  2   3
+ *      Totals....................   25-61   5-20  12-16  10 30  40 18  67  16 14   6   4 200
+ *
+ *   HOME TEAM: Marin 1-0
+ *   ...
+ *
+ *   Score by Periods                 1st  2nd  3rd  4th   Total
+ *   Skyline........................   15   20   18   14  -  67
+ *   Marin..........................   20   18   22   15  -  75
+ *
+ * Returns null when the text doesn't look like a monospace box score, so callers
+ * can fall back to the LLM parser.
+ */
+
+import type { BoxScore, PlayerStats, TeamStats } from '../../baml_client/index.js';
+
+/**
+ * Counting stats parsed from one player or totals row
+ */
+interface RowStats {
+  field_goals_made: number;
+  field_goals_attempted: number;
+  three_pointers_made: number;
+  three_pointers_attempted: number;
+  free_throws_made: number;
+  free_throws_attempted: number;
+  offensive_rebounds: number;
+  defensive_rebounds: number;
+  rebounds: number;
+  fouls: number;
+  points: number;
+  assists: number;
+  turnovers: number;
+  blocks: number;
+  steals: number;
+  minutes: number;
+}
+
+/**
+ * A single stat row split into its name column and numeric columns
+ */
+interface ParsedRow {
+  name: string;
+  position: string | null;
+  starter: boolean;
+  stats: RowStats;
+}
+
+/**
+ * Team section as it appears in the text, before conversion to TeamStats
+ */
+interface TeamSection {
+  name: string;
+  players: ParsedRow[];
+  totals: RowStats | null;
+}
+
+const MADE_ATTEMPTED = /^(\d+)-(\d+)$/;
+const SECTION_HEADER = /^\s*(VISITORS|HOME TEAM)\s*:\s*(.+?)\s*$/i;
+const SECTION_END = /^\s*(score by period|officials|technical fouls|attendance|points in the paint)/i;
+
+/**
+ * Convert "Last, First" to "First Last" and tame ALL-CAPS surnames
+ */
+function normalizePlayerName(raw: string): string {
+  const cleaned = raw.replace(/\s+/g, ' ').trim();
+  const titleCase = (word: string) =>
+    word.length > 1 && word === word.toUpperCase() && /[A-Z]/.test(word)
+      ? word.charAt(0) + word.slice(1).toLowerCase()
+      : word;
+
+  const parts = cleaned.split(',').map((p) => p.trim()).filter(Boolean);
+  const ordered = parts.length === 2 ? `${parts[1]} ${parts[0]}` : cleaned;
+
+  return ordered
+    .split(' ')
+    .map((word) => word.split('-').map(titleCase).join('-'))
+    .join(' ');
+}
+
+/**
+ * Strip a trailing win-loss record from a team header, e.g. "Marin 1-0" -> "Marin"
+ */
+function stripRecord(teamName: string): string {
+  return teamName.replace(/\s*\(?\d+-\d+(?:-\d+)?\)?\s*$/, '').trim();
+}
+
+/**
+ * Parse one stat line. Returns null for lines that aren't player or totals rows
+ * (headers, team rebound rows, shooting-by-half lines, blank lines).
+ */
+function parseStatRow(line: string): ParsedRow | null {
+  const tokens = line.trim().split(/\s+/);
+  const firstShooting = tokens.findIndex((t) => MADE_ATTEMPTED.test(t));
+  if (firstShooting < 1) return null;
+
+  const shooting = tokens.slice(firstShooting, firstShooting + 3);
+  if (shooting.length < 3 || !shooting.every((t) => MADE_ATTEMPTED.test(t))) return null;
+
+  const counts = tokens.slice(firstShooting + 3).map((t) => parseInt(t, 10));
+  if (counts.length < 10 || counts.slice(0, 10).some((n) => Number.isNaN(n))) return null;
+
+  // Everything before the shooting columns is "## Name..... [pos] [*]"
+  let head = tokens.slice(0, firstShooting).join(' ');
+  if (/[:%]/.test(head)) return null;
+
+  let starter = false;
+  let position: string | null = null;
+
+  head = head.replace(/^\d{1,3}\s+/, '');
+
+  // Starter asterisk and position letter trail the dot leader, in either order
+  const dotLeader = head.match(/^(.*?)\.{2,}\s*(.*)$/);
+  if (dotLeader) {
+    head = dotLeader[1];
+    for (const marker of dotLeader[2].split(/\s+/)) {
+      if (marker === '*') starter = true;
+      else if (/^[fgc]$/i.test(marker)) position = marker.toUpperCase();
+    }
+  } else {
+    while (/\s(\*|[fgcFGC])$/.test(head) || head.endsWith('*')) {
+      const marker = head.slice(-1);
+      if (marker === '*') starter = true;
+      else position = marker.toUpperCase();
+      head = head.slice(0, -1).trimEnd();
+    }
+  }
+
+  const name = head.replace(/\.+$/, '').trim();
+  if (!name) return null;
+
+  const [fg, three, ft] = shooting.map((t) => t.match(MADE_ATTEMPTED)!);
+  const [off, def, tot, pf, tp, a, to, blk, stl, min = 0] = counts;
+
+  return {
+    name,
+    position,
+    starter,
+    stats: {
+      field_goals_made: parseInt(fg[1], 10),
+      field_goals_attempted: parseInt(fg[2], 10),
+      three_pointers_made: parseInt(three[1], 10),
+      three_pointers_attempted: parseInt(three[2], 10),
+      free_throws_made: parseInt(ft[1], 10),
+      free_throws_attempted: parseInt(ft[2], 10),
+      offensive_rebounds: off,
+      defensive_rebounds: def,
+      rebounds: tot,
+      fouls: pf,
+      points: tp,
+      assists: a,
+      turnovers: to,
+      blocks: blk,
+      steals: stl,
+      minutes: Number.isNaN(min) ? 0 : min,
+    },
+  };
+}
+
+/**
+ * Split the text into the visitor and home team sections
+ */
+function parseTeamSections(lines: string[]): { away: TeamSection; home: TeamSection } | null {
+  const sections: Record<'away' | 'home', TeamSection | null> = { away: null, home: null };
+  let current: TeamSection | null = null;
+
+  for (const line of lines) {
+    const header = line.match(SECTION_HEADER);
+    if (header) {
+      current = { name: stripRecord(header[2]), players: [], totals: null };
+      sections[header[1].toUpperCase() === 'VISITORS' ? 'away' : 'home'] = current;
+      continue;
+    }
+
+    if (!current) continue;
+    if (SECTION_END.test(line)) {
+      current = null;
+      continue;
+    }
+
+    const row = parseStatRow(line);
+    if (!row) continue;
+
+    if (/^totals?$/i.test(row.name)) {
+      current.totals = row.stats;
+    } else if (!/^team$/i.test(row.name)) {
+      current.players.push(row);
+    }
+  }
+
+  if (!sections.away || !sections.home) return null;
+  return { away: sections.away, home: sections.home };
+}
+
+/**
+ * Parse the "Score by Periods" block into per-team period scores.
+ * Returns scores as [away, home] plus the column labels (1st, 2nd, OT, ...).
+ */
+function parsePeriodScores(lines: string[]): { scores: number[][]; labels: string[] } | null {
+  const headerIndex = lines.findIndex((l) => /score by period/i.test(l));
+  if (headerIndex === -1) return null;
+
+  const labels = lines[headerIndex]
+    .replace(/score by periods?/i, '')
+    .trim()
+    .split(/\s+/)
+    .filter((label) => label && !/^total$/i.test(label));
+
+  const teamLines = lines
+    .slice(headerIndex + 1)
+    .filter((l) => l.trim() !== '')
+    .slice(0, 2);
+  if (teamLines.length < 2) return null;
+
+  const scores = teamLines.map((line) => {
+    const numbers = line.replace(/^[^.]*\.+/, '').match(/\d+/g) || [];
+    // Final number is the game total, everything before it is per-period
+    return numbers.slice(0, -1).map((n) => parseInt(n, 10));
+  });
+
+  if (scores.some((s) => s.length === 0)) return null;
+  return { scores, labels };
+}
+
+function percentage(made: number, attempted: number): number {
+  return attempted > 0 ? Math.round((made / attempted) * 1000) / 10 : 0;
+}
+
+function sumStat(players: ParsedRow[], key: keyof RowStats): number {
+  return players.reduce((sum, p) => sum + p.stats[key], 0);
+}
+
+/**
+ * Build TeamStats from a parsed section. Uses the Totals row when present,
+ * otherwise sums the player rows.
+ */
+function toTeamStats(section: TeamSection): TeamStats {
+  const players: PlayerStats[] = section.players.map((row) => ({
+    name: normalizePlayerName(row.name),
+    position: row.position,
+    starter: row.starter,
+    minutes: row.stats.minutes,
+    points: row.stats.points,
+    rebounds: row.stats.rebounds,
+    offensive_rebounds: row.stats.offensive_rebounds,
+    defensive_rebounds: row.stats.defensive_rebounds,
+    assists: row.stats.assists,
+    steals: row.stats.steals,
+    blocks: row.stats.blocks,
+    turnovers: row.stats.turnovers,
+    fouls: row.stats.fouls,
+    field_goals_made: row.stats.field_goals_made,
+    field_goals_attempted: row.stats.field_goals_attempted,
+    three_pointers_made: row.stats.three_pointers_made,
+    three_pointers_attempted: row.stats.three_pointers_attempted,
+    free_throws_made: row.stats.free_throws_made,
+    free_throws_attempted: row.stats.free_throws_attempted,
+  }));
+
+  const totals: RowStats = section.totals ?? {
+    field_goals_made: sumStat(section.players, 'field_goals_made'),
+    field_goals_attempted: sumStat(section.players, 'field_goals_attempted'),
+    three_pointers_made: sumStat(section.players, 'three_pointers_made'),
+    three_pointers_attempted: sumStat(section.players, 'three_pointers_attempted'),
+    free_throws_made: sumStat(section.players, 'free_throws_made'),
+    free_throws_attempted: sumStat(section.players, 'free_throws_attempted'),
+    offensive_rebounds: sumStat(section.players, 'offensive_rebounds'),
+    defensive_rebounds: sumStat(section.players, 'defensive_rebounds'),
+    rebounds: sumStat(section.players, 'rebounds'),
+    fouls: sumStat(section.players, 'fouls'),
+    points: sumStat(section.players, 'points'),
+    assists: sumStat(section.players, 'assists'),
+    turnovers: sumStat(section.players, 'turnovers'),
+    blocks: sumStat(section.players, 'blocks'),
+    steals: sumStat(section.players, 'steals'),
+    minutes: sumStat(section.players, 'minutes'),
+  };
+
+  return {
+    team_name: section.name,
+    total_points: totals.points,
+    field_goals_made: totals.field_goals_made,
+    field_goals_attempted: totals.field_goals_attempted,
+    field_goal_percentage: percentage(totals.field_goals_made, totals.field_goals_attempted),
+    three_pointers_made: totals.three_pointers_made,
+    three_pointers_attempted: totals.three_pointers_attempted,
+    three_point_percentage: percentage(totals.three_pointers_made, totals.three_pointers_attempted),
+    free_throws_made: totals.free_throws_made,
+    free_throws_attempted: totals.free_throws_attempted,
+    free_throw_percentage: percentage(totals.free_throws_made, totals.free_throws_attempted),
+    total_rebounds: totals.rebounds,
+    offensive_rebounds: totals.offensive_rebounds,
+    defensive_rebounds: totals.defensive_rebounds,
+    assists: totals.assists,
+    steals: totals.steals,
+    blocks: totals.blocks,
+    turnovers: totals.turnovers,
+    fouls: totals.fouls,
+    players,
+  };
+}
+
+/**
+ * Parse monospace basketball box score text into a BoxScore
+ *
+ * quarter_scores follows the baseball convention: index 0 is the away (visiting)
+ * team, index 1 is the home team.
+ *
+ * @param rawText - Output of the bbxml-monospace-template
+ * @returns Parsed BoxScore, or null if the text isn't in the expected format
+ */
+export function parseBasketballBoxScoreText(rawText: string): BoxScore | null {
+  // The template is sometimes wrapped in <pre> or a minimal HTML page
+  const text = rawText
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/\r\n?/g, '\n');
+  const lines = text.split('\n');
+
+  const sections = parseTeamSections(lines);
+  if (!sections) return null;
+  if (sections.away.players.length === 0 || sections.home.players.length === 0) return null;
+
+  const away_team = toTeamStats(sections.away);
+  const home_team = toTeamStats(sections.home);
+
+  const periodScores = parsePeriodScores(lines);
+  const periods = periodScores ? periodScores.scores[0].length : 2;
+  const hasOvertimeLabel = periodScores?.labels.some((l) => /OT/i.test(l)) ?? false;
+  const is_overtime = hasOvertimeLabel || periods === 3 || periods > 4;
+
+  const dateMatch = text.match(/\b(\d{1,2}\/\d{1,2}\/\d{4})\b/);
+  const venueMatch = text.match(/\d{1,2}\/\d{1,2}\/\d{2,4}[^)\n]*?\bat\s+([^)\n]+?)\s*\)?\s*$/m);
+  const isConference = lines.some(
+    (l) => /\bconference\b/i.test(l) && !SECTION_HEADER.test(l)
+  );
+
+  return {
+    metadata: {
+      date: dateMatch ? dateMatch[1] : null,
+      venue: venueMatch ? venueMatch[1].trim() : null,
+      home_team: home_team.team_name,
+      away_team: away_team.team_name,
+      home_score: home_team.total_points,
+      away_score: away_team.total_points,
+      is_overtime,
+      periods,
+      game_type: isConference ? 'Conference' : null,
+    },
+    home_team,
+    away_team,
+    quarter_scores: periodScores ? periodScores.scores : null,
+    sport: 'basketball',
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests for the cache's parsed game lookups
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// The cache opens inbox/cache.db on import; give it an in-memory database instead
+vi.mock('better-sqlite3', async () => {
+  const { default: Database } = await vi.importActual<{ default: typeof import('better-sqlite3') }>('better-sqlite3');
+  return {
+    default: class extends Database {
+      constructor() {
+        super(':memory:');
+      }
+    },
+  };
+});
+
+const { hashContent, storeRawInput, storeParsedBoxScore, linkParsedBoxScoreToRawInput, getParsedGamesForDate, getParsedGameDates } =
+  await import('./cache.js');
+
+describe('getParsedGamesForDate', () => {
+  it('should find a text box score parsed under its own hash', () => {
+    const text = 'Marin 70, Skyline 60';
+    storeRawInput('inbox/2026-01-10_wbkb_skyline.txt', text, 'wbkb', '2026-01-10');
+    storeParsedBoxScore(hashContent(text), { sport: 'basketball' });
+
+    expect(getParsedGamesForDate('2026-01-10')).toMatchObject([{ sport: 'wbkb', boxScore: { sport: 'basketball' } }]);
+  });
+
+  it('should find an HTML page parsed under its extracted text', () => {
+    const html = '<!DOCTYPE html><html><body>Marin 5, Skyline 3</body></html>';
+    storeRawInput('inbox/2026-03-02_bsb_skyline.html', html, 'bsb', '2026-03-02');
+    storeParsedBoxScore(hashContent('Marin 5, Skyline 3'), { sport: 'baseball' }, 'deterministic', hashContent(html));
+
+    expect(getParsedGamesForDate('2026-03-02')).toMatchObject([{ sport: 'bsb', boxScore: { sport: 'baseball' } }]);
+    expect(getParsedGameDates()).toContain('2026-03-02');
+  });
+
+  it('should find a parse cached before the page was linked to it', () => {
+    const html = '<!DOCTYPE html><html><body>Marin 2, Skyline 1</body></html>';
+    const textHash = hashContent('Marin 2, Skyline 1');
+    storeRawInput('inbox/2026-09-12_wsoc_skyline.html', html, 'wsoc', '2026-09-12');
+    storeParsedBoxScore(textHash, { sport: 'soccer' });
+    expect(getParsedGamesForDate('2026-09-12')).toEqual([]);
+
+    linkParsedBoxScoreToRawInput(textHash, hashContent(html));
+
+    expect(getParsedGamesForDate('2026-09-12')).toMatchObject([{ sport: 'wsoc', boxScore: { sport: 'soccer' } }]);
+  });
+});
@@ -43,6 +43,7 @@ db.exec(`
     input_hash TEXT UNIQUE NOT NULL,
     boxscore_json TEXT NOT NULL,
     model TEXT,
+    raw_input_hash TEXT,           -- hash of the raw input (page HTML) it was parsed from
     created_at TEXT DEFAULT (datetime('now'))
   );
 
@@ -62,6 +63,11 @@ db.exec(`
     interview_type TEXT NOT NULL,  -- 'onboarding' or 'game'
     questions_json TEXT NOT NULL,
     model TEXT,
+    answers_json TEXT,             -- the SID's answers, once submitted
+    context_update_json TEXT,      -- ContextUpdate extracted from the answers
+    context_diff_json TEXT,        -- changes the update made to the stored context
+    program TEXT,
+    answered_at TEXT,
     created_at TEXT DEFAULT (datetime('now'))
   );
 
@@ -83,6 +89,16 @@ db.exec(`
     created_at TEXT DEFAULT (datetime('now'))
   );
 
+  -- Short-form versions of a recap (output of the channel generators)
+  CREATE TABLE IF NOT EXISTS channel_outputs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    input_hash TEXT UNIQUE NOT NULL,
+    channel TEXT NOT NULL,
+    output_json TEXT NOT NULL,
+    model TEXT,
+    created_at TEXT DEFAULT (datetime('now'))
+  );
+
   -- In-progress jobs (for deduplication during long LLM calls)
   CREATE TABLE IF NOT EXISTS jobs (
     id TEXT PRIMARY KEY,
@@ -106,6 +122,30 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
 `);
 
+// Answer columns were added after the interviews table first shipped
+const interviewColumns = (db.prepare('PRAGMA table_info(interviews)').all() as { name: string }[]).map((c) => c.name);
+for (const column of ['answers_json', 'context_update_json', 'context_diff_json', 'program', 'answered_at']) {
+  if (!interviewColumns.includes(column)) {
+    db.exec(`ALTER TABLE interviews ADD COLUMN ${column} TEXT`);
+  }
+}
+
+// Voice and fact-check reports ride along with the recap they check, and the
+// box score with the recap written from it so exports can print its tables
+const recapColumns = (db.prepare('PRAGMA table_info(recaps)').all() as { name: string }[]).map((c) => c.name);
+for (const column of ['voice_report_json', 'voice_profile_hash', 'boxscore_json', 'fact_check_json', 'review_status']) {
+  if (!recapColumns.includes(column)) {
+    db.exec(`ALTER TABLE recaps ADD COLUMN ${column} TEXT`);
+  }
+}
+
+// The raw input a box score was parsed from: HTML sports cache the parse under
+// extracted text, so input_hash alone doesn't lead back to raw_inputs
+const parsedColumns = (db.prepare('PRAGMA table_info(parsed_boxscores)').all() as { name: string }[]).map((c) => c.name);
+if (!parsedColumns.includes('raw_input_hash')) {
+  db.exec('ALTER TABLE parsed_boxscores ADD COLUMN raw_input_hash TEXT');
+}
+
 /**
  * Generate a SHA-256 hash of content for cache keys
  */
@@ -144,13 +184,25 @@ export function getRawInput(filePath: string): { content: string; contentHash: s
 
 /**
  * Store parsed box score result
+ *
+ * @param rawInputHash - Hash of the raw input it was parsed from, when that
+ *   isn't the text the parse is cached under
  */
-export function storeParsedBoxScore(inputHash: string, boxScore: object, model?: string): void {
+export function storeParsedBoxScore(inputHash: string, boxScore: object, model?: string, rawInputHash?: string): void {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO parsed_boxscores (input_hash, boxscore_json, model)
-    VALUES (?, ?, ?)
+    INSERT OR REPLACE INTO parsed_boxscores (input_hash, boxscore_json, model, raw_input_hash)
+    VALUES (?, ?, ?, ?)
   `);
-  stmt.run(inputHash, JSON.stringify(boxScore), model ?? null);
+  stmt.run(inputHash, JSON.stringify(boxScore), model ?? null, rawInputHash ?? null);
+}
+
+/**
+ * Record the raw input a cached box score was parsed from (for parses cached
+ * before the link was stored)
+ */
+export function linkParsedBoxScoreToRawInput(inputHash: string, rawInputHash: string): void {
+  const stmt = db.prepare('UPDATE parsed_boxscores SET raw_input_hash = ? WHERE input_hash = ?');
+  stmt.run(rawInputHash, inputHash);
 }
 
 /**
@@ -207,6 +259,75 @@ export function getInterview(inputHash: string): object | null {
   return row ? JSON.parse(row.questions_json) : null;
 }
 
+/**
+ * Answers submitted for a cached interview, with what they changed
+ */
+export interface InterviewAnswerRecord {
+  answers: object[];
+  contextUpdate: object | null;
+  contextDiff: object[] | null;
+  program: string | null;
+  answeredAt: string;
+}
+
+/**
+ * Store the answers to a cached interview, replacing any earlier submission
+ *
+ * @returns false if no interview is cached under the hash
+ */
+export function storeInterviewAnswers(
+  inputHash: string,
+  program: string,
+  answers: object[],
+  contextUpdate: object | null,
+  contextDiff: object[] | null
+): boolean {
+  const stmt = db.prepare(`
+    UPDATE interviews
+    SET answers_json = ?, context_update_json = ?, context_diff_json = ?, program = ?, answered_at = datetime('now')
+    WHERE input_hash = ?
+  `);
+  const result = stmt.run(
+    JSON.stringify(answers),
+    contextUpdate ? JSON.stringify(contextUpdate) : null,
+    contextDiff ? JSON.stringify(contextDiff) : null,
+    program,
+    inputHash
+  );
+  return result.changes > 0;
+}
+
+/**
+ * Get the answers submitted for a cached interview
+ */
+export function getInterviewAnswers(inputHash: string): InterviewAnswerRecord | null {
+  const stmt = db.prepare(`
+    SELECT answers_json, context_update_json, context_diff_json, program, answered_at
+    FROM interviews WHERE input_hash = ? AND answers_json IS NOT NULL
+  `);
+  const row = stmt.get(inputHash) as
+    | { answers_json: string; context_update_json: string | null; context_diff_json: string | null; program: string | null; answered_at: string }
+    | undefined;
+  if (!row) return null;
+
+  return {
+    answers: JSON.parse(row.answers_json),
+    contextUpdate: row.context_update_json ? JSON.parse(row.context_update_json) : null,
+    contextDiff: row.context_diff_json ? JSON.parse(row.context_diff_json) : null,
+    program: row.program,
+    answeredAt: row.answered_at,
+  };
+}
+
+/**
+ * Get a cached interview's type
+ */
+export function getInterviewType(inputHash: string): 'onboarding' | 'game' | null {
+  const stmt = db.prepare('SELECT interview_type FROM interviews WHERE input_hash = ?');
+  const row = stmt.get(inputHash) as { interview_type: 'onboarding' | 'game' } | undefined;
+  return row?.interview_type ?? null;
+}
+
 /**
  * Store narrative synthesis results
  */
@@ -229,13 +350,15 @@ export function getNarrative(inputHash: string): object | null {
 
 /**
  * Store game recap result
+ *
+ * @param boxScore - Box score the recap was written from, kept for exports
  */
-export function storeRecap(inputHash: string, recap: object, model?: string): void {
+export function storeRecap(inputHash: string, recap: object, model?: string, boxScore?: unknown): void {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO recaps (input_hash, recap_json, model)
-    VALUES (?, ?, ?)
+    INSERT OR REPLACE INTO recaps (input_hash, recap_json, model, boxscore_json)
+    VALUES (?, ?, ?, ?)
   `);
-  stmt.run(inputHash, JSON.stringify(recap), model ?? null);
+  stmt.run(inputHash, JSON.stringify(recap), model ?? null, boxScore ? JSON.stringify(boxScore) : null);
 }
 
 /**
@@ -247,8 +370,96 @@ export function getRecap(inputHash: string): object | null {
   return row ? JSON.parse(row.recap_json) : null;
 }
 
+/**
+ * Get the box score stored with a cached recap
+ *
+ * Recaps cached before box scores were kept with them return null.
+ */
+export function getRecapBoxScore(inputHash: string): object | null {
+  const stmt = db.prepare('SELECT boxscore_json FROM recaps WHERE input_hash = ?');
+  const row = stmt.get(inputHash) as { boxscore_json: string | null } | undefined;
+  return row?.boxscore_json ? JSON.parse(row.boxscore_json) : null;
+}
+
+/**
+ * Store channel output (social post, press release, etc.)
+ */
+export function storeChannelOutput(inputHash: string, channel: string, output: object, model?: string): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO channel_outputs (input_hash, channel, output_json, model)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(inputHash, channel, JSON.stringify(output), model ?? null);
+}
+
+/**
+ * Get cached channel output
+ */
+export function getChannelOutput(inputHash: string): object | null {
+  const stmt = db.prepare('SELECT output_json FROM channel_outputs WHERE input_hash = ?');
+  const row = stmt.get(inputHash) as { output_json: string } | undefined;
+  return row ? JSON.parse(row.output_json) : null;
+}
+
+/**
+ * Store a voice adherence report with a cached recap
+ *
+ * @param profileHash - Hash of the voice profile the report checked against
+ * @returns false if no recap is cached under the hash
+ */
+export function storeVoiceReport(inputHash: string, report: object, profileHash: string): boolean {
+  const stmt = db.prepare('UPDATE recaps SET voice_report_json = ?, voice_profile_hash = ? WHERE input_hash = ?');
+  return stmt.run(JSON.stringify(report), profileHash, inputHash).changes > 0;
+}
+
+/**
+ * Get the voice adherence report stored with a cached recap
+ */
+export function getVoiceReport(inputHash: string): { report: object; profileHash: string } | null {
+  const stmt = db.prepare('SELECT voice_report_json, voice_profile_hash FROM recaps WHERE input_hash = ?');
+  const row = stmt.get(inputHash) as { voice_report_json: string | null; voice_profile_hash: string | null } | undefined;
+  if (!row?.voice_report_json || !row.voice_profile_hash) return null;
+  return { report: JSON.parse(row.voice_report_json), profileHash: row.voice_profile_hash };
+}
+
+/**
+ * Whether a recap can be published: held when its fact check found critical
+ * mismatches, until someone approves it
+ */
+export type RecapReviewStatus = 'passed' | 'needs_review' | 'approved';
+
+/**
+ * Store a fact-check report with a cached recap
+ *
+ * @returns false if no recap is cached under the hash
+ */
+export function storeFactCheck(inputHash: string, report: object, needsReview: boolean): boolean {
+  const stmt = db.prepare('UPDATE recaps SET fact_check_json = ?, review_status = ? WHERE input_hash = ?');
+  return stmt.run(JSON.stringify(report), needsReview ? 'needs_review' : 'passed', inputHash).changes > 0;
+}
+
+/**
+ * Get the fact-check report stored with a cached recap and its review status
+ */
+export function getFactCheck(inputHash: string): { report: object; reviewStatus: RecapReviewStatus } | null {
+  const stmt = db.prepare('SELECT fact_check_json, review_status FROM recaps WHERE input_hash = ?');
+  const row = stmt.get(inputHash) as { fact_check_json: string | null; review_status: string | null } | undefined;
+  if (!row?.fact_check_json) return null;
+  return { report: JSON.parse(row.fact_check_json), reviewStatus: (row.review_status ?? 'passed') as RecapReviewStatus };
+}
+
+/**
+ * Release a recap held for review
+ *
+ * @returns false if no recap is cached under the hash
+ */
+export function approveRecap(inputHash: string): boolean {
+  const stmt = db.prepare("UPDATE recaps SET review_status = 'approved' WHERE input_hash = ?");
+  return stmt.run(inputHash).changes > 0;
+}
+
 // Job types for the queue
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'needs_review' | 'failed';
 export type JobPhase = 'queued' | 'validating' | 'calling_llm' | 'parsing_response' | 'complete' | 'error';
 
 export interface Job {
@@ -391,6 +602,21 @@ export function completeJob(jobId: string, result: object): void {
   stmt.run(JSON.stringify(result), jobId);
 }
 
+/**
+ * Finish a job whose result is held for review instead of completed
+ *
+ * @param message - What needs checking, shown as the job's phase message
+ */
+export function holdJobForReview(jobId: string, result: object, message: string): void {
+  const stmt = db.prepare(`
+    UPDATE jobs
+    SET status = 'needs_review', phase = 'complete', phase_message = ?,
+        result_json = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  stmt.run(message, JSON.stringify(result), jobId);
+}
+
 /**
  * Fail job with error
  */
@@ -417,7 +643,7 @@ export function deleteJob(jobId: string): void {
 export function cleanupOldJobs(ttlMinutes: number = 60): number {
   const stmt = db.prepare(`
     DELETE FROM jobs
-    WHERE status IN ('completed', 'failed')
+    WHERE status IN ('completed', 'needs_review', 'failed')
     AND datetime(updated_at) < datetime('now', '-' || ? || ' minutes')
   `);
   const result = stmt.run(ttlMinutes);
@@ -457,6 +683,58 @@ export function getAllRawInputs(): Array<{
   }>;
 }
 
+/**
+ * Get every parsed game from one date, with its site code and box score
+ *
+ * A raw input matches its parse by the hash the parse is cached under (text
+ * inputs) or the raw input hash stored with it (HTML pages).
+ *
+ * @param gameDate - Date from the raw input's filename, YYYY-MM-DD
+ */
+export function getParsedGamesForDate(gameDate: string): Array<{
+  filePath: string;
+  contentHash: string;
+  sport: string | null;
+  gameDate: string;
+  boxScore: object;
+}> {
+  const stmt = db.prepare(`
+    SELECT r.file_path, r.content_hash, r.sport, r.game_date, p.boxscore_json
+    FROM raw_inputs r
+    JOIN parsed_boxscores p ON p.input_hash = r.content_hash OR p.raw_input_hash = r.content_hash
+    WHERE r.game_date = ?
+    ORDER BY r.file_path
+  `);
+  const rows = stmt.all(gameDate) as Array<{
+    file_path: string;
+    content_hash: string;
+    sport: string | null;
+    game_date: string;
+    boxscore_json: string;
+  }>;
+  return rows.map((row) => ({
+    filePath: row.file_path,
+    contentHash: row.content_hash,
+    sport: row.sport,
+    gameDate: row.game_date,
+    boxScore: JSON.parse(row.boxscore_json),
+  }));
+}
+
+/**
+ * Get the dates that have parsed games, newest first
+ */
+export function getParsedGameDates(): string[] {
+  const stmt = db.prepare(`
+    SELECT DISTINCT r.game_date
+    FROM raw_inputs r
+    JOIN parsed_boxscores p ON p.input_hash = r.content_hash OR p.raw_input_hash = r.content_hash
+    WHERE r.game_date IS NOT NULL
+    ORDER BY r.game_date DESC
+  `);
+  return (stmt.all() as { game_date: string }[]).map((row) => row.game_date);
+}
+
 /**
  * Get stats about what's cached
  */
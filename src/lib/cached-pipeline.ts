@@ -3,100 +3,377 @@
  *
  * Wraps BAML functions with SQLite caching. On cache hit, returns immediately.
  * On cache miss, calls the LLM and stores the result for future use.
+ *
+ * Where a deterministic parser exists for a sport's source format, it runs before
+ * the LLM. The LLM parse is only used when the deterministic result fails validation.
  */
 
 import {
   hashContent,
   getRawInput,
   getParsedBoxScore,
+  linkParsedBoxScoreToRawInput,
   storeParsedBoxScore,
   getTriggers,
   storeTriggers,
   getInterview,
   storeInterview,
+  getInterviewAnswers,
+  storeInterviewAnswers,
   getNarrative,
   storeNarrative,
+  getRecap,
+  storeRecap,
+  getChannelOutput,
+  storeChannelOutput,
+  getVoiceReport,
+  storeVoiceReport,
+  getFactCheck,
+  storeFactCheck,
 } from './cache.js';
 
-import { b, type BoxScore, type TriggerList, type BaseballBoxScore, type BaseballTriggerList, type WaterPoloBoxScore, type WaterPoloTriggerList } from '../../baml_client/index.js';
+import { withMomentum } from './momentum.js';
+import { detectRuleTriggers } from './trigger-rules.js';
+import { historyTriggers, withHistoryHighlights, type HistoryHighlight } from './player-history.js';
+import { trendTriggers } from './trends.js';
+import { detectStoredHistoryHighlights, getSeasonTrends } from './season-store.js';
+import { isSeasonBoxScore, isSeasonSport, seasonForDate } from './season-stats.js';
+import { getNarrativeContext, saveNarrativeContext } from './context-store.js';
+import { generateCoverageGuidance, recapLengthGuidance, type SportPriority } from './story-signals.js';
+import { loadProgramPriority } from './priority-config.js';
+import {
+  CHANNELS,
+  channelText,
+  fitSocialPost,
+  validateChannelOutput,
+  type Channel,
+  type ChannelOutputs,
+} from './channels.js';
+// The sports index registers every sport, so site codes resolve for any caller
+import {
+  basketball,
+  getSportForSiteCode,
+  type SportCacheOptions,
+  type SportModule,
+  type SportParseOptions,
+} from './sports/index.js';
+import {
+  formatVoiceProfile,
+  loadProgramVoiceProfile,
+  SYNTHESIS_VOICE_SECTIONS,
+  VOICE_PROFILE_SECTIONS,
+  validateVoiceProfile,
+  type VoiceProfile,
+  type VoiceProfileSection,
+} from './voice-profile.js';
+import { checkVoiceAdherence, voiceOutputText, type VoiceAdherenceReport } from './voice-adherence.js';
+import { factCheckRecap, type FactCheckReport } from './fact-check.js';
+import type { ExportBoxScore } from './export.js';
+import type { ValidationResult } from './normalizer.js';
+import { fallbackQuestion, sessionCoverage, sessionQuestionSet, type SessionCoverage } from './interview.js';
+import {
+  completeInterviewSession,
+  createInterviewSession,
+  getInterviewSession,
+  recordInterviewTurn,
+  setPendingQuestion,
+  type InterviewSession,
+  type PendingQuestion,
+} from './interview-session-store.js';
+import {
+  diffNarrativeContext,
+  emptyNarrativeContext,
+  mergeNarrativeContext,
+  parseProgramId,
+  programTeamName,
+  type ContextChange,
+} from './narrative-context.js';
+
+import { b, type BoxScore, type TriggerList, type PlayByPlay, type NarrativeContext, type QuestionSet, type NarrativeSynthesis, type SeasonTrends, type StorySignals, type ContextUpdate, type InterviewAnswer, type Trigger, type GameRecap, type VoiceJudgment, type RecapGuidance } from '../../baml_client/index.js';
 
 /**
- * Parse a box score with caching
+ * Model label recorded in the cache for results produced without an LLM call
+ */
+export const DETERMINISTIC_MODEL = 'deterministic';
+
+/**
+ * Where a game sits in the season store. When supplied to a process function,
+ * career/season highs, firsts and milestones (player-history.ts) and streaks and
+ * recent form (trends.ts) from stored games are added to the triggers.
+ */
+export interface GameHistoryOptions {
+  /** Athletics site code of the program, e.g. 'wbkb' */
+  siteCode: string;
+  /** Game date as YYYY-MM-DD; only earlier games count as history */
+  gameDate: string;
+  /** Season label; defaults from gameDate */
+  season?: string;
+}
+
+/**
+ * Result of a full process pipeline run
+ */
+export interface ProcessedGame<TBoxScore, TTriggers> {
+  boxScore: TBoxScore;
+  triggers: TTriggers;
+  /** Career/season highs, firsts and milestones; empty without `history` */
+  highlights: HistoryHighlight[];
+  /** Streaks and recent form; null without `history` */
+  trends: SeasonTrends | null;
+}
+
+/**
+ * Merge history and trend triggers into a trigger list, keeping it ordered by
+ * salience. Both are deterministic, so they are added after the cached step.
+ * Sports the season store doesn't track pass through unchanged.
+ */
+function withHistoryTriggers(
+  sport: string,
+  boxScore: unknown,
+  triggers: TriggerList,
+  history?: GameHistoryOptions
+): { triggers: TriggerList; highlights: HistoryHighlight[]; trends: SeasonTrends | null } {
+  if (!history || !isSeasonSport(sport) || !isSeasonBoxScore(sport, boxScore)) {
+    return { triggers, highlights: [], trends: null };
+  }
+
+  const highlights = detectStoredHistoryHighlights(boxScore, { sport, ...history });
+  const trends = getSeasonTrends(boxScore, { sport, ...history });
+  const merged = [...triggers.triggers, ...historyTriggers(highlights), ...trendTriggers(trends)].sort(
+    (a, b) => b.salience_score - a.salience_score
+  );
+  return { triggers: { ...triggers, triggers: merged }, highlights, trends };
+}
+
+/**
+ * Parse a box score for any registered sport, with caching
  *
- * @param rawText - The raw box score text
+ * HTML pages are flattened with the sport's extractText and cached under that
+ * text, so the LLM fallback reads the same input the cache is keyed on. The
+ * deterministic parser, when the sport has one, gets the original page. The LLM
+ * is only called when there is no deterministic result or it fails validation.
+ *
+ * @param sport - Registered sport module
+ * @param rawText - The raw box score text or page HTML
  * @param options - Optional settings
- * @returns Parsed BoxScore object
+ * @param options.html - Original page HTML when rawText is already extracted text
+ * @returns Parsed box score stamped with the sport discriminator
  */
-export async function parseBoxScoreCached(
+export async function parseSportBoxScoreCached<TBoxScore>(
+  sport: SportModule<TBoxScore>,
   rawText: string,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<BoxScore> {
-  const inputHash = hashContent(rawText);
+  options: SportParseOptions = {}
+): Promise<TBoxScore> {
+  const isHtml = rawText.includes('<html') || rawText.includes('<!DOCTYPE html');
+  const html = options.html ?? (isHtml ? rawText : undefined);
+  const text = isHtml && sport.extractText ? sport.extractText(rawText) : rawText;
+  const inputHash = hashContent(text);
+  // Tools store either the page or its text as the raw input; keep the page's
+  // hash so the coverage board can find the parse from either
+  const rawInputHash = html ? hashContent(html) : undefined;
+  const label = `Parse ${sport.name}`;
 
   // Check cache first (unless forced refresh)
   if (!options.forceRefresh) {
     const cached = getParsedBoxScore(inputHash);
     if (cached) {
-      console.log(`[cache hit] ParseBoxScore (hash: ${inputHash.slice(0, 8)}...)`);
-      return cached as BoxScore;
+      if (rawInputHash) linkParsedBoxScoreToRawInput(inputHash, rawInputHash);
+      console.log(`[cache hit] ${label} (hash: ${inputHash.slice(0, 8)}...)`);
+      return withSport(cached as TBoxScore, sport.id);
     }
   }
 
-  // Cache miss - call LLM
-  console.log(`[cache miss] ParseBoxScore - calling LLM...`);
-  const result = await b.ParseBoxScore(rawText);
+  // Cache miss - try the deterministic parser before calling the LLM
+  const parsed = sport.parseDeterministic?.(html ?? text);
+  if (parsed) {
+    const deterministic = withSport(parsed, sport.id);
+    const validation = sport.validate(deterministic);
+    if (validation.valid && validation.warnings.length === 0) {
+      storeParsedBoxScore(inputHash, deterministic, DETERMINISTIC_MODEL, rawInputHash);
+      console.log(`[cached] ${label} via deterministic parser (hash: ${inputHash.slice(0, 8)}...)`);
+      return deterministic;
+    }
+    console.log(
+      `[fallback] Deterministic parse failed validation: ${[...validation.errors, ...validation.warnings].join('; ')}`
+    );
+  }
+
+  console.log(`[cache miss] ${label} - calling LLM...`);
+  const result = withSport(await sport.parseWithLlm(text), sport.id);
 
   // Store in cache
-  storeParsedBoxScore(inputHash, result, options.model);
-  console.log(`[cached] ParseBoxScore (hash: ${inputHash.slice(0, 8)}...)`);
+  storeParsedBoxScore(inputHash, result, options.model, rawInputHash);
+  console.log(`[cached] ${label} (hash: ${inputHash.slice(0, 8)}...)`);
 
   return result;
 }
 
 /**
- * Detect triggers with caching
+ * Stamp a box score with its sport discriminator. Softball shares baseball's
+ * parsers, and JSON cached before the discriminator existed has none.
+ */
+function withSport<TBoxScore>(boxScore: TBoxScore, sport: string): TBoxScore & { sport: string } {
+  return Object.assign({}, boxScore, { sport });
+}
+
+/**
+ * Detect triggers for any registered sport, with caching
  *
- * @param boxScore - Parsed BoxScore object
+ * The sport discriminator is part of the hash, so sports sharing a box score
+ * shape (baseball and softball) never share cached triggers.
+ *
+ * @param sport - Registered sport module
+ * @param boxScore - Parsed box score for that sport
  * @param options - Optional settings
  * @returns TriggerList with detected triggers
  */
-export async function detectTriggersCached(
-  boxScore: BoxScore,
-  options: { forceRefresh?: boolean; model?: string } = {}
+export async function detectSportTriggersCached<TBoxScore>(
+  sport: SportModule<TBoxScore>,
+  boxScore: TBoxScore,
+  options: SportCacheOptions = {}
 ): Promise<TriggerList> {
   // Hash the box score JSON for cache key
   const boxScoreHash = hashContent(JSON.stringify(boxScore));
+  const label = `Detect ${sport.name} triggers`;
 
   // Check cache first
   if (!options.forceRefresh) {
     const cached = getTriggers(boxScoreHash);
     if (cached) {
-      console.log(`[cache hit] DetectTriggers (hash: ${boxScoreHash.slice(0, 8)}...)`);
+      console.log(`[cache hit] ${label} (hash: ${boxScoreHash.slice(0, 8)}...)`);
       return cached as TriggerList;
     }
   }
 
   // Cache miss - call LLM
-  console.log(`[cache miss] DetectTriggers - calling LLM...`);
-  const result = await b.DetectTriggers(boxScore);
+  console.log(`[cache miss] ${label} - calling LLM...`);
+  const result = await sport.detectTriggersWithLlm(boxScore);
 
   // Store in cache
   storeTriggers(boxScoreHash, result, options.model);
-  console.log(`[cached] DetectTriggers (hash: ${boxScoreHash.slice(0, 8)}...)`);
+  console.log(`[cached] ${label} (hash: ${boxScoreHash.slice(0, 8)}...)`);
+
+  return result;
+}
+
+/**
+ * Full pipeline for any registered sport: parse raw text and detect triggers,
+ * with caching at each step
+ *
+ * @param options.history - Season store position, to add history triggers for sports the store tracks
+ */
+export async function processSportBoxScoreCached<TBoxScore>(
+  sport: SportModule<TBoxScore>,
+  rawText: string,
+  options: SportParseOptions & { history?: GameHistoryOptions } = {}
+): Promise<ProcessedGame<TBoxScore, TriggerList>> {
+  const boxScore = await parseSportBoxScoreCached(sport, rawText, options);
+  const triggers = await detectSportTriggersCached(sport, boxScore, options);
+  return { boxScore, ...withHistoryTriggers(sport.id, boxScore, triggers, options.history) };
+}
+
+// ============================================================================
+// Basketball Pipeline Functions
+// ============================================================================
+
+/**
+ * Parse a basketball box score with caching
+ *
+ * Tries the deterministic monospace parser first. Falls back to the LLM when the
+ * text isn't in the monospace format or the parsed result fails validation.
+ *
+ * @param rawText - The raw box score text
+ * @param options - Optional settings
+ * @returns Parsed BoxScore object
+ */
+export function parseBoxScoreCached(rawText: string, options: SportCacheOptions = {}): Promise<BoxScore> {
+  return parseSportBoxScoreCached(basketball, rawText, options);
+}
+
+/**
+ * Detect basketball triggers with caching
+ *
+ * @param boxScore - Parsed BoxScore object
+ * @param options - Optional settings
+ * @returns TriggerList with detected triggers
+ */
+export function detectTriggersCached(boxScore: BoxScore, options: SportCacheOptions = {}): Promise<TriggerList> {
+  return detectSportTriggersCached(basketball, boxScore, options);
+}
+
+/**
+ * Detect triggers with the rule engine, then have the LLM rank and enrich them
+ *
+ * The rule triggers are computed fresh every time (they're instant); only the
+ * EnrichTriggers call is cached, keyed on the box score and the rule triggers
+ * together so a rule change invalidates the cached result.
+ *
+ * @param boxScore - Parsed BoxScore object
+ * @param options - Optional settings
+ * @returns TriggerList with rule triggers ranked and enriched, plus any the LLM added
+ */
+export async function detectTriggersWithRulesCached(
+  boxScore: BoxScore,
+  options: { forceRefresh?: boolean; model?: string } = {}
+): Promise<TriggerList> {
+  const ruleTriggers = detectRuleTriggers(boxScore).triggers;
+  const inputHash = hashContent(JSON.stringify({ boxScore, ruleTriggers }));
+
+  // Check cache first
+  if (!options.forceRefresh) {
+    const cached = getTriggers(inputHash);
+    if (cached) {
+      console.log(`[cache hit] EnrichTriggers (hash: ${inputHash.slice(0, 8)}...)`);
+      return cached as TriggerList;
+    }
+  }
+
+  // Cache miss - call LLM
+  console.log(`[cache miss] EnrichTriggers (${ruleTriggers.length} rule triggers) - calling LLM...`);
+  const result = await b.EnrichTriggers(boxScore, ruleTriggers);
+
+  // Store in cache
+  storeTriggers(inputHash, result, options.model);
+  console.log(`[cached] EnrichTriggers (hash: ${inputHash.slice(0, 8)}...)`);
 
   return result;
 }
 
 /**
  * Full pipeline: parse raw text and detect triggers, with caching at each step
+ *
+ * When a play-by-play is supplied, its momentum is attached to the box score
+ * before trigger detection so DetectTriggers can see runs and lead changes.
+ *
+ * @param options.triggerMode - 'llm' (DetectTriggers, the default), 'rules' (rule
+ *   engine only, no LLM call) or 'enrich' (rule engine ranked and enriched by the LLM)
+ * @param options.history - Season store position, to add history triggers
  */
 export async function processBoxScoreCached(
   rawText: string,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<{ boxScore: BoxScore; triggers: TriggerList }> {
-  const boxScore = await parseBoxScoreCached(rawText, options);
-  const triggers = await detectTriggersCached(boxScore, options);
-  return { boxScore, triggers };
+  options: {
+    forceRefresh?: boolean;
+    model?: string;
+    playByPlay?: PlayByPlay;
+    triggerMode?: 'llm' | 'rules' | 'enrich';
+    history?: GameHistoryOptions;
+  } = {}
+): Promise<ProcessedGame<BoxScore, TriggerList>> {
+  const parsed = await parseBoxScoreCached(rawText, options);
+  const boxScore = options.playByPlay ? withMomentum(parsed, options.playByPlay) : parsed;
+
+  let triggers: TriggerList;
+  switch (options.triggerMode ?? 'llm') {
+    case 'rules':
+      triggers = detectRuleTriggers(boxScore);
+      break;
+    case 'enrich':
+      triggers = await detectTriggersWithRulesCached(boxScore, options);
+      break;
+    default:
+      triggers = await detectTriggersCached(boxScore, options);
+  }
+  return { boxScore, ...withHistoryTriggers('basketball', boxScore, triggers, options.history) };
 }
 
 /**
@@ -105,7 +382,7 @@ export async function processBoxScoreCached(
 export async function processFileCached(
   filePath: string,
   options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<{ boxScore: BoxScore; triggers: TriggerList } | null> {
+): Promise<ProcessedGame<BoxScore, TriggerList> | null> {
   const rawInput = getRawInput(filePath);
   if (!rawInput) {
     console.error(`File not found in cache: ${filePath}`);
@@ -116,167 +393,817 @@ export async function processFileCached(
 }
 
 // ============================================================================
-// Baseball Pipeline Functions
+// Interview and Narrative Pipeline Functions
 // ============================================================================
 
 /**
- * Parse a baseball box score with caching
+ * Options for choosing a program's narrative context
+ */
+export interface ProgramContextOptions {
+  /** Season label; defaults to the game's season, or the current one if the box score has no date */
+  season?: string;
+  /** Use this context instead of the stored one */
+  context?: NarrativeContext;
+}
+
+/**
+ * The parts of a box score, in any sport, that tie a game to a program
+ */
+export interface ProgramGame {
+  metadata: { date?: string | null; home_team: string };
+  home_team: { team_name: string };
+  away_team: { team_name: string };
+}
+
+function isoDate(date: string | null | undefined): string | null {
+  if (!date) return null;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Season of a game, or the current season if the box score has no usable date
+ */
+function gameSeason(boxScore: ProgramGame, sport: string): string {
+  const gameDate = isoDate(boxScore.metadata.date) ?? new Date().toISOString().slice(0, 10);
+  return seasonForDate(sport, gameDate);
+}
+
+/**
+ * A program id's school and sport
  *
- * @param rawText - The raw box score HTML/text
- * @param options - Optional settings
- * @returns Parsed BaseballBoxScore object
+ * @throws Error if the id is malformed or its site code isn't a registered sport's
  */
-export async function parseBaseballBoxScoreCached(
-  rawText: string,
+function programSport(program: string): { school: string; siteCode: string; sport: string } {
+  const parsed = parseProgramId(program);
+  if (!parsed) {
+    throw new Error(`Invalid program id '${program}' (expected school-sitecode, e.g. marin-wbkb)`);
+  }
+
+  const sport = getSportForSiteCode(parsed.siteCode)?.id;
+  if (!sport) {
+    throw new Error(`Unknown site code '${parsed.siteCode}' in program id '${program}'`);
+  }
+  return { ...parsed, sport };
+}
+
+/**
+ * Load the stored narrative context for a program and the season of a game
+ *
+ * With nothing stored yet, starts from an empty context for whichever team in
+ * the box score matches the program's school, so interviews still run on day one.
+ *
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @param boxScore - The game the context is for
+ */
+export function loadProgramContext(
+  program: string,
+  boxScore: ProgramGame,
+  options: ProgramContextOptions = {}
+): NarrativeContext {
+  if (options.context) return options.context;
+
+  const { school, sport } = programSport(program);
+  const season = options.season ?? gameSeason(boxScore, sport);
+  const stored = getNarrativeContext(program, season);
+  if (stored) return stored.context;
+
+  const teamName =
+    programTeamName(school, [boxScore.home_team.team_name, boxScore.away_team.team_name]) ??
+    boxScore.metadata.home_team;
+  return emptyNarrativeContext(teamName, sport);
+}
+
+/**
+ * Interview questions with the id answers are submitted against
+ */
+export interface CachedInterview {
+  /** Cache key of the interview; answers are stored on this row */
+  interviewId: string;
+  questions: QuestionSet;
+}
+
+/**
+ * Generate onboarding interview questions with caching
+ *
+ * @param teamName - Team name, e.g. "College of Marin"
+ * @param sport - Sport as the SID would say it, e.g. "Women's Basketball"
+ * @returns Onboarding questions and the interview id
+ */
+export async function generateOnboardingInterviewCached(
+  teamName: string,
+  sport: string,
   options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<BaseballBoxScore> {
-  const inputHash = hashContent(rawText);
+): Promise<CachedInterview> {
+  const inputHash = hashContent(JSON.stringify({ teamName, sport, type: 'onboarding' }));
 
-  // Check cache first (unless forced refresh)
+  // Check cache first
   if (!options.forceRefresh) {
-    const cached = getParsedBoxScore(inputHash);
+    const cached = getInterview(inputHash);
     if (cached) {
-      console.log(`[cache hit] ParseBaseballBoxScore (hash: ${inputHash.slice(0, 8)}...)`);
-      return cached as BaseballBoxScore;
+      console.log(`[cache hit] OnboardingInterview (hash: ${inputHash.slice(0, 8)}...)`);
+      return { interviewId: inputHash, questions: cached as QuestionSet };
     }
   }
 
   // Cache miss - call LLM
-  console.log(`[cache miss] ParseBaseballBoxScore - calling LLM...`);
-  const result = await b.ParseBaseballBoxScore(rawText);
+  console.log(`[cache miss] OnboardingInterview - calling LLM...`);
+  const result = await b.OnboardingInterview(teamName, sport);
 
   // Store in cache
-  storeParsedBoxScore(inputHash, result, options.model);
-  console.log(`[cached] ParseBaseballBoxScore (hash: ${inputHash.slice(0, 8)}...)`);
+  storeInterview(inputHash, 'onboarding', result, options.model);
+  console.log(`[cached] OnboardingInterview (hash: ${inputHash.slice(0, 8)}...)`);
 
-  return result;
+  return { interviewId: inputHash, questions: result };
 }
 
 /**
- * Detect baseball triggers with caching
+ * Generate game interview questions with caching
  *
- * @param boxScore - Parsed BaseballBoxScore object
- * @param options - Optional settings
- * @returns BaseballTriggerList with detected triggers
+ * The program's stored narrative context is loaded automatically (see
+ * loadProgramContext). Context and season trends are part of the cache key, so
+ * editing the context or a new game in the store produces fresh questions.
+ *
+ * @param boxScore - Parsed BoxScore object
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @param options.trends - Streaks and recent form through this game (see getSeasonTrends)
+ * @returns Game-specific questions and the interview id
  */
-export async function detectBaseballTriggersCached(
-  boxScore: BaseballBoxScore,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<BaseballTriggerList> {
-  // Hash the box score JSON for cache key
-  const boxScoreHash = hashContent(JSON.stringify(boxScore));
+export async function generateGameInterviewCached(
+  boxScore: BoxScore,
+  program: string,
+  options: ProgramContextOptions & { forceRefresh?: boolean; model?: string; trends?: SeasonTrends | null } = {}
+): Promise<CachedInterview> {
+  const context = loadProgramContext(program, boxScore, options);
+  const trends = options.trends ?? null;
+  const inputHash = hashContent(JSON.stringify({ boxScore, context, trends }));
 
   // Check cache first
   if (!options.forceRefresh) {
-    const cached = getTriggers(boxScoreHash);
+    const cached = getInterview(inputHash);
     if (cached) {
-      console.log(`[cache hit] DetectBaseballTriggers (hash: ${boxScoreHash.slice(0, 8)}...)`);
-      return cached as BaseballTriggerList;
+      console.log(`[cache hit] GameInterview (hash: ${inputHash.slice(0, 8)}...)`);
+      return { interviewId: inputHash, questions: cached as QuestionSet };
     }
   }
 
   // Cache miss - call LLM
-  console.log(`[cache miss] DetectBaseballTriggers - calling LLM...`);
-  const result = await b.DetectBaseballTriggers(boxScore);
+  console.log(`[cache miss] GameInterview - calling LLM...`);
+  const result = await b.GameInterview(boxScore, context, trends);
 
   // Store in cache
-  storeTriggers(boxScoreHash, result, options.model);
-  console.log(`[cached] DetectBaseballTriggers (hash: ${boxScoreHash.slice(0, 8)}...)`);
+  storeInterview(inputHash, 'game', result, options.model);
+  console.log(`[cached] GameInterview (hash: ${inputHash.slice(0, 8)}...)`);
 
-  return result;
+  return { interviewId: inputHash, questions: result };
 }
 
 /**
- * Full baseball pipeline: parse raw text and detect triggers, with caching at each step
+ * What a set of interview answers did to a program's context
  */
-export async function processBaseballBoxScoreCached(
-  rawText: string,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<{ boxScore: BaseballBoxScore; triggers: BaseballTriggerList }> {
-  const boxScore = await parseBaseballBoxScoreCached(rawText, options);
-  const triggers = await detectBaseballTriggersCached(boxScore, options);
-  return { boxScore, triggers };
+export interface InterviewAnswerResult {
+  interviewId: string;
+  program: string;
+  season: string;
+  answers: InterviewAnswer[];
+  update: ContextUpdate;
+  changes: ContextChange[];
+  /** The context after the merge (or as it would be, when not applied) */
+  context: NarrativeContext;
+  applied: boolean;
+}
+
+/**
+ * Store answers to an interview and merge what they say into the program's context
+ *
+ * ExtractContextUpdates turns the free-text answers into player and team
+ * updates, which are merged into the stored context (see mergeNarrativeContext).
+ * The answers, the extracted update and the resulting diff are stored on the
+ * interview row. Resubmitting the same answers reuses the stored extraction.
+ *
+ * @param interviewId - Id from generateOnboardingInterviewCached or generateGameInterviewCached
+ * @param answers - Answers matched to their questions (see matchInterviewAnswers)
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @param season - Season label of the context to update
+ * @param options.base - Starting context when none is stored for the season
+ * @param options.apply - Save the merged context (default true); false previews the diff
+ * @throws Error if the interview isn't cached or there's no context to merge into
+ */
+export async function applyInterviewAnswers(
+  interviewId: string,
+  answers: InterviewAnswer[],
+  program: string,
+  season: string,
+  options: { base?: NarrativeContext; apply?: boolean; forceRefresh?: boolean; model?: string } = {}
+): Promise<InterviewAnswerResult> {
+  const questions = getInterview(interviewId) as QuestionSet | null;
+  if (!questions) {
+    throw new Error(`No interview found with id ${interviewId}`);
+  }
+
+  const context = getNarrativeContext(program, season)?.context ?? options.base;
+  if (!context) {
+    throw new Error(`No context stored for ${program} ${season}`);
+  }
+
+  const previous = getInterviewAnswers(interviewId);
+  let update: ContextUpdate;
+  if (!options.forceRefresh && previous?.contextUpdate && JSON.stringify(previous.answers) === JSON.stringify(answers)) {
+    console.log(`[cache hit] ExtractContextUpdates (hash: ${interviewId.slice(0, 8)}...)`);
+    update = previous.contextUpdate as ContextUpdate;
+  } else {
+    console.log(`[cache miss] ExtractContextUpdates - calling LLM...`);
+    update = await b.ExtractContextUpdates(questions, answers, context);
+  }
+
+  const merged = mergeNarrativeContext(context, update);
+  const changes = diffNarrativeContext(context, merged);
+  const apply = options.apply ?? true;
+
+  if (apply) {
+    saveNarrativeContext(program, season, merged);
+  }
+  storeInterviewAnswers(interviewId, program, answers, update, changes);
+  console.log(`[cached] Interview answers (hash: ${interviewId.slice(0, 8)}...), ${changes.length} context changes${apply ? '' : ' (not applied)'}`);
+
+  return { interviewId, program, season, answers, update, changes, context: merged, applied: apply };
 }
 
 // ============================================================================
-// Water Polo Pipeline Functions
+// Interview Sessions
 // ============================================================================
 
 /**
- * Parse a water polo box score with caching
+ * A session after a step: the question to answer next, or why it finished
+ */
+export interface InterviewSessionState {
+  session: InterviewSession;
+  coverage: SessionCoverage;
+  /** Set once the session is complete */
+  reason: string | null;
+  /** What the answers did to the program's context, once complete */
+  contextResult: InterviewAnswerResult | null;
+}
+
+/**
+ * Match the picker's trigger to an open trigger, tolerating case and spacing
+ */
+function openTriggerDescription(coverage: SessionCoverage, trigger: string | null | undefined): string | null {
+  if (!trigger) return null;
+  const wanted = trigger.trim().toLowerCase();
+  return coverage.open.find((open) => open.description.trim().toLowerCase() === wanted)?.description ?? null;
+}
+
+/**
+ * Ask the next question, or finish the session when coverage is sufficient
+ */
+async function advanceInterviewSession(session: InterviewSession): Promise<InterviewSessionState> {
+  const coverage = sessionCoverage(session.triggers, session.turns);
+  if (coverage.done) {
+    return finishInterviewSession(session.id, coverage.reason!);
+  }
+
+  const context = loadProgramContext(session.program, session.boxScore, { season: session.season });
+  console.log(`[llm] NextInterviewQuestion (session ${session.id.slice(0, 8)}..., turn ${session.turns.length + 1})`);
+  const next = await b.NextInterviewQuestion(session.boxScore, context, coverage.open, session.turns, session.trends);
+
+  // The picker may stop early, but never before the first question
+  if (next.done && session.turns.length > 0) {
+    return finishInterviewSession(session.id, 'Coverage judged sufficient');
+  }
+
+  const pending: PendingQuestion | null = next.question
+    ? { question: next.question, rationale: next.rationale ?? null, trigger: openTriggerDescription(coverage, next.trigger) }
+    : (() => {
+        const fallback = fallbackQuestion(coverage);
+        return fallback && { ...fallback, rationale: null };
+      })();
+  if (!pending) {
+    return finishInterviewSession(session.id, 'No questions left to ask');
+  }
+
+  setPendingQuestion(session.id, pending);
+  return { session: getInterviewSession(session.id)!, coverage, reason: null, contextResult: null };
+}
+
+/**
+ * Start a live interview for a game and pick the first question
  *
- * @param rawText - The raw box score HTML/text
- * @param options - Optional settings
- * @returns Parsed WaterPoloBoxScore object
+ * @param boxScore - Parsed BoxScore object
+ * @param triggers - The game's triggers; coverage is measured against these
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @param options.season - Season label (defaults to the game's season in the program's sport)
+ * @param options.trends - Streaks and recent form through this game (see getSeasonTrends)
  */
-export async function parseWaterPoloBoxScoreCached(
-  rawText: string,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<WaterPoloBoxScore> {
-  const inputHash = hashContent(rawText);
+export async function startInterviewSession(
+  boxScore: BoxScore,
+  triggers: Trigger[],
+  program: string,
+  options: { season?: string; trends?: SeasonTrends | null } = {}
+): Promise<InterviewSessionState> {
+  const session = createInterviewSession(
+    program,
+    options.season ?? gameSeason(boxScore, programSport(program).sport),
+    boxScore,
+    triggers,
+    options.trends ?? null
+  );
+  return advanceInterviewSession(session);
+}
 
-  // Check cache first (unless forced refresh)
+/**
+ * Answer the pending question and move the session on
+ *
+ * @param answer - The SID's answer; an empty answer skips the question
+ * @throws Error if the session doesn't exist or isn't waiting for an answer
+ */
+export async function answerInterviewSession(sessionId: string, answer: string): Promise<InterviewSessionState> {
+  const session = getInterviewSession(sessionId);
+  if (!session) {
+    throw new Error(`No interview session with id ${sessionId}`);
+  }
+  if (session.status === 'complete' || !recordInterviewTurn(sessionId, answer.trim())) {
+    throw new Error(`Interview session ${sessionId} is not waiting for an answer`);
+  }
+  return advanceInterviewSession(getInterviewSession(sessionId)!);
+}
+
+/**
+ * End a session and merge its answers into the program's context
+ *
+ * The turns are stored as an answered game interview, so they go through the
+ * same extraction and diff as answers submitted to /api/interview/[id]/answers.
+ *
+ * @param reason - Why the session ended, e.g. 'Ended by SID'
+ */
+export async function finishInterviewSession(sessionId: string, reason: string): Promise<InterviewSessionState> {
+  const session = getInterviewSession(sessionId);
+  if (!session) {
+    throw new Error(`No interview session with id ${sessionId}`);
+  }
+
+  const { questions, answers } = sessionQuestionSet(session.turns);
+  let contextResult: InterviewAnswerResult | null = null;
+  let interviewId: string | null = null;
+
+  if (answers.length > 0) {
+    interviewId = hashContent(JSON.stringify({ sessionId, type: 'session' }));
+    storeInterview(interviewId, 'game', questions);
+    const base = loadProgramContext(session.program, session.boxScore, { season: session.season });
+    contextResult = await applyInterviewAnswers(interviewId, answers, session.program, session.season, { base });
+  }
+
+  completeInterviewSession(sessionId, interviewId);
+  return {
+    session: getInterviewSession(sessionId)!,
+    coverage: sessionCoverage(session.triggers, session.turns),
+    reason,
+    contextResult,
+  };
+}
+
+/**
+ * Render a voice profile option for a prompt, warning when it's half-filled
+ */
+function voiceProfileText(
+  profile: string | VoiceProfile | null | undefined,
+  sections?: readonly VoiceProfileSection[]
+): string | null {
+  if (!profile) return null;
+  if (typeof profile === 'string') return profile;
+
+  const validation = validateVoiceProfile(profile);
+  if (!validation.valid) {
+    console.warn(`[voice] ${profile.programName ?? 'Voice profile'}: ${validation.errors.length} unanswered questions; using the answered ones`);
+  }
+  return formatVoiceProfile(profile, sections);
+}
+
+/**
+ * Synthesize narrative angles with caching
+ *
+ * The program's stored narrative context is loaded automatically (see
+ * loadProgramContext). Every input is part of the cache key, so changing the
+ * voice profile, signals, context or trends produces a fresh synthesis.
+ *
+ * @param boxScore - Parsed BoxScore object
+ * @param triggers - Detected triggers for the game
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @param options.voiceProfile - Profile markdown, or a parsed profile to inject only its answered questions
+ * @param options.voiceSections - Sections of a parsed profile to include (defaults to SYNTHESIS_VOICE_SECTIONS)
+ * @param options.trends - Streaks and recent form through this game (see getSeasonTrends)
+ * @returns NarrativeSynthesis with ranked angles
+ */
+export async function synthesizeNarrativesCached(
+  boxScore: BoxScore,
+  triggers: TriggerList,
+  program: string,
+  options: ProgramContextOptions & {
+    forceRefresh?: boolean;
+    model?: string;
+    voiceProfile?: string | VoiceProfile | null;
+    voiceSections?: readonly VoiceProfileSection[];
+    signals?: StorySignals | null;
+    coverageGuidance?: string | null;
+    targetAudience?: string | null;
+    targetChannel?: string | null;
+    trends?: SeasonTrends | null;
+  } = {}
+): Promise<NarrativeSynthesis> {
+  const context = loadProgramContext(program, boxScore, options);
+  const inputs = {
+    voiceProfile: voiceProfileText(options.voiceProfile, options.voiceSections ?? SYNTHESIS_VOICE_SECTIONS),
+    signals: options.signals ?? null,
+    coverageGuidance: options.coverageGuidance ?? null,
+    targetAudience: options.targetAudience ?? null,
+    targetChannel: options.targetChannel ?? null,
+    trends: options.trends ?? null,
+  };
+  const inputHash = hashContent(JSON.stringify({ boxScore, triggers, context, ...inputs }));
+
+  // Check cache first
   if (!options.forceRefresh) {
-    const cached = getParsedBoxScore(inputHash);
+    const cached = getNarrative(inputHash);
     if (cached) {
-      console.log(`[cache hit] ParseWaterPoloBoxScore (hash: ${inputHash.slice(0, 8)}...)`);
-      return cached as WaterPoloBoxScore;
+      console.log(`[cache hit] SynthesizeNarratives (hash: ${inputHash.slice(0, 8)}...)`);
+      return cached as NarrativeSynthesis;
     }
   }
 
   // Cache miss - call LLM
-  console.log(`[cache miss] ParseWaterPoloBoxScore - calling LLM...`);
-  const result = await b.ParseWaterPoloBoxScore(rawText);
+  console.log(`[cache miss] SynthesizeNarratives - calling LLM...`);
+  const result = await b.SynthesizeNarratives(
+    boxScore,
+    triggers,
+    context,
+    inputs.voiceProfile,
+    inputs.signals,
+    inputs.coverageGuidance,
+    inputs.targetAudience,
+    inputs.targetChannel,
+    inputs.trends
+  );
 
   // Store in cache
-  storeParsedBoxScore(inputHash, result, options.model);
-  console.log(`[cached] ParseWaterPoloBoxScore (hash: ${inputHash.slice(0, 8)}...)`);
+  storeNarrative(inputHash, result, options.model);
+  console.log(`[cached] SynthesizeNarratives (hash: ${inputHash.slice(0, 8)}...)`);
 
   return result;
 }
 
+// ============================================================================
+// Voice Adherence
+// ============================================================================
+
 /**
- * Detect water polo triggers with caching
+ * Check a cached recap against the program's voice profile, storing the report
+ * with the recap
  *
- * @param boxScore - Parsed WaterPoloBoxScore object
- * @param options - Optional settings
- * @returns WaterPoloTriggerList with detected triggers
+ * The deterministic checks always run; JudgeVoiceAdherence only runs with
+ * `judge`. A stored report is reused while the profile is unchanged, unless a
+ * judgment is asked for and the stored one has none.
+ *
+ * @param recapHash - Input hash the recap is cached under
+ * @param recap - The generated recap
+ * @param profile - Parsed voice profile (see parseVoiceProfile)
+ * @param options.judge - Also ask JudgeVoiceAdherence for a read on tone
+ * @returns The report, whether or not a recap was cached to store it with
  */
-export async function detectWaterPoloTriggersCached(
-  boxScore: WaterPoloBoxScore,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<WaterPoloTriggerList> {
-  // Hash the box score JSON for cache key
-  const boxScoreHash = hashContent(JSON.stringify(boxScore));
+export async function checkRecapVoiceCached(
+  recapHash: string,
+  recap: GameRecap,
+  profile: VoiceProfile,
+  options: { judge?: boolean; forceRefresh?: boolean } = {}
+): Promise<VoiceAdherenceReport> {
+  const profileHash = hashContent(JSON.stringify(profile));
+
+  if (!options.forceRefresh) {
+    const stored = getVoiceReport(recapHash);
+    if (stored?.profileHash === profileHash) {
+      const report = stored.report as VoiceAdherenceReport;
+      if (!options.judge || report.judge) {
+        console.log(`[cache hit] VoiceAdherence (hash: ${recapHash.slice(0, 8)}...)`);
+        return report;
+      }
+    }
+  }
+
+  let judge: VoiceJudgment | null = null;
+  if (options.judge) {
+    console.log(`[cache miss] JudgeVoiceAdherence - calling LLM...`);
+    judge = await b.JudgeVoiceAdherence(voiceOutputText(recap), formatVoiceProfile(profile));
+  }
+
+  const report = checkVoiceAdherence(recap, profile, judge);
+  if (storeVoiceReport(recapHash, report, profileHash)) {
+    console.log(`[cached] VoiceAdherence (hash: ${recapHash.slice(0, 8)}...)`);
+  }
+  return report;
+}
+
+// ============================================================================
+// Fact Check
+// ============================================================================
+
+/**
+ * Check a cached recap's numbers against its box score, storing the report
+ * with the recap
+ *
+ * A recap with critical mismatches is marked needs_review. The stored report
+ * is reused so re-checking doesn't undo an approval.
+ *
+ * @param recapHash - Input hash the recap is cached under
+ * @param recap - The generated recap
+ * @param boxScore - Box score the recap was written from
+ * @returns The report, whether or not a recap was cached to store it with
+ */
+export function factCheckRecapCached(
+  recapHash: string,
+  recap: GameRecap,
+  boxScore: ExportBoxScore,
+  options: { forceRefresh?: boolean } = {}
+): FactCheckReport {
+  if (!options.forceRefresh) {
+    const stored = getFactCheck(recapHash);
+    if (stored) {
+      console.log(`[cache hit] FactCheck (hash: ${recapHash.slice(0, 8)}...)`);
+      return stored.report as FactCheckReport;
+    }
+  }
+
+  const report = factCheckRecap(recap, boxScore);
+  if (storeFactCheck(recapHash, report, report.needsReview)) {
+    console.log(`[cached] FactCheck (hash: ${recapHash.slice(0, 8)}...)`);
+  }
+  return report;
+}
+
+/**
+ * Cache a newly generated recap together with its fact check
+ *
+ * The check runs before anything is stored. A cached recap is served and
+ * exported as finished, so one whose check threw must not be cached at all.
+ *
+ * @param recapHash - Input hash to cache the recap under
+ * @param recap - The generated recap
+ * @param boxScore - Box score the recap was written from
+ * @returns The fact-check report stored with the recap
+ */
+export function storeCheckedRecap(
+  recapHash: string,
+  recap: GameRecap,
+  boxScore: ExportBoxScore,
+  model?: string
+): FactCheckReport {
+  const report = factCheckRecap(recap, boxScore);
+  storeRecap(recapHash, recap, model, boxScore);
+  storeFactCheck(recapHash, report, report.needsReview);
+  console.log(`[cached] FactCheck (hash: ${recapHash.slice(0, 8)}...)`);
+  return report;
+}
+
+// ============================================================================
+// Program Recaps
+// ============================================================================
+
+/**
+ * Options for a recap written for a program
+ */
+export interface ProgramRecapOptions extends ProgramContextOptions {
+  /** Profile to write in; defaults to profiles/{program}.md, null for none */
+  voiceProfile?: VoiceProfile | null;
+  /** Signals to tier the recap by; defaults to the program's (see computeProgramSignals) */
+  signals?: StorySignals;
+  forceRefresh?: boolean;
+  model?: string;
+}
+
+/**
+ * A box score a recap is written from: every sport shares the metadata and
+ * teams the fact check and program lookups read
+ */
+export type RecapBoxScore = ExportBoxScore & ProgramGame;
+
+/**
+ * Options for a program's signals on a game
+ */
+export interface ProgramSignalsOptions {
+  /** Game date as YYYY-MM-DD; defaults to the box score's date */
+  gameDate?: string;
+  /** Season label; defaults from the game date */
+  season?: string;
+  /** Priority settings; defaults to the program's (see loadProgramPriority) */
+  priority?: SportPriority;
+}
+
+/**
+ * A program's story signals for a game
+ *
+ * The sport's signals, scored with the program's priority settings, with any
+ * career/season highs, firsts and milestones from the season store added to
+ * the reasons. History needs a season sport and a dated game; without one the
+ * sport's signals come back as they are.
+ *
+ * @param sport - Sport module for the box score
+ * @param boxScore - Parsed box score for any sport
+ * @param program - Program id, e.g. "marin-wbkb"
+ */
+export function computeProgramSignals(
+  sport: Pick<SportModule, 'id' | 'computeSignals'>,
+  boxScore: ProgramGame,
+  program: string,
+  options: ProgramSignalsOptions = {}
+): StorySignals {
+  const signals = sport.computeSignals(boxScore, undefined, options.priority ?? loadProgramPriority(program, sport.id));
+
+  const siteCode = parseProgramId(program)?.siteCode;
+  const gameDate = options.gameDate ?? isoDate(boxScore.metadata.date);
+  const sportId = sport.id;
+  if (!siteCode || !gameDate || !isSeasonSport(sportId) || !isSeasonBoxScore(sportId, boxScore)) return signals;
+
+  const highlights = detectStoredHistoryHighlights(boxScore, {
+    sport: sportId,
+    siteCode,
+    gameDate,
+    season: options.season,
+  });
+  return withHistoryHighlights(signals, highlights);
+}
+
+/**
+ * Everything a program recap is generated from, and the key it's cached under
+ */
+export interface RecapInputs {
+  inputHash: string;
+  guidance: RecapGuidance;
+  /** The profile the recap is written in, for checking it afterwards */
+  voiceProfile: VoiceProfile | null;
+}
+
+/**
+ * A program recap, the key it's cached under, and its fact check
+ */
+export interface CachedRecap extends RecapInputs {
+  recap: GameRecap;
+  /** Check of the recap's numbers; needsReview holds it from publishing */
+  factCheck: FactCheckReport;
+}
+
+/**
+ * Gather what a program knows for a recap: its narrative context and voice
+ * profile, the game's signals (scored with its school's priority config), and
+ * coverage and length guidance for its tier
+ *
+ * The cache key covers all of it, so editing the context or profile produces a
+ * fresh recap instead of the stale one.
+ *
+ * @param sport - Sport module for the box score (computes signals when not given)
+ * @param boxScore - Parsed box score for any sport
+ * @param program - Program id, e.g. "marin-wbkb"
+ */
+export function prepareRecapInputs(
+  sport: Pick<SportModule, 'id' | 'computeSignals'>,
+  boxScore: ProgramGame,
+  program: string,
+  options: ProgramRecapOptions = {}
+): RecapInputs {
+  const context = loadProgramContext(program, boxScore, options);
+  const voiceProfile = options.voiceProfile === undefined ? loadProgramVoiceProfile(program) : options.voiceProfile;
+  const signals = options.signals ?? computeProgramSignals(sport, boxScore, program, { season: options.season });
+
+  const guidance: RecapGuidance = {
+    context,
+    voice_profile: voiceProfileText(voiceProfile, VOICE_PROFILE_SECTIONS),
+    signals,
+    coverage_guidance: generateCoverageGuidance(signals.tier, signals),
+    length_guidance: recapLengthGuidance(signals.tier),
+  };
+
+  return {
+    inputHash: hashContent(JSON.stringify({ boxScore, program, guidance })),
+    guidance,
+    voiceProfile,
+  };
+}
+
+/**
+ * Generate a program's recap with caching
+ *
+ * @param sport - Sport module for the box score
+ * @param boxScore - Parsed box score for any sport
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @returns The recap with its cache key, the guidance it was written from and its fact check
+ */
+export async function generateRecapCached(
+  sport: Pick<SportModule, 'id' | 'computeSignals' | 'generateRecap'>,
+  boxScore: RecapBoxScore,
+  program: string,
+  options: ProgramRecapOptions = {}
+): Promise<CachedRecap> {
+  const inputs = prepareRecapInputs(sport, boxScore, program, options);
 
   // Check cache first
   if (!options.forceRefresh) {
-    const cached = getTriggers(boxScoreHash);
+    const cached = getRecap(inputs.inputHash);
     if (cached) {
-      console.log(`[cache hit] DetectWaterPoloTriggers (hash: ${boxScoreHash.slice(0, 8)}...)`);
-      return cached as WaterPoloTriggerList;
+      console.log(`[cache hit] GenerateRecap ${program} (hash: ${inputs.inputHash.slice(0, 8)}...)`);
+      const recap = cached as GameRecap;
+      return { ...inputs, recap, factCheck: factCheckRecapCached(inputs.inputHash, recap, boxScore) };
     }
   }
 
   // Cache miss - call LLM
-  console.log(`[cache miss] DetectWaterPoloTriggers - calling LLM...`);
-  const result = await b.DetectWaterPoloTriggers(boxScore);
+  console.log(`[cache miss] GenerateRecap ${program} - calling LLM...`);
+  const recap = await sport.generateRecap(boxScore, inputs.guidance);
 
-  // Store in cache
-  storeTriggers(boxScoreHash, result, options.model);
-  console.log(`[cached] DetectWaterPoloTriggers (hash: ${boxScoreHash.slice(0, 8)}...)`);
+  // Store in cache with its fact check
+  const factCheck = storeCheckedRecap(inputs.inputHash, recap, boxScore, options.model);
+  console.log(`[cached] GenerateRecap ${program} (hash: ${inputs.inputHash.slice(0, 8)}...)`);
 
-  return result;
+  return { ...inputs, recap, factCheck };
 }
 
+// ============================================================================
+// Channel Outputs
+// ============================================================================
+
 /**
- * Full water polo pipeline: parse raw text and detect triggers, with caching at each step
+ * Channel output, the text to publish, and how it measures up to the channel's limits
  */
-export async function processWaterPoloBoxScoreCached(
-  rawText: string,
-  options: { forceRefresh?: boolean; model?: string } = {}
-): Promise<{ boxScore: WaterPoloBoxScore; triggers: WaterPoloTriggerList }> {
-  const boxScore = await parseWaterPoloBoxScoreCached(rawText, options);
-  const triggers = await detectWaterPoloTriggersCached(boxScore, options);
-  return { boxScore, triggers };
+export interface ChannelResult<C extends Channel = Channel> {
+  channel: C;
+  output: ChannelOutputs[C];
+  text: string;
+  validation: ValidationResult;
+}
+
+/**
+ * Generate a recap's version for a channel with caching
+ *
+ * Social posts are trimmed to the platform's character limit after generation;
+ * other channels are checked and anything over is reported in `validation`.
+ *
+ * @param channel - Where it's published, e.g. "x" or "press_release"
+ * @param recap - The long-form recap to work from
+ * @param guidance - The program's guidance (see prepareRecapInputs); its length is the recap's, so it's dropped
+ * @param options.gameDate - Game date for a press release's release date
+ * @param options.venue - Venue for a press release's dateline
+ */
+export async function generateChannelOutputCached<C extends Channel>(
+  channel: C,
+  recap: GameRecap,
+  guidance: RecapGuidance | null,
+  options: { gameDate?: string | null; venue?: string | null; forceRefresh?: boolean; model?: string } = {}
+): Promise<ChannelResult<C>> {
+  const channelGuidance = guidance ? { ...guidance, length_guidance: null } : null;
+  const inputHash = hashContent(
+    JSON.stringify({ channel, recap, guidance: channelGuidance, gameDate: options.gameDate, venue: options.venue })
+  );
+  const result = (output: ChannelOutputs[C]): ChannelResult<C> => ({
+    channel,
+    output,
+    text: channelText(channel, output),
+    validation: validateChannelOutput(channel, output),
+  });
+
+  // Check cache first
+  if (!options.forceRefresh) {
+    const cached = getChannelOutput(inputHash);
+    if (cached) {
+      console.log(`[cache hit] ${CHANNELS[channel].name} (hash: ${inputHash.slice(0, 8)}...)`);
+      return result(cached as ChannelOutputs[C]);
+    }
+  }
+
+  // Cache miss - call LLM
+  console.log(`[cache miss] ${CHANNELS[channel].name} - calling LLM...`);
+  let output: ChannelOutputs[Channel];
+  switch (channel) {
+    case 'x':
+    case 'threads': {
+      const spec = CHANNELS[channel];
+      output = fitSocialPost(await b.GenerateSocialPost(recap, channelGuidance, spec.maxChars!), spec);
+      break;
+    }
+    case 'instagram':
+      output = await b.GenerateInstagramCaption(recap, channelGuidance);
+      break;
+    case 'press_release':
+      output = await b.GeneratePressRelease(recap, channelGuidance, options.gameDate ?? null, options.venue ?? null);
+      break;
+    case 'newsletter':
+      output = await b.GenerateNewsletterBlurb(recap, channelGuidance);
+      break;
+    case 'pa_script':
+      output = await b.GeneratePAScript(recap, channelGuidance);
+      break;
+    default:
+      throw new Error(`Unknown channel '${channel}'`);
+  }
+
+  // Store in cache
+  storeChannelOutput(inputHash, channel, output, options.model);
+  console.log(`[cached] ${CHANNELS[channel].name} (hash: ${inputHash.slice(0, 8)}...)`);
+
+  return result(output as ChannelOutputs[C]);
 }
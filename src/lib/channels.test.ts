@@ -0,0 +1,110 @@
+/**
+ * Tests for channel output limits and rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHANNELS,
+  channelText,
+  fitSocialPost,
+  isChannel,
+  socialPostText,
+  validateChannelOutput,
+} from './channels.js';
+
+const release = {
+  headline: 'Mariners Rally Past Diablo Valley, 68-64',
+  dateline: 'KENTFIELD, Calif.',
+  release_date: 'Jan. 28, 2026',
+  body_paragraphs: ['College of Marin rallied from 12 down to beat Diablo Valley College 68-64 on Tuesday.', 'Maya Chen led COM with 18 points.'],
+  quote: null,
+  boilerplate: 'College of Marin women\'s basketball competes in the Bay Valley Conference.',
+};
+
+describe('isChannel', () => {
+  it('should accept known channels only', () => {
+    expect(isChannel('x')).toBe(true);
+    expect(isChannel('pa_script')).toBe(true);
+    expect(isChannel('tiktok')).toBe(false);
+    expect(isChannel('toString')).toBe(false);
+    expect(isChannel(null)).toBe(false);
+  });
+});
+
+describe('fitSocialPost', () => {
+  it('should leave a post that fits alone', () => {
+    const post = { text: 'Mariners win 68-64!', hashtags: ['MarinerPride'] };
+
+    expect(fitSocialPost(post, CHANNELS.x)).toEqual(post);
+  });
+
+  it('should drop hashtags before cutting the text', () => {
+    const post = { text: 'a'.repeat(270), hashtags: ['MarinerPride', 'FamilyFirst'] };
+    const fitted = fitSocialPost(post, CHANNELS.x);
+
+    expect(fitted.hashtags).toEqual([]);
+    expect(fitted.text).toBe(post.text);
+  });
+
+  it('should keep no more hashtags than the channel allows', () => {
+    const post = { text: 'Mariners win 68-64!', hashtags: ['COM', 'MarinerPride', 'FamilyFirst'] };
+    const fitted = fitSocialPost(post, CHANNELS.x);
+
+    expect(fitted.hashtags).toEqual(['COM', 'MarinerPride']);
+    expect(validateChannelOutput('x', fitted).valid).toBe(true);
+  });
+
+  it('should cut long text at a word boundary with an ellipsis', () => {
+    const post = { text: 'Mariners rally from twelve down to stun Diablo Valley in the fourth', hashtags: [] };
+    const fitted = fitSocialPost(post, { ...CHANNELS.x, maxChars: 30 });
+
+    expect(fitted.text).toBe('Mariners rally from twelve…');
+    expect(socialPostText(fitted).length).toBeLessThanOrEqual(30);
+  });
+});
+
+describe('channelText', () => {
+  it('should render a press release with dateline and boilerplate', () => {
+    const text = channelText('press_release', release);
+
+    expect(text).toMatch(/^FOR IMMEDIATE RELEASE\nJan\. 28, 2026\n\nMariners Rally/);
+    expect(text).toContain('KENTFIELD, Calif. — College of Marin rallied');
+    expect(text).toContain('###\n\nCollege of Marin women\'s basketball');
+  });
+
+  it('should render hashtags with # signs', () => {
+    expect(channelText('instagram', { caption: 'Comeback win.', hashtags: ['MarinerPride', '#COMHoops'] })).toBe(
+      'Comeback win.\n\n#MarinerPride #COMHoops'
+    );
+  });
+});
+
+describe('validateChannelOutput', () => {
+  it('should flag a post over the X limit', () => {
+    const result = validateChannelOutput('x', { text: 'a'.repeat(281), hashtags: [] });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['X post is 281 characters; the limit is 280']);
+  });
+
+  it('should allow the same post on Threads', () => {
+    expect(validateChannelOutput('threads', { text: 'a'.repeat(281), hashtags: [] }).valid).toBe(true);
+  });
+
+  it('should hold newsletter blurbs to their word budget', () => {
+    const result = validateChannelOutput('newsletter', {
+      headline: 'Mariners Rally Past Diablo Valley',
+      blurb: 'word '.repeat(80),
+      call_to_action: 'Read the full recap',
+    });
+
+    expect(result.errors).toEqual(['Newsletter blurb is 80 words; the budget is 75']);
+  });
+
+  it('should only warn about a long press release', () => {
+    const result = validateChannelOutput('press_release', { ...release, body_paragraphs: ['word '.repeat(520)] });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual(['Press release is 520 words; the budget is 500']);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Channel Outputs
+ *
+ * The places an SID publishes a game besides the website, each with its own
+ * length rules: X and Threads posts, Instagram captions, press releases,
+ * newsletter blurbs and PA-announcer scripts. The channel generators work from
+ * the finished recap; this module holds each channel's limits, checks output
+ * against them, and renders output as the text that gets published.
+ */
+
+import type {
+  InstagramCaption,
+  NewsletterBlurb,
+  PAScript,
+  PressRelease,
+  SocialPost,
+} from '../../baml_client/types.js';
+import type { ValidationResult } from './normalizer.js';
+
+export type Channel = 'x' | 'threads' | 'instagram' | 'press_release' | 'newsletter' | 'pa_script';
+
+/**
+ * Output shape for each channel
+ */
+export interface ChannelOutputs {
+  x: SocialPost;
+  threads: SocialPost;
+  instagram: InstagramCaption;
+  press_release: PressRelease;
+  newsletter: NewsletterBlurb;
+  pa_script: PAScript;
+}
+
+export type ChannelOutput = ChannelOutputs[Channel];
+
+/**
+ * A channel and its length rules
+ */
+export interface ChannelSpec {
+  id: Channel;
+  /** Human-readable name, e.g. "X post" */
+  name: string;
+  /** Hard character limit, counting hashtags */
+  maxChars?: number;
+  maxHashtags?: number;
+  /** Word budget for the main text */
+  maxWords?: number;
+  /** Character limit for a headline */
+  maxHeadlineChars?: number;
+}
+
+export const CHANNELS: Record<Channel, ChannelSpec> = {
+  x: { id: 'x', name: 'X post', maxChars: 280, maxHashtags: 2 },
+  threads: { id: 'threads', name: 'Threads post', maxChars: 500, maxHashtags: 2 },
+  instagram: { id: 'instagram', name: 'Instagram caption', maxChars: 2200, maxHashtags: 30 },
+  press_release: { id: 'press_release', name: 'Press release', maxWords: 500 },
+  newsletter: { id: 'newsletter', name: 'Newsletter blurb', maxWords: 75, maxHeadlineChars: 60 },
+  // About 30 seconds at a PA announcer's pace
+  pa_script: { id: 'pa_script', name: 'PA announcer script', maxWords: 90 },
+};
+
+/**
+ * Check a query parameter names a channel
+ */
+export function isChannel(value: string | null | undefined): value is Channel {
+  return !!value && Object.hasOwn(CHANNELS, value);
+}
+
+/**
+ * Characters as a platform counts them (emoji count once)
+ */
+function charCount(text: string): number {
+  return [...text].length;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function hashtagLine(hashtags: string[]): string {
+  return hashtags.map((tag) => `#${tag.replace(/^#/, '')}`).join(' ');
+}
+
+/**
+ * A social post as published: text, then hashtags
+ */
+export function socialPostText(post: SocialPost): string {
+  return post.hashtags.length > 0 ? `${post.text} ${hashtagLine(post.hashtags)}` : post.text;
+}
+
+/**
+ * Fit a social post to a channel: keep the channel's hashtag allowance, drop
+ * more hashtags from the end to get under the character limit, then cut the
+ * text at a word boundary with an ellipsis
+ */
+export function fitSocialPost(post: SocialPost, spec: ChannelSpec): SocialPost {
+  const maxChars = spec.maxChars ?? Infinity;
+  const fitted = { text: post.text.trim(), hashtags: post.hashtags.slice(0, spec.maxHashtags) };
+  while (fitted.hashtags.length > 0 && charCount(socialPostText(fitted)) > maxChars) {
+    fitted.hashtags.pop();
+  }
+  if (charCount(fitted.text) > maxChars) {
+    const cut = [...fitted.text].slice(0, maxChars - 1).join('');
+    const boundary = cut.lastIndexOf(' ');
+    fitted.text = `${(boundary > 0 ? cut.slice(0, boundary) : cut).replace(/[\s,;:—–-]+$/, '')}…`;
+  }
+  return fitted;
+}
+
+/**
+ * Render channel output as the text that gets published
+ */
+export function channelText<C extends Channel>(channel: C, output: ChannelOutputs[C]): string {
+  switch (channel) {
+    case 'x':
+    case 'threads':
+      return socialPostText(output as SocialPost);
+    case 'instagram': {
+      const { caption, hashtags } = output as InstagramCaption;
+      return hashtags.length > 0 ? `${caption}\n\n${hashtagLine(hashtags)}` : caption;
+    }
+    case 'press_release': {
+      const release = output as PressRelease;
+      const [first = '', ...rest] = release.body_paragraphs;
+      return [
+        'FOR IMMEDIATE RELEASE',
+        release.release_date,
+        '',
+        release.headline,
+        '',
+        [`${release.dateline} — ${first}`, ...rest, ...(release.quote ? [release.quote] : [])].join('\n\n'),
+        '',
+        '###',
+        '',
+        release.boilerplate,
+      ].join('\n');
+    }
+    case 'newsletter': {
+      const blurb = output as NewsletterBlurb;
+      return `${blurb.headline}\n\n${blurb.blurb}\n\n${blurb.call_to_action}`;
+    }
+    case 'pa_script': {
+      const { script, pronunciations } = output as PAScript;
+      if (pronunciations.length === 0) return script;
+      return `${script}\n\nPronunciations:\n${pronunciations.map((guide) => `- ${guide}`).join('\n')}`;
+    }
+    default:
+      throw new Error(`Unknown channel '${channel}'`);
+  }
+}
+
+/**
+ * Check channel output against the channel's length rules
+ *
+ * Hard platform limits (characters, hashtag counts, newsletter and PA word
+ * budgets) are errors; a long press release or headline is a warning.
+ */
+export function validateChannelOutput<C extends Channel>(channel: C, output: ChannelOutputs[C]): ValidationResult {
+  const spec = CHANNELS[channel];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const text = channelText(channel, output);
+  if (spec.maxChars && charCount(text) > spec.maxChars) {
+    errors.push(`${spec.name} is ${charCount(text)} characters; the limit is ${spec.maxChars}`);
+  }
+
+  const hashtags = 'hashtags' in output ? output.hashtags : [];
+  if (spec.maxHashtags !== undefined && hashtags.length > spec.maxHashtags) {
+    errors.push(`${spec.name} has ${hashtags.length} hashtags; the limit is ${spec.maxHashtags}`);
+  }
+
+  if (spec.maxWords) {
+    const body =
+      channel === 'press_release'
+        ? (output as PressRelease).body_paragraphs.join(' ')
+        : channel === 'newsletter'
+          ? (output as NewsletterBlurb).blurb
+          : (output as PAScript).script;
+    const words = wordCount(body);
+    if (words > spec.maxWords) {
+      const message = `${spec.name} is ${words} words; the budget is ${spec.maxWords}`;
+      (channel === 'press_release' ? warnings : errors).push(message);
+    }
+  }
+
+  if (spec.maxHeadlineChars && 'headline' in output && charCount(output.headline) > spec.maxHeadlineChars) {
+    warnings.push(`${spec.name} headline is ${charCount(output.headline)} characters; aim for ${spec.maxHeadlineChars}`);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
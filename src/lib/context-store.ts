@@ -0,0 +1,120 @@
+/**
+ * Narrative Context Store
+ *
+ * Persists the NarrativeContext (player arcs, team storyline, audience segments,
+ * rivalries, upcoming milestones) for each program and season in the SQLite
+ * cache. GameInterview and SynthesizeNarratives load it from here instead of
+ * having it built by hand for every call.
+ */
+
+import type { NarrativeContext } from '../../baml_client/types.js';
+import { db } from './cache.js';
+import { mergeNarrativeContext, type NarrativeContextPatch } from './narrative-context.js';
+
+db.exec(`
+  -- One context per program (e.g. 'marin-wbkb') per season
+  CREATE TABLE IF NOT EXISTS narrative_contexts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    program TEXT NOT NULL,
+    season TEXT NOT NULL,
+    context_json TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (program, season)
+  );
+`);
+
+/**
+ * A stored context with its key and timestamps
+ */
+export interface StoredNarrativeContext {
+  program: string;
+  season: string;
+  context: NarrativeContext;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ContextRow {
+  program: string;
+  season: string;
+  context_json: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toStored(row: ContextRow): StoredNarrativeContext {
+  return {
+    program: row.program,
+    season: row.season,
+    context: JSON.parse(row.context_json),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Get the stored context for a program and season
+ */
+export function getNarrativeContext(program: string, season: string): StoredNarrativeContext | null {
+  const row = db
+    .prepare('SELECT program, season, context_json, created_at, updated_at FROM narrative_contexts WHERE program = ? AND season = ?')
+    .get(program, season) as ContextRow | undefined;
+  return row ? toStored(row) : null;
+}
+
+/**
+ * Store a context, replacing any existing one for the program and season
+ */
+export function saveNarrativeContext(program: string, season: string, context: NarrativeContext): StoredNarrativeContext {
+  db.prepare(`
+    INSERT INTO narrative_contexts (program, season, context_json)
+    VALUES (?, ?, ?)
+    ON CONFLICT (program, season) DO UPDATE SET
+      context_json = excluded.context_json,
+      updated_at = datetime('now')
+  `).run(program, season, JSON.stringify(context));
+  return getNarrativeContext(program, season)!;
+}
+
+/**
+ * Merge a patch into the stored context (see mergeNarrativeContext)
+ *
+ * @param base - Starting context when nothing is stored yet
+ * @returns The updated context, or null if nothing is stored and no base was given
+ */
+export function updateNarrativeContext(
+  program: string,
+  season: string,
+  patch: NarrativeContextPatch,
+  base?: NarrativeContext
+): StoredNarrativeContext | null {
+  const current = getNarrativeContext(program, season)?.context ?? base;
+  if (!current) return null;
+  return saveNarrativeContext(program, season, mergeNarrativeContext(current, patch));
+}
+
+/**
+ * Delete the stored context for a program and season
+ *
+ * @returns Whether a context was deleted
+ */
+export function deleteNarrativeContext(program: string, season: string): boolean {
+  return db.prepare('DELETE FROM narrative_contexts WHERE program = ? AND season = ?').run(program, season).changes > 0;
+}
+
+/**
+ * List stored contexts, optionally for one program, newest season first
+ */
+export function listNarrativeContexts(program?: string): Array<{ program: string; season: string; teamName: string; updatedAt: string }> {
+  const rows = (
+    program
+      ? db.prepare('SELECT program, season, context_json, created_at, updated_at FROM narrative_contexts WHERE program = ? ORDER BY season DESC').all(program)
+      : db.prepare('SELECT program, season, context_json, created_at, updated_at FROM narrative_contexts ORDER BY program, season DESC').all()
+  ) as ContextRow[];
+
+  return rows.map((row) => {
+    const stored = toStored(row);
+    return { program: stored.program, season: stored.season, teamName: stored.context.team_name, updatedAt: stored.updatedAt };
+  });
+}
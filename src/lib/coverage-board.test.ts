@@ -0,0 +1,92 @@
+/**
+ * Tests for coverage board ordering and summary
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StorySignals } from '../../baml_client/types.js';
+import { buildCoverageBoard, type CoverageBoardEntry } from './coverage-board.js';
+
+function signals(overrides: Partial<StorySignals>): StorySignals {
+  return {
+    is_close_game: false,
+    is_overtime: false,
+    has_standout_performance: false,
+    is_conference_game: false,
+    margin: 20,
+    standout_count: 0,
+    priority_score: 0,
+    signal_reasons: [],
+    tier: 'low',
+    ...overrides,
+  };
+}
+
+function entry(id: string, sport: string, homeTeam: string, overrides: Partial<StorySignals>): CoverageBoardEntry {
+  return {
+    id,
+    siteCode: null,
+    sport,
+    program: null,
+    awayTeam: 'Visitors',
+    homeTeam,
+    awayScore: 60,
+    homeScore: 62,
+    signals: signals(overrides),
+    boxScore: { metadata: { home_team: homeTeam } },
+  };
+}
+
+describe('buildCoverageBoard', () => {
+  it('should order games by tier, then priority score', () => {
+    const board = buildCoverageBoard('2026-01-28', [
+      entry('a', 'volleyball', 'Marin', { tier: 'low', priority_score: 0 }),
+      entry('b', 'basketball', 'Marin', { tier: 'medium', priority_score: 4 }),
+      entry('c', 'waterpolo', 'Marin', { tier: 'high', priority_score: 7, is_close_game: true }),
+      entry('d', 'basketball', 'Marin', { tier: 'medium', priority_score: 5 }),
+    ]);
+
+    expect(board.games.map((game) => game.id)).toEqual(['c', 'd', 'b', 'a']);
+    expect(board.games.map((game) => game.rank)).toEqual([1, 2, 3, 4]);
+    expect(board.tierCounts).toEqual({ high: 1, medium: 2, low: 1 });
+  });
+
+  it('should keep each game with its own program and id', () => {
+    const board = buildCoverageBoard('2026-01-28', [
+      { ...entry('a', 'basketball', 'Skyline', { tier: 'medium', priority_score: 2 }), program: 'marin-wbkb' },
+      { ...entry('b', 'basketball', 'Marin', { tier: 'medium', priority_score: 2 }), program: 'marin-mbkb' },
+    ]);
+
+    expect(board.games.map((game) => [game.id, game.program])).toEqual([
+      ['b', 'marin-mbkb'],
+      ['a', 'marin-wbkb'],
+    ]);
+  });
+
+  it('should attach coverage guidance for the tier', () => {
+    const [game] = buildCoverageBoard('2026-01-28', [entry('a', 'basketball', 'Marin', { tier: 'high' })]).games;
+
+    expect(game.tier).toBe('high');
+    expect(game.coverageGuidance).toMatch(/featured story/);
+  });
+
+  it('should treat an unknown tier as routine', () => {
+    const [game] = buildCoverageBoard('2026-01-28', [entry('a', 'soccer', 'Marin', { tier: 'unranked' })]).games;
+
+    expect(game.tier).toBe('low');
+  });
+
+  it('should sum up the night', () => {
+    const board = buildCoverageBoard('2026-01-28', [
+      entry('a', 'basketball', 'Marin', { tier: 'high', is_overtime: true }),
+      entry('b', 'waterpolo', 'Marin', { tier: 'high', is_close_game: true }),
+      entry('c', 'soccer', 'Marin', { tier: 'low' }),
+      entry('d', 'soccer', 'Marin', { tier: 'low' }),
+    ]);
+
+    expect(board.summary).toBe('2 high-priority games (basketball OT thriller, close water polo game), 2 routine games');
+  });
+
+  it('should say when a date has no games', () => {
+    expect(buildCoverageBoard('2026-01-28', []).summary).toBe('No parsed games on 2026-01-28');
+  });
+});
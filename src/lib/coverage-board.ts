@@ -0,0 +1,91 @@
+/**
+ * Coverage Board
+ *
+ * The night's games across every sport on one board, in the order an SID
+ * should work them: featured games first, then the ones worth a standard
+ * recap, then the routine results. Each game carries its tier, the signal
+ * reasons behind it and the coverage guidance its recap will be written to.
+ * Any game can be queued for a recap; interviews are basketball-only, since the
+ * interview prompts read the basketball box score shape.
+ *
+ * Signals come from each game's own sport module and the order from the shared
+ * priority ranking, so the board ranks a night the same way
+ * rankGamesAcrossSports does; this module stays free of the cache and the registry.
+ */
+
+import type { StorySignals } from '../../baml_client/types.js';
+import { buildPriorityRanking, countTiers, type RankingEntry } from './story-signals.js';
+
+export type CoverageTier = 'high' | 'medium' | 'low';
+
+/**
+ * A parsed game and its signals, ready to place on the board
+ */
+export interface CoverageBoardEntry {
+  /** Raw input content hash; the game's key in the cache */
+  id: string;
+  /** Athletics site code, e.g. "wbkb" */
+  siteCode: string | null;
+  /** Registered sport id, e.g. "basketball" */
+  sport: string;
+  /** Program id for recaps and interviews, e.g. "marin-wbkb" */
+  program: string | null;
+  awayTeam: string;
+  homeTeam: string;
+  awayScore: number;
+  homeScore: number;
+  signals: StorySignals;
+  boxScore: unknown;
+}
+
+/**
+ * A game's place on the board
+ */
+export interface CoverageBoardGame extends CoverageBoardEntry {
+  /** 1-based position in work order */
+  rank: number;
+  tier: CoverageTier;
+  coverageGuidance: string;
+}
+
+export interface CoverageBoard {
+  date: string;
+  games: CoverageBoardGame[];
+  tierCounts: Record<CoverageTier, number>;
+  /** The night at a glance, e.g. "1 high-priority game (basketball OT thriller), 3 routine games" */
+  summary: string;
+}
+
+/**
+ * Order a night's games for coverage
+ *
+ * The order, tiers, guidance and summary come from the shared priority ranking
+ * (see buildPriorityRanking); the board adds each game's place and program.
+ */
+export function buildCoverageBoard(date: string, entries: CoverageBoardEntry[]): CoverageBoard {
+  // The ranking keeps each box score object, so games are matched back to their entries by it
+  const entryFor = new Map(entries.map((entry) => [entry.boxScore, entry]));
+  const ranking = buildPriorityRanking(
+    entries.map((entry): RankingEntry => ({
+      boxScore: entry.boxScore as RankingEntry['boxScore'],
+      signals: entry.signals,
+      sport: entry.sport,
+    }))
+  );
+
+  const games = ranking.games.map(
+    (game, i): CoverageBoardGame => ({
+      ...entryFor.get(game.box_score)!,
+      rank: i + 1,
+      tier: game.tier as CoverageTier,
+      coverageGuidance: game.coverage_guidance,
+    })
+  );
+
+  return {
+    date,
+    games,
+    tierCounts: countTiers(games),
+    summary: games.length > 0 ? ranking.summary : `No parsed games on ${date}`,
+  };
+}
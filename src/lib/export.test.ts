@@ -0,0 +1,182 @@
+/**
+ * Tests for recap export rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  apDateline,
+  boxScoreTables,
+  cmsFields,
+  exportRecap,
+  isExportFormat,
+  renderApText,
+  renderHtmlArticle,
+  renderMarkdown,
+  slugify,
+  textTable,
+  type ExportBoxScore,
+} from './export.js';
+
+const recap = {
+  headline: 'Mariners Battle Back to Top Diablo Valley',
+  subheadline: 'College of Marin rallied from 12 down in the fourth quarter',
+  lead_paragraph: 'College of Marin rallied to beat Diablo Valley College 68-64 on Tuesday night.',
+  body_paragraphs: ['Maya Chen led the comeback with 18 points & 11 rebounds.', 'The Mariners held DVC to 2-of-14 shooting in the fourth.'],
+  key_stats: ['Outscored DVC 22-10 in the fourth quarter'],
+  player_of_the_game: 'Maya Chen - 18 points and 11 rebounds',
+};
+
+const player = (name: string, points: number) => ({ name, position: null, starter: true, minutes: 30, points, rebounds: 5 });
+
+const boxScore: ExportBoxScore = {
+  metadata: {
+    date: 'Jan. 27, 2026',
+    venue: 'Kentfield, Calif.',
+    home_team: 'College of Marin',
+    away_team: 'Diablo Valley',
+    home_score: 68,
+    away_score: 64,
+  },
+  home_team: { team_name: 'College of Marin', total_points: 68, players: [player('Maya Chen', 18)] },
+  away_team: { team_name: 'Diablo Valley', total_points: 64, players: [player('Ana Ruiz', 21), { ...player('Jo Lee', 9), position: 'G' }] },
+  quarter_scores: [
+    [18, 16, 20, 10],
+    [12, 14, 20, 22],
+  ],
+  sport: 'basketball',
+};
+
+describe('isExportFormat', () => {
+  it('should accept known formats only', () => {
+    expect(isExportFormat('markdown')).toBe(true);
+    expect(isExportFormat('pdf')).toBe(false);
+    expect(isExportFormat(null)).toBe(false);
+  });
+});
+
+describe('boxScoreTables', () => {
+  const tables = boxScoreTables(boxScore);
+
+  it('should lead with the line score, visitors first', () => {
+    expect(tables[0]).toEqual({
+      title: 'Score',
+      columns: ['Team', '1', '2', '3', '4', 'Final'],
+      rows: [
+        ['Diablo Valley', '18', '16', '20', '10', '64'],
+        ['College of Marin', '12', '14', '20', '22', '68'],
+      ],
+    });
+  });
+
+  it('should build player tables from the columns any player has', () => {
+    expect(tables.map((table) => table.title)).toEqual(['Score', 'Diablo Valley', 'College of Marin']);
+    expect(tables[1].columns).toEqual(['Player', 'MIN', 'PTS', 'REB', 'Pos']);
+    expect(tables[1].rows).toEqual([
+      ['Ana Ruiz', '30', '21', '5', ''],
+      ['Jo Lee', '30', '9', '5', 'G'],
+    ]);
+  });
+
+  it('should title extra player lists by their field', () => {
+    const baseball = {
+      ...boxScore,
+      home_team: { team_name: 'College of Marin', batters: [{ name: 'Sam Ito', at_bats: 4, hits: 2 }], pitchers: [{ name: 'Lu Park', innings_pitched: 5.1 }] },
+    };
+
+    expect(boxScoreTables(baseball).slice(-2)).toEqual([
+      { title: 'College of Marin Batters', columns: ['Player', 'AB', 'H'], rows: [['Sam Ito', '4', '2']] },
+      { title: 'College of Marin Pitchers', columns: ['Player', 'IP'], rows: [['Lu Park', '5.1']] },
+    ]);
+  });
+});
+
+describe('textTable', () => {
+  it('should align names left and stats right', () => {
+    expect(textTable(boxScoreTables(boxScore)[0]).split('\n')).toEqual([
+      'SCORE',
+      'Team               1   2   3   4  Final',
+      'Diablo Valley     18  16  20  10     64',
+      'College of Marin  12  14  20  22     68',
+    ]);
+  });
+});
+
+describe('cmsFields', () => {
+  it('should fill story fields with the winner first in the result', () => {
+    const fields = cmsFields(recap, boxScore);
+
+    expect(fields.slug).toBe('mariners-battle-back-to-top-diablo-valley');
+    expect(fields.result).toBe('College of Marin 68, Diablo Valley 64');
+    expect(fields.keywords).toEqual(['Diablo Valley', 'College of Marin', 'Maya Chen']);
+    expect(fields.sport).toBe('basketball');
+  });
+
+  it('should leave game fields empty without a box score', () => {
+    const fields = cmsFields(recap, null);
+
+    expect(fields.result).toBeNull();
+    expect(fields.keywords).toEqual(['Maya Chen']);
+  });
+});
+
+describe('slugify', () => {
+  it('should strip accents and apostrophes and cut at a word boundary', () => {
+    expect(slugify("Mariners' Peña Powers Win")).toBe('mariners-pena-powers-win');
+    expect(slugify('Mariners Battle Back to Top Diablo Valley', 20)).toBe('mariners-battle-back');
+  });
+});
+
+describe('apDateline', () => {
+  it('should capitalize the city of a City, State venue', () => {
+    expect(apDateline('Kentfield, Calif.')).toBe('KENTFIELD, Calif.');
+    expect(apDateline('Mariner Gym')).toBeNull();
+  });
+});
+
+describe('renderers', () => {
+  it('should escape the HTML article and include the box score', () => {
+    const html = renderHtmlArticle(recap, boxScore);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Mariners Battle Back to Top Diablo Valley</title>');
+    expect(html).toContain('18 points &amp; 11 rebounds');
+    expect(html).toContain('<caption>College of Marin</caption>');
+  });
+
+  it('should write Markdown front matter as YAML', () => {
+    const markdown = renderMarkdown(recap, boxScore);
+
+    expect(markdown).toMatch(/^---\ntitle: "Mariners Battle Back to Top Diablo Valley"\n/);
+    expect(markdown).toContain('keywords: \n  - "Diablo Valley"\n  - "College of Marin"\n  - "Maya Chen"\n---');
+    expect(markdown).toContain('| Player | MIN | PTS | REB | Pos |\n| --- | ---: | ---: | ---: | ---: |');
+  });
+
+  it('should put an AP dateline on the plain-text lead', () => {
+    const text = renderApText(recap, boxScore);
+
+    expect(text).toContain('\n\nKENTFIELD, Calif. — College of Marin rallied');
+    expect(text).toContain('PLAYER OF THE GAME: Maya Chen');
+    expect(text).not.toContain('<');
+  });
+
+  it('should replace a dateline the lead already has instead of doubling it', () => {
+    const text = renderApText({ ...recap, lead_paragraph: `KENTFIELD — ${recap.lead_paragraph}` }, boxScore);
+
+    expect(text).toContain('\n\nKENTFIELD, Calif. — College of Marin rallied');
+    expect(text).not.toContain('KENTFIELD —');
+    expect(renderApText({ ...recap, lead_paragraph: `KENTFIELD, Calif. -- ${recap.lead_paragraph}` }, boxScore)).toContain(
+      '\n\nKENTFIELD, Calif. — College of Marin rallied'
+    );
+  });
+
+  it('should package article, box score and metadata in a zip', () => {
+    const exported = exportRecap('zip', recap, boxScore);
+    const archive = new TextDecoder().decode(exported.body as Uint8Array);
+
+    expect(exported.filename).toBe('mariners-battle-back-to-top-diablo-valley.zip');
+    expect(exported.contentType).toBe('application/zip');
+    expect(archive).toContain('article.html');
+    expect(archive).toContain('boxscore.html');
+    expect(archive).toContain('"result": "College of Marin 68, Diablo Valley 64"');
+  });
+});
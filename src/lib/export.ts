@@ -0,0 +1,507 @@
+/**
+ * Recap Export
+ *
+ * Renders a finished recap and its box score into what an SID actually
+ * publishes: a standalone HTML article, Markdown with front matter for static
+ * sites, plain-text AP-style copy for wire and email, and a zip story package
+ * for SIDEARM-style CMS uploads (article, box score table and the metadata
+ * fields the story form asks for).
+ *
+ * Box scores differ by sport, so the tables are built from whatever player
+ * lists a team carries (players, batters, pitchers, goalkeepers) rather than
+ * a fixed set of columns.
+ */
+
+import type { GameRecap } from '../../baml_client/types.js';
+import { createZip } from './zip.js';
+
+export type ExportFormat = 'html' | 'markdown' | 'text' | 'zip';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  text: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+  zip: { extension: 'zip', contentType: 'application/zip' },
+};
+
+/**
+ * Check a query parameter names an export format
+ */
+export function isExportFormat(value: string | null | undefined): value is ExportFormat {
+  return !!value && Object.hasOwn(EXPORT_FORMATS, value);
+}
+
+/**
+ * The parts of a box score every sport shares; team stats are read generically
+ */
+export interface ExportBoxScore {
+  metadata: {
+    date?: string | null;
+    venue?: string | null;
+    home_team: string;
+    away_team: string;
+    home_score: number;
+    away_score: number;
+  };
+  home_team: Record<string, unknown>;
+  away_team: Record<string, unknown>;
+  sport?: string | null;
+  [key: string]: unknown;
+}
+
+/**
+ * A table of rows under a title, ready to render in any format
+ */
+export interface StatTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Story fields a CMS asks for alongside the article body
+ */
+export interface CmsFields {
+  title: string;
+  subheadline: string;
+  /** Teaser for story listings: the lead paragraph */
+  teaser: string;
+  slug: string;
+  sport: string | null;
+  game_date: string | null;
+  location: string | null;
+  home_team: string | null;
+  away_team: string | null;
+  /** Final score, winner first: "College of Marin 68, Diablo Valley 64" */
+  result: string | null;
+  player_of_the_game: string;
+  keywords: string[];
+}
+
+/**
+ * A rendered export and how to serve it
+ */
+export interface RecapExport {
+  filename: string;
+  contentType: string;
+  body: string | Uint8Array<ArrayBuffer>;
+}
+
+// Column headings for stats a box score table would abbreviate
+const STAT_LABELS: Record<string, string> = {
+  name: 'Player',
+  position: 'Pos',
+  minutes: 'MIN',
+  points: 'PTS',
+  rebounds: 'REB',
+  offensive_rebounds: 'OREB',
+  defensive_rebounds: 'DREB',
+  assists: 'AST',
+  steals: 'STL',
+  blocks: 'BLK',
+  turnovers: 'TO',
+  fouls: 'PF',
+  field_goals_made: 'FGM',
+  field_goals_attempted: 'FGA',
+  three_pointers_made: '3PM',
+  three_pointers_attempted: '3PA',
+  free_throws_made: 'FTM',
+  free_throws_attempted: 'FTA',
+  at_bats: 'AB',
+  runs: 'R',
+  hits: 'H',
+  rbi: 'RBI',
+  walks: 'BB',
+  strikeouts: 'SO',
+  left_on_base: 'LOB',
+  batting_average: 'AVG',
+  doubles: '2B',
+  triples: '3B',
+  home_runs: 'HR',
+  stolen_bases: 'SB',
+  innings_pitched: 'IP',
+  hits_allowed: 'H',
+  runs_allowed: 'R',
+  earned_runs: 'ER',
+  home_runs_allowed: 'HR',
+  pitches: 'NP',
+  batters_faced: 'BF',
+  decision: 'DEC',
+  era: 'ERA',
+  goals: 'G',
+  shots: 'SH',
+  shots_on_goal: 'SOG',
+  saves: 'SV',
+  goals_against: 'GA',
+  kills: 'K',
+  attack_errors: 'E',
+  total_attacks: 'TA',
+  hitting_percentage: 'PCT',
+  service_aces: 'SA',
+  service_errors: 'SE',
+  reception_errors: 'RE',
+  digs: 'DIG',
+  block_solos: 'BS',
+  block_assists: 'BA',
+  total_blocks: 'BLK',
+};
+
+function humanize(key: string): string {
+  return key
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function isRow(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function cellText(value: unknown): string {
+  return typeof value === 'number' || typeof value === 'string' ? String(value) : '';
+}
+
+/**
+ * One team's player lists as tables: every array of player rows the team
+ * carries, with the columns any player has a value for
+ */
+function teamTables(team: Record<string, unknown>, fallbackName: string): StatTable[] {
+  const teamName = typeof team.team_name === 'string' ? team.team_name : fallbackName;
+  const tables: StatTable[] = [];
+
+  for (const [key, value] of Object.entries(team)) {
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isRow)) continue;
+
+    const keys: string[] = [];
+    for (const row of value) {
+      for (const [field, cell] of Object.entries(row)) {
+        if ((typeof cell === 'number' || typeof cell === 'string') && !keys.includes(field)) keys.push(field);
+      }
+    }
+    // Name leads; the rest keep the box score's order
+    const columns = keys.includes('name') ? ['name', ...keys.filter((field) => field !== 'name')] : keys;
+
+    tables.push({
+      title: key === 'players' ? teamName : `${teamName} ${humanize(key)}`,
+      columns: columns.map((field) => STAT_LABELS[field] ?? humanize(field)),
+      rows: value.map((row) => columns.map((field) => cellText(row[field]))),
+    });
+  }
+
+  return tables;
+}
+
+/**
+ * Scores by period, away team first: quarters, innings, halves or sets
+ */
+function periodScores(boxScore: ExportBoxScore): [number[], number[]] | null {
+  for (const key of ['quarter_scores', 'inning_scores']) {
+    const scores = boxScore[key];
+    if (Array.isArray(scores) && scores.length === 2 && scores.every(Array.isArray)) {
+      return [scores[0] as number[], scores[1] as number[]];
+    }
+  }
+  for (const key of ['period_scores', 'set_scores']) {
+    const scores = boxScore[key];
+    if (isRow(scores) && Array.isArray(scores.away_scores) && Array.isArray(scores.home_scores)) {
+      return [scores.away_scores as number[], scores.home_scores as number[]];
+    }
+  }
+  return null;
+}
+
+/**
+ * Box score tables for publishing: the line score, then each team's player
+ * lists, visitors first as a box score prints them
+ */
+export function boxScoreTables(boxScore: ExportBoxScore): StatTable[] {
+  const { metadata } = boxScore;
+  const periods = periodScores(boxScore);
+  const periodCount = periods ? Math.max(periods[0].length, periods[1].length) : 0;
+
+  const lineScore: StatTable = {
+    title: 'Score',
+    columns: ['Team', ...Array.from({ length: periodCount }, (_, i) => String(i + 1)), 'Final'],
+    rows: [
+      [metadata.away_team, ...Array.from({ length: periodCount }, (_, i) => cellText(periods?.[0][i])), String(metadata.away_score)],
+      [metadata.home_team, ...Array.from({ length: periodCount }, (_, i) => cellText(periods?.[1][i])), String(metadata.home_score)],
+    ],
+  };
+
+  return [
+    lineScore,
+    ...teamTables(boxScore.away_team, metadata.away_team),
+    ...teamTables(boxScore.home_team, metadata.home_team),
+  ];
+}
+
+/**
+ * URL slug from a headline, cut at a word boundary
+ */
+export function slugify(text: string, maxLength = 60): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (slug.length <= maxLength) return slug;
+  const cut = slug.slice(0, maxLength + 1);
+  return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : maxLength);
+}
+
+/**
+ * The player's name from "Name - justification"
+ */
+function playerOfTheGameName(playerOfTheGame: string): string {
+  return playerOfTheGame.split(/\s+[-–—:]\s+/)[0].trim();
+}
+
+/**
+ * CMS story fields for a recap
+ */
+export function cmsFields(recap: GameRecap, boxScore: ExportBoxScore | null): CmsFields {
+  const metadata = boxScore?.metadata;
+  const player = playerOfTheGameName(recap.player_of_the_game);
+
+  let result: string | null = null;
+  if (metadata) {
+    const home = `${metadata.home_team} ${metadata.home_score}`;
+    const away = `${metadata.away_team} ${metadata.away_score}`;
+    result = metadata.home_score >= metadata.away_score ? `${home}, ${away}` : `${away}, ${home}`;
+  }
+
+  return {
+    title: recap.headline,
+    subheadline: recap.subheadline,
+    teaser: recap.lead_paragraph,
+    slug: slugify(recap.headline),
+    sport: boxScore?.sport ?? null,
+    game_date: metadata?.date ?? null,
+    location: metadata?.venue ?? null,
+    home_team: metadata?.home_team ?? null,
+    away_team: metadata?.away_team ?? null,
+    result,
+    player_of_the_game: recap.player_of_the_game,
+    keywords: [...new Set([metadata?.away_team, metadata?.home_team, player].filter((word): word is string => !!word))],
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * A stat table as an HTML <table>
+ */
+export function htmlTable(table: StatTable): string {
+  const head = table.columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('');
+  const body = table.rows
+    .map((row) => `    <tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('\n');
+  return [
+    '<table>',
+    `  <caption>${escapeHtml(table.title)}</caption>`,
+    `  <thead><tr>${head}</tr></thead>`,
+    '  <tbody>',
+    body,
+    '  </tbody>',
+    '</table>',
+  ].join('\n');
+}
+
+/**
+ * The article body as an HTML fragment, for pasting into a CMS editor
+ */
+function articleHtml(recap: GameRecap, fields: CmsFields): string {
+  const meta = [fields.game_date, fields.location].filter(Boolean).map((part) => escapeHtml(part as string));
+  return [
+    '<article>',
+    `  <h1>${escapeHtml(recap.headline)}</h1>`,
+    `  <p class="subheadline">${escapeHtml(recap.subheadline)}</p>`,
+    ...(meta.length > 0 ? [`  <p class="meta">${meta.join(' · ')}</p>`] : []),
+    `  <p>${escapeHtml(recap.lead_paragraph)}</p>`,
+    ...recap.body_paragraphs.map((paragraph) => `  <p>${escapeHtml(paragraph)}</p>`),
+    ...(recap.key_stats.length > 0
+      ? [
+          '  <h2>Key Stats</h2>',
+          '  <ul>',
+          ...recap.key_stats.map((stat) => `    <li>${escapeHtml(stat)}</li>`),
+          '  </ul>',
+        ]
+      : []),
+    `  <p class="player-of-the-game"><strong>Player of the Game:</strong> ${escapeHtml(recap.player_of_the_game)}</p>`,
+    '</article>',
+  ].join('\n');
+}
+
+/**
+ * Box score tables as an HTML fragment
+ */
+function boxScoreHtml(boxScore: ExportBoxScore): string {
+  return ['<section class="box-score">', '<h2>Box Score</h2>', ...boxScoreTables(boxScore).map(htmlTable), '</section>'].join(
+    '\n'
+  );
+}
+
+function htmlDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 44rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #222; }
+  h1 { line-height: 1.2; margin-bottom: 0.25rem; }
+  .subheadline { font-size: 1.15rem; color: #555; margin-top: 0; }
+  .meta { font-size: 0.9rem; color: #777; }
+  table { border-collapse: collapse; margin: 1rem 0; font: 0.85rem system-ui, sans-serif; }
+  caption { text-align: left; font-weight: bold; padding-bottom: 0.25rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.2rem 0.5rem; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * A standalone HTML page: the article, then the box score when there is one
+ */
+export function renderHtmlArticle(recap: GameRecap, boxScore: ExportBoxScore | null): string {
+  const fields = cmsFields(recap, boxScore);
+  const body = boxScore ? `${articleHtml(recap, fields)}\n${boxScoreHtml(boxScore)}` : articleHtml(recap, fields);
+  return htmlDocument(recap.headline, body);
+}
+
+/**
+ * Front matter value as YAML; JSON strings are valid double-quoted YAML scalars
+ */
+function yamlValue(value: string | null | string[]): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return value.length === 0 ? '[]' : value.map((item) => `\n  - ${JSON.stringify(item)}`).join('');
+  return JSON.stringify(value);
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * A stat table as a Markdown pipe table
+ */
+export function markdownTable(table: StatTable): string {
+  const align = table.columns.map((_, i) => (i === 0 ? '---' : '---:'));
+  return [
+    `**${table.title}**`,
+    '',
+    `| ${table.columns.map(markdownCell).join(' | ')} |`,
+    `| ${align.join(' | ')} |`,
+    ...table.rows.map((row) => `| ${row.map(markdownCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Markdown with the CMS fields as YAML front matter
+ */
+export function renderMarkdown(recap: GameRecap, boxScore: ExportBoxScore | null): string {
+  const fields = cmsFields(recap, boxScore);
+  const frontMatter = Object.entries(fields).map(([key, value]) => `${key}: ${yamlValue(value)}`);
+
+  const sections = [
+    `# ${recap.headline}`,
+    `*${recap.subheadline}*`,
+    recap.lead_paragraph,
+    ...recap.body_paragraphs,
+    ...(recap.key_stats.length > 0 ? ['## Key Stats', recap.key_stats.map((stat) => `- ${stat}`).join('\n')] : []),
+    `**Player of the Game:** ${recap.player_of_the_game}`,
+    ...(boxScore ? ['## Box Score', ...boxScoreTables(boxScore).map(markdownTable)] : []),
+  ];
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * AP dateline from a venue written as "City, State": "KENTFIELD, Calif."
+ */
+export function apDateline(venue: string | null | undefined): string | null {
+  const match = venue?.match(/^([^,]+),\s*([^,]+)$/);
+  return match ? `${match[1].trim().toUpperCase()}, ${match[2].trim()}` : null;
+}
+
+// A dateline the lead already opens with: "KENTFIELD — " or "KENTFIELD, Calif. — "
+const LEAD_DATELINE = /^[A-Z][A-Z.'’ ]*[A-Z.](?:,\s*[A-Z][A-Za-z. ]*?)?\s+(?:—|–|--?)\s+/;
+
+/**
+ * A stat table as fixed-width agate text
+ */
+export function textTable(table: StatTable): string {
+  const widths = table.columns.map((column, i) => Math.max(column.length, ...table.rows.map((row) => row[i].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])))
+      .join('  ')
+      .trimEnd();
+  return [table.title.toUpperCase(), line(table.columns), ...table.rows.map(line)].join('\n');
+}
+
+/**
+ * Plain-text AP-style copy: headline, dateline on the lead, paragraphs
+ * separated by blank lines, and agate box score tables. A dateline the model
+ * already wrote is replaced by the venue's rather than doubled.
+ */
+export function renderApText(recap: GameRecap, boxScore: ExportBoxScore | null): string {
+  const dateline = apDateline(boxScore?.metadata.venue);
+  const sections = [
+    `${recap.headline}\n${recap.subheadline}`,
+    dateline ? `${dateline} — ${recap.lead_paragraph.replace(LEAD_DATELINE, '')}` : recap.lead_paragraph,
+    ...recap.body_paragraphs,
+    ...(recap.key_stats.length > 0 ? [`KEY STATS\n${recap.key_stats.join('\n')}`] : []),
+    `PLAYER OF THE GAME: ${recap.player_of_the_game}`,
+    ...(boxScore ? boxScoreTables(boxScore).map(textTable) : []),
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Story package for a CMS upload: the article fragment to paste into the
+ * story body, the box score tables, and the story form fields
+ */
+export function renderStoryPackage(recap: GameRecap, boxScore: ExportBoxScore | null): Uint8Array<ArrayBuffer> {
+  const fields = cmsFields(recap, boxScore);
+  return createZip([
+    { name: 'article.html', content: `${articleHtml(recap, fields)}\n` },
+    ...(boxScore ? [{ name: 'boxscore.html', content: `${boxScoreHtml(boxScore)}\n` }] : []),
+    { name: 'metadata.json', content: `${JSON.stringify(fields, null, 2)}\n` },
+  ]);
+}
+
+/**
+ * Render a recap in an export format, with a filename from its slug
+ */
+export function exportRecap(format: ExportFormat, recap: GameRecap, boxScore: ExportBoxScore | null): RecapExport {
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  const filename = `${slugify(recap.headline) || 'recap'}.${extension}`;
+
+  switch (format) {
+    case 'html':
+      return { filename, contentType, body: renderHtmlArticle(recap, boxScore) };
+    case 'markdown':
+      return { filename, contentType, body: renderMarkdown(recap, boxScore) };
+    case 'text':
+      return { filename, contentType, body: renderApText(recap, boxScore) };
+    case 'zip':
+      return { filename, contentType, body: renderStoryPackage(recap, boxScore) };
+    default:
+      throw new Error(`Unknown export format '${format}'`);
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Tests for the recap fact check
+ */
+
+import { describe, it, expect } from 'vitest';
+import { factCheckRecap, factCheckSummary } from './fact-check.js';
+import type { ExportBoxScore } from './export.js';
+
+const player = (name: string, points: number, rebounds: number, fgm = 0, fga = 0) => ({
+  name,
+  points,
+  rebounds,
+  assists: 2,
+  field_goals_made: fgm,
+  field_goals_attempted: fga,
+});
+
+const boxScore: ExportBoxScore = {
+  metadata: { home_team: 'College of Marin', away_team: 'Diablo Valley', home_score: 68, away_score: 64 },
+  home_team: {
+    team_name: 'College of Marin',
+    total_points: 68,
+    total_rebounds: 40,
+    turnovers: 12,
+    players: [player('Maya Chen', 18, 11, 7, 12), player('Tess Ruiz', 12, 4)],
+  },
+  away_team: { team_name: 'Diablo Valley', total_points: 64, total_rebounds: 35, turnovers: 20, players: [player('Ana Lopez', 21, 6)] },
+  quarter_scores: [
+    [18, 16, 20, 10],
+    [12, 14, 20, 22],
+  ],
+};
+
+const recap = (text: string, key_stats: string[] = []) => ({
+  headline: 'Mariners Rally',
+  subheadline: 'College of Marin comes back',
+  lead_paragraph: text,
+  body_paragraphs: [],
+  key_stats,
+  player_of_the_game: 'Maya Chen',
+});
+
+function claimFor(text: string, claim: string) {
+  return factCheckRecap(recap(text), boxScore).claims.find((c) => c.text === claim);
+}
+
+describe('factCheckRecap', () => {
+  it('should verify stats that match the box score', () => {
+    const report = factCheckRecap(recap('Maya Chen had 18 points and 11 rebounds as College of Marin beat Diablo Valley 68-64.'), boxScore);
+
+    expect(report.claims.map((c) => [c.text, c.status])).toEqual([
+      ['18 points', 'verified'],
+      ['11 rebounds', 'verified'],
+      ['68-64', 'verified'],
+    ]);
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should flag a wrong number as a critical mismatch', () => {
+    const claim = claimFor('Maya Chen poured in 22 points.', '22 points');
+
+    expect(claim).toMatchObject({ status: 'mismatch', critical: true, subject: 'Maya Chen', actual: '18' });
+    expect(claim?.note).toBe('Maya Chen had 18 points, not 22');
+  });
+
+  it('should flag a teammate\'s line credited to the wrong player', () => {
+    const claim = claimFor('Chen led the way with 12 points.', '12 points');
+
+    expect(claim).toMatchObject({ status: 'misattributed', critical: true, subject: 'Maya Chen' });
+    expect(claim?.note).toBe('The box score gives 12 points to Tess Ruiz; Maya Chen had 18');
+  });
+
+  it('should carry a pronoun to the last player named', () => {
+    const report = factCheckRecap(recap('Tess Ruiz started hot. She finished with 4 rebounds.'), boxScore);
+
+    expect(report.claims[0]).toMatchObject({ subject: 'Tess Ruiz', status: 'verified' });
+  });
+
+  it('should check shooting splits', () => {
+    expect(claimFor('Chen went 7-of-12 from the field.', '7-of-12')).toMatchObject({ status: 'verified', stat: 'shooting' });
+    expect(claimFor('Chen went 8-of-12 from the field.', '8-of-12')).toMatchObject({ status: 'mismatch', actual: '7-of-12' });
+  });
+
+  it('should leave period and season figures unsupported but not critical', () => {
+    const report = factCheckRecap(
+      recap('Chen scored 9 points in the fourth quarter. She is averaging 15 points per game. Marin outscored DVC 22-10 in the fourth.'),
+      boxScore
+    );
+
+    expect(report.claims.map((c) => [c.text, c.status, c.critical])).toEqual([
+      ['9 points', 'unsupported', false],
+      ['15 points', 'unsupported', false],
+      ['22-10', 'verified', false],
+    ]);
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should check team totals and go easy on the opponent\'s', () => {
+    expect(claimFor('College of Marin pulled down 40 rebounds.', '40 rebounds')).toMatchObject({ kind: 'team_stat', status: 'verified' });
+    expect(claimFor('College of Marin forced 20 turnovers.', '20 turnovers')).toMatchObject({ status: 'misattributed', critical: false });
+  });
+
+  it('should leave shares of a total unsupported but not critical', () => {
+    const report = factCheckRecap(
+      recap(
+        'College of Marin scored 24 points in the paint and 18 points off turnovers. ' +
+          'College of Marin got 22 points from its reserves. Chen and Ruiz combined for 32 points. ' +
+          'College of Marin had 14 points off the bench and 9 points on second-chance shots.'
+      ),
+      boxScore
+    );
+
+    expect(report.claims.map((c) => [c.text, c.status, c.critical])).toEqual([
+      ['24 points', 'unsupported', false],
+      ['18 points', 'unsupported', false],
+      ['22 points', 'unsupported', false],
+      ['32 points', 'unsupported', false],
+      ['14 points', 'unsupported', false],
+      ['9 points', 'unsupported', false],
+    ]);
+    expect(report.claims[0]).toMatchObject({ kind: 'team_stat', subject: 'College of Marin' });
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should only hold a wrong team figure when it is plainly the game total', () => {
+    expect(claimFor('College of Marin grabbed 30 rebounds.', '30 rebounds')).toMatchObject({ status: 'mismatch', critical: false });
+    expect(claimFor('College of Marin finished with 30 rebounds.', '30 rebounds')).toMatchObject({ status: 'mismatch', critical: true });
+  });
+
+  it('should flag a player the box score doesn\'t list', () => {
+    const claim = claimFor('Jordan Blake added 9 points off the bench.', '9 points');
+
+    expect(claim).toMatchObject({ status: 'unsupported', critical: false, subject: 'Jordan Blake' });
+  });
+
+  it('should not take a coach for an unlisted player', () => {
+    const report = factCheckRecap(recap('Head coach Kim Walters credited the team\'s 6 assists.'), boxScore);
+
+    expect(report.claims[0].subject).toBeNull();
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should go easy on a figure that belongs to another player in the sentence', () => {
+    const report = factCheckRecap(recap('Chen outscored everyone but Lopez, who had 21 points, with 18 points of her own.'), boxScore);
+
+    expect(report.claims.map((c) => [c.text, c.status, c.critical])).toEqual([
+      ['21 points', 'verified', false],
+      ['18 points', 'misattributed', false],
+    ]);
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should flag a wrong final score but skip records', () => {
+    const report = factCheckRecap(recap('College of Marin beat Diablo Valley 70-64 and improved to 12-3.'), boxScore);
+
+    expect(report.claims).toHaveLength(1);
+    expect(report.claims[0]).toMatchObject({ text: '70-64', status: 'mismatch', critical: true, actual: '68-64' });
+  });
+
+  it('should verify a running score at halftime without a hold', () => {
+    const report = factCheckRecap(recap('Diablo Valley led 34-26 at halftime before College of Marin rallied for the win.'), boxScore);
+
+    expect(report.claims).toHaveLength(1);
+    expect(report.claims[0]).toMatchObject({ text: '34-26', status: 'verified', critical: false });
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should not judge a wrong halftime score as the final', () => {
+    const claim = claimFor('College of Marin trailed 30-26 at the break but won.', '30-26');
+
+    expect(claim).toMatchObject({ status: 'unsupported', critical: false });
+  });
+
+  it('should skip a record stated with "is" or "now"', () => {
+    const report = factCheckRecap(recap('With the win, College of Marin is 1-0. Diablo Valley is now 3-4 overall.'), boxScore);
+
+    expect(report.claims).toHaveLength(0);
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should check key stats and the player of the game', () => {
+    const report = factCheckRecap(
+      { ...recap('College of Marin won.', ['Ana Lopez: 21 points']), player_of_the_game: 'Maya Chen - 19 points and 11 rebounds' },
+      boxScore
+    );
+
+    expect(report.claims.map((c) => [c.field, c.status])).toEqual([
+      ['key_stats[0]', 'verified'],
+      ['player_of_the_game', 'mismatch'],
+      ['player_of_the_game', 'verified'],
+    ]);
+  });
+});
+
+describe('factCheckRecap for volleyball', () => {
+  const volleyball: ExportBoxScore = {
+    metadata: { home_team: 'College of Marin', away_team: 'Diablo Valley', home_score: 3, away_score: 1 },
+    home_team: {
+      team_name: 'College of Marin',
+      block_solos: 3,
+      block_assists: 6,
+      total_blocks: 6,
+      players: [{ name: 'Jane Doe', kills: 14, block_solos: 2, block_assists: 4 }],
+    },
+    away_team: { team_name: 'Diablo Valley', block_solos: 1, block_assists: 2, total_blocks: 2, players: [] },
+  };
+
+  it('should count a player\'s solo and assisted blocks', () => {
+    const [claim] = factCheckRecap(recap('Jane Doe had 6 blocks at the net.'), volleyball).claims;
+
+    expect(claim).toMatchObject({ text: '6 blocks', status: 'verified', actual: '6' });
+  });
+
+  it('should check team blocks against the team total', () => {
+    const [claim] = factCheckRecap(recap('College of Marin finished with 6 blocks.'), volleyball).claims;
+
+    expect(claim).toMatchObject({ kind: 'team_stat', status: 'verified' });
+  });
+});
+
+describe('factCheckRecap for baseball', () => {
+  const baseball: ExportBoxScore = {
+    metadata: { home_team: 'College of Marin', away_team: 'Diablo Valley', home_score: 5, away_score: 3 },
+    home_team: {
+      team_name: 'College of Marin',
+      runs: 5,
+      hits: 9,
+      batters: [{ name: 'Ray Ortiz', at_bats: 4, runs: 1, hits: 2, rbi: 1, walks: 0, strikeouts: 1 }],
+      pitchers: [{ name: 'Ray Ortiz', innings_pitched: 7, hits_allowed: 4, runs_allowed: 3, earned_runs: 2, walks: 2, strikeouts: 8 }],
+    },
+    away_team: { team_name: 'Diablo Valley', runs: 3, hits: 4, batters: [], pitchers: [] },
+  };
+
+  it('should check a two-way player\'s pitching line against the pitching row', () => {
+    const report = factCheckRecap(recap('Ray Ortiz went 2-for-4 at the plate and allowed just four hits.'), baseball);
+
+    expect(report.claims.map((c) => [c.text, c.status])).toEqual([
+      ['2-for-4', 'verified'],
+      ['four hits', 'verified'],
+    ]);
+    expect(report.needsReview).toBe(false);
+  });
+
+  it('should still flag a two-way player\'s wrong pitching line', () => {
+    const [claim] = factCheckRecap(recap('Ray Ortiz gave up 6 hits.'), baseball).claims;
+
+    expect(claim).toMatchObject({ status: 'mismatch', critical: true, actual: '4' });
+  });
+});
+
+describe('factCheckSummary', () => {
+  it('should name the claims that need review', () => {
+    const report = factCheckRecap(recap('Maya Chen poured in 22 points.'), boxScore);
+
+    expect(factCheckSummary(report)).toBe('1 claim needs review: "22 points" (Maya Chen had 18 points, not 22)');
+  });
+
+  it('should count verified claims when nothing is wrong', () => {
+    expect(factCheckSummary(factCheckRecap(recap('Maya Chen had 18 points.'), boxScore))).toBe(
+      '1 of 1 claims verified against the box score'
+    );
+  });
+});
@@ -0,0 +1,671 @@
+/**
+ * Recap Fact Check
+ *
+ * Recaps are written by an LLM from the box score, and nothing stops one from
+ * giving a player 20 points she didn't score or crediting one player's line to
+ * a teammate. This pass pulls the checkable claims out of a recap (stat lines,
+ * shooting splits, scores), works out who each one is about, and resolves it
+ * against the box score.
+ *
+ * A claim is verified, mismatched (wrong number), misattributed (right number,
+ * wrong player) or unsupported (the box score can't settle it: a per-quarter
+ * split, a season average, points in the paint, a player it doesn't list).
+ * Wrong numbers about a player, a stated team total or the final score are
+ * critical, and a recap with any critical claim is held for review instead of
+ * published.
+ */
+
+import type { GameRecap } from '../../baml_client/types.js';
+import type { ExportBoxScore } from './export.js';
+
+export type ClaimKind = 'player_stat' | 'team_stat' | 'shooting' | 'score';
+export type ClaimStatus = 'verified' | 'mismatch' | 'misattributed' | 'unsupported';
+
+/**
+ * One checkable claim and what the box score says about it
+ */
+export interface FactCheckClaim {
+  /** Recap field the claim is in, e.g. "body_paragraphs[2]" */
+  field: string;
+  /** The claim as written, e.g. "18 points" */
+  text: string;
+  sentence: string;
+  kind: ClaimKind;
+  /** Player or team the claim is about, when one is named */
+  subject: string | null;
+  /** Stat label, e.g. "points" or "3-point shooting" */
+  stat: string | null;
+  claimed: string;
+  /** The box score's figure for the same subject and stat */
+  actual: string | null;
+  status: ClaimStatus;
+  critical: boolean;
+  note: string;
+}
+
+/**
+ * Every claim in a recap and whether it can be published as is
+ */
+export interface FactCheckReport {
+  claims: FactCheckClaim[];
+  verified: number;
+  /** Claims that aren't verified, critical or not */
+  flagged: number;
+  critical: number;
+  needsReview: boolean;
+}
+
+/**
+ * Words a recap uses for a stat, and the box score fields that hold it
+ */
+interface StatTerm {
+  terms: string[];
+  stat: string;
+  playerFields: string[];
+  teamFields: string[];
+  /** Fields on a pitcher's row, for wording like "allowed four hits" */
+  pitchingFields?: string[];
+}
+
+const STAT_TERMS: StatTerm[] = [
+  { terms: ['points', 'point', 'pts'], stat: 'points', playerFields: ['points'], teamFields: ['total_points', 'points'] },
+  { terms: ['offensive rebounds', 'offensive boards'], stat: 'offensive rebounds', playerFields: ['offensive_rebounds'], teamFields: ['offensive_rebounds'] },
+  { terms: ['defensive rebounds'], stat: 'defensive rebounds', playerFields: ['defensive_rebounds'], teamFields: ['defensive_rebounds'] },
+  { terms: ['rebounds', 'rebound', 'boards'], stat: 'rebounds', playerFields: ['rebounds'], teamFields: ['total_rebounds'] },
+  { terms: ['assists', 'assist'], stat: 'assists', playerFields: ['assists'], teamFields: ['assists'] },
+  { terms: ['steals', 'steal'], stat: 'steals', playerFields: ['steals'], teamFields: ['steals'] },
+  // A volleyball player is credited with solo and assisted blocks alike; the team's total_blocks halves the assists
+  { terms: ['blocks', 'blocked shots', 'block'], stat: 'blocks', playerFields: ['blocks', 'individual_blocks', 'field_blocks'], teamFields: ['blocks', 'total_blocks', 'field_blocks'] },
+  { terms: ['turnovers', 'turnover'], stat: 'turnovers', playerFields: ['turnovers'], teamFields: ['turnovers'] },
+  { terms: ['three-pointers', '3-pointers', 'threes', '3s'], stat: 'three-pointers', playerFields: ['three_pointers_made'], teamFields: ['three_pointers_made'] },
+  { terms: ['free throws'], stat: 'free throws', playerFields: ['free_throws_made'], teamFields: ['free_throws_made'] },
+  { terms: ['kills', 'kill'], stat: 'kills', playerFields: ['kills'], teamFields: ['kills'] },
+  { terms: ['digs', 'dig'], stat: 'digs', playerFields: ['digs'], teamFields: ['digs'] },
+  { terms: ['service aces', 'aces', 'ace'], stat: 'aces', playerFields: ['service_aces'], teamFields: ['service_aces'] },
+  { terms: ['goals', 'goal'], stat: 'goals', playerFields: ['goals'], teamFields: ['goals'] },
+  { terms: ['shots on goal'], stat: 'shots on goal', playerFields: ['shots_on_goal'], teamFields: ['shots_on_goal'] },
+  { terms: ['shots', 'shot'], stat: 'shots', playerFields: ['shots'], teamFields: ['shots'] },
+  { terms: ['saves', 'save'], stat: 'saves', playerFields: ['saves'], teamFields: ['saves'] },
+  { terms: ['exclusions'], stat: 'exclusions', playerFields: ['exclusions'], teamFields: ['exclusions'] },
+  { terms: ['home runs', 'homers', 'home run', 'homer'], stat: 'home runs', playerFields: ['home_runs'], teamFields: ['home_runs'], pitchingFields: ['home_runs_allowed'] },
+  { terms: ['RBIs', 'RBI', 'runs batted in'], stat: 'RBIs', playerFields: ['rbi'], teamFields: ['rbi'] },
+  { terms: ['hits', 'hit'], stat: 'hits', playerFields: ['hits'], teamFields: ['hits'], pitchingFields: ['hits_allowed'] },
+  { terms: ['runs', 'run'], stat: 'runs', playerFields: ['runs'], teamFields: ['runs'], pitchingFields: ['runs_allowed'] },
+  { terms: ['strikeouts', 'strikeout'], stat: 'strikeouts', playerFields: ['strikeouts'], teamFields: ['strikeouts'], pitchingFields: ['strikeouts'] },
+  { terms: ['walks', 'walk'], stat: 'walks', playerFields: ['walks'], teamFields: ['walks'], pitchingFields: ['walks'] },
+  { terms: ['doubles'], stat: 'doubles', playerFields: ['doubles'], teamFields: ['doubles'] },
+  { terms: ['stolen bases'], stat: 'stolen bases', playerFields: ['stolen_bases'], teamFields: ['stolen_bases'] },
+];
+
+const TERM_INDEX = new Map(STAT_TERMS.flatMap((entry) => entry.terms.map((term) => [term.toLowerCase(), entry] as const)));
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20,
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest terms first so "offensive rebounds" wins over "rebounds"
+const STAT_PATTERN = new RegExp(
+  `\\b(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})\\s+(${[...TERM_INDEX.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')})\\b`,
+  'gi'
+);
+const SHOOTING_PATTERN = /\b(\d{1,2})[- ](?:of|for)[- ](\d{1,2})\b/gi;
+const SCORE_PATTERN = /(?<![\d.\-/])(\d{1,3})-(\d{1,3})(?![\d\-/])/g;
+
+// A figure for part of the game: the box score only has totals
+const PERIOD_CONTEXT =
+  /^[^.;,]{0,30}?\b(?:in the (?:first|second|third|fourth|fifth|final|last|opening|closing|early|late)\b|in overtime|at (?:the )?half(?:time)?\b|at the break|intermission|(?:first|second) half|quarter|period|inning|frame|set\b|stretch|run\b|spurt)/i;
+// A share of a total the box score doesn't break out: points in the paint, off
+// turnovers or from the bench, or two players' lines added together
+const SUBTOTAL_AFTER =
+  /^[^.;]{0,30}?\b(?:in the paint|off (?:of )?(?:\w+ )?turnovers|off the bench|(?:on |from )?second[- ]chance|(?:on |from )?fast[- ]breaks?|in transition|from (?:its|their|the) (?:reserves|bench)|from reserves)\b/i;
+const SUBTOTAL_BEFORE = /\b(?:combined|combining|together|bench|reserves)\b[^.;]{0,30}$/i;
+// Wording that makes a team figure the game total rather than a share of it
+const TOTAL_CONTEXT = /\b(?:finished with|ended with|totaled|totalled|in all|for the game|as a team|on the (?:night|day|afternoon|evening))\b/i;
+// A figure for the season or a career
+const SEASON_CONTEXT = /\b(?:averag\w*|per game|a game|this season|on the season|for the season|on the year|career (?!high)|all-time)\b/i;
+// Words that make a score the game's result
+const RESULT_CONTEXT = /\b(?:beat|beats|defeat\w*|won|wins?|victory|fell|falls?|lost|loss|tops?|topped|edged?|downed|final|held off|outlasted|rout\w*|rall\w*)\b/i;
+// A win-loss record rather than a score
+const RECORD_BEFORE =
+  /\b(?:(?:improv\w*|mov\w*|fell|falls?|dropp?\w*|slipp?\w*|evens?|evened|sits?|stands?)\s+to|is|are|now)\s+\(?$|\(\s*$/i;
+const RECORD_AFTER = /^\s*(?:overall|in (?:conference|league)|on the (?:season|year)|record|\))/i;
+const PRONOUN_START = /^(?:she|he|her|his)\b/i;
+// A pitcher's line rather than a batter's
+const PITCHING_CONTEXT = /\b(?:allow\w*|gave up|giv\w* up|surrender\w*|yield\w*|scatter\w*|struck out|strik\w* out|fann\w*|held|limit\w*)\b[^.;]{0,20}$/i;
+// Capitalized words ahead of a stat that might be a player's name, and the words between
+const NAME_CANDIDATE = /([A-Z][a-z'’.-]+(?:\s+[A-Z][a-z'’-]+)+)(\W{0,3}(?:\w+\W+){0,4})$/;
+// A name that's speaking or being quoted rather than putting up the stat
+const NAME_SPEAKER_BEFORE = /\b(?:coach(?:es)?|said|says|told|according to)\W*$/i;
+const NAME_SPEAKER_AFTER = /^\W*(?:said|says|told|added that|credited|praised)\b/i;
+// Words between a name and a stat that make the stat something other than the name's own line
+const NAME_OBJECT_GAP = /\b(?:the|a|an|his|her|their|its|our)\b|['’]s\b/i;
+const NAME_STOPWORDS = new Set(['The', 'A', 'An', 'In', 'On', 'At', 'With', 'After', 'Before', 'Both', 'Freshman', 'Sophomore', 'Junior', 'Senior', 'Redshirt', 'Coach', 'Head']);
+
+/**
+ * A player's rows in the box score (a baseball player can bat and pitch)
+ */
+interface PlayerEntry {
+  name: string;
+  team: string;
+  rows: Record<string, unknown>[];
+}
+
+interface TeamEntry {
+  name: string;
+  stats: Record<string, unknown>;
+}
+
+function isRow(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function teamEntries(boxScore: ExportBoxScore): TeamEntry[] {
+  return [
+    { name: boxScore.metadata.away_team, stats: boxScore.away_team },
+    { name: boxScore.metadata.home_team, stats: boxScore.home_team },
+  ];
+}
+
+function playerEntries(teams: TeamEntry[]): PlayerEntry[] {
+  const players = new Map<string, PlayerEntry>();
+  for (const team of teams) {
+    for (const value of Object.values(team.stats)) {
+      if (!Array.isArray(value)) continue;
+      for (const row of value) {
+        if (!isRow(row) || typeof row.name !== 'string' || row.name.trim() === '') continue;
+        const key = `${team.name}|${row.name}`;
+        const entry = players.get(key) ?? { name: row.name, team: team.name, rows: [] };
+        entry.rows.push(row);
+        players.set(key, entry);
+      }
+    }
+  }
+  return [...players.values()];
+}
+
+function lastName(name: string): string {
+  return name.trim().split(/\s+/).pop() ?? name;
+}
+
+/**
+ * Where a player or team is mentioned in a sentence
+ */
+interface Mention<T> {
+  entry: T;
+  index: number;
+}
+
+function findMentions<T>(sentence: string, entries: T[], names: (entry: T) => string[]): Mention<T>[] {
+  const mentions: Mention<T>[] = [];
+  for (const entry of entries) {
+    for (const name of names(entry)) {
+      const pattern = new RegExp(`\\b${escapeRegExp(name)}(?:'s|’s)?\\b`, 'gi');
+      for (const match of sentence.matchAll(pattern)) {
+        mentions.push({ entry, index: match.index });
+      }
+    }
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * The names a recap calls each player: the full name, and the last name when
+ * no one else in the box score shares it
+ */
+function playerNames(players: PlayerEntry[]): (player: PlayerEntry) => string[] {
+  const lastNameCounts = new Map<string, number>();
+  for (const player of players) {
+    const last = lastName(player.name).toLowerCase();
+    lastNameCounts.set(last, (lastNameCounts.get(last) ?? 0) + 1);
+  }
+  return (player) => {
+    const last = lastName(player.name);
+    return lastNameCounts.get(last.toLowerCase()) === 1 && last !== player.name ? [player.name, last] : [player.name];
+  };
+}
+
+/**
+ * The mention a claim at `index` is about: the nearest one before it, or the
+ * first one after it
+ */
+function nearestMention<T>(mentions: Mention<T>[], index: number): T | null {
+  const before = mentions.filter((mention) => mention.index < index);
+  if (before.length > 0) return before[before.length - 1].entry;
+  return mentions.find((mention) => mention.index > index)?.entry ?? null;
+}
+
+function parseNumber(text: string): number {
+  return NUMBER_WORDS[text.toLowerCase()] ?? Number(text);
+}
+
+/**
+ * Stats a box score row doesn't store but that are added up from fields it does
+ */
+const DERIVED_FIELDS: Record<string, (row: Record<string, unknown>) => number | null> = {
+  individual_blocks: (row) =>
+    typeof row.block_solos === 'number' && typeof row.block_assists === 'number' ? row.block_solos + row.block_assists : null,
+};
+
+function fieldValue(rows: Record<string, unknown>[], fields: string[]): number | null {
+  return fieldValues(rows, fields)[0] ?? null;
+}
+
+/**
+ * Every value the fields hold across a player's rows; a two-way baseball player
+ * has a batting row and a pitching row under one name
+ */
+function fieldValues(rows: Record<string, unknown>[], fields: string[]): number[] {
+  const values: number[] = [];
+  for (const row of rows) {
+    for (const field of fields) {
+      const value = field in DERIVED_FIELDS ? DERIVED_FIELDS[field](row) : row[field];
+      if (typeof value === 'number') {
+        values.push(value);
+        break;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * A player's values for a stat: the pitching fields on pitching rows when the
+ * wording is about pitching, else the batting fields, with the pitching fields
+ * as a fallback for a player who only pitched
+ */
+function playerValues(player: PlayerEntry, term: StatTerm, pitching: boolean): number[] {
+  if (pitching && term.pitchingFields) {
+    const pitchingRows = player.rows.filter((row) => 'innings_pitched' in row);
+    const values = fieldValues(pitchingRows.length > 0 ? pitchingRows : player.rows, term.pitchingFields);
+    if (values.length > 0) return values;
+  }
+  const values = fieldValues(player.rows, term.playerFields);
+  return values.length > 0 || !term.pitchingFields ? values : fieldValues(player.rows, term.pitchingFields);
+}
+
+/**
+ * A team total: the team's own field, or the sum of its players' rows
+ */
+function teamValue(team: TeamEntry, term: StatTerm, players: PlayerEntry[]): number | null {
+  const own = fieldValue([team.stats], term.teamFields);
+  if (own !== null) return own;
+  const values = players
+    .filter((player) => player.team === team.name)
+    .map((player) => fieldValue(player.rows, term.playerFields))
+    .filter((value): value is number => value !== null);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+}
+
+/**
+ * Made and attempted fields for a shooting split, from the words around it
+ */
+function shootingFields(context: string, player: PlayerEntry | null): { stat: string; made: string; attempted: string } | null {
+  if (/\b(?:three|3-point|3-pt|beyond the arc|from deep|from distance)/i.test(context)) {
+    return { stat: '3-point shooting', made: 'three_pointers_made', attempted: 'three_pointers_attempted' };
+  }
+  if (/\b(?:free[- ]throw|from the line|from the stripe|at the line)/i.test(context)) {
+    return { stat: 'free throw shooting', made: 'free_throws_made', attempted: 'free_throws_attempted' };
+  }
+  if (/\b(?:at the plate|at-bats?|at bats?)\b/i.test(context) || (player && fieldValue(player.rows, ['at_bats']) !== null)) {
+    return { stat: 'hitting', made: 'hits', attempted: 'at_bats' };
+  }
+  if (/\b(?:shooting|from the field|field goals?|shots?)\b/i.test(context)) {
+    if (player && fieldValue(player.rows, ['field_goals_made']) === null && fieldValue(player.rows, ['goals']) !== null) {
+      return { stat: 'shooting', made: 'goals', attempted: 'shots' };
+    }
+    return { stat: 'shooting', made: 'field_goals_made', attempted: 'field_goals_attempted' };
+  }
+  return null;
+}
+
+/**
+ * Split text into sentences, keeping "Calif." and the like together well
+ * enough for attribution
+ */
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=["“]?[A-Z])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The recap's text by field, in reading order
+ */
+function recapFields(recap: GameRecap): [string, string][] {
+  return [
+    ['headline', recap.headline],
+    ['subheadline', recap.subheadline],
+    ['lead_paragraph', recap.lead_paragraph],
+    ...recap.body_paragraphs.map((text, i): [string, string] => [`body_paragraphs[${i}]`, text]),
+    ...recap.key_stats.map((text, i): [string, string] => [`key_stats[${i}]`, text]),
+    ['player_of_the_game', recap.player_of_the_game],
+  ];
+}
+
+/**
+ * A capitalized name right before a claim that isn't a player or team in the
+ * box score, e.g. an invented player. Only a name that reads as the stat's
+ * subject counts: not a coach, a speaker, or "Walters credited the team's 22
+ * assists".
+ */
+function unknownName(before: string, teams: TeamEntry[]): string | null {
+  const match = before.match(NAME_CANDIDATE);
+  if (!match) return null;
+  const gap = match[2];
+  if (NAME_SPEAKER_BEFORE.test(before.slice(0, match.index)) || NAME_SPEAKER_AFTER.test(gap) || NAME_OBJECT_GAP.test(gap)) {
+    return null;
+  }
+  const words = match[1].split(/\s+/).filter((word) => !NAME_STOPWORDS.has(word));
+  if (words.length < 2) return null;
+  const teamWords = new Set(teams.flatMap((team) => team.name.toLowerCase().split(/\s+/)));
+  if (words.some((word) => teamWords.has(word.toLowerCase()))) return null;
+  return words.join(' ');
+}
+
+/**
+ * Check a stat claim about a player against the box score
+ *
+ * Crediting the figure to another player named in the same sentence is
+ * flagged but not critical: "Smith outscored Brown, who had 20 points, with
+ * 18 points of her own" reads to the pattern as Brown's 18.
+ */
+function checkPlayerStat(
+  claim: Omit<FactCheckClaim, 'status' | 'critical' | 'note' | 'actual'>,
+  claimed: number,
+  term: StatTerm,
+  player: PlayerEntry,
+  players: PlayerEntry[],
+  named: PlayerEntry[],
+  pitching: boolean
+): FactCheckClaim {
+  const values = playerValues(player, term, pitching);
+  if (values.length === 0) {
+    return { ...claim, actual: null, status: 'unsupported', critical: false, note: `The box score has no ${term.stat} for ${player.name}` };
+  }
+  if (values.includes(claimed)) {
+    return { ...claim, actual: String(claimed), status: 'verified', critical: false, note: `${player.name} had ${claimed} ${term.stat}` };
+  }
+
+  const actual = values[0];
+  const owner = players.find((other) => other !== player && playerValues(other, term, pitching).includes(claimed));
+  if (owner) {
+    return {
+      ...claim,
+      actual: String(actual),
+      status: 'misattributed',
+      critical: !named.includes(owner),
+      note: `The box score gives ${claimed} ${term.stat} to ${owner.name}; ${player.name} had ${actual}`,
+    };
+  }
+  return {
+    ...claim,
+    actual: String(actual),
+    status: 'mismatch',
+    critical: true,
+    note: `${player.name} had ${actual} ${term.stat}, not ${claimed}`,
+  };
+}
+
+/**
+ * Check a stat claim about a team; crediting the opponent's total ("forced 20
+ * turnovers") is common phrasing, so it's flagged but not critical. A wrong
+ * number is only critical when the sentence plainly gives the game total, since
+ * team figures are often a share of it the pattern doesn't recognize.
+ */
+function checkTeamStat(
+  claim: Omit<FactCheckClaim, 'status' | 'critical' | 'note' | 'actual'>,
+  claimed: number,
+  term: StatTerm,
+  team: TeamEntry,
+  teams: TeamEntry[],
+  players: PlayerEntry[],
+  statesTotal: boolean
+): FactCheckClaim {
+  const actual = teamValue(team, term, players);
+  if (actual === null) {
+    return { ...claim, actual: null, status: 'unsupported', critical: false, note: `The box score has no team ${term.stat} for ${team.name}` };
+  }
+  if (actual === claimed) {
+    return { ...claim, actual: String(actual), status: 'verified', critical: false, note: `${team.name} had ${actual} ${term.stat}` };
+  }
+  const opponent = teams.find((other) => other !== team);
+  if (opponent && teamValue(opponent, term, players) === claimed) {
+    return {
+      ...claim,
+      actual: String(actual),
+      status: 'misattributed',
+      critical: false,
+      note: `${claimed} ${term.stat} is ${opponent.name}'s total; ${team.name} had ${actual}`,
+    };
+  }
+  return {
+    ...claim,
+    actual: String(actual),
+    status: 'mismatch',
+    critical: statesTotal,
+    note: statesTotal
+      ? `${team.name} had ${actual} ${term.stat}, not ${claimed}`
+      : `${team.name} had ${actual} ${term.stat} in all; ${claimed} may be part of that`,
+  };
+}
+
+/**
+ * Check a score against the final, the period scores and the running score
+ * after each period
+ */
+function checkScore(
+  claim: Omit<FactCheckClaim, 'status' | 'critical' | 'note' | 'actual'>,
+  high: number,
+  low: number,
+  boxScore: ExportBoxScore,
+  resultContext: boolean
+): FactCheckClaim {
+  const { home_score, away_score } = boxScore.metadata;
+  const final = `${Math.max(home_score, away_score)}-${Math.min(home_score, away_score)}`;
+  if (high === Math.max(home_score, away_score) && low === Math.min(home_score, away_score)) {
+    return { ...claim, actual: final, status: 'verified', critical: false, note: 'Final score' };
+  }
+
+  for (const [away, home] of periodPairs(boxScore)) {
+    if (Math.max(away, home) === high && Math.min(away, home) === low) {
+      return { ...claim, actual: `${away}-${home}`, status: 'verified', critical: false, note: 'Matches a period score' };
+    }
+  }
+  for (const [away, home] of runningPairs(boxScore)) {
+    if (Math.max(away, home) === high && Math.min(away, home) === low) {
+      return { ...claim, actual: `${away}-${home}`, status: 'verified', critical: false, note: 'Matches the score after a period' };
+    }
+  }
+
+  if (resultContext) {
+    return { ...claim, actual: final, status: 'mismatch', critical: true, note: `The final score was ${final}` };
+  }
+  return {
+    ...claim,
+    actual: null,
+    status: 'unsupported',
+    critical: false,
+    note: 'Not the final, a period score or a running score; runs and partial scores aren\'t in the box score',
+  };
+}
+
+/**
+ * Away and home scores for each period, when the box score has them
+ */
+function periodPairs(boxScore: ExportBoxScore): [number, number][] {
+  let away: unknown;
+  let home: unknown;
+  for (const key of ['quarter_scores', 'inning_scores']) {
+    const scores = boxScore[key];
+    if (Array.isArray(scores) && scores.length === 2) [away, home] = scores;
+  }
+  for (const key of ['period_scores', 'set_scores']) {
+    const scores = boxScore[key];
+    if (isRow(scores)) [away, home] = [scores.away_scores, scores.home_scores];
+  }
+  if (!Array.isArray(away) || !Array.isArray(home)) return [];
+  return away.map((score, i): [number, number] => [score as number, home[i] as number]).filter(([a, h]) => typeof a === 'number' && typeof h === 'number');
+}
+
+/**
+ * Away and home scores after each period ("led 34-26 at halftime"); for sets,
+ * the sets each side had won
+ */
+function runningPairs(boxScore: ExportBoxScore): [number, number][] {
+  const sets = isRow(boxScore.set_scores);
+  let away = 0;
+  let home = 0;
+  return periodPairs(boxScore).map(([a, h]): [number, number] => {
+    away += sets ? Number(a > h) : a;
+    home += sets ? Number(h > a) : h;
+    return [away, home];
+  });
+}
+
+/**
+ * Check every number in a recap against the box score it was written from
+ */
+export function factCheckRecap(recap: GameRecap, boxScore: ExportBoxScore): FactCheckReport {
+  const teams = teamEntries(boxScore);
+  const players = playerEntries(teams);
+  const namesFor = playerNames(players);
+  const claims: FactCheckClaim[] = [];
+
+  for (const [field, text] of recapFields(recap)) {
+    // "She added 11 rebounds" is about the last player the paragraph named
+    let lastPlayer: PlayerEntry | null = null;
+
+    for (const sentence of sentences(text)) {
+      const playerMentions = findMentions(sentence, players, namesFor);
+      const teamMentions = findMentions(sentence, teams, (team) => [team.name]);
+      const fallbackPlayer = PRONOUN_START.test(sentence) ? lastPlayer : null;
+      const covered: [number, number][] = [];
+
+      const subjectAt = (index: number) => {
+        const player = nearestMention(playerMentions, index) ?? (teamMentions.length === 0 ? fallbackPlayer : null);
+        return { player, team: player ? null : nearestMention(teamMentions, index) };
+      };
+
+      for (const match of sentence.matchAll(SHOOTING_PATTERN)) {
+        const after = sentence.slice(match.index + match[0].length, match.index + match[0].length + 40);
+        const { player } = subjectAt(match.index);
+        const fields = shootingFields(after, player);
+        if (!fields) continue;
+        covered.push([match.index, match.index + match[0].length]);
+
+        const claimed = `${match[1]}-of-${match[2]}`;
+        const base = { field, text: match[0], sentence, kind: 'shooting' as const, subject: player?.name ?? null, stat: fields.stat, claimed };
+        if (!player || PERIOD_CONTEXT.test(after)) {
+          claims.push({
+            ...base,
+            actual: null,
+            status: 'unsupported',
+            critical: false,
+            note: player ? 'A split for part of the game; the box score only has totals' : 'No player named for this split',
+          });
+          continue;
+        }
+        const made = fieldValue(player.rows, [fields.made]);
+        const attempted = fieldValue(player.rows, [fields.attempted]);
+        if (made === null || attempted === null) {
+          claims.push({ ...base, actual: null, status: 'unsupported', critical: false, note: `The box score has no ${fields.stat} for ${player.name}` });
+          continue;
+        }
+        const actual = `${made}-of-${attempted}`;
+        const matches = made === Number(match[1]) && attempted === Number(match[2]);
+        claims.push({
+          ...base,
+          actual,
+          status: matches ? 'verified' : 'mismatch',
+          critical: !matches,
+          note: matches ? `${player.name} went ${actual}` : `${player.name} went ${actual}, not ${claimed}`,
+        });
+      }
+
+      for (const match of sentence.matchAll(STAT_PATTERN)) {
+        const term = TERM_INDEX.get(match[2].toLowerCase());
+        if (!term) continue;
+        covered.push([match.index, match.index + match[0].length]);
+
+        const claimed = parseNumber(match[1]);
+        const before = sentence.slice(Math.max(0, match.index - 30), match.index);
+        const after = sentence.slice(match.index + match[0].length);
+        const { player, team } = subjectAt(match.index);
+        const base = { field, text: match[0], sentence, kind: 'player_stat' as const, subject: player?.name ?? null, stat: term.stat, claimed: String(claimed) };
+
+        const teamBase = team && !player ? { ...base, kind: 'team_stat' as const, subject: team.name } : null;
+        const stranger = player || team ? null : unknownName(sentence.slice(0, match.index), teams);
+
+        if (SEASON_CONTEXT.test(before) || SEASON_CONTEXT.test(after.slice(0, 40))) {
+          claims.push({ ...base, actual: null, status: 'unsupported', critical: false, note: 'A season or career figure; the box score only has this game' });
+        } else if (PERIOD_CONTEXT.test(after)) {
+          claims.push({ ...base, actual: null, status: 'unsupported', critical: false, note: 'A figure for part of the game; the box score only has totals' });
+        } else if (stranger) {
+          claims.push({ ...base, subject: stranger, actual: null, status: 'unsupported', critical: false, note: `${stranger} isn't in the box score` });
+        } else if (SUBTOTAL_AFTER.test(after) || SUBTOTAL_BEFORE.test(before)) {
+          claims.push({ ...(teamBase ?? base), actual: null, status: 'unsupported', critical: false, note: 'A share of a total; the box score doesn\'t break it out' });
+        } else if (player) {
+          const named = playerMentions.map((mention) => mention.entry);
+          claims.push(checkPlayerStat(base, claimed, term, player, players, named, PITCHING_CONTEXT.test(before)));
+        } else if (team && teamBase) {
+          claims.push(checkTeamStat(teamBase, claimed, term, team, teams, players, TOTAL_CONTEXT.test(sentence)));
+        } else {
+          claims.push({ ...base, actual: null, status: 'unsupported', critical: false, note: 'No player or team named for this figure' });
+        }
+      }
+
+      for (const match of sentence.matchAll(SCORE_PATTERN)) {
+        if (covered.some(([start, end]) => match.index >= start && match.index < end)) continue;
+        const before = sentence.slice(0, match.index);
+        const after = sentence.slice(match.index + match[0].length);
+        // Win-loss records ("improved to 12-3") aren't in a box score
+        if (RECORD_BEFORE.test(before) || RECORD_AFTER.test(after)) continue;
+
+        const [a, b] = [Number(match[1]), Number(match[2])];
+        claims.push(
+          checkScore(
+            { field, text: match[0], sentence, kind: 'score', subject: null, stat: 'score', claimed: match[0] },
+            Math.max(a, b),
+            Math.min(a, b),
+            boxScore,
+            RESULT_CONTEXT.test(sentence) && !PERIOD_CONTEXT.test(after)
+          )
+        );
+      }
+
+      if (playerMentions.length > 0) lastPlayer = playerMentions[playerMentions.length - 1].entry;
+    }
+  }
+
+  const critical = claims.filter((claim) => claim.critical).length;
+  return {
+    claims,
+    verified: claims.filter((claim) => claim.status === 'verified').length,
+    flagged: claims.filter((claim) => claim.status !== 'verified').length,
+    critical,
+    needsReview: critical > 0,
+  };
+}
+
+/**
+ * One line on what's wrong with a recap, for a job's status message
+ */
+export function factCheckSummary(report: FactCheckReport): string {
+  if (!report.needsReview) {
+    return `${report.verified} of ${report.claims.length} claims verified against the box score`;
+  }
+  const critical = report.claims.filter((claim) => claim.critical);
+  const examples = critical.slice(0, 2).map((claim) => `"${claim.text}" (${claim.note})`);
+  const more = critical.length > examples.length ? `, and ${critical.length - examples.length} more` : '';
+  return `${critical.length} claim${critical.length === 1 ? '' : 's'} need${critical.length === 1 ? 's' : ''} review: ${examples.join('; ')}${more}`;
+}
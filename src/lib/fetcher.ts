@@ -3,19 +3,26 @@
  *
  * Fetches basketball box scores from athletics.marin.edu and stores them
  * as plain-text files in the inbox/raw directory. Uses the monospace template
- * format which is cleaner for parsing with the BAML ParseBoxScore function.
+ * format, which the deterministic parser in basketball-parser.ts reads directly
+ * (with the BAML ParseBoxScore function as a fallback). Basketball play-by-play
+ * pages can be fetched alongside into inbox/raw/pbp for momentum analysis.
  */
 
 import { writeFile, readFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, basename } from 'path';
 import { fileURLToPath } from 'url';
+import { getSportForSiteCode, type SiteCode } from './sports/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, '../..');
 const RAW_DIR = join(PROJECT_ROOT, 'inbox/raw');
+const PBP_DIR = join(RAW_DIR, 'pbp');
 
-export type Sport = 'mbkb' | 'wbkb' | 'bsb' | 'wwaterpolo';
+/**
+ * Athletics site code, e.g. 'wbkb'; every registered sport module adds its own
+ */
+export type Sport = SiteCode;
 
 export interface GameInfo {
   date: string;       // YYYY-MM-DD
@@ -31,6 +38,20 @@ export interface FetchResult {
   error?: string;
 }
 
+/**
+ * Whether a sport's box scores are fetched as raw HTML rather than the monospace text template
+ */
+function isHtmlSource(sport: Sport): boolean {
+  return getSportForSiteCode(sport)?.sourceFormat === 'html';
+}
+
+/**
+ * Whether a sport's play-by-play is read (basketball turns it into momentum)
+ */
+function usesPlayByPlay(sport: Sport): boolean {
+  return getSportForSiteCode(sport)?.playByPlay === true;
+}
+
 /**
  * Parse the schedule page to extract game information
  */
@@ -68,9 +89,9 @@ export async function fetchSchedule(sport: Sport, season: string): Promise<GameI
     // Convert YYYYMMDD to YYYY-MM-DD
     const date = `${dateStr.slice(0, 4)}-${dateStr.slice(4, 6)}-${dateStr.slice(6, 8)}`;
 
-    // For basketball, use the monospace template for cleaner plain-text output
-    // For baseball and water polo, use the raw HTML since no text template exists
-    const boxScoreUrl = (sport === 'bsb' || sport === 'wwaterpolo')
+    // Sports with a monospace template (basketball) get cleaner plain-text output;
+    // the rest use the raw HTML since no text template exists
+    const boxScoreUrl = isHtmlSource(sport)
       ? `https://athletics.marin.edu${fullUrl}`
       : `https://athletics.marin.edu${fullUrl}?tmpl=bbxml-monospace-template`;
 
@@ -113,8 +134,8 @@ export async function fetchBoxScore(
 
     const text = await response.text();
 
-    // Save to inbox/raw - use .html extension for baseball and water polo since it's HTML content
-    const extension = (sport === 'bsb' || sport === 'wwaterpolo') ? 'html' : 'txt';
+    // Save to inbox/raw - use .html extension for sports fetched as HTML content
+    const extension = isHtmlSource(sport) ? 'html' : 'txt';
     const filename = `${game.date}_${sport}_${game.gameCode}.${extension}`;
     const filePath = join(RAW_DIR, filename);
 
@@ -133,15 +154,73 @@ export async function fetchBoxScore(
   }
 }
 
+/**
+ * Path of the play-by-play page saved for a box score file
+ *
+ * Play-by-play pages live in inbox/raw/pbp under the box score's name with an
+ * .html extension, e.g. inbox/raw/pbp/2023-11-01_wbkb_17et.html.
+ */
+export function playByPlayPath(boxScorePath: string): string {
+  const name = basename(boxScorePath).replace(/\.(txt|html)$/, '.html');
+  return join(dirname(boxScorePath), 'pbp', name);
+}
+
+/**
+ * Fetch a game's play-by-play page and save it next to the box score
+ *
+ * SIDEARM serves the play-by-play as the box score page with `?view=plays`.
+ */
+export async function fetchPlayByPlay(
+  sport: Sport,
+  game: GameInfo,
+  options: { delay?: number } = {}
+): Promise<FetchResult> {
+  const { delay = 500 } = options;
+
+  if (delay > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  try {
+    const url = `${game.boxScoreUrl.split('?')[0]}?view=plays`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `HTTP ${response.status}: ${response.statusText}`
+      };
+    }
+
+    const filePath = join(PBP_DIR, `${game.date}_${sport}_${game.gameCode}.html`);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, await response.text(), 'utf-8');
+
+    return {
+      success: true,
+      filePath
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
 /**
  * Fetch all box scores for a sport and season
+ *
+ * With `playByPlay`, each basketball game's play-by-play page is fetched too
+ * (skipping any already saved). Other sports ignore it, since nothing reads
+ * their play-by-play.
  */
 export async function fetchAllBoxScores(
   sport: Sport,
   season: string,
-  options: { delay?: number; maxGames?: number } = {}
+  options: { delay?: number; maxGames?: number; playByPlay?: boolean } = {}
 ): Promise<{ fetched: number; failed: number; skipped: number }> {
   const { delay = 500, maxGames } = options;
+  const playByPlay = (options.playByPlay ?? false) && usesPlayByPlay(sport);
 
   const games = await fetchSchedule(sport, season);
   const toFetch = maxGames ? games.slice(0, maxGames) : games;
@@ -151,10 +230,17 @@ export async function fetchAllBoxScores(
   let skipped = 0;
 
   for (const game of toFetch) {
-    const extension = (sport === 'bsb' || sport === 'wwaterpolo') ? 'html' : 'txt';
+    const extension = isHtmlSource(sport) ? 'html' : 'txt';
     const filename = `${game.date}_${sport}_${game.gameCode}.${extension}`;
     const filePath = join(RAW_DIR, filename);
 
+    if (playByPlay && !existsSync(playByPlayPath(filePath))) {
+      const pbpResult = await fetchPlayByPlay(sport, game, { delay });
+      if (!pbpResult.success) {
+        console.error(`  Play-by-play failed for ${filename}: ${pbpResult.error}`);
+      }
+    }
+
     // Skip if already fetched
     if (existsSync(filePath)) {
       console.log(`Skipping ${filename} (already exists)`);
@@ -12,8 +12,54 @@ export * from './cached-pipeline.js';
 // Box score normalization
 export * from './normalizer.js';
 
+// Sport registry
+export * from './sports/index.js';
+
 // Story signals extraction
 export * from './story-signals.js';
 
-// Voice profile loading
+// Play-by-play momentum analysis
+export * from './momentum.js';
+
+// Rule-based trigger detection
+export * from './trigger-rules.js';
+
+// Season stats and player game logs
+export * from './season-stats.js';
+export * from './season-store.js';
+
+// Career/season highs and milestones from player history
+export * from './player-history.js';
+
+// Streaks and recent form
+export * from './trends.js';
+
+// Voice profile loading, drafting and adherence checks
 export * from './voice-profile.js';
+export * from './voice-profile-draft.js';
+export * from './voice-adherence.js';
+
+// Narrative context store
+export * from './narrative-context.js';
+export * from './context-store.js';
+
+// Interview answers and live sessions
+export * from './interview.js';
+export * from './interview-session-store.js';
+
+// Channel outputs (social posts, press releases, newsletter, PA scripts)
+export * from './channels.js';
+
+// Publishable exports (HTML, Markdown, AP text, story package zips)
+export * from './export.js';
+export * from './zip.js';
+
+// Fact-checking recaps against the box score
+export * from './fact-check.js';
+
+// Coverage board
+export * from './coverage-board.js';
+
+// Priority settings per school and sport, and fitting them to past decisions
+export * from './priority-config.js';
+export * from './priority-calibration.js';
@@ -0,0 +1,204 @@
+/**
+ * Interview Session Store
+ *
+ * Persists live interview sessions in the SQLite cache: the game and triggers a
+ * session is about, the question waiting for an answer, and the turn history.
+ * Sessions survive a page reload, so an SID can pick an interview back up.
+ */
+
+import { randomUUID } from 'crypto';
+import type { BoxScore, InterviewTurn, SeasonTrends, Trigger } from '../../baml_client/types.js';
+import { db } from './cache.js';
+
+db.exec(`
+  -- One row per live interview
+  CREATE TABLE IF NOT EXISTS interview_sessions (
+    id TEXT PRIMARY KEY,
+    program TEXT NOT NULL,
+    season TEXT NOT NULL,
+    boxscore_json TEXT NOT NULL,
+    triggers_json TEXT NOT NULL,
+    trends_json TEXT,
+    status TEXT NOT NULL DEFAULT 'active',  -- 'active' or 'complete'
+    pending_json TEXT,                      -- question waiting for an answer
+    interview_id TEXT,                      -- interviews row holding the answers, once complete
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  -- Questions asked and answers given, in order
+  CREATE TABLE IF NOT EXISTS interview_turns (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES interview_sessions(id) ON DELETE CASCADE,
+    turn_index INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    rationale TEXT,
+    trigger TEXT,
+    answer TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (session_id, turn_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_interview_sessions_program ON interview_sessions(program, season);
+`);
+
+/**
+ * A question waiting for an answer
+ */
+export interface PendingQuestion {
+  question: string;
+  rationale: string | null;
+  /** Description of the trigger the question covers, or null for a follow-up */
+  trigger: string | null;
+}
+
+export type InterviewSessionStatus = 'active' | 'complete';
+
+/**
+ * A live interview and its history
+ */
+export interface InterviewSession {
+  id: string;
+  program: string;
+  season: string;
+  boxScore: BoxScore;
+  triggers: Trigger[];
+  trends: SeasonTrends | null;
+  status: InterviewSessionStatus;
+  pending: PendingQuestion | null;
+  turns: InterviewTurn[];
+  interviewId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SessionRow {
+  id: string;
+  program: string;
+  season: string;
+  boxscore_json: string;
+  triggers_json: string;
+  trends_json: string | null;
+  status: InterviewSessionStatus;
+  pending_json: string | null;
+  interview_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Create a session for a game
+ */
+export function createInterviewSession(
+  program: string,
+  season: string,
+  boxScore: BoxScore,
+  triggers: Trigger[],
+  trends: SeasonTrends | null
+): InterviewSession {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO interview_sessions (id, program, season, boxscore_json, triggers_json, trends_json)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(id, program, season, JSON.stringify(boxScore), JSON.stringify(triggers), trends ? JSON.stringify(trends) : null);
+  return getInterviewSession(id)!;
+}
+
+/**
+ * Get a session with its turns
+ */
+export function getInterviewSession(id: string): InterviewSession | null {
+  const row = db.prepare('SELECT * FROM interview_sessions WHERE id = ?').get(id) as SessionRow | undefined;
+  if (!row) return null;
+
+  const turns = db
+    .prepare('SELECT question, trigger, answer FROM interview_turns WHERE session_id = ? ORDER BY turn_index')
+    .all(id) as InterviewTurn[];
+
+  return {
+    id: row.id,
+    program: row.program,
+    season: row.season,
+    boxScore: JSON.parse(row.boxscore_json),
+    triggers: JSON.parse(row.triggers_json),
+    trends: row.trends_json ? JSON.parse(row.trends_json) : null,
+    status: row.status,
+    pending: row.pending_json ? JSON.parse(row.pending_json) : null,
+    turns,
+    interviewId: row.interview_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Set the question waiting for an answer
+ */
+export function setPendingQuestion(id: string, pending: PendingQuestion | null): void {
+  db.prepare(`UPDATE interview_sessions SET pending_json = ?, updated_at = datetime('now') WHERE id = ?`).run(
+    pending ? JSON.stringify(pending) : null,
+    id
+  );
+}
+
+/**
+ * Record the answer to the pending question as the next turn and clear it
+ *
+ * @returns false if the session has no pending question
+ */
+export function recordInterviewTurn(id: string, answer: string): boolean {
+  const session = getInterviewSession(id);
+  if (!session?.pending) return false;
+
+  const record = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO interview_turns (session_id, turn_index, question, rationale, trigger, answer)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, session.turns.length, session.pending!.question, session.pending!.rationale, session.pending!.trigger, answer);
+    setPendingQuestion(id, null);
+  });
+  record();
+  return true;
+}
+
+/**
+ * Mark a session complete, linking the interviews row that holds its answers
+ */
+export function completeInterviewSession(id: string, interviewId: string | null): void {
+  db.prepare(`
+    UPDATE interview_sessions
+    SET status = 'complete', pending_json = NULL, interview_id = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(interviewId, id);
+}
+
+/**
+ * List sessions, newest first, optionally for one program
+ */
+export function listInterviewSessions(
+  program?: string
+): Array<{ id: string; program: string; season: string; status: InterviewSessionStatus; turns: number; updatedAt: string }> {
+  const query = `
+    SELECT s.id, s.program, s.season, s.status, s.updated_at, COUNT(t.id) AS turns
+    FROM interview_sessions s LEFT JOIN interview_turns t ON t.session_id = s.id
+    ${program ? 'WHERE s.program = ?' : ''}
+    GROUP BY s.id
+    ORDER BY s.updated_at DESC
+  `;
+  const rows = (program ? db.prepare(query).all(program) : db.prepare(query).all()) as Array<{
+    id: string;
+    program: string;
+    season: string;
+    status: InterviewSessionStatus;
+    updated_at: string;
+    turns: number;
+  }>;
+  return rows.map((row) => ({
+    id: row.id,
+    program: row.program,
+    season: row.season,
+    status: row.status,
+    turns: row.turns,
+    updatedAt: row.updated_at,
+  }));
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { fallbackQuestion, matchInterviewAnswers, sessionCoverage, sessionQuestionSet } from './interview.js';
+import { TriggerCategory, type QuestionSet, type Trigger } from '../../baml_client/types.js';
+
+const questions: QuestionSet = {
+  questions: [
+    { question: 'Any seniors having a standout final season?', rationale: 'Senior arcs', category: 'player_arc' },
+    { question: 'What does the coaching staff emphasize?', rationale: 'Philosophy', category: 'team_story' },
+  ],
+  note: null,
+};
+
+describe('matchInterviewAnswers', () => {
+  it('should match answers by index or question text, in question order', () => {
+    const { answers, errors } = matchInterviewAnswers(questions, [
+      { question: 'What does the coaching staff emphasize?', answer: 'Pressure defense ' },
+      { question: 0, answer: 'Maya Chen, back from an ACL tear' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(answers).toEqual([
+      { question: 'Any seniors having a standout final season?', answer: 'Maya Chen, back from an ACL tear' },
+      { question: 'What does the coaching staff emphasize?', answer: 'Pressure defense' },
+    ]);
+  });
+
+  it('should skip blank answers and keep the last answer to a question', () => {
+    const { answers } = matchInterviewAnswers(questions, [
+      { question: 0, answer: 'First draft' },
+      { question: 1, answer: '   ' },
+      { question: 0, answer: 'Final answer' },
+    ]);
+
+    expect(answers).toEqual([{ question: 'Any seniors having a standout final season?', answer: 'Final answer' }]);
+  });
+
+  it('should report answers that match no question', () => {
+    const { errors } = matchInterviewAnswers(questions, [
+      { question: 5, answer: 'Out of range' },
+      { question: 'Who is the mascot?', answer: 'A mariner' },
+      // Answers arrive as request JSON, so the answer isn't always a string
+      ...JSON.parse('[{ "question": 0, "answer": 42 }]'),
+    ]);
+
+    expect(errors).toEqual([
+      'answers[0] does not match a question in this interview',
+      'answers[1] does not match a question in this interview',
+      'answers[2].answer must be a string',
+    ]);
+  });
+});
+
+describe('sessionCoverage', () => {
+  const trigger = (description: string, salience_score: number): Trigger => ({
+    category: TriggerCategory.STATISTICAL_EXTREME,
+    description,
+    player_name: null,
+    key_stats: {},
+    follow_up_question: `Tell me about: ${description}`,
+    salience_score,
+  });
+  const triggers = [
+    trigger('Smith scored 30', 0.9),
+    trigger('Bench outscored starters', 0.6),
+    trigger('Eleven ties', 0.3),
+  ];
+
+  it('should leave salient triggers open until asked, most salient first', () => {
+    const coverage = sessionCoverage(triggers, []);
+
+    expect(coverage.open.map((t) => t.description)).toEqual(['Smith scored 30', 'Bench outscored starters']);
+    expect(coverage.done).toBe(false);
+    expect(fallbackQuestion(coverage)).toEqual({ question: 'Tell me about: Smith scored 30', trigger: 'Smith scored 30' });
+  });
+
+  it('should stop once every salient trigger is asked, counting only answered ones as covered', () => {
+    const coverage = sessionCoverage(triggers, [
+      { question: 'Q1', trigger: 'Smith scored 30', answer: 'Senior night' },
+      { question: 'Follow-up', trigger: null, answer: 'Her parents flew in' },
+      { question: 'Q2', trigger: 'Bench outscored starters', answer: '' },
+    ]);
+
+    expect(coverage.covered).toEqual(['Smith scored 30']);
+    expect(coverage.done).toBe(true);
+    expect(coverage.reason).toBe('All salient triggers asked');
+  });
+
+  it('should stop at the question limit', () => {
+    const turns = Array.from({ length: 2 }, (_, i) => ({ question: `Follow-up ${i}`, trigger: null, answer: 'More' }));
+    const coverage = sessionCoverage(triggers, turns, { maxTurns: 2, minSalience: 0.5 });
+
+    expect(coverage.done).toBe(true);
+    expect(coverage.reason).toBe('Reached the 2-question limit');
+  });
+});
+
+describe('sessionQuestionSet', () => {
+  it('should keep every question but only the answered turns as answers', () => {
+    const { questions, answers } = sessionQuestionSet([
+      { question: 'Q1', trigger: 'Smith scored 30', answer: ' Senior night ' },
+      { question: 'Q2', trigger: null, answer: '' },
+    ]);
+
+    expect(questions.questions.map((q) => q.category)).toEqual(['game_specific', 'follow_up']);
+    expect(answers).toEqual([{ question: 'Q1', answer: 'Senior night' }]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Interview Answers and Sessions
+ *
+ * Matches the answers an SID submits to the questions of a cached interview.
+ * Answers can point at a question by its index in the QuestionSet or by its
+ * text; either way they're stored with the full question so the extraction
+ * step (ExtractContextUpdates) sees each answer next to what was asked.
+ *
+ * Live interview sessions ask one question at a time (NextInterviewQuestion).
+ * Coverage is tracked here: a trigger is covered once a question about it gets
+ * an answer, and a session stops when every salient trigger is covered or it
+ * reaches its question limit, keeping a post-game interview to a few minutes.
+ */
+
+import type { InterviewAnswer, InterviewTurn, QuestionSet, Trigger } from '../../baml_client/types.js';
+
+/**
+ * An answer as submitted: `question` is an index into the question set or the question text
+ */
+export interface SubmittedAnswer {
+  question: number | string;
+  answer: string;
+}
+
+/**
+ * Answers matched to their questions, and the submissions that couldn't be
+ */
+export interface MatchedAnswers {
+  answers: InterviewAnswer[];
+  errors: string[];
+}
+
+/**
+ * Match submitted answers to the interview's questions
+ *
+ * Blank answers are skipped, so an SID can leave a question unanswered. A later
+ * answer to the same question replaces an earlier one.
+ */
+export function matchInterviewAnswers(questions: QuestionSet, submitted: SubmittedAnswer[]): MatchedAnswers {
+  const answers = new Map<number, InterviewAnswer>();
+  const errors: string[] = [];
+
+  submitted.forEach((item, i) => {
+    if (typeof item?.answer !== 'string') {
+      errors.push(`answers[${i}].answer must be a string`);
+      return;
+    }
+    if (item.answer.trim() === '') return;
+
+    const index =
+      typeof item.question === 'number'
+        ? item.question
+        : questions.questions.findIndex((q) => q.question.trim() === String(item.question).trim());
+    if (!Number.isInteger(index) || index < 0 || index >= questions.questions.length) {
+      errors.push(`answers[${i}] does not match a question in this interview`);
+      return;
+    }
+
+    answers.set(index, { question: questions.questions[index].question, answer: item.answer.trim() });
+  });
+
+  return {
+    answers: [...answers.entries()].sort(([a], [b]) => a - b).map(([, answer]) => answer),
+    errors,
+  };
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * When a live interview stops
+ */
+export interface SessionLimits {
+  /** Questions asked before the session ends regardless of coverage (about five minutes) */
+  maxTurns: number;
+  /** Triggers below this salience don't need covering */
+  minSalience: number;
+}
+
+export const SESSION_LIMITS: SessionLimits = {
+  maxTurns: 6,
+  minSalience: 0.5,
+};
+
+/**
+ * How much of a game's story a session has covered
+ */
+export interface SessionCoverage {
+  /** Salient triggers with an answered question */
+  covered: string[];
+  /** Salient triggers still open, most salient first */
+  open: Trigger[];
+  turns: number;
+  done: boolean;
+  /** Why the session is done, when it is */
+  reason: string | null;
+}
+
+/**
+ * Work out which triggers a session has covered and whether it should stop
+ *
+ * @param triggers - The game's triggers
+ * @param turns - Questions asked so far, with answers (empty when skipped)
+ * @param limits - Session limits (defaults to SESSION_LIMITS)
+ */
+export function sessionCoverage(
+  triggers: Trigger[],
+  turns: InterviewTurn[],
+  limits: SessionLimits = SESSION_LIMITS
+): SessionCoverage {
+  const salient = triggers
+    .filter((trigger) => trigger.salience_score >= limits.minSalience)
+    .sort((a, b) => b.salience_score - a.salience_score);
+  const answered = new Set(
+    turns.filter((turn) => turn.trigger && turn.answer.trim() !== '').map((turn) => turn.trigger)
+  );
+  // A skipped question still closes its trigger, so the session doesn't ask again
+  const asked = new Set(turns.map((turn) => turn.trigger).filter(Boolean));
+
+  const covered = salient.filter((trigger) => answered.has(trigger.description)).map((trigger) => trigger.description);
+  const open = salient.filter((trigger) => !asked.has(trigger.description));
+
+  let reason: string | null = null;
+  if (turns.length >= limits.maxTurns) {
+    reason = `Reached the ${limits.maxTurns}-question limit`;
+  } else if (open.length === 0) {
+    reason =
+      salient.length === 0
+        ? 'No salient triggers to cover'
+        : covered.length === salient.length
+          ? 'All salient triggers covered'
+          : 'All salient triggers asked';
+  }
+
+  return { covered, open, turns: turns.length, done: reason !== null, reason };
+}
+
+/**
+ * The question to ask when the question picker doesn't supply one: the top open
+ * trigger's own follow-up question
+ */
+export function fallbackQuestion(coverage: SessionCoverage): { question: string; trigger: string } | null {
+  const [trigger] = coverage.open;
+  return trigger ? { question: trigger.follow_up_question, trigger: trigger.description } : null;
+}
+
+/**
+ * Turn a finished session's turns into an answered question set, so the answers
+ * go through the same context extraction as any other interview
+ */
+export function sessionQuestionSet(turns: InterviewTurn[]): { questions: QuestionSet; answers: InterviewAnswer[] } {
+  return {
+    questions: {
+      questions: turns.map((turn) => ({
+        question: turn.question,
+        rationale: turn.trigger ?? 'Follow-up',
+        category: turn.trigger ? 'game_specific' : 'follow_up',
+      })),
+      note: 'Live interview session',
+    },
+    answers: turns
+      .filter((turn) => turn.answer.trim() !== '')
+      .map((turn) => ({ question: turn.question, answer: turn.answer.trim() })),
+  };
+}
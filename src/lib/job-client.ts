@@ -2,7 +2,7 @@
  * Client-side utilities for interacting with the job queue API
  */
 
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'needs_review' | 'failed';
 
 export type JobPhase =
   | 'queued'
@@ -69,8 +69,8 @@ export async function pollForResult<T>(
       onStatusChange(job as JobResponse);
     }
 
-    // Check if complete
-    if (job.status === 'completed') {
+    // Check if complete (a recap held for review is finished, just not published)
+    if (job.status === 'completed' || job.status === 'needs_review') {
       return (job.result ?? job.recap) as T;
     }
 
@@ -84,18 +84,23 @@ export async function pollForResult<T>(
   }
 }
 
+export interface RecapOptions extends PollOptions {
+  /** Program id (e.g. "marin-wbkb") to write the recap in that program's voice */
+  program?: string;
+}
+
 /**
  * Submit a recap request and poll for results
  */
 export async function generateRecap<T>(
   boxScore: unknown,
-  options: PollOptions = {}
-): Promise<{ jobId: string; recap: T }> {
+  options: RecapOptions = {}
+): Promise<{ jobId: string; recap: T; needsReview: boolean }> {
   // Submit the job
   const submitResponse = await fetch('/api/recap', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ boxScore }),
+    body: JSON.stringify({ boxScore, program: options.program }),
   });
 
   if (!submitResponse.ok) {
@@ -106,19 +111,30 @@ export async function generateRecap<T>(
   const submitResult: JobResponse<T> = await submitResponse.json();
 
   // If already complete (cached result), return immediately
-  if (submitResult.status === 'completed' && (submitResult.recap || submitResult.result)) {
+  const finished = submitResult.status === 'completed' || submitResult.status === 'needs_review';
+  if (finished && (submitResult.recap || submitResult.result)) {
+    options.onStatusChange?.(submitResult as JobResponse);
     return {
       jobId: submitResult.jobId,
       recap: (submitResult.recap ?? submitResult.result) as T,
+      needsReview: submitResult.status === 'needs_review',
     };
   }
 
   // Poll for completion
-  const recap = await pollForResult<T>(submitResult.jobId, options);
+  let status: JobStatus = submitResult.status;
+  const recap = await pollForResult<T>(submitResult.jobId, {
+    ...options,
+    onStatusChange: (job) => {
+      status = job.status;
+      options.onStatusChange?.(job);
+    },
+  });
 
   return {
     jobId: submitResult.jobId,
     recap,
+    needsReview: status === 'needs_review',
   };
 }
 
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeMomentum, withMomentum } from './momentum.js';
+import type { BoxScore, PlayByPlay } from '../../baml_client/index.js';
+
+/**
+ * Build a play-by-play from scoring plays given as [period, clock, away, home]
+ */
+const playByPlay = (plays: Array<[number, string, number, number]>): PlayByPlay => ({
+  away_team: 'Skyline',
+  home_team: 'Marin',
+  events: plays.map(([period, clock, away, home]) => ({
+    period,
+    clock,
+    team: null,
+    description: 'play',
+    away_score: away,
+    home_score: home,
+  })),
+});
+
+// Skyline builds a 14-0 lead, Marin answers, and Marin wins it late
+const COMEBACK = playByPlay([
+  [1, '9:00', 3, 0],
+  [1, '8:00', 6, 0],
+  [1, '7:00', 9, 0],
+  [1, '6:00', 12, 0],
+  [1, '5:00', 14, 0],
+  [2, '5:00', 14, 4],
+  [2, '4:00', 16, 4],
+  [3, '5:00', 16, 16],
+  [4, '4:00', 19, 16],
+  [4, '3:00', 19, 20],
+  [4, '2:30', 21, 20],
+  [4, '1:10', 21, 22],
+  [4, '0:20', 21, 24],
+]);
+
+describe('analyzeMomentum', () => {
+  it('should count lead changes, ties and largest leads', () => {
+    const momentum = analyzeMomentum(COMEBACK);
+
+    expect(momentum.lead_changes).toBe(3);
+    expect(momentum.ties).toBe(1);
+    expect(momentum.away_largest_lead).toBe(14);
+    expect(momentum.home_largest_lead).toBe(3);
+  });
+
+  it('should find the biggest unanswered run', () => {
+    const momentum = analyzeMomentum(COMEBACK);
+
+    expect(momentum.biggest_run_team).toBe('Skyline');
+    expect(momentum.biggest_run_points).toBe(14);
+  });
+
+  it('should measure the winner comeback and the last two minutes', () => {
+    const momentum = analyzeMomentum(COMEBACK);
+
+    expect(momentum.comeback_team).toBe('Marin');
+    expect(momentum.comeback_size).toBe(14);
+    expect(momentum.margin_at_two_minutes).toBe(-1);
+    expect(momentum.last_two_minutes_home_points).toBe(4);
+    expect(momentum.last_two_minutes_away_points).toBe(0);
+  });
+
+  it('should report no comeback when the winner never trailed', () => {
+    const momentum = analyzeMomentum(playByPlay([[1, '9:00', 0, 2], [2, '1:00', 0, 4]]));
+
+    expect(momentum.comeback_team).toBeNull();
+    expect(momentum.comeback_size).toBe(0);
+    expect(momentum.lead_changes).toBe(0);
+  });
+});
+
+describe('withMomentum', () => {
+  const boxScore = (awayScore: number, homeScore: number): BoxScore => ({
+    metadata: {
+      home_team: 'Marin',
+      away_team: 'Skyline',
+      home_score: homeScore,
+      away_score: awayScore,
+      is_overtime: false,
+      periods: 4,
+    },
+    home_team: { team_name: 'Marin', total_points: homeScore, field_goals_made: 0, field_goals_attempted: 0, field_goal_percentage: 0, three_pointers_made: 0, three_pointers_attempted: 0, three_point_percentage: 0, free_throws_made: 0, free_throws_attempted: 0, free_throw_percentage: 0, total_rebounds: 0, assists: 0, steals: 0, blocks: 0, turnovers: 0, fouls: 0, players: [] },
+    away_team: { team_name: 'Skyline', total_points: awayScore, field_goals_made: 0, field_goals_attempted: 0, field_goal_percentage: 0, three_pointers_made: 0, three_pointers_attempted: 0, three_point_percentage: 0, free_throws_made: 0, free_throws_attempted: 0, free_throw_percentage: 0, total_rebounds: 0, assists: 0, steals: 0, blocks: 0, turnovers: 0, fouls: 0, players: [] },
+  });
+
+  it('should attach momentum when the final scores match', () => {
+    expect(withMomentum(boxScore(21, 24), COMEBACK).momentum?.comeback_size).toBe(14);
+  });
+
+  it('should leave the box score alone when the final scores disagree', () => {
+    expect(withMomentum(boxScore(60, 58), COMEBACK).momentum).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Game Momentum Analysis
+ *
+ * Walks a basketball play-by-play and computes the game-flow numbers that final
+ * totals can't show: lead changes, ties, largest leads, the biggest unanswered
+ * run, the winner's comeback, and scoring in the last two minutes. Like the story
+ * signals, this is deterministic — no LLM call.
+ */
+
+import type { BoxScore, GameMomentum, PlayByPlay } from '../../baml_client/index.js';
+import { clockToSeconds } from './play-by-play-parser.js';
+
+const LAST_TWO_MINUTES = 120;
+
+/**
+ * Compute momentum statistics from a play-by-play
+ *
+ * Only scoring plays move the numbers. "Last two minutes" means the final two
+ * minutes of the last period played, so an overtime game measures the end of
+ * overtime rather than regulation.
+ *
+ * @param playByPlay - Parsed play-by-play in game order
+ * @returns GameMomentum for the game
+ */
+export function analyzeMomentum(playByPlay: PlayByPlay): GameMomentum {
+  const { events } = playByPlay;
+  const lastPeriod = events.reduce((max, event) => Math.max(max, event.period), 0);
+
+  let away = 0;
+  let home = 0;
+  let lastLeader = 0; // +1 home, -1 away, 0 before anyone has led
+  let lead_changes = 0;
+  let ties = 0;
+  let home_largest_lead = 0;
+  let away_largest_lead = 0;
+
+  let runSide = 0;
+  let runPoints = 0;
+  let biggestRunSide = 0;
+  let biggest_run_points = 0;
+
+  let marginAtTwoMinutes = 0;
+  let awayAtTwoMinutes = 0;
+  let homeAtTwoMinutes = 0;
+
+  for (const event of events) {
+    const inLastTwoMinutes = event.period === lastPeriod && clockToSeconds(event.clock) <= LAST_TWO_MINUTES;
+    if (!inLastTwoMinutes) {
+      awayAtTwoMinutes = event.away_score;
+      homeAtTwoMinutes = event.home_score;
+      marginAtTwoMinutes = event.home_score - event.away_score;
+    }
+
+    const awayPoints = event.away_score - away;
+    const homePoints = event.home_score - home;
+    if (awayPoints === 0 && homePoints === 0) continue;
+    away = event.away_score;
+    home = event.home_score;
+
+    // Runs are unanswered points; a play that credits both sides ends any run
+    const side = homePoints > 0 && awayPoints === 0 ? 1 : awayPoints > 0 && homePoints === 0 ? -1 : 0;
+    if (side !== 0 && side === runSide) {
+      runPoints += side === 1 ? homePoints : awayPoints;
+    } else {
+      runSide = side;
+      runPoints = side === 1 ? homePoints : side === -1 ? awayPoints : 0;
+    }
+    if (runPoints > biggest_run_points) {
+      biggest_run_points = runPoints;
+      biggestRunSide = runSide;
+    }
+
+    const margin = home - away;
+    const leader = Math.sign(margin);
+    if (leader === 0) {
+      ties++;
+    } else {
+      if (lastLeader !== 0 && leader !== lastLeader) lead_changes++;
+      lastLeader = leader;
+    }
+    home_largest_lead = Math.max(home_largest_lead, margin);
+    away_largest_lead = Math.max(away_largest_lead, -margin);
+  }
+
+  // The winner's comeback is the largest lead the loser ever held
+  const winner = Math.sign(home - away);
+  const comeback_size = winner === 1 ? away_largest_lead : winner === -1 ? home_largest_lead : 0;
+  const teamName = (side: number) => (side === 1 ? playByPlay.home_team : side === -1 ? playByPlay.away_team : null);
+
+  return {
+    lead_changes,
+    ties,
+    home_largest_lead,
+    away_largest_lead,
+    biggest_run_team: teamName(biggestRunSide),
+    biggest_run_points,
+    comeback_team: comeback_size > 0 ? teamName(winner) : null,
+    comeback_size,
+    last_two_minutes_home_points: home - homeAtTwoMinutes,
+    last_two_minutes_away_points: away - awayAtTwoMinutes,
+    margin_at_two_minutes: marginAtTwoMinutes,
+  };
+}
+
+/**
+ * Attach play-by-play momentum to a box score
+ *
+ * The momentum is only attached when the play-by-play's final score matches the
+ * box score, so a play-by-play from a different game (or a truncated page) can't
+ * leak into the signals.
+ *
+ * @param boxScore - Parsed basketball box score
+ * @param playByPlay - Parsed play-by-play for the same game
+ * @returns The box score with momentum, or unchanged if the scores disagree
+ */
+export function withMomentum(boxScore: BoxScore, playByPlay: PlayByPlay): BoxScore {
+  const last = playByPlay.events[playByPlay.events.length - 1];
+  if (
+    !last ||
+    last.home_score !== boxScore.metadata.home_score ||
+    last.away_score !== boxScore.metadata.away_score
+  ) {
+    console.log(
+      `[momentum] Play-by-play final score does not match box score for ${boxScore.metadata.away_team} @ ${boxScore.metadata.home_team}; skipping`
+    );
+    return boxScore;
+  }
+
+  return { ...boxScore, momentum: analyzeMomentum(playByPlay) };
+}
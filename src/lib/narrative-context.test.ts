@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffNarrativeContext,
+  emptyNarrativeContext,
+  formatContextDiff,
+  mergeNarrativeContext,
+  parseProgramId,
+  programTeamName,
+  validateNarrativeContext,
+} from './narrative-context.js';
+import type { NarrativeContext } from '../../baml_client/types.js';
+
+const stored = (): NarrativeContext => ({
+  ...emptyNarrativeContext('College of Marin', 'basketball'),
+  players: [{ player_name: 'Jane Smith', role: 'starter', backstory: 'Transfer from Skyline', current_arc: null, development_focus: null }],
+  team: { season_narrative: 'Rebuilding year', current_record: '4-6' },
+  audience: [{ segment_name: 'Parents', interests: ['playing time'], preferred_framing: null }],
+  rivalries: ['Santa Rosa'],
+});
+
+describe('parseProgramId', () => {
+  it('should split the school slug from the site code', () => {
+    expect(parseProgramId('marin-wbkb')).toEqual({ school: 'marin', siteCode: 'wbkb' });
+    expect(parseProgramId('santa-rosa-msoc')).toEqual({ school: 'santa-rosa', siteCode: 'msoc' });
+  });
+
+  it('should reject ids without a site code', () => {
+    expect(parseProgramId('marin')).toBeNull();
+    expect(parseProgramId('Marin-WBKB')).toBeNull();
+  });
+});
+
+describe('programTeamName', () => {
+  it('should match whole slug segments only', () => {
+    expect(programTeamName('marin', ['Marinwood', 'College of Marin'])).toBe('College of Marin');
+    expect(programTeamName('marin', ['Marinwood', 'Skyline'])).toBeNull();
+  });
+});
+
+describe('mergeNarrativeContext', () => {
+  it('should update a player by name without erasing fields the patch leaves empty', () => {
+    const merged = mergeNarrativeContext(stored(), {
+      players: [{ player_name: 'jane smith', role: null, backstory: null, current_arc: 'Breakout sophomore year', development_focus: null }],
+    });
+
+    expect(merged.players).toEqual([
+      { player_name: 'Jane Smith', role: 'starter', backstory: 'Transfer from Skyline', current_arc: 'Breakout sophomore year', development_focus: null },
+    ]);
+  });
+
+  it('should add new players, team fields, audience interests and rivalries', () => {
+    const merged = mergeNarrativeContext(stored(), {
+      players: [{ player_name: 'Ana Lopez', role: 'bench spark' }],
+      team: { current_record: '5-6', goals: null },
+      audience: [{ segment_name: 'parents', interests: ['Playing time', 'academics'] }],
+      rivalries: ['santa rosa', 'Napa Valley'],
+    });
+
+    expect(merged.players.map((p) => p.player_name)).toEqual(['Jane Smith', 'Ana Lopez']);
+    expect(merged.team).toEqual({ season_narrative: 'Rebuilding year', current_record: '5-6' });
+    expect(merged.audience[0].interests).toEqual(['playing time', 'academics']);
+    expect(merged.rivalries).toEqual(['Santa Rosa', 'Napa Valley']);
+  });
+
+  it('should not modify the stored context', () => {
+    const base = stored();
+    mergeNarrativeContext(base, { players: [{ player_name: 'Jane Smith', role: 'captain' }] });
+
+    expect(base.players[0].role).toBe('starter');
+  });
+});
+
+describe('validateNarrativeContext', () => {
+  it('should accept a full context and warn when it has no players', () => {
+    const result = validateNarrativeContext(emptyNarrativeContext('College of Marin', 'basketball'));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual(['No player notes yet']);
+  });
+
+  it('should report missing and malformed fields', () => {
+    const result = validateNarrativeContext({ team_name: '', players: [{}], audience: 'parents', rivalries: [3] });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'team_name must be a non-empty string',
+      'sport must be a non-empty string',
+      'players[0].player_name must be a non-empty string',
+      'team must be an object',
+      'audience must be an array',
+      'rivalries must be a list of strings',
+    ]);
+  });
+
+  it('should only check the fields a partial update includes', () => {
+    expect(validateNarrativeContext({ rivalries: ['Napa Valley'] }, { partial: true }).valid).toBe(true);
+    expect(validateNarrativeContext({ players: 'Jane' }, { partial: true }).errors).toEqual(['players must be an array']);
+  });
+});
+
+describe('diffNarrativeContext', () => {
+  it('should list added and changed fields for review', () => {
+    const before = stored();
+    const after = mergeNarrativeContext(before, {
+      players: [
+        { player_name: 'Jane Smith', current_arc: 'Breakout sophomore year' },
+        { player_name: 'Ana Lopez', role: 'bench spark' },
+      ],
+      team: { current_record: '5-6' },
+      audience: [{ segment_name: 'Parents', interests: ['academics'] }],
+      rivalries: ['Napa Valley'],
+    });
+    const changes = diffNarrativeContext(before, after);
+
+    expect(changes).toContainEqual({
+      section: 'team',
+      name: null,
+      field: 'current_record',
+      kind: 'changed',
+      before: '4-6',
+      after: '5-6',
+    });
+    expect(formatContextDiff(changes).split('\n')).toEqual([
+      '+ players[Jane Smith].current_arc: "Breakout sophomore year"',
+      '+ players[Ana Lopez]: "Ana Lopez"',
+      '+ players[Ana Lopez].role: "bench spark"',
+      '~ team.current_record: "4-6" -> "5-6"',
+      '+ audience[Parents].interests: "academics"',
+      '+ rivalries: "Napa Valley"',
+    ]);
+  });
+
+  it('should report no changes when the merge added nothing new', () => {
+    const before = stored();
+    const after = mergeNarrativeContext(before, { rivalries: ['santa rosa'], team: { current_record: '4-6' } });
+
+    expect(diffNarrativeContext(before, after)).toEqual([]);
+    expect(formatContextDiff([])).toBe('No changes');
+  });
+});
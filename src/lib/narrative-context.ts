@@ -0,0 +1,326 @@
+/**
+ * Narrative Context Helpers
+ *
+ * Program ids, empty contexts, validation and merging for the NarrativeContext
+ * that GameInterview and SynthesizeNarratives read. Persistence lives in
+ * context-store.ts; everything here is pure.
+ *
+ * A program id is the school slug and athletics site code joined by a dash,
+ * matching the voice profile filenames: "marin-wbkb" for College of Marin
+ * women's basketball (profiles/marin-wbkb.md).
+ */
+
+import type {
+  AudienceSegment,
+  NarrativeContext,
+  PlayerNote,
+  TeamContext,
+} from '../../baml_client/types.js';
+import type { ValidationResult } from './normalizer.js';
+import { seasonForDate, teamKey } from './season-stats.js';
+import { getSportForSiteCode } from './sports/registry.js';
+
+/**
+ * A parsed program id
+ */
+export interface ProgramId {
+  /** School slug, e.g. "marin" */
+  school: string;
+  /** Athletics site code, e.g. "wbkb" */
+  siteCode: string;
+}
+
+const PROGRAM_ID = /^([a-z0-9]+(?:-[a-z0-9]+)*)-([a-z]+)$/;
+
+/**
+ * Parse a program id like "marin-wbkb", or null if it isn't one
+ */
+export function parseProgramId(program: string): ProgramId | null {
+  const match = program.match(PROGRAM_ID);
+  return match ? { school: match[1], siteCode: match[2] } : null;
+}
+
+/**
+ * Resolve a program id to its sport and a season, defaulting to the current
+ * season for the sport. Null when the id is malformed or the site code unknown.
+ */
+export function resolveProgram(
+  program: string,
+  season?: string | null
+): (ProgramId & { sport: string; season: string }) | null {
+  const parsed = parseProgramId(program);
+  const sport = parsed && getSportForSiteCode(parsed.siteCode)?.id;
+  if (!parsed || !sport) return null;
+  return { ...parsed, sport, season: season || seasonForDate(sport, new Date().toISOString().slice(0, 10)) };
+}
+
+/**
+ * Find the program's team among a game's team names by school slug
+ *
+ * "marin" matches "College of Marin" but not "Marinwood".
+ */
+export function programTeamName(school: string, teamNames: string[]): string | null {
+  return teamNames.find((name) => `-${teamKey(name)}-`.includes(`-${school}-`)) ?? null;
+}
+
+/**
+ * A context with nothing gathered yet
+ */
+export function emptyNarrativeContext(teamName: string, sport: string): NarrativeContext {
+  return {
+    team_name: teamName,
+    sport,
+    players: [],
+    team: {},
+    audience: [],
+    rivalries: [],
+    upcoming_milestones: [],
+  };
+}
+
+/**
+ * Partial update to a stored context. Players and audience segments are matched
+ * by name; list fields are added to, not replaced.
+ */
+export interface NarrativeContextPatch {
+  team_name?: string;
+  sport?: string;
+  players?: PlayerNote[];
+  team?: Partial<TeamContext>;
+  audience?: AudienceSegment[];
+  rivalries?: string[];
+  upcoming_milestones?: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Copy the non-empty fields of `patch` over `base`
+ */
+function overlay<T extends object>(base: T, patch: Partial<T>): T {
+  const result = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value !== null && value !== undefined && value !== '') {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  }
+  return result;
+}
+
+function union(base: string[] | null | undefined, additions: string[] | null | undefined): string[] {
+  const result = [...(base ?? [])];
+  for (const item of additions ?? []) {
+    if (!result.some((existing) => sameName(existing, item))) result.push(item);
+  }
+  return result;
+}
+
+/**
+ * Merge a patch into a context
+ *
+ * Patch fields that are null or empty leave the stored value alone, so an
+ * extraction step that only learned one thing about a player doesn't erase the rest.
+ *
+ * @param base - The stored context
+ * @param patch - Fields to add or update
+ * @returns A new merged context; `base` is not modified
+ */
+export function mergeNarrativeContext(base: NarrativeContext, patch: NarrativeContextPatch): NarrativeContext {
+  const players = [...base.players];
+  for (const note of patch.players ?? []) {
+    const index = players.findIndex((player) => sameName(player.player_name, note.player_name));
+    if (index === -1) {
+      players.push(note);
+    } else {
+      players[index] = overlay(players[index], { ...note, player_name: players[index].player_name });
+    }
+  }
+
+  const audience = [...base.audience];
+  for (const segment of patch.audience ?? []) {
+    const index = audience.findIndex((existing) => sameName(existing.segment_name, segment.segment_name));
+    if (index === -1) {
+      audience.push(segment);
+    } else {
+      audience[index] = {
+        ...overlay(audience[index], { preferred_framing: segment.preferred_framing }),
+        interests: union(audience[index].interests, segment.interests),
+      };
+    }
+  }
+
+  return {
+    team_name: patch.team_name || base.team_name,
+    sport: patch.sport || base.sport,
+    players,
+    team: overlay(base.team, patch.team ?? {}),
+    audience,
+    rivalries: union(base.rivalries, patch.rivalries),
+    upcoming_milestones: union(base.upcoming_milestones, patch.upcoming_milestones),
+  };
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Check a context (or a patch, with `partial`) from an API request body
+ */
+export function validateNarrativeContext(value: unknown, options: { partial?: boolean } = {}): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, errors: ['Context must be an object'], warnings };
+  }
+  const context = value as Record<string, unknown>;
+  const required = (field: string) => !options.partial || context[field] !== undefined;
+
+  for (const field of ['team_name', 'sport']) {
+    if (required(field) && (typeof context[field] !== 'string' || context[field] === '')) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+
+  if (required('players')) {
+    if (!Array.isArray(context.players)) {
+      errors.push('players must be an array');
+    } else {
+      context.players.forEach((player, i) => {
+        if (typeof player?.player_name !== 'string' || player.player_name === '') {
+          errors.push(`players[${i}].player_name must be a non-empty string`);
+        }
+      });
+    }
+  }
+
+  if (required('team') && (typeof context.team !== 'object' || context.team === null || Array.isArray(context.team))) {
+    errors.push('team must be an object');
+  }
+
+  if (required('audience')) {
+    if (!Array.isArray(context.audience)) {
+      errors.push('audience must be an array');
+    } else {
+      context.audience.forEach((segment, i) => {
+        if (typeof segment?.segment_name !== 'string' || segment.segment_name === '') {
+          errors.push(`audience[${i}].segment_name must be a non-empty string`);
+        }
+        if (!isStringList(segment?.interests)) {
+          errors.push(`audience[${i}].interests must be a list of strings`);
+        }
+      });
+    }
+  }
+
+  for (const field of ['rivalries', 'upcoming_milestones']) {
+    if (context[field] !== undefined && context[field] !== null && !isStringList(context[field])) {
+      errors.push(`${field} must be a list of strings`);
+    }
+  }
+
+  if (!options.partial && Array.isArray(context.players) && context.players.length === 0) {
+    warnings.push('No player notes yet');
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+// ============================================================================
+// Diffs
+// ============================================================================
+
+/**
+ * One change between two versions of a context, for review before or after a merge
+ */
+export interface ContextChange {
+  section: 'team_name' | 'sport' | 'players' | 'team' | 'audience' | 'rivalries' | 'upcoming_milestones';
+  /** Player or audience segment the change belongs to */
+  name: string | null;
+  /** Field within the section, e.g. 'current_arc' */
+  field: string | null;
+  kind: 'added' | 'changed';
+  before: string | null;
+  after: string;
+}
+
+const PLAYER_FIELDS = ['role', 'backstory', 'current_arc', 'development_focus'] as const;
+const TEAM_FIELDS = ['season_narrative', 'current_record', 'key_challenges', 'goals', 'coaching_philosophy'] as const;
+
+function fieldChange(
+  section: ContextChange['section'],
+  name: string | null,
+  field: string | null,
+  before: string | null | undefined,
+  after: string | null | undefined
+): ContextChange | null {
+  if (!after || after === before) return null;
+  return { section, name, field, kind: before ? 'changed' : 'added', before: before ?? null, after };
+}
+
+/**
+ * List what changed from one context to another
+ *
+ * Merges only add or update, so removals aren't reported.
+ */
+export function diffNarrativeContext(before: NarrativeContext, after: NarrativeContext): ContextChange[] {
+  const changes: Array<ContextChange | null> = [
+    fieldChange('team_name', null, null, before.team_name, after.team_name),
+    fieldChange('sport', null, null, before.sport, after.sport),
+  ];
+
+  for (const player of after.players) {
+    const previous = before.players.find((note) => sameName(note.player_name, player.player_name));
+    if (!previous) changes.push(fieldChange('players', player.player_name, null, null, player.player_name));
+    for (const field of PLAYER_FIELDS) {
+      changes.push(fieldChange('players', player.player_name, field, previous?.[field], player[field]));
+    }
+  }
+
+  for (const field of TEAM_FIELDS) {
+    changes.push(fieldChange('team', null, field, before.team[field], after.team[field]));
+  }
+
+  for (const segment of after.audience) {
+    const previous = before.audience.find((existing) => sameName(existing.segment_name, segment.segment_name));
+    if (!previous) changes.push(fieldChange('audience', segment.segment_name, null, null, segment.segment_name));
+    for (const interest of segment.interests) {
+      if (!previous?.interests.some((existing) => sameName(existing, interest))) {
+        changes.push(fieldChange('audience', segment.segment_name, 'interests', null, interest));
+      }
+    }
+    changes.push(fieldChange('audience', segment.segment_name, 'preferred_framing', previous?.preferred_framing, segment.preferred_framing));
+  }
+
+  for (const section of ['rivalries', 'upcoming_milestones'] as const) {
+    for (const item of after[section] ?? []) {
+      if (!(before[section] ?? []).some((existing) => sameName(existing, item))) {
+        changes.push(fieldChange(section, null, null, null, item));
+      }
+    }
+  }
+
+  return changes.filter((change): change is ContextChange => change !== null);
+}
+
+/**
+ * Render a diff for review, one line per change
+ *
+ * "+" marks additions and "~" changes, e.g.
+ * `~ team.current_record: "4-6" -> "5-6"`
+ */
+export function formatContextDiff(changes: ContextChange[]): string {
+  if (changes.length === 0) return 'No changes';
+
+  return changes
+    .map((change) => {
+      const path = [change.section, change.name && `[${change.name}]`, change.field && `.${change.field}`]
+        .filter(Boolean)
+        .join('');
+      return change.kind === 'added'
+        ? `+ ${path}: "${change.after}"`
+        : `~ ${path}: "${change.before}" -> "${change.after}"`;
+    })
+    .join('\n');
+}
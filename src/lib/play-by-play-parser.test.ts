@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parsePlayByPlayHtml, clockToSeconds } from './play-by-play-parser.js';
+
+const periodTable = (caption: string, rows: Array<[string, string, string, string]>) => `
+<table class="sidearm-table play-by-play">
+  <caption>${caption}</caption>
+  <thead><tr><th>Time</th><th>Skyline</th><th>Score</th><th>Marin</th></tr></thead>
+  <tbody>
+    ${rows.map((cells) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('\n    ')}
+  </tbody>
+</table>`;
+
+const SAMPLE_HTML = `<!DOCTYPE html>
+<html>
+<body>
+<table><caption>Site Navigation</caption><tr><td>Home</td></tr></table>
+${periodTable('1st Quarter Play-by-Play', [
+  ['10:00', '', '', 'JUMP BALL won by LEE,KIM'],
+  ['09:41', 'GOOD JUMPER by SMITH,JANE', '2-0', ''],
+  ['09:20', '', '', 'MISSED 3PTR by LEE,KIM'],
+  ['09:02', '', '2-3', 'GOOD 3PTR by LEE,KIM'],
+])}
+${periodTable('2nd Quarter Play-by-Play', [
+  ['01:12', 'TIMEOUT 30SEC', '', ''],
+  ['00:45.3', '', '2-5', 'GOOD LAYUP by RUIZ,ANA'],
+])}
+</body>
+</html>`;
+
+describe('parsePlayByPlayHtml', () => {
+  it('should read team names from the header and number periods by table', () => {
+    const pbp = parsePlayByPlayHtml(SAMPLE_HTML);
+
+    expect(pbp).not.toBeNull();
+    expect(pbp!.away_team).toBe('Skyline');
+    expect(pbp!.home_team).toBe('Marin');
+    expect(pbp!.events).toHaveLength(6);
+    expect(pbp!.events[5].period).toBe(2);
+  });
+
+  it('should assign plays to a side and carry the score forward', () => {
+    const [jump, jumper, miss] = parsePlayByPlayHtml(SAMPLE_HTML)!.events;
+
+    expect(jump).toMatchObject({ team: 'home', away_score: 0, home_score: 0 });
+    expect(jumper).toMatchObject({ team: 'away', clock: '09:41', away_score: 2, home_score: 0 });
+    expect(miss).toMatchObject({ team: 'home', description: 'MISSED 3PTR by LEE,KIM', away_score: 2, home_score: 0 });
+  });
+
+  it('should return null without play-by-play tables', () => {
+    expect(parsePlayByPlayHtml('<html><body><p>No plays</p></body></html>')).toBeNull();
+  });
+});
+
+describe('clockToSeconds', () => {
+  it('should handle padded and fractional clocks', () => {
+    expect(clockToSeconds('09:41')).toBe(581);
+    expect(clockToSeconds('0:45.3')).toBe(45);
+    expect(clockToSeconds('')).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Basketball Play-by-Play HTML Parser
+ *
+ * Parses the SIDEARM play-by-play page (the box score URL with `?view=plays`)
+ * into a PlayByPlay. Each period is its own captioned table, with the visiting
+ * team's plays on the left of the score column and the home team's on the right:
+ *
+ *   <table class="sidearm-table play-by-play">
+ *     <caption>1st Quarter Play-by-Play</caption>
+ *     <thead><tr><th>Time</th><th>Skyline</th><th>Score</th><th>Marin</th></tr></thead>
+ *     <tr><td>09:41</td><td>GOOD JUMPER by SMITH,JANE</td><td>2-0</td><td></td></tr>
+ *     ...
+ *
+ * The score cell is only filled on scoring plays, so the last score carries
+ * forward. Returns null when the page has no play-by-play tables.
+ */
+
+import type { PlayByPlay, PlayByPlayEvent } from '../../baml_client/index.js';
+
+const CAPTIONED_TABLE = /<caption[^>]*>([\s\S]*?)<\/caption>([\s\S]*?)<\/table>/g;
+const SCORE = /^(\d+)\s*-\s*(\d+)$/;
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+}
+
+function rowCells(row: string): string[] {
+  return [...row.matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/g)].map((m) => stripTags(m[1]));
+}
+
+/**
+ * Convert a period clock like "09:41" or "0:45.3" to seconds remaining
+ */
+export function clockToSeconds(clock: string): number {
+  const match = clock.trim().match(/^(\d+):(\d+(?:\.\d+)?)$/);
+  if (!match) return 0;
+  return parseInt(match[1], 10) * 60 + Math.floor(parseFloat(match[2]));
+}
+
+/**
+ * Column positions read from a period table's header row
+ */
+interface Columns {
+  time: number;
+  score: number;
+  away: number;
+  home: number;
+  awayTeam: string;
+  homeTeam: string;
+}
+
+function findColumns(headerCells: string[]): Columns | null {
+  const time = headerCells.findIndex((label) => /^time$/i.test(label));
+  const score = headerCells.findIndex((label) => /^score$/i.test(label));
+  if (time === -1 || score === -1) return null;
+
+  // Team columns are the labelled ones on either side of the score
+  const away = headerCells.findIndex((label, i) => i < score && i !== time && label !== '');
+  const home = headerCells.findIndex((label, i) => i > score && i !== time && label !== '');
+  if (away === -1 || home === -1) return null;
+
+  return { time, score, away, home, awayTeam: headerCells[away], homeTeam: headerCells[home] };
+}
+
+/**
+ * Parse a SIDEARM play-by-play page into a PlayByPlay
+ *
+ * @param html - The play-by-play page HTML
+ * @returns Parsed PlayByPlay, or null if no play-by-play tables were found
+ */
+export function parsePlayByPlayHtml(html: string): PlayByPlay | null {
+  const events: PlayByPlayEvent[] = [];
+  let awayTeam = '';
+  let homeTeam = '';
+  let period = 0;
+  let awayScore = 0;
+  let homeScore = 0;
+
+  for (const table of html.matchAll(CAPTIONED_TABLE)) {
+    if (!/play[- ]by[- ]play/i.test(stripTags(table[1]))) continue;
+
+    const rows = [...table[2].matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)].map((m) => rowCells(m[1]));
+    const headerIndex = rows.findIndex((cells) => findColumns(cells) !== null);
+    if (headerIndex === -1) continue;
+
+    const columns = findColumns(rows[headerIndex])!;
+    awayTeam ||= columns.awayTeam;
+    homeTeam ||= columns.homeTeam;
+    period++;
+
+    for (const cells of rows.slice(headerIndex + 1)) {
+      const clock = cells[columns.time] ?? '';
+      const awayText = cells[columns.away] ?? '';
+      const homeText = cells[columns.home] ?? '';
+      if (!clock || (!awayText && !homeText)) continue;
+
+      const score = (cells[columns.score] ?? '').match(SCORE);
+      if (score) {
+        awayScore = parseInt(score[1], 10);
+        homeScore = parseInt(score[2], 10);
+      }
+
+      events.push({
+        period,
+        clock,
+        team: awayText && !homeText ? 'away' : homeText && !awayText ? 'home' : null,
+        description: awayText || homeText,
+        away_score: awayScore,
+        home_score: homeScore,
+      });
+    }
+  }
+
+  if (period === 0) return null;
+
+  return { away_team: awayTeam, home_team: homeTeam, events };
+}
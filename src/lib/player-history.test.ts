@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectHistoryHighlights,
+  historyTriggers,
+  withHistoryHighlights,
+  type PlayerHistory,
+  type PlayerHistoryLookup,
+} from './player-history.js';
+import type { PlayerGameLog, StatLine } from './season-stats.js';
+import type { BaseballBoxScore, BoxScore, PlayerStats, StorySignals, TeamStats } from '../../baml_client/index.js';
+
+const player = (name: string, overrides: Partial<PlayerStats> = {}): PlayerStats => ({
+  name,
+  starter: false,
+  minutes: 20,
+  points: 6,
+  rebounds: 3,
+  assists: 1,
+  steals: 0,
+  blocks: 0,
+  turnovers: 1,
+  fouls: 2,
+  field_goals_made: 3,
+  field_goals_attempted: 7,
+  three_pointers_made: 0,
+  three_pointers_attempted: 1,
+  free_throws_made: 0,
+  free_throws_attempted: 0,
+  ...overrides,
+});
+
+const team = (team_name: string, players: PlayerStats[]): TeamStats => ({
+  team_name,
+  total_points: 0,
+  field_goals_made: 0,
+  field_goals_attempted: 0,
+  field_goal_percentage: 0,
+  three_pointers_made: 0,
+  three_pointers_attempted: 0,
+  three_point_percentage: 0,
+  free_throws_made: 0,
+  free_throws_attempted: 0,
+  free_throw_percentage: 0,
+  total_rebounds: 0,
+  assists: 0,
+  steals: 0,
+  blocks: 0,
+  turnovers: 0,
+  fouls: 0,
+  players,
+});
+
+const game = (homePlayers: PlayerStats[]): BoxScore => ({
+  metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 70, away_score: 60, is_overtime: false, periods: 2 },
+  home_team: team('Marin', homePlayers),
+  away_team: team('Skyline', []),
+});
+
+const logs = (lines: StatLine[]): PlayerGameLog[] =>
+  lines.map((stats, i) => ({ gameDate: `2023-11-0${i + 1}`, opponent: 'Opponent', result: 'W', stats }));
+
+/**
+ * A lookup where every Marin player has the given history
+ */
+const lookupOf = (histories: Record<string, PlayerHistory>): PlayerHistoryLookup =>
+  (team, name) => (team === 'marin' && histories[name]) || { season: [], career: [] };
+
+const bench = (points: number): StatLine => ({ starts: 0, points, rebounds: 2, assists: 1 });
+
+describe('detectHistoryHighlights', () => {
+  it('should flag a career high over stored games', () => {
+    const career = logs([bench(8), bench(14), bench(9), bench(12), bench(11)]);
+    const highlights = detectHistoryHighlights(
+      'basketball',
+      game([player('Jane Smith', { points: 21 })]),
+      lookupOf({ 'Jane Smith': { season: career.slice(2), career } })
+    );
+
+    expect(highlights).toHaveLength(1);
+    expect(highlights[0]).toMatchObject({ kind: 'career_high', stat: 'points', value: 21, previous: 14 });
+    expect(highlights[0].description).toBe('Career high: Jane Smith, 21 points (previous 14)');
+  });
+
+  it('should fall back to a season high when the career high stands', () => {
+    const career = logs([bench(25), bench(8), bench(10), bench(9), bench(12)]);
+    const highlights = detectHistoryHighlights(
+      'basketball',
+      game([player('Jane Smith', { points: 18 })]),
+      lookupOf({ 'Jane Smith': { season: career.slice(1), career } })
+    );
+
+    expect(highlights.map((h) => h.kind)).toEqual(['season_high']);
+    expect(highlights[0].previous).toBe(12);
+  });
+
+  it('should not report highs without enough prior games', () => {
+    const career = logs([bench(8), bench(10)]);
+    const highlights = detectHistoryHighlights(
+      'basketball',
+      game([player('Jane Smith', { points: 30 })]),
+      lookupOf({ 'Jane Smith': { season: career, career } })
+    );
+
+    expect(highlights).toEqual([]);
+  });
+
+  it('should flag a first double-double and a first start', () => {
+    const career = logs([bench(8), bench(6), bench(9), bench(7), bench(9)]);
+    const highlights = detectHistoryHighlights(
+      'basketball',
+      game([player('Jane Smith', { starter: true, points: 12, rebounds: 10 })]),
+      lookupOf({ 'Jane Smith': { season: [], career } })
+    );
+    const kinds = highlights.map((h) => h.kind);
+
+    expect(kinds).toContain('first_double_double');
+    expect(kinds).toContain('first_start');
+    expect(highlights.find((h) => h.kind === 'first_double_double')!.description).toBe(
+      'First career double-double: Jane Smith (12 points, 10 rebounds)'
+    );
+  });
+
+  it('should flag a career milestone crossing', () => {
+    const career = logs([{ points: 500 }, { points: 490 }]);
+    const highlights = detectHistoryHighlights(
+      'basketball',
+      game([player('Jane Smith', { points: 15 })]),
+      lookupOf({ 'Jane Smith': { season: [], career } })
+    );
+
+    expect(highlights).toHaveLength(1);
+    expect(highlights[0]).toMatchObject({ kind: 'milestone', value: 1005, previous: 990 });
+    expect(highlights[0].description).toBe('Milestone: Jane Smith reached the 1,000th career point (1,005 total)');
+  });
+
+  it('should check pitching strikeouts for baseball milestones', () => {
+    const boxScore: BaseballBoxScore = {
+      metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 3, away_score: 1, innings: 9 },
+      home_team: {
+        team_name: 'Marin',
+        runs: 3,
+        hits: 6,
+        errors: 0,
+        batters: [],
+        pitchers: [{ name: 'Ace', innings_pitched: 7, hits_allowed: 3, runs_allowed: 1, earned_runs: 1, walks: 1, strikeouts: 6 }],
+      },
+      away_team: { team_name: 'Skyline', runs: 1, hits: 3, errors: 1, batters: [], pitchers: [] },
+    };
+    const career = logs([{ pitching_strikeouts: 50 }, { pitching_strikeouts: 46 }]);
+    const highlights = detectHistoryHighlights(
+      'baseball',
+      boxScore,
+      lookupOf({ Ace: { season: career, career } })
+    );
+
+    expect(highlights.map((h) => h.description)).toEqual([
+      'Milestone: Ace reached the 100th career strikeout (102 total)',
+    ]);
+  });
+});
+
+describe('historyTriggers and withHistoryHighlights', () => {
+  const career = logs([bench(8), bench(14), bench(9), bench(12), bench(11)]);
+  const highlights = detectHistoryHighlights(
+    'basketball',
+    game([player('Jane Smith', { points: 21 })]),
+    lookupOf({ 'Jane Smith': { season: career, career } })
+  );
+
+  it('should emit UNEXPECTED_PERFORMANCE triggers for career highs', () => {
+    const [trigger] = historyTriggers(highlights);
+
+    expect(trigger.category).toBe('UNEXPECTED_PERFORMANCE');
+    expect(trigger.player_name).toBe('Jane Smith');
+    expect(trigger.key_stats).toEqual({ team: 'Marin', points: '21', previous: '14' });
+  });
+
+  it('should replace the default reason with history reasons', () => {
+    const signals = { signal_reasons: ['No major story signals detected'], priority_score: 0, tier: 'low' } as StorySignals;
+
+    expect(withHistoryHighlights(signals, highlights).signal_reasons).toEqual([
+      'Career high: Jane Smith, 21 points (previous 14)',
+    ]);
+    expect(withHistoryHighlights(signals, [])).toBe(signals);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Player History Highlights
+ *
+ * Compares each player's line in a game against their stored prior games to find
+ * the things a single box score can't show: career and season highs, a first
+ * double-double, a first start, and career milestones like 1,000 points or the
+ * 100th strikeout.
+ *
+ * "Career" means every prior game stored for the program, so history only goes
+ * back as far as the season store does. Highs need a minimum number of prior games
+ * before they're reported, so a player's second game isn't a "career high".
+ *
+ * Like the story signals, detection is deterministic. The lookup that supplies
+ * prior games is passed in (see createHistoryLookup in season-store.ts), so this
+ * module stays free of the database.
+ */
+
+import { TriggerCategory, type StorySignals, type Trigger } from '../../baml_client/types.js';
+import type { BoxScore, BaseballBoxScore, WaterPoloBoxScore } from '../../baml_client/index.js';
+import { extractTeamGames, type PlayerGameLog, type SeasonSport, type StatLine } from './season-stats.js';
+
+export type HistoryHighlightKind = 'career_high' | 'season_high' | 'first_double_double' | 'first_start' | 'milestone';
+
+/**
+ * Something a player did that only stands out against their history
+ */
+export interface HistoryHighlight {
+  kind: HistoryHighlightKind;
+  player: string;
+  /** Team name as it appears in the box score */
+  team: string;
+  /** Stat key from the game log, e.g. 'points' or 'pitching_strikeouts' */
+  stat: string | null;
+  value: number;
+  /** Previous high or career total before this game, when there is one */
+  previous: number | null;
+  description: string;
+}
+
+/**
+ * A player's stored games before the one being checked
+ */
+export interface PlayerHistory {
+  season: PlayerGameLog[];
+  career: PlayerGameLog[];
+}
+
+/**
+ * Supplies a player's prior games by team key and player name
+ */
+export type PlayerHistoryLookup = (team: string, player: string) => PlayerHistory;
+
+/**
+ * A stat tracked for highs, with the smallest value worth reporting
+ */
+export interface HighStat {
+  stat: string;
+  label: string;
+  min: number;
+}
+
+/**
+ * A career total reported each time it crosses a multiple of `step`
+ */
+export interface Milestone {
+  stat: string;
+  label: string;
+  step: number;
+}
+
+/**
+ * Thresholds for history highlights
+ */
+export interface HistoryThresholds {
+  /** Prior games this season before a season high counts */
+  minSeasonGames: number;
+  /** Prior career games before a career high or career first counts */
+  minCareerGames: number;
+  /** Category value for a double-double */
+  doubleDouble: number;
+  highStats: Record<SeasonSport, readonly HighStat[]>;
+  milestones: Record<SeasonSport, readonly Milestone[]>;
+}
+
+const DIAMOND_HIGH_STATS: readonly HighStat[] = [
+  { stat: 'hits', label: 'hits', min: 3 },
+  { stat: 'rbi', label: 'RBIs', min: 4 },
+  { stat: 'home_runs', label: 'home runs', min: 2 },
+  { stat: 'pitching_strikeouts', label: 'strikeouts', min: 8 },
+];
+
+const DIAMOND_MILESTONES: readonly Milestone[] = [
+  { stat: 'hits', label: 'hit', step: 100 },
+  { stat: 'home_runs', label: 'home run', step: 25 },
+  { stat: 'pitching_strikeouts', label: 'strikeout', step: 100 },
+];
+
+export const HISTORY_THRESHOLDS: HistoryThresholds = {
+  minSeasonGames: 3,
+  minCareerGames: 5,
+  doubleDouble: 10,
+  highStats: {
+    basketball: [
+      { stat: 'points', label: 'points', min: 10 },
+      { stat: 'rebounds', label: 'rebounds', min: 8 },
+      { stat: 'assists', label: 'assists', min: 6 },
+      { stat: 'three_pointers_made', label: 'three-pointers', min: 4 },
+      { stat: 'steals', label: 'steals', min: 4 },
+      { stat: 'blocks', label: 'blocks', min: 4 },
+    ],
+    baseball: DIAMOND_HIGH_STATS,
+    softball: DIAMOND_HIGH_STATS,
+    waterpolo: [
+      { stat: 'goals', label: 'goals', min: 4 },
+      { stat: 'assists', label: 'assists', min: 4 },
+      { stat: 'steals', label: 'steals', min: 4 },
+      { stat: 'saves', label: 'saves', min: 12 },
+    ],
+  },
+  milestones: {
+    basketball: [
+      { stat: 'points', label: 'point', step: 1000 },
+      { stat: 'rebounds', label: 'rebound', step: 500 },
+      { stat: 'assists', label: 'assist', step: 250 },
+    ],
+    baseball: DIAMOND_MILESTONES,
+    softball: DIAMOND_MILESTONES,
+    waterpolo: [
+      { stat: 'goals', label: 'goal', step: 100 },
+      { stat: 'saves', label: 'save', step: 250 },
+    ],
+  },
+};
+
+const DOUBLE_DOUBLE_STATS = ['points', 'rebounds', 'assists', 'steals', 'blocks'] as const;
+
+function highest(logs: PlayerGameLog[], stat: string): number | null {
+  const values = logs.map((log) => log.stats[stat]).filter((value) => value !== undefined);
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+function doubleDoubleStats(stats: StatLine, threshold: number): string[] {
+  return DOUBLE_DOUBLE_STATS.filter((stat) => (stats[stat] ?? 0) >= threshold);
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n.toLocaleString('en-US')}${suffix}`;
+}
+
+/**
+ * Find a player's highs: a career high supersedes a season high in the same stat
+ */
+function highHighlights(
+  player: string,
+  team: string,
+  stats: StatLine,
+  history: PlayerHistory,
+  highStats: readonly HighStat[],
+  thresholds: HistoryThresholds
+): HistoryHighlight[] {
+  const highlights: HistoryHighlight[] = [];
+
+  for (const { stat, label, min } of highStats) {
+    const value = stats[stat];
+    if (value === undefined || value < min) continue;
+
+    const careerHigh = highest(history.career, stat);
+    if (history.career.length >= thresholds.minCareerGames && careerHigh !== null && value > careerHigh) {
+      highlights.push({
+        kind: 'career_high',
+        player,
+        team,
+        stat,
+        value,
+        previous: careerHigh,
+        description: `Career high: ${player}, ${value} ${label} (previous ${careerHigh})`,
+      });
+      continue;
+    }
+
+    const seasonHigh = highest(history.season, stat);
+    if (history.season.length >= thresholds.minSeasonGames && seasonHigh !== null && value > seasonHigh) {
+      highlights.push({
+        kind: 'season_high',
+        player,
+        team,
+        stat,
+        value,
+        previous: seasonHigh,
+        description: `Season high: ${player}, ${value} ${label} (previous ${seasonHigh})`,
+      });
+    }
+  }
+
+  return highlights;
+}
+
+/**
+ * Find the career totals this game pushed past a milestone
+ */
+function milestoneHighlights(
+  player: string,
+  team: string,
+  stats: StatLine,
+  history: PlayerHistory,
+  milestones: readonly Milestone[]
+): HistoryHighlight[] {
+  const highlights: HistoryHighlight[] = [];
+
+  for (const { stat, label, step } of milestones) {
+    const value = stats[stat];
+    if (!value) continue;
+
+    const before = history.career.reduce((total, log) => total + (log.stats[stat] ?? 0), 0);
+    const after = before + value;
+    const crossed = Math.floor(after / step) * step;
+    if (crossed > before) {
+      highlights.push({
+        kind: 'milestone',
+        player,
+        team,
+        stat,
+        value: after,
+        previous: before,
+        description: `Milestone: ${player} reached the ${ordinal(crossed)} career ${label} (${after.toLocaleString('en-US')} total)`,
+      });
+    }
+  }
+
+  return highlights;
+}
+
+/**
+ * Detect history highlights for every player in a box score
+ *
+ * @param sport - Sport of the box score
+ * @param boxScore - Parsed box score for the game being checked
+ * @param lookup - Supplies each player's games before this one
+ * @param thresholds - Highlight thresholds (defaults to HISTORY_THRESHOLDS)
+ * @returns Highlights in box score order, home team first
+ */
+export function detectHistoryHighlights(
+  sport: SeasonSport,
+  boxScore: BoxScore | BaseballBoxScore | WaterPoloBoxScore,
+  lookup: PlayerHistoryLookup,
+  thresholds: HistoryThresholds = HISTORY_THRESHOLDS
+): HistoryHighlight[] {
+  const highlights: HistoryHighlight[] = [];
+
+  for (const entry of extractTeamGames(sport, boxScore)) {
+    for (const { player, stats } of entry.players) {
+      const history = lookup(entry.team, player);
+      const hasCareer = history.career.length >= thresholds.minCareerGames;
+
+      highlights.push(...highHighlights(player, entry.teamName, stats, history, thresholds.highStats[sport], thresholds));
+
+      if (sport === 'basketball') {
+        const categories = doubleDoubleStats(stats, thresholds.doubleDouble);
+        const hadDoubleDouble = history.career.some(
+          (log) => doubleDoubleStats(log.stats, thresholds.doubleDouble).length >= 2
+        );
+        if (categories.length >= 2 && hasCareer && !hadDoubleDouble) {
+          highlights.push({
+            kind: 'first_double_double',
+            player,
+            team: entry.teamName,
+            stat: null,
+            value: categories.length,
+            previous: null,
+            description: `First career double-double: ${player} (${categories.map((stat) => `${stats[stat]} ${stat}`).join(', ')})`,
+          });
+        }
+
+        // Any stored prior game is enough: a first start is news whenever it comes
+        if (stats.starts === 1 && history.career.length > 0 && history.career.every((log) => !log.stats.starts)) {
+          highlights.push({
+            kind: 'first_start',
+            player,
+            team: entry.teamName,
+            stat: 'starts',
+            value: 1,
+            previous: null,
+            description: `First career start: ${player} (after ${history.career.length} games off the bench)`,
+          });
+        }
+      }
+
+      highlights.push(...milestoneHighlights(player, entry.teamName, stats, history, thresholds.milestones[sport]));
+    }
+  }
+
+  return highlights;
+}
+
+// ============================================================================
+// Signals and Triggers
+// ============================================================================
+
+const TRIGGER_SHAPES: Record<
+  HistoryHighlightKind,
+  { category: TriggerCategory; salience: number; question: (highlight: HistoryHighlight) => string }
+> = {
+  career_high: {
+    category: TriggerCategory.UNEXPECTED_PERFORMANCE,
+    salience: 0.85,
+    question: (h) => `What clicked for ${h.player} tonight compared to earlier games?`,
+  },
+  milestone: {
+    category: TriggerCategory.STATISTICAL_EXTREME,
+    salience: 0.8,
+    question: (h) => `What does this milestone mean to ${h.player}, and who helped them get there?`,
+  },
+  first_double_double: {
+    category: TriggerCategory.UNEXPECTED_PERFORMANCE,
+    salience: 0.75,
+    question: (h) => `Has ${h.player}'s role changed recently, leading to their first double-double?`,
+  },
+  season_high: {
+    category: TriggerCategory.STATISTICAL_EXTREME,
+    salience: 0.6,
+    question: (h) => `What allowed ${h.player} to have their best game of the season?`,
+  },
+  first_start: {
+    category: TriggerCategory.UNEXPECTED_PERFORMANCE,
+    salience: 0.55,
+    question: (h) => `Why did ${h.player} get the start tonight, and how did they handle it?`,
+  },
+};
+
+/**
+ * Turn history highlights into triggers, ordered by salience
+ */
+export function historyTriggers(highlights: HistoryHighlight[]): Trigger[] {
+  return highlights
+    .map((highlight) => {
+      const shape = TRIGGER_SHAPES[highlight.kind];
+      const key_stats: Record<string, string> = { team: highlight.team };
+      if (highlight.stat) key_stats[highlight.stat] = String(highlight.value);
+      if (highlight.previous !== null) key_stats.previous = String(highlight.previous);
+      return {
+        category: shape.category,
+        description: highlight.description,
+        player_name: highlight.player,
+        key_stats,
+        follow_up_question: shape.question(highlight),
+        salience_score: shape.salience,
+      };
+    })
+    .sort((a, b) => b.salience_score - a.salience_score);
+}
+
+/**
+ * Add history highlights to a game's signal reasons
+ *
+ * The reasons are informational; the priority score and tier are unchanged so
+ * games rank the same whether or not history is available.
+ */
+export function withHistoryHighlights(signals: StorySignals, highlights: HistoryHighlight[]): StorySignals {
+  if (highlights.length === 0) return signals;
+
+  const reasons = signals.signal_reasons.filter((reason) => reason !== 'No major story signals detected');
+  return { ...signals, signal_reasons: [...reasons, ...highlights.map((highlight) => highlight.description)] };
+}
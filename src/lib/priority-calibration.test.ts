@@ -0,0 +1,164 @@
+/**
+ * Tests for fitting priority settings to past coverage decisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calibratePriority,
+  measureAgreement,
+  parseCoverageDecision,
+  prioritySignalsOf,
+  type CalibrationGame,
+} from './priority-calibration.js';
+import { computeStorySignals, defaultPriority, type PrioritySignals } from './story-signals.js';
+import type { BoxScore, GameMomentum, TeamStats } from '../../baml_client/index.js';
+
+function game(id: string, flags: Partial<PrioritySignals>, decision: CalibrationGame['decision']): CalibrationGame {
+  return {
+    id,
+    signals: {
+      is_close_game: false,
+      is_overtime: false,
+      has_standout_performance: false,
+      is_conference_game: false,
+      has_game_dynamics: false,
+      ...flags,
+    },
+    decision,
+  };
+}
+
+// An SID who features every conference game and nothing else
+const history = [
+  game('a', { is_conference_game: true }, 'featured'),
+  game('b', { is_conference_game: true, is_close_game: true }, 'featured'),
+  game('c', { is_conference_game: true, has_standout_performance: true }, 'featured'),
+  game('d', { is_close_game: true }, 'not_featured'),
+  game('e', { has_standout_performance: true }, 'not_featured'),
+  game('f', {}, 'not_featured'),
+];
+
+describe('parseCoverageDecision', () => {
+  it('should read yes/no answers and tiers', () => {
+    expect(parseCoverageDecision('Yes')).toBe('featured');
+    expect(parseCoverageDecision(' no ')).toBe('not_featured');
+    expect(parseCoverageDecision('medium')).toBe('medium');
+    expect(parseCoverageDecision('maybe')).toBeNull();
+  });
+});
+
+describe('measureAgreement', () => {
+  it('should count decisions the settings reproduce', () => {
+    const report = measureAgreement(history, defaultPriority('basketball'));
+
+    // Defaults feature none of them: a lone conference game scores 1
+    expect(report.agreed).toBe(3);
+    expect(report.rate).toBe(0.5);
+    expect(report.disagreements.map((d) => d.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should accept either lower tier for a game that was not featured', () => {
+    const report = measureAgreement([game('x', { is_close_game: true }, 'not_featured')], defaultPriority('basketball'));
+
+    expect(report.agreed).toBe(1);
+  });
+});
+
+describe('calibratePriority', () => {
+  it('should fit settings that reproduce the SID\'s choices', () => {
+    const result = calibratePriority(history, defaultPriority('basketball'));
+
+    expect(result.before.agreed).toBe(3);
+    expect(result.after.agreed).toBe(6);
+    expect(result.after.disagreements).toEqual([]);
+  });
+
+  it('should leave weights for signals missing from the history alone', () => {
+    const result = calibratePriority(history, defaultPriority('basketball'));
+
+    expect(result.priority.weights.overtime).toBe(3);
+    expect(result.priority.weights.gameDynamics).toBe(2);
+  });
+
+  it('should keep the current settings when they already agree', () => {
+    const start = defaultPriority('basketball');
+    const result = calibratePriority([game('x', {}, 'low')], start);
+
+    expect(result.priority).toBe(start);
+    expect(result.after.rate).toBe(1);
+  });
+});
+
+describe('prioritySignalsOf', () => {
+  const team = (team_name: string): TeamStats => ({
+    team_name,
+    total_points: 0,
+    field_goals_made: 0,
+    field_goals_attempted: 0,
+    field_goal_percentage: 0,
+    three_pointers_made: 0,
+    three_pointers_attempted: 0,
+    three_point_percentage: 0,
+    free_throws_made: 0,
+    free_throws_attempted: 0,
+    free_throw_percentage: 0,
+    total_rebounds: 0,
+    assists: 0,
+    steals: 0,
+    blocks: 0,
+    turnovers: 0,
+    fouls: 0,
+    players: [],
+  });
+
+  const basketballGame = (home_score: number, away_score: number, momentum?: GameMomentum): BoxScore => ({
+    metadata: { home_team: 'A', away_team: 'B', home_score, away_score, is_overtime: false, periods: 2 },
+    home_team: team('A'),
+    away_team: team('B'),
+    momentum,
+  });
+
+  it('should read back whether game dynamics counted', () => {
+    const boxScore = basketballGame(70, 50, {
+      lead_changes: 0,
+      ties: 0,
+      home_largest_lead: 20,
+      away_largest_lead: 15,
+      biggest_run_points: 12,
+      comeback_team: 'A',
+      comeback_size: 15,
+      last_two_minutes_home_points: 4,
+      last_two_minutes_away_points: 2,
+      margin_at_two_minutes: 18,
+    });
+
+    const signals = prioritySignalsOf((priority) => computeStorySignals(boxScore, 'college', priority));
+
+    expect(signals.has_game_dynamics).toBe(true);
+    expect(signals.has_momentum).toBe(true);
+    expect(signals.is_close_game).toBe(false);
+  });
+
+  it('should read back whether the game had momentum when dynamics didn\'t count', () => {
+    const quietMomentum: GameMomentum = {
+      lead_changes: 0,
+      ties: 0,
+      home_largest_lead: 6,
+      away_largest_lead: 0,
+      biggest_run_points: 6,
+      comeback_team: null,
+      comeback_size: 0,
+      last_two_minutes_home_points: 2,
+      last_two_minutes_away_points: 2,
+      margin_at_two_minutes: 2,
+    };
+
+    const withMomentum = prioritySignalsOf((priority) =>
+      computeStorySignals(basketballGame(70, 68, quietMomentum), 'college', priority)
+    );
+    const without = prioritySignalsOf((priority) => computeStorySignals(basketballGame(70, 68), 'college', priority));
+
+    expect(withMomentum).toMatchObject({ is_close_game: true, has_game_dynamics: false, has_momentum: true });
+    expect(without).toMatchObject({ is_close_game: true, has_game_dynamics: false, has_momentum: false });
+  });
+});
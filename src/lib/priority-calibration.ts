@@ -0,0 +1,236 @@
+/**
+ * Priority Calibration
+ *
+ * Fits a sport's priority weights and tier cutoffs to the SID's own coverage
+ * history. Each past game carries the signals it had and what the SID did with
+ * it: featured it or not, or the tier it was covered at. The fit searches whole
+ * number weights and the cutoffs between the scores they produce, keeping the
+ * settings that agree with the most decisions. Ties go to the settings closest
+ * to the ones in use, so a small history nudges the defaults rather than
+ * replacing them.
+ */
+
+import type { StorySignals } from '../../baml_client/types.js';
+import {
+  PRIORITY_SCALE,
+  determineTier,
+  scorePriority,
+  type PrioritySignals,
+  type PriorityWeights,
+  type SportPriority,
+  type TierThresholds,
+} from './story-signals.js';
+
+type Tier = 'high' | 'medium' | 'low';
+
+/**
+ * What the SID did with a game: featured it or not, or covered it at a tier
+ */
+export type CoverageDecision = 'featured' | 'not_featured' | Tier;
+
+export interface CalibrationGame {
+  /** How the game is named in reports, e.g. its raw input filename */
+  id: string;
+  signals: PrioritySignals;
+  decision: CoverageDecision;
+}
+
+export interface AgreementReport {
+  total: number;
+  agreed: number;
+  /** Share of decisions reproduced, 0-1 */
+  rate: number;
+  disagreements: Array<{ id: string; decision: CoverageDecision; tier: Tier; score: number }>;
+}
+
+export interface CalibrationResult {
+  before: AgreementReport;
+  after: AgreementReport;
+  /** The fitted settings (the starting ones when nothing fits better) */
+  priority: SportPriority;
+}
+
+export interface CalibrationOptions {
+  /** Largest whole-number weight to try (default 4) */
+  maxWeight?: number;
+}
+
+const WEIGHT_SIGNALS: Array<[keyof PriorityWeights, keyof PrioritySignals]> = [
+  ['closeGame', 'is_close_game'],
+  ['overtime', 'is_overtime'],
+  ['standoutPerformance', 'has_standout_performance'],
+  ['conferenceGame', 'is_conference_game'],
+  ['gameDynamics', 'has_game_dynamics'],
+];
+
+const TIERS: Tier[] = ['high', 'medium', 'low'];
+
+/**
+ * Tiers that agree with a decision
+ */
+function acceptedTiers(decision: CoverageDecision): Tier[] {
+  if (decision === 'featured') return ['high'];
+  if (decision === 'not_featured') return ['medium', 'low'];
+  return [decision];
+}
+
+/**
+ * Read a decision from a spreadsheet cell: yes/no for "did we feature it?",
+ * or the tier it was covered at
+ */
+export function parseCoverageDecision(value: string): CoverageDecision | null {
+  const normalized = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'featured'].includes(normalized)) return 'featured';
+  if (['no', 'n', 'false', '0', 'not featured', 'not_featured'].includes(normalized)) return 'not_featured';
+  return (TIERS as string[]).includes(normalized) ? (normalized as Tier) : null;
+}
+
+/**
+ * The weighted signals behind a game's score
+ *
+ * StorySignals reports the flags but not whether game dynamics counted, so that
+ * one is read back by scoring the game with only game dynamics weighted. Nor
+ * does it say whether the game had play-by-play momentum, which decides whether
+ * game dynamics counts toward the maximum: with every weight at 1 the raised
+ * signals score out of 5 when it does and out of 4 when it doesn't.
+ *
+ * @param score - Computes the game's signals with the given priority settings
+ */
+export function prioritySignalsOf(score: (priority: SportPriority) => StorySignals): PrioritySignals {
+  const tiers = { high: PRIORITY_SCALE, medium: 0 };
+  const signals = score({
+    weights: { closeGame: 0, overtime: 0, standoutPerformance: 0, conferenceGame: 0, gameDynamics: 1 },
+    tiers,
+  });
+  const flags = {
+    is_close_game: signals.is_close_game,
+    is_overtime: signals.is_overtime,
+    has_standout_performance: signals.has_standout_performance,
+    is_conference_game: signals.is_conference_game,
+    has_game_dynamics: signals.priority_score > 0,
+  };
+
+  const raised = Object.values(flags).filter(Boolean).length;
+  const allWeighted = score({
+    weights: { closeGame: 1, overtime: 1, standoutPerformance: 1, conferenceGame: 1, gameDynamics: 1 },
+    tiers,
+  });
+  return { ...flags, has_momentum: raised > 0 && allWeighted.priority_score === (raised / 5) * PRIORITY_SCALE };
+}
+
+/**
+ * How many of the SID's decisions a set of priority settings reproduces
+ */
+export function measureAgreement(games: CalibrationGame[], priority: SportPriority): AgreementReport {
+  const disagreements: AgreementReport['disagreements'] = [];
+
+  for (const game of games) {
+    const score = scorePriority(game.signals, priority.weights);
+    const tier = determineTier(score, priority.tiers);
+    if (!acceptedTiers(game.decision).includes(tier)) {
+      disagreements.push({ id: game.id, decision: game.decision, tier, score });
+    }
+  }
+
+  const agreed = games.length - disagreements.length;
+  return { total: games.length, agreed, rate: games.length > 0 ? agreed / games.length : 0, disagreements };
+}
+
+/**
+ * Every whole-number weighting of the fitted signals; the others keep their weight
+ */
+function* weightGrid(start: PriorityWeights, fitted: Array<keyof PriorityWeights>, maxWeight: number) {
+  const weights = { ...start };
+  function* assign(index: number): Generator<PriorityWeights> {
+    if (index === fitted.length) {
+      yield { ...weights };
+      return;
+    }
+    for (let value = 0; value <= maxWeight; value++) {
+      weights[fitted[index]] = value;
+      yield* assign(index + 1);
+    }
+  }
+  yield* assign(0);
+}
+
+/**
+ * Cutoffs worth trying: every way of splitting the scores in two, each placed
+ * as close to a current cutoff as that split allows
+ */
+function candidateCutoffs(scores: number[], current: number[]): number[] {
+  const distinct = [...new Set(scores)].sort((a, b) => a - b);
+  const cutoffs = new Set<number>();
+
+  // Split i puts scores below distinct[i] under the cutoff; the last split puts all of them under
+  for (let i = 0; i <= distinct.length; i++) {
+    const lowest = i === 0 ? 0 : distinct[i - 1] + 0.1;
+    const highest = i === distinct.length ? Infinity : distinct[i];
+    for (const cutoff of current) {
+      // Scores are in tenths, so a tenth above the lower score still separates them
+      cutoffs.add(Math.round(Math.min(Math.max(cutoff, lowest), highest) * 10) / 10);
+    }
+  }
+  return [...cutoffs];
+}
+
+/**
+ * How far a candidate strays from the starting settings
+ */
+function distance(start: SportPriority, weights: PriorityWeights, tiers: TierThresholds): number {
+  const weightDistance = WEIGHT_SIGNALS.reduce((sum, [key]) => sum + Math.abs(weights[key] - start.weights[key]), 0);
+  return weightDistance + Math.abs(tiers.high - start.tiers.high) + Math.abs(tiers.medium - start.tiers.medium);
+}
+
+/**
+ * Fit weights and tier cutoffs to the SID's past decisions
+ *
+ * Only signals that appear in the history are refit; the data says nothing
+ * about the others, so they keep their starting weights.
+ *
+ * @param games - Past games with their signals and the SID's decision
+ * @param start - Settings in use now (the sport's defaults with any config applied)
+ */
+export function calibratePriority(
+  games: CalibrationGame[],
+  start: SportPriority,
+  options: CalibrationOptions = {}
+): CalibrationResult {
+  const { maxWeight = 4 } = options;
+  const before = measureAgreement(games, start);
+
+  // Games with the same signals score alike, so count decisions per signal pattern
+  const patterns = new Map<string, { signals: PrioritySignals; accepted: Record<Tier, number> }>();
+  for (const game of games) {
+    const key = WEIGHT_SIGNALS.map(([, signal]) => (game.signals[signal] ? 1 : 0)).join('');
+    const pattern = patterns.get(key) ?? { signals: game.signals, accepted: { high: 0, medium: 0, low: 0 } };
+    for (const tier of acceptedTiers(game.decision)) pattern.accepted[tier]++;
+    patterns.set(key, pattern);
+  }
+  const groups = [...patterns.values()];
+  const fitted = WEIGHT_SIGNALS.filter(([, signal]) => games.some((game) => game.signals[signal])).map(([key]) => key);
+
+  let best = { agreed: before.agreed, distance: 0, priority: start };
+  for (const weights of weightGrid(start.weights, fitted, maxWeight)) {
+    const scores = groups.map((group) => scorePriority(group.signals, weights));
+    const cutoffs = candidateCutoffs(scores, [start.tiers.high, start.tiers.medium]);
+
+    for (const high of cutoffs) {
+      for (const medium of cutoffs) {
+        if (medium > high) continue;
+        const tiers = { high, medium };
+        const agreed = groups.reduce(
+          (sum, group, i) => sum + group.accepted[determineTier(scores[i], tiers)],
+          0
+        );
+        if (agreed < best.agreed) continue;
+        const candidateDistance = distance(start, weights, tiers);
+        if (agreed > best.agreed || candidateDistance < best.distance) {
+          best = { agreed, distance: candidateDistance, priority: { weights, tiers } };
+        }
+      }
+    }
+  }
+
+  return { before, after: measureAgreement(games, best.priority), priority: best.priority };
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for priority config validation and loading
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PriorityConfigError,
+  loadPriorityConfig,
+  loadProgramPriority,
+  parsePriorityConfig,
+  priorityConfigPath,
+} from './priority-config.js';
+import { PRIORITY_WEIGHTS, SPORT_PRIORITY_WEIGHTS, TIER_THRESHOLDS, resolveSportPriority } from './story-signals.js';
+
+describe('parsePriorityConfig', () => {
+  it('should accept partial overrides per sport', () => {
+    const config = { waterpolo: { weights: { standoutPerformance: 2 } }, baseball: { tiers: { high: 6 } } };
+
+    expect(parsePriorityConfig(config)).toEqual(config);
+  });
+
+  it('should list every problem it finds', () => {
+    const config = {
+      curling: {},
+      basketball: { weights: { closeGame: -1, clutch: 2 }, tier: {} },
+    };
+
+    try {
+      parsePriorityConfig(config, 'profiles/test-priority.json');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PriorityConfigError);
+      expect((error as PriorityConfigError).problems).toEqual([
+        "'curling' is not a sport (expected one of basketball, waterpolo, baseball, softball, volleyball, soccer)",
+        'basketball.tier is not a section (expected weights or tiers)',
+        'basketball.weights.closeGame must be a non-negative number',
+        'basketball.weights.clutch is not a setting (expected one of closeGame, overtime, standoutPerformance, conferenceGame, gameDynamics)',
+      ]);
+    }
+  });
+
+  it('should reject a medium cutoff above the high cutoff', () => {
+    expect(() => parsePriorityConfig({ soccer: { tiers: { high: 1.5 } } })).toThrow(
+      /medium cutoff \(2\) is above the high cutoff \(1\.5\)/
+    );
+  });
+
+  it('should reject anything but an object', () => {
+    expect(() => parsePriorityConfig([])).toThrow(PriorityConfigError);
+  });
+});
+
+describe('resolveSportPriority', () => {
+  it('should apply overrides over the sport defaults', () => {
+    const priority = resolveSportPriority('soccer', { soccer: { weights: { closeGame: 2 }, tiers: { high: 6 } } });
+
+    expect(priority.weights).toEqual({ ...SPORT_PRIORITY_WEIGHTS.soccer, closeGame: 2 });
+    expect(priority.tiers).toEqual({ high: 6, medium: TIER_THRESHOLDS.medium });
+  });
+
+  it('should fall back to basketball for an unknown sport', () => {
+    expect(resolveSportPriority('curling').weights).toEqual(PRIORITY_WEIGHTS);
+  });
+});
+
+describe('loadPriorityConfig', () => {
+  it('should load a school config from profiles/', () => {
+    expect(priorityConfigPath('example-marin')).toBe('profiles/example-marin-priority.json');
+    expect(loadPriorityConfig('example-marin')?.basketball?.tiers).toEqual({ high: 6 });
+  });
+
+  it('should return null for a school without a config', () => {
+    expect(loadPriorityConfig('nowhere')).toBeNull();
+  });
+
+  it('should resolve a program from its school config', () => {
+    const priority = loadProgramPriority('example-marin-wbkb', 'basketball');
+
+    expect(priority.weights.conferenceGame).toBe(2);
+    expect(priority.tiers.high).toBe(6);
+  });
+});
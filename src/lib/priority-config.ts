@@ -0,0 +1,160 @@
+/**
+ * Priority Configuration
+ *
+ * Programs can tune how games are prioritized without touching code. A school's
+ * config lives at `profiles/{school}-priority.json` and overrides the built-in
+ * weights and tier cutoffs per sport; anything it leaves out keeps the default:
+ *
+ * ```json
+ * {
+ *   "basketball": { "weights": { "conferenceGame": 2 }, "tiers": { "high": 6 } },
+ *   "soccer": { "weights": { "closeGame": 2 } }
+ * }
+ * ```
+ *
+ * Scores stay on the shared PRIORITY_SCALE, so tier cutoffs mean the same thing
+ * whichever weights produced them. tools/calibrate-priority.ts fits these values
+ * from the SID's past coverage decisions.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseProgramId } from './narrative-context.js';
+import { getSportForSiteCode } from './sports/registry.js';
+import {
+  SPORT_PRIORITY_WEIGHTS,
+  TIER_THRESHOLDS,
+  resolveSportPriority,
+  type PriorityOverrides,
+  type SportPriority,
+} from './story-signals.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = join(__dirname, '../..');
+
+/**
+ * Error thrown when a priority config file can't be read or doesn't validate
+ */
+export class PriorityConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly problems: string[] = []
+  ) {
+    super(problems.length > 0 ? `${message}:\n  - ${problems.join('\n  - ')}` : message);
+    this.name = 'PriorityConfigError';
+  }
+}
+
+const WEIGHT_KEYS = Object.keys(SPORT_PRIORITY_WEIGHTS.basketball);
+const TIER_KEYS = Object.keys(TIER_THRESHOLDS);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a section of numbers ("weights" or "tiers") and collect its problems
+ */
+function checkNumbers(section: unknown, keys: string[], label: string, problems: string[]): void {
+  if (!isPlainObject(section)) {
+    problems.push(`${label} must be an object`);
+    return;
+  }
+  for (const [key, value] of Object.entries(section)) {
+    if (!keys.includes(key)) {
+      problems.push(`${label}.${key} is not a setting (expected one of ${keys.join(', ')})`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      problems.push(`${label}.${key} must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validate parsed config JSON and return it as priority overrides
+ *
+ * @param value - Parsed JSON from a priority config file
+ * @param path - File the JSON came from, for error messages
+ * @throws PriorityConfigError listing every problem found
+ */
+export function parsePriorityConfig(value: unknown, path = 'priority config'): PriorityOverrides {
+  const problems: string[] = [];
+
+  if (!isPlainObject(value)) {
+    throw new PriorityConfigError('Priority config must be a JSON object keyed by sport', path);
+  }
+
+  for (const [sport, section] of Object.entries(value)) {
+    if (!(sport in SPORT_PRIORITY_WEIGHTS)) {
+      problems.push(`'${sport}' is not a sport (expected one of ${Object.keys(SPORT_PRIORITY_WEIGHTS).join(', ')})`);
+      continue;
+    }
+    if (!isPlainObject(section)) {
+      problems.push(`${sport} must be an object with weights and/or tiers`);
+      continue;
+    }
+    for (const key of Object.keys(section)) {
+      if (key !== 'weights' && key !== 'tiers') problems.push(`${sport}.${key} is not a section (expected weights or tiers)`);
+    }
+    if (section.weights !== undefined) checkNumbers(section.weights, WEIGHT_KEYS, `${sport}.weights`, problems);
+    if (section.tiers !== undefined) checkNumbers(section.tiers, TIER_KEYS, `${sport}.tiers`, problems);
+  }
+
+  // Cutoffs are only checked once the numbers themselves are sound
+  if (problems.length === 0) {
+    for (const sport of Object.keys(value)) {
+      const { tiers } = resolveSportPriority(sport, value as PriorityOverrides);
+      if (tiers.medium > tiers.high) {
+        problems.push(`${sport}.tiers: medium cutoff (${tiers.medium}) is above the high cutoff (${tiers.high})`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PriorityConfigError(`Invalid priority config at ${path}`, path, problems);
+  }
+  return value as PriorityOverrides;
+}
+
+/**
+ * Path of a school's priority config, e.g. profiles/marin-priority.json
+ */
+export function priorityConfigPath(school: string): string {
+  return join('profiles', `${school}-priority.json`);
+}
+
+/**
+ * Load a school's priority overrides, or null if it hasn't written a config
+ *
+ * @param school - School slug, e.g. "marin"
+ * @throws PriorityConfigError if the file exists but isn't valid
+ */
+export function loadPriorityConfig(school: string): PriorityOverrides | null {
+  const path = join(PROJECT_ROOT, priorityConfigPath(school));
+  if (!existsSync(path)) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new PriorityConfigError(
+      `Failed to read priority config at ${path}: ${error instanceof Error ? error.message : error}`,
+      path
+    );
+  }
+  return parsePriorityConfig(json, path);
+}
+
+/**
+ * A program's priority settings for its sport: the built-in defaults with its
+ * school's config applied
+ *
+ * @param program - Program id, e.g. "marin-wbkb"
+ * @param sport - The box score's sport id (looked up from the program's site code when omitted)
+ */
+export function loadProgramPriority(program: string, sport?: string): SportPriority {
+  const parsed = parseProgramId(program);
+  const sportId = sport ?? (parsed && getSportForSiteCode(parsed.siteCode)?.id) ?? 'basketball';
+  return resolveSportPriority(sportId, parsed ? loadPriorityConfig(parsed.school) : null);
+}
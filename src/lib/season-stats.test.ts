@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregatePlayerSeason,
+  extractTeamGames,
+  isSeasonBoxScore,
+  isSeasonSport,
+  seasonForDate,
+  teamKey,
+  type PlayerGameLog,
+} from './season-stats.js';
+import type { BaseballBoxScore, PlayerStats, TeamStats, WaterPoloBoxScore } from '../../baml_client/index.js';
+
+const player = (name: string, points: number, overrides: Partial<PlayerStats> = {}): PlayerStats => ({
+  name,
+  starter: true,
+  minutes: 30,
+  points,
+  rebounds: 5,
+  assists: 3,
+  steals: 1,
+  blocks: 0,
+  turnovers: 2,
+  fouls: 2,
+  field_goals_made: 6,
+  field_goals_attempted: 12,
+  three_pointers_made: 1,
+  three_pointers_attempted: 4,
+  free_throws_made: 2,
+  free_throws_attempted: 2,
+  ...overrides,
+});
+
+const basketballTeam = (team_name: string, players: PlayerStats[]): TeamStats => ({
+  team_name,
+  total_points: 0,
+  field_goals_made: 0,
+  field_goals_attempted: 0,
+  field_goal_percentage: 0,
+  three_pointers_made: 0,
+  three_pointers_attempted: 0,
+  three_point_percentage: 0,
+  free_throws_made: 0,
+  free_throws_attempted: 0,
+  free_throw_percentage: 0,
+  total_rebounds: 0,
+  assists: 0,
+  steals: 0,
+  blocks: 0,
+  turnovers: 0,
+  fouls: 0,
+  players,
+});
+
+describe('teamKey and seasonForDate', () => {
+  it('should slug team names', () => {
+    expect(teamKey('College of Marin')).toBe('college-of-marin');
+    expect(teamKey("St. Mary's (Calif.)")).toBe('st-mary-s-calif');
+  });
+
+  it('should label basketball seasons across the new year', () => {
+    expect(seasonForDate('basketball', '2023-11-01')).toBe('2023-24');
+    expect(seasonForDate('basketball', '2024-02-15')).toBe('2023-24');
+    expect(seasonForDate('basketball', '1999-12-01')).toBe('1999-00');
+  });
+
+  it('should label spring and fall sports by calendar year', () => {
+    expect(seasonForDate('baseball', '2024-03-02')).toBe('2024');
+    expect(seasonForDate('waterpolo', '2023-10-14')).toBe('2023');
+  });
+});
+
+describe('isSeasonSport and isSeasonBoxScore', () => {
+  const metadata = { home_team: 'Marin', away_team: 'Skyline', home_score: 70, away_score: 65 };
+
+  it('should accept only sports with season aggregation', () => {
+    expect(isSeasonSport('softball')).toBe(true);
+    expect(isSeasonSport('volleyball')).toBe(false);
+  });
+
+  it("should check a box score has its sport's player lists", () => {
+    const basketball = { metadata, home_team: { players: [] }, away_team: { players: [] } };
+
+    expect(isSeasonBoxScore('basketball', basketball)).toBe(true);
+    expect(isSeasonBoxScore('baseball', basketball)).toBe(false);
+    expect(isSeasonBoxScore('waterpolo', { ...basketball, away_team: { players: [], goalkeepers: [] } })).toBe(false);
+    expect(isSeasonBoxScore('basketball', { metadata })).toBe(false);
+  });
+});
+
+describe('extractTeamGames', () => {
+  it('should split a basketball box score into home and away entries', () => {
+    const [home, away] = extractTeamGames('basketball', {
+      metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 70, away_score: 65, is_overtime: false, periods: 2 },
+      home_team: basketballTeam('Marin', [player('Jane Smith', 22, { offensive_rebounds: null })]),
+      away_team: basketballTeam('Skyline', [player('Ana Ruiz', 18, { starter: false })]),
+    });
+
+    expect(home).toMatchObject({ team: 'marin', opponent: 'Skyline', homeAway: 'home', result: 'W' });
+    expect(away).toMatchObject({ team: 'skyline', opponent: 'Marin', homeAway: 'away', result: 'L' });
+    expect(home.players[0].stats.points).toBe(22);
+    expect(home.players[0].stats).not.toHaveProperty('offensive_rebounds');
+    expect(away.players[0].stats.starts).toBe(0);
+  });
+
+  it('should merge baseball batting and pitching into one line with outs', () => {
+    const team = (name: string) => ({
+      team_name: name,
+      runs: 3,
+      hits: 8,
+      errors: 0,
+      batters: [{ name: 'Two-Way', at_bats: 4, runs: 1, hits: 2, rbi: 2, walks: 0, strikeouts: 1, home_runs: 1 }],
+      pitchers: [
+        { name: 'Two-Way', innings_pitched: 6.2, hits_allowed: 4, runs_allowed: 2, earned_runs: 1, walks: 1, strikeouts: 8, decision: 'W' },
+      ],
+    });
+    const boxScore: BaseballBoxScore = {
+      metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 3, away_score: 2, innings: 9 },
+      home_team: team('Marin'),
+      away_team: team('Skyline'),
+    };
+
+    const [home] = extractTeamGames('baseball', boxScore);
+    expect(home.players).toHaveLength(1);
+    expect(home.players[0].stats).toMatchObject({ hits: 2, home_runs: 1, pitching_outs: 20, pitching_strikeouts: 8, pitching_wins: 1 });
+  });
+
+  it('should read water polo goalkeeper minutes from the clock string', () => {
+    const team = (name: string) => ({
+      team_name: name,
+      goals: 9,
+      shots: 20,
+      assists: 5,
+      points: 14,
+      exclusions: 4,
+      drawn_exclusions: 5,
+      steals: 6,
+      players: [{ name: 'Keeper', shots: 0, goals: 0, assists: 1, points: 1, exclusions: 0, drawn_exclusions: 0, steals: 2 }],
+      goalkeepers: [{ name: 'Keeper', minutes: '31:45', goals_allowed: 7, saves: 12 }],
+    });
+    const boxScore: WaterPoloBoxScore = {
+      metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 9, away_score: 9, periods: 4 },
+      home_team: team('Marin'),
+      away_team: team('Skyline'),
+    };
+
+    const [home] = extractTeamGames('waterpolo', boxScore);
+    expect(home.result).toBe('T');
+    expect(home.players[0].stats).toMatchObject({ steals: 2, saves: 12, goals_allowed: 7, goalkeeper_minutes: 32 });
+  });
+});
+
+describe('aggregatePlayerSeason', () => {
+  const logs: PlayerGameLog[] = [
+    { gameDate: '2023-11-01', opponent: 'Skyline', result: 'W', stats: { points: 20, field_goals_made: 8, field_goals_attempted: 16 } },
+    { gameDate: '2023-11-04', opponent: 'Chabot', result: 'L', stats: { points: 31, field_goals_made: 12, field_goals_attempted: 20 } },
+    { gameDate: '2023-11-08', opponent: 'Laney', result: 'W', stats: { points: 31, field_goals_made: 11, field_goals_attempted: 19, offensive_rebounds: 4 } },
+  ];
+
+  it('should total, average and rate the season', () => {
+    const season = aggregatePlayerSeason('basketball', 'Jane Smith', logs);
+
+    expect(season.games).toBe(3);
+    expect(season.totals.points).toBe(82);
+    expect(season.averages.points).toBe(27.3);
+    expect(season.rates.fg_pct).toBe(56.4);
+  });
+
+  it('should keep the earliest game for a tied season high', () => {
+    const season = aggregatePlayerSeason('basketball', 'Jane Smith', logs);
+
+    expect(season.highs.points).toEqual({ value: 31, gameDate: '2023-11-04', opponent: 'Chabot' });
+  });
+
+  it('should average optional stats over the games that recorded them', () => {
+    const season = aggregatePlayerSeason('basketball', 'Jane Smith', logs);
+
+    expect(season.averages.offensive_rebounds).toBe(4);
+  });
+
+  it('should compute ERA on a seven-inning game for softball', () => {
+    const pitching: PlayerGameLog[] = [{ gameDate: '2024-03-01', opponent: 'Chabot', result: 'W', stats: { pitching_outs: 21, pitching_earned_runs: 2 } }];
+
+    expect(aggregatePlayerSeason('softball', 'Ace', pitching).rates.era).toBe(2);
+    expect(aggregatePlayerSeason('baseball', 'Ace', pitching).rates.era).toBe(2.57);
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Season Stat Aggregation
+ *
+ * Turns single-game box scores into per-team game entries with per-player stat
+ * lines, and rolls those lines up into season totals, averages, highs and rates.
+ * Everything here is pure so it can be tested without the SQLite cache;
+ * season-store.ts persists the game logs and calls back into these functions.
+ *
+ * Supports basketball, water polo, and baseball (including softball, which
+ * shares the baseball box score).
+ */
+
+import type {
+  BoxScore,
+  BaseballBoxScore,
+  BaseballTeamStats,
+  TeamStats,
+  WaterPoloBoxScore,
+  WaterPoloTeamStats,
+} from '../../baml_client/index.js';
+import { inningsPitchedToOuts } from './baseball-parser.js';
+
+/**
+ * Sports with season aggregation
+ */
+export type SeasonSport = 'basketball' | 'baseball' | 'softball' | 'waterpolo';
+
+export const SEASON_SPORTS: readonly SeasonSport[] = ['basketball', 'baseball', 'softball', 'waterpolo'];
+
+/**
+ * A box score from any of the season sports
+ */
+export type SeasonBoxScore = BoxScore | BaseballBoxScore | WaterPoloBoxScore;
+
+/**
+ * Whether a sport id has season aggregation
+ */
+export function isSeasonSport(sport: string): sport is SeasonSport {
+  return (SEASON_SPORTS as readonly string[]).includes(sport);
+}
+
+// The player lists extractTeamGames reads from each team, by sport
+const TEAM_LISTS: Record<SeasonSport, string[]> = {
+  basketball: ['players'],
+  baseball: ['batters', 'pitchers'],
+  softball: ['batters', 'pitchers'],
+  waterpolo: ['players', 'goalkeepers'],
+};
+
+/**
+ * Whether a box score has the metadata and player lists its sport's game entries are read from
+ */
+export function isSeasonBoxScore(sport: SeasonSport, value: unknown): value is SeasonBoxScore {
+  const record = value as Record<string, Record<string, unknown> | undefined> | null;
+  if (typeof record !== 'object' || record === null || typeof record.metadata !== 'object') return false;
+  return [record.home_team, record.away_team].every(
+    (team) => typeof team === 'object' && team !== null && TEAM_LISTS[sport].every((list) => Array.isArray(team[list]))
+  );
+}
+
+/**
+ * One player's counting stats for one game, keyed by stat name
+ */
+export type StatLine = Record<string, number>;
+
+/**
+ * A player's stat line for a game
+ */
+export interface PlayerGameLine {
+  player: string;
+  stats: StatLine;
+}
+
+/**
+ * One game from a single team's point of view
+ */
+export interface TeamGameEntry {
+  /** Team key, see teamKey() */
+  team: string;
+  teamName: string;
+  opponent: string;
+  homeAway: 'home' | 'away';
+  teamScore: number;
+  opponentScore: number;
+  result: 'W' | 'L' | 'T';
+  players: PlayerGameLine[];
+}
+
+/**
+ * A player's stat line with the game it came from
+ */
+export interface PlayerGameLog {
+  gameDate: string | null;
+  opponent: string;
+  result: 'W' | 'L' | 'T';
+  stats: StatLine;
+}
+
+/**
+ * A season high with the game it came in
+ */
+export interface SeasonHigh {
+  value: number;
+  gameDate: string | null;
+  opponent: string;
+}
+
+/**
+ * A player's season to date
+ */
+export interface PlayerSeasonStats {
+  player: string;
+  games: number;
+  totals: StatLine;
+  /** Per-game averages, rounded to one decimal */
+  averages: StatLine;
+  highs: Record<string, SeasonHigh>;
+  /** Percentages and rates computed from totals, e.g. fg_pct or era */
+  rates: StatLine;
+}
+
+/**
+ * Normalize a team name into the key used in season lookups and URLs,
+ * e.g. "College of Marin" -> "college-of-marin"
+ */
+export function teamKey(teamName: string): string {
+  return teamName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Season label for a game date (YYYY-MM-DD)
+ *
+ * Basketball seasons span the new year and use the athletics site's "2023-24"
+ * form; the rest are labelled by calendar year.
+ */
+export function seasonForDate(sport: SeasonSport | string, gameDate: string): string {
+  const [year, month] = gameDate.split('-').map((part) => parseInt(part, 10));
+  if (sport === 'basketball') {
+    const startYear = month >= 7 ? year : year - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+  return String(year);
+}
+
+function result(teamScore: number, opponentScore: number): 'W' | 'L' | 'T' {
+  return teamScore > opponentScore ? 'W' : teamScore < opponentScore ? 'L' : 'T';
+}
+
+/**
+ * Drop null and undefined optional stats so they don't count as zeros
+ */
+function compact(stats: Record<string, number | null | undefined>): StatLine {
+  return Object.fromEntries(
+    Object.entries(stats).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+  );
+}
+
+// ============================================================================
+// Per-Sport Stat Lines
+// ============================================================================
+
+function basketballLines(team: TeamStats): PlayerGameLine[] {
+  return team.players.map((player) => ({
+    player: player.name,
+    stats: compact({
+      starts: player.starter ? 1 : 0,
+      minutes: player.minutes,
+      points: player.points,
+      rebounds: player.rebounds,
+      offensive_rebounds: player.offensive_rebounds,
+      defensive_rebounds: player.defensive_rebounds,
+      assists: player.assists,
+      steals: player.steals,
+      blocks: player.blocks,
+      turnovers: player.turnovers,
+      fouls: player.fouls,
+      field_goals_made: player.field_goals_made,
+      field_goals_attempted: player.field_goals_attempted,
+      three_pointers_made: player.three_pointers_made,
+      three_pointers_attempted: player.three_pointers_attempted,
+      free_throws_made: player.free_throws_made,
+      free_throws_attempted: player.free_throws_attempted,
+    }),
+  }));
+}
+
+/**
+ * Batting and pitching lines merge into one line per player; pitching stats are
+ * prefixed (pitching_strikeouts) and innings are kept as outs so they sum cleanly.
+ */
+function baseballLines(team: BaseballTeamStats): PlayerGameLine[] {
+  const lines = new Map<string, StatLine>();
+
+  for (const batter of team.batters) {
+    lines.set(batter.name, compact({
+      at_bats: batter.at_bats,
+      runs: batter.runs,
+      hits: batter.hits,
+      rbi: batter.rbi,
+      walks: batter.walks,
+      strikeouts: batter.strikeouts,
+      doubles: batter.doubles,
+      triples: batter.triples,
+      home_runs: batter.home_runs,
+      stolen_bases: batter.stolen_bases,
+    }));
+  }
+
+  for (const pitcher of team.pitchers) {
+    lines.set(pitcher.name, {
+      ...lines.get(pitcher.name),
+      ...compact({
+        pitching_appearances: 1,
+        pitching_outs: inningsPitchedToOuts(pitcher.innings_pitched),
+        pitching_hits_allowed: pitcher.hits_allowed,
+        pitching_runs_allowed: pitcher.runs_allowed,
+        pitching_earned_runs: pitcher.earned_runs,
+        pitching_walks: pitcher.walks,
+        pitching_strikeouts: pitcher.strikeouts,
+        pitching_wins: pitcher.decision === 'W' ? 1 : 0,
+        pitching_losses: pitcher.decision === 'L' ? 1 : 0,
+        pitching_saves: pitcher.decision === 'S' ? 1 : 0,
+      }),
+    });
+  }
+
+  return [...lines].map(([player, stats]) => ({ player, stats }));
+}
+
+/**
+ * Parse a goalkeeper's "32:00" playing time into whole minutes
+ */
+function clockMinutes(time: string): number {
+  const [minutes, seconds] = time.split(':').map((part) => parseInt(part, 10) || 0);
+  return minutes + Math.round((seconds ?? 0) / 60);
+}
+
+function waterPoloLines(team: WaterPoloTeamStats): PlayerGameLine[] {
+  const lines = new Map<string, StatLine>();
+
+  for (const player of team.players) {
+    lines.set(player.name, compact({
+      shots: player.shots,
+      goals: player.goals,
+      assists: player.assists,
+      points: player.points,
+      exclusions: player.exclusions,
+      drawn_exclusions: player.drawn_exclusions,
+      steals: player.steals,
+      field_blocks: player.field_blocks,
+    }));
+  }
+
+  for (const keeper of team.goalkeepers) {
+    lines.set(keeper.name, {
+      ...lines.get(keeper.name),
+      goalkeeper_minutes: clockMinutes(keeper.minutes),
+      saves: keeper.saves,
+      goals_allowed: keeper.goals_allowed,
+    });
+  }
+
+  return [...lines].map(([player, stats]) => ({ player, stats }));
+}
+
+/**
+ * Split a box score into one entry per team, each with its players' stat lines
+ *
+ * @param sport - Sport of the box score
+ * @param boxScore - Parsed box score for that sport
+ * @returns [home entry, away entry]
+ */
+export function extractTeamGames(
+  sport: SeasonSport,
+  boxScore: BoxScore | BaseballBoxScore | WaterPoloBoxScore
+): [TeamGameEntry, TeamGameEntry] {
+  const { metadata } = boxScore;
+  let homeLines: PlayerGameLine[];
+  let awayLines: PlayerGameLine[];
+
+  switch (sport) {
+    case 'basketball':
+      homeLines = basketballLines((boxScore as BoxScore).home_team);
+      awayLines = basketballLines((boxScore as BoxScore).away_team);
+      break;
+    case 'baseball':
+    case 'softball':
+      homeLines = baseballLines((boxScore as BaseballBoxScore).home_team);
+      awayLines = baseballLines((boxScore as BaseballBoxScore).away_team);
+      break;
+    case 'waterpolo':
+      homeLines = waterPoloLines((boxScore as WaterPoloBoxScore).home_team);
+      awayLines = waterPoloLines((boxScore as WaterPoloBoxScore).away_team);
+      break;
+  }
+
+  return [
+    {
+      team: teamKey(metadata.home_team),
+      teamName: metadata.home_team,
+      opponent: metadata.away_team,
+      homeAway: 'home',
+      teamScore: metadata.home_score,
+      opponentScore: metadata.away_score,
+      result: result(metadata.home_score, metadata.away_score),
+      players: homeLines,
+    },
+    {
+      team: teamKey(metadata.away_team),
+      teamName: metadata.away_team,
+      opponent: metadata.home_team,
+      homeAway: 'away',
+      teamScore: metadata.away_score,
+      opponentScore: metadata.home_score,
+      result: result(metadata.away_score, metadata.home_score),
+      players: awayLines,
+    },
+  ];
+}
+
+// ============================================================================
+// Season Aggregation
+// ============================================================================
+
+function pct(made: number | undefined, attempted: number | undefined): number | undefined {
+  if (made === undefined || !attempted) return undefined;
+  return Math.round((made / attempted) * 1000) / 10;
+}
+
+/**
+ * Rates derived from season totals. Percentages are 0-100 with one decimal;
+ * batting average is the usual three-decimal form.
+ */
+function seasonRates(sport: SeasonSport, totals: StatLine): StatLine {
+  switch (sport) {
+    case 'basketball':
+      return compact({
+        fg_pct: pct(totals.field_goals_made, totals.field_goals_attempted),
+        three_pct: pct(totals.three_pointers_made, totals.three_pointers_attempted),
+        ft_pct: pct(totals.free_throws_made, totals.free_throws_attempted),
+      });
+    case 'baseball':
+    case 'softball': {
+      const innings = (totals.pitching_outs ?? 0) / 3;
+      const regulation = sport === 'softball' ? 7 : 9;
+      return compact({
+        batting_average: totals.at_bats ? Math.round((totals.hits / totals.at_bats) * 1000) / 1000 : undefined,
+        era: innings > 0 ? Math.round(((totals.pitching_earned_runs ?? 0) * regulation / innings) * 100) / 100 : undefined,
+      });
+    }
+    case 'waterpolo':
+      return compact({
+        shooting_pct: pct(totals.goals, totals.shots),
+        save_pct: pct(totals.saves, (totals.saves ?? 0) + (totals.goals_allowed ?? 0)),
+      });
+  }
+}
+
+/**
+ * Roll a player's game logs up into season totals, averages, highs and rates
+ *
+ * Averages divide by games the stat was recorded in, so an optional stat that
+ * only some box scores include isn't dragged toward zero.
+ *
+ * @param sport - Sport of the logs
+ * @param player - Player name
+ * @param logs - The player's game logs, in game order
+ * @returns PlayerSeasonStats for the logs
+ */
+export function aggregatePlayerSeason(
+  sport: SeasonSport,
+  player: string,
+  logs: PlayerGameLog[]
+): PlayerSeasonStats {
+  const totals: StatLine = {};
+  const counts: Record<string, number> = {};
+  const highs: Record<string, SeasonHigh> = {};
+
+  for (const log of logs) {
+    for (const [stat, value] of Object.entries(log.stats)) {
+      totals[stat] = (totals[stat] ?? 0) + value;
+      counts[stat] = (counts[stat] ?? 0) + 1;
+      // Earliest game keeps the high on ties
+      if (!highs[stat] || value > highs[stat].value) {
+        highs[stat] = { value, gameDate: log.gameDate, opponent: log.opponent };
+      }
+    }
+  }
+
+  const averages = Object.fromEntries(
+    Object.entries(totals).map(([stat, total]) => [stat, Math.round((total / counts[stat]) * 10) / 10])
+  );
+
+  return {
+    player,
+    games: logs.length,
+    totals,
+    averages,
+    highs,
+    rates: seasonRates(sport, totals),
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { BoxScore, PlayerStats, TeamStats } from '../../baml_client/index.js';
+
+// The real cache opens inbox/cache.db; the store only needs a database and the hash
+vi.mock('./cache.js', async () => {
+  const { default: Database } = await import('better-sqlite3');
+  const { createHash } = await import('crypto');
+  return {
+    db: new Database(':memory:'),
+    hashContent: (content: string) => createHash('sha256').update(content).digest('hex').slice(0, 16),
+  };
+});
+
+const { db } = await import('./cache.js');
+const { recordSeasonGame, getTeamSeason } = await import('./season-store.js');
+
+const player = (name: string, points: number): PlayerStats => ({
+  name,
+  starter: true,
+  minutes: 30,
+  points,
+  rebounds: 5,
+  assists: 3,
+  steals: 1,
+  blocks: 0,
+  turnovers: 2,
+  fouls: 2,
+  field_goals_made: 6,
+  field_goals_attempted: 12,
+  three_pointers_made: 1,
+  three_pointers_attempted: 4,
+  free_throws_made: 2,
+  free_throws_attempted: 2,
+});
+
+const team = (team_name: string, players: PlayerStats[]): TeamStats => ({
+  team_name,
+  total_points: 0,
+  field_goals_made: 0,
+  field_goals_attempted: 0,
+  field_goal_percentage: 0,
+  three_pointers_made: 0,
+  three_pointers_attempted: 0,
+  three_point_percentage: 0,
+  free_throws_made: 0,
+  free_throws_attempted: 0,
+  free_throw_percentage: 0,
+  total_rebounds: 0,
+  assists: 0,
+  steals: 0,
+  blocks: 0,
+  turnovers: 0,
+  fouls: 0,
+  players,
+});
+
+const game = (points: number): BoxScore => ({
+  metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 70, away_score: 60, is_overtime: false, periods: 2 },
+  home_team: team('Marin', [player('Jane Doe', points)]),
+  away_team: team('Skyline', [player('Ann Roe', 12)]),
+});
+
+const countGames = (): number => (db.prepare('SELECT COUNT(*) AS n FROM season_games').get() as { n: number }).n;
+
+describe('recordSeasonGame', () => {
+  it('should replace a game re-parsed with a different stat', () => {
+    db.exec('DELETE FROM player_game_logs; DELETE FROM season_games;');
+    const options = { sport: 'basketball' as const, siteCode: 'wbkb', gameDate: '2023-11-01' };
+
+    recordSeasonGame(game(20), options);
+    recordSeasonGame(game(22), options);
+
+    expect(countGames()).toBe(2);
+    const season = getTeamSeason('marin', '2023-24');
+    expect(season?.games).toHaveLength(1);
+    expect(season?.players[0].games).toBe(1);
+    expect(season?.players[0].totals.points).toBe(22);
+  });
+
+  it('should keep two games with the same teams and date apart when given game ids', () => {
+    db.exec('DELETE FROM player_game_logs; DELETE FROM season_games;');
+    const options = { sport: 'basketball' as const, siteCode: 'wbkb', gameDate: '2023-11-01' };
+
+    recordSeasonGame(game(20), { ...options, gameId: '2023-11-01_wbkb_a.txt' });
+    recordSeasonGame(game(22), { ...options, gameId: '2023-11-01_wbkb_b.txt' });
+    recordSeasonGame(game(24), { ...options, gameId: '2023-11-01_wbkb_b.txt' });
+
+    expect(getTeamSeason('marin', '2023-24')?.games).toHaveLength(2);
+    expect(getTeamSeason('marin', '2023-24')?.players[0].totals.points).toBe(44);
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * Season Store
+ *
+ * Links parsed box scores to a team, season and opponent in the SQLite cache and
+ * keeps a per-player game log for each team. Season totals, averages and highs are
+ * computed on read from the logs (see season-stats.ts), so re-recording a game
+ * after a re-parse just replaces its rows.
+ *
+ * Games are keyed on where they came from, not on the parsed JSON: a re-parse
+ * that reads one stat differently is still the same game.
+ */
+
+import type { BoxScore, BaseballBoxScore, WaterPoloBoxScore } from '../../baml_client/index.js';
+import { db, hashContent } from './cache.js';
+import type { SeasonTrends } from '../../baml_client/types.js';
+import { detectHistoryHighlights, type HistoryHighlight, type PlayerHistoryLookup } from './player-history.js';
+import { computePlayerTrends, computeTeamTrend } from './trends.js';
+import {
+  aggregatePlayerSeason,
+  extractTeamGames,
+  seasonForDate,
+  type PlayerGameLog,
+  type PlayerSeasonStats,
+  type SeasonSport,
+} from './season-stats.js';
+
+db.exec(`
+  -- One row per team per game
+  CREATE TABLE IF NOT EXISTS season_games (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_key TEXT NOT NULL,     -- identifies the game across re-parses
+    boxscore_hash TEXT NOT NULL,
+    team TEXT NOT NULL,
+    team_name TEXT NOT NULL,
+    season TEXT NOT NULL,
+    sport TEXT NOT NULL,
+    site_code TEXT NOT NULL,  -- e.g. 'wbkb', so men's and women's programs stay apart
+    game_date TEXT,
+    opponent TEXT NOT NULL,
+    home_away TEXT NOT NULL,
+    team_score INTEGER NOT NULL,
+    opponent_score INTEGER NOT NULL,
+    result TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (game_key, team)
+  );
+
+  -- Per-player stat lines for each team game
+  CREATE TABLE IF NOT EXISTS player_game_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    season_game_id INTEGER NOT NULL REFERENCES season_games(id) ON DELETE CASCADE,
+    player TEXT NOT NULL,
+    stats_json TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_season_games_team ON season_games(team, season, site_code);
+  CREATE INDEX IF NOT EXISTS idx_player_game_logs_game ON player_game_logs(season_game_id);
+`);
+
+/**
+ * A game as stored for one team
+ */
+export interface SeasonGame {
+  id: number;
+  boxScoreHash: string;
+  gameDate: string | null;
+  opponent: string;
+  homeAway: 'home' | 'away';
+  teamScore: number;
+  opponentScore: number;
+  result: 'W' | 'L' | 'T';
+}
+
+/**
+ * A team's season: record, games in date order, and every player's season stats
+ */
+export interface TeamSeason {
+  team: string;
+  teamName: string;
+  season: string;
+  sport: SeasonSport;
+  siteCode: string;
+  record: { wins: number; losses: number; ties: number };
+  games: SeasonGame[];
+  players: PlayerSeasonStats[];
+}
+
+interface SeasonGameRow {
+  id: number;
+  boxscore_hash: string;
+  team_name: string;
+  sport: string;
+  site_code: string;
+  game_date: string | null;
+  opponent: string;
+  home_away: string;
+  team_score: number;
+  opponent_score: number;
+  result: string;
+}
+
+function toSeasonGame(row: SeasonGameRow): SeasonGame {
+  return {
+    id: row.id,
+    boxScoreHash: row.boxscore_hash,
+    gameDate: row.game_date,
+    opponent: row.opponent,
+    homeAway: row.home_away as 'home' | 'away',
+    teamScore: row.team_score,
+    opponentScore: row.opponent_score,
+    result: row.result as 'W' | 'L' | 'T',
+  };
+}
+
+/**
+ * Key a game by its source when there is one, or else by who played where and when
+ *
+ * The fallback can't tell a doubleheader's two games apart, so callers reading
+ * from files should pass a game id.
+ */
+function gameKeyFor(
+  gameId: string | undefined,
+  fields: { season: string; siteCode: string; gameDate?: string; homeTeam: string; awayTeam: string }
+): string {
+  if (gameId) return gameId;
+  return [fields.season, fields.siteCode, fields.gameDate ?? '', fields.homeTeam, fields.awayTeam].join('|');
+}
+
+/**
+ * Record a parsed box score in both teams' seasons
+ *
+ * The season comes from the option, or else from the game date. Recording the same
+ * game again replaces its previous rows, even if the box score was parsed differently.
+ *
+ * @param boxScore - Parsed box score
+ * @param options.sport - Sport of the box score
+ * @param options.siteCode - Athletics site code (e.g. 'wbkb'); defaults to the sport
+ * @param options.gameDate - Game date as YYYY-MM-DD (box score dates are free text)
+ * @param options.season - Season label, e.g. "2023-24"; defaults from gameDate
+ * @param options.gameId - Stable id of the source game, e.g. its raw input filename;
+ *   defaults to the season, site code, date and teams
+ * @returns The season label the game was recorded under
+ */
+export function recordSeasonGame(
+  boxScore: BoxScore | BaseballBoxScore | WaterPoloBoxScore,
+  options: { sport: SeasonSport; siteCode?: string; gameDate?: string; season?: string; gameId?: string }
+): string {
+  const { sport, gameDate } = options;
+  const siteCode = options.siteCode ?? sport;
+  const season = options.season ?? (gameDate ? seasonForDate(sport, gameDate) : null);
+  if (!season) {
+    throw new Error('recordSeasonGame needs a season or a game date');
+  }
+
+  const entries = extractTeamGames(sport, boxScore);
+  const [home, away] = entries;
+  const gameKey = gameKeyFor(options.gameId, { season, siteCode, gameDate, homeTeam: home.team, awayTeam: away.team });
+  const boxScoreHash = hashContent(JSON.stringify(boxScore));
+
+  // Both teams' rows go, so a re-parse that reads a team name differently doesn't leave the old one behind
+  const deleteLogs = db.prepare(`
+    DELETE FROM player_game_logs WHERE season_game_id IN
+      (SELECT id FROM season_games WHERE game_key = ?)
+  `);
+  const deleteGame = db.prepare('DELETE FROM season_games WHERE game_key = ?');
+  const insertGame = db.prepare(`
+    INSERT INTO season_games
+      (game_key, boxscore_hash, team, team_name, season, sport, site_code, game_date, opponent, home_away, team_score, opponent_score, result)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertLog = db.prepare('INSERT INTO player_game_logs (season_game_id, player, stats_json) VALUES (?, ?, ?)');
+
+  db.transaction(() => {
+    deleteLogs.run(gameKey);
+    deleteGame.run(gameKey);
+    for (const entry of entries) {
+      const { lastInsertRowid } = insertGame.run(
+        gameKey,
+        boxScoreHash,
+        entry.team,
+        entry.teamName,
+        season,
+        sport,
+        siteCode,
+        gameDate ?? null,
+        entry.opponent,
+        entry.homeAway,
+        entry.teamScore,
+        entry.opponentScore,
+        entry.result
+      );
+      for (const line of entry.players) {
+        insertLog.run(lastInsertRowid, line.player, JSON.stringify(line.stats));
+      }
+    }
+  })();
+
+  return season;
+}
+
+/**
+ * Options shared by the season queries. `siteCode` picks one program when a
+ * school has several in the same season (men's and women's basketball).
+ */
+export interface SeasonQueryOptions {
+  siteCode?: string;
+  /** Only include games before this date (YYYY-MM-DD), for "season to date" comparisons */
+  before?: string;
+}
+
+/**
+ * Get a team's games for a season in date order
+ */
+function getSeasonGameRows(team: string, season: string, options: SeasonQueryOptions): SeasonGameRow[] {
+  const stmt = db.prepare(`
+    SELECT id, boxscore_hash, team_name, sport, site_code, game_date, opponent, home_away, team_score, opponent_score, result
+    FROM season_games
+    WHERE team = ? AND season = ?
+      AND (? IS NULL OR site_code = ?)
+      AND (? IS NULL OR game_date < ?)
+    ORDER BY game_date, id
+  `);
+  const siteCode = options.siteCode ?? null;
+  const before = options.before ?? null;
+  return stmt.all(team, season, siteCode, siteCode, before, before) as SeasonGameRow[];
+}
+
+/**
+ * Get a player's game log for a season in date order
+ */
+export function getPlayerGameLog(
+  team: string,
+  season: string,
+  player: string,
+  options: SeasonQueryOptions = {}
+): PlayerGameLog[] {
+  const stmt = db.prepare(`
+    SELECT g.game_date, g.opponent, g.result, l.stats_json
+    FROM player_game_logs l JOIN season_games g ON g.id = l.season_game_id
+    WHERE g.team = ? AND g.season = ? AND l.player = ?
+      AND (? IS NULL OR g.site_code = ?)
+      AND (? IS NULL OR g.game_date < ?)
+    ORDER BY g.game_date, g.id
+  `);
+  const siteCode = options.siteCode ?? null;
+  const before = options.before ?? null;
+  const rows = stmt.all(team, season, player, siteCode, siteCode, before, before) as Array<{
+    game_date: string | null;
+    opponent: string;
+    result: string;
+    stats_json: string;
+  }>;
+
+  return rows.map((row) => ({
+    gameDate: row.game_date,
+    opponent: row.opponent,
+    result: row.result as 'W' | 'L' | 'T',
+    stats: JSON.parse(row.stats_json),
+  }));
+}
+
+/**
+ * Get a player's game log across every stored season for the program, in date order
+ */
+export function getPlayerCareerLog(team: string, player: string, options: SeasonQueryOptions = {}): PlayerGameLog[] {
+  const stmt = db.prepare(`
+    SELECT g.game_date, g.opponent, g.result, l.stats_json
+    FROM player_game_logs l JOIN season_games g ON g.id = l.season_game_id
+    WHERE g.team = ? AND l.player = ?
+      AND (? IS NULL OR g.site_code = ?)
+      AND (? IS NULL OR g.game_date < ?)
+    ORDER BY g.game_date, g.id
+  `);
+  const siteCode = options.siteCode ?? null;
+  const before = options.before ?? null;
+  const rows = stmt.all(team, player, siteCode, siteCode, before, before) as Array<{
+    game_date: string | null;
+    opponent: string;
+    result: string;
+    stats_json: string;
+  }>;
+
+  return rows.map((row) => ({
+    gameDate: row.game_date,
+    opponent: row.opponent,
+    result: row.result as 'W' | 'L' | 'T',
+    stats: JSON.parse(row.stats_json),
+  }));
+}
+
+/**
+ * Get a player's season totals, averages and highs, or null if they have no games
+ */
+export function getPlayerSeason(
+  team: string,
+  season: string,
+  player: string,
+  options: SeasonQueryOptions = {}
+): PlayerSeasonStats | null {
+  const rows = getSeasonGameRows(team, season, options);
+  if (rows.length === 0) return null;
+
+  const logs = getPlayerGameLog(team, season, player, options);
+  if (logs.length === 0) return null;
+
+  return aggregatePlayerSeason(rows[0].sport as SeasonSport, player, logs);
+}
+
+/**
+ * Get a team's season with every player's season stats, or null if no games are recorded
+ */
+export function getTeamSeason(team: string, season: string, options: SeasonQueryOptions = {}): TeamSeason | null {
+  const rows = getSeasonGameRows(team, season, options);
+  if (rows.length === 0) return null;
+
+  const sport = rows[0].sport as SeasonSport;
+  const games = rows.map(toSeasonGame);
+  const gameById = new Map(games.map((game) => [game.id, game]));
+
+  const logStmt = db.prepare(`
+    SELECT l.season_game_id, l.player, l.stats_json
+    FROM player_game_logs l JOIN season_games g ON g.id = l.season_game_id
+    WHERE g.team = ? AND g.season = ?
+    ORDER BY g.game_date, g.id, l.id
+  `);
+  const logRows = logStmt.all(team, season) as Array<{ season_game_id: number; player: string; stats_json: string }>;
+
+  const logsByPlayer = new Map<string, PlayerGameLog[]>();
+  for (const row of logRows) {
+    // Rows from other programs or after `before` have no matching game
+    const game = gameById.get(row.season_game_id);
+    if (!game) continue;
+    const logs = logsByPlayer.get(row.player) ?? [];
+    logs.push({ gameDate: game.gameDate, opponent: game.opponent, result: game.result, stats: JSON.parse(row.stats_json) });
+    logsByPlayer.set(row.player, logs);
+  }
+
+  return {
+    team,
+    teamName: rows[rows.length - 1].team_name,
+    season,
+    sport,
+    siteCode: rows[0].site_code,
+    record: {
+      wins: games.filter((game) => game.result === 'W').length,
+      losses: games.filter((game) => game.result === 'L').length,
+      ties: games.filter((game) => game.result === 'T').length,
+    },
+    games,
+    players: [...logsByPlayer].map(([player, logs]) => aggregatePlayerSeason(sport, player, logs)),
+  };
+}
+
+/**
+ * List recorded team seasons, optionally for one team
+ */
+export function listTeamSeasons(team?: string): Array<{
+  team: string;
+  teamName: string;
+  season: string;
+  sport: string;
+  siteCode: string;
+  games: number;
+}> {
+  const stmt = db.prepare(`
+    SELECT team, MAX(team_name) AS team_name, season, sport, site_code, COUNT(*) AS games
+    FROM season_games
+    WHERE (? IS NULL OR team = ?)
+    GROUP BY team, season, sport, site_code
+    ORDER BY season DESC, team, site_code
+  `);
+  const rows = stmt.all(team ?? null, team ?? null) as Array<{
+    team: string;
+    team_name: string;
+    season: string;
+    sport: string;
+    site_code: string;
+    games: number;
+  }>;
+  return rows.map((row) => ({
+    team: row.team,
+    teamName: row.team_name,
+    season: row.season,
+    sport: row.sport,
+    siteCode: row.site_code,
+    games: row.games,
+  }));
+}
+
+/**
+ * Build a history lookup over the store for the game being checked
+ *
+ * Only games dated before `gameDate` count, so a game that is already recorded
+ * isn't compared against itself. The second game of a same-day doubleheader
+ * doesn't see the first.
+ */
+export function createHistoryLookup(options: { season: string; siteCode: string; gameDate: string }): PlayerHistoryLookup {
+  const query = { siteCode: options.siteCode, before: options.gameDate };
+  return (team, player) => ({
+    season: getPlayerGameLog(team, options.season, player, query),
+    career: getPlayerCareerLog(team, player, query),
+  });
+}
+
+/**
+ * Detect career/season highs, career firsts and milestones for a game from stored history
+ *
+ * @param boxScore - Parsed box score for the game
+ * @param options.sport - Sport of the box score
+ * @param options.siteCode - Athletics site code of the program (e.g. 'wbkb')
+ * @param options.gameDate - Game date as YYYY-MM-DD
+ * @param options.season - Season label; defaults from gameDate
+ * @returns History highlights for both teams
+ */
+export function detectStoredHistoryHighlights(
+  boxScore: BoxScore | BaseballBoxScore | WaterPoloBoxScore,
+  options: { sport: SeasonSport; siteCode: string; gameDate: string; season?: string }
+): HistoryHighlight[] {
+  const season = options.season ?? seasonForDate(options.sport, options.gameDate);
+  const lookup = createHistoryLookup({ season, siteCode: options.siteCode, gameDate: options.gameDate });
+  return detectHistoryHighlights(options.sport, boxScore, lookup);
+}
+
+/**
+ * Compute both teams' streaks and their players' trends through a game
+ *
+ * Stored games dated before `gameDate` are combined with the game itself, so the
+ * result is the same whether or not the game has been recorded yet.
+ *
+ * @param boxScore - Parsed box score for the game
+ * @param options.sport - Sport of the box score
+ * @param options.siteCode - Athletics site code of the program (e.g. 'wbkb')
+ * @param options.gameDate - Game date as YYYY-MM-DD
+ * @param options.season - Season label; defaults from gameDate
+ * @returns SeasonTrends for the game, home team first
+ */
+export function getSeasonTrends(
+  boxScore: BoxScore | BaseballBoxScore | WaterPoloBoxScore,
+  options: { sport: SeasonSport; siteCode: string; gameDate: string; season?: string }
+): SeasonTrends {
+  const season = options.season ?? seasonForDate(options.sport, options.gameDate);
+  const query = { siteCode: options.siteCode, before: options.gameDate };
+  const trends: SeasonTrends = { teams: [], players: [] };
+
+  for (const entry of extractTeamGames(options.sport, boxScore)) {
+    const games = [...getSeasonGameRows(entry.team, season, query).map(toSeasonGame), entry];
+    trends.teams.push(computeTeamTrend(entry.teamName, games));
+
+    for (const line of entry.players) {
+      const logs = [
+        ...getPlayerGameLog(entry.team, season, line.player, query),
+        { gameDate: options.gameDate, opponent: entry.opponent, result: entry.result, stats: line.stats },
+      ];
+      trends.players.push(...computePlayerTrends(options.sport, line.player, entry.teamName, logs));
+    }
+  }
+
+  return trends;
+}
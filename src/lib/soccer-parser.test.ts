@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { extractSoccerBoxScoreText } from './soccer-parser.js';
+
+const SAMPLE_HTML = `<!DOCTYPE html>
+<html>
+<head><meta property="og:title" content="Women's Soccer vs Skyline on 9/14/2024 - Box Score" /><style>.x{}</style></head>
+<body>
+<script>window.analytics = {};</script>
+<div class="linescore">
+<table>
+  <tr><th>Team</th><th>1</th><th>2</th><th>OT</th><th>F</th></tr>
+  <tr><th class="name">Skyline</th><td>1</td><td>0</td><td>0</td><td>1</td></tr>
+  <tr><th class="name">Marin</th><td>0</td><td>1</td><td>1</td><td>2</td></tr>
+</table>
+</div>
+<table>
+  <caption>Scoring Summary</caption>
+  <tr><th>Time</th><th>Team</th><th>Goal Scorer</th><th>Assists</th></tr>
+  <tr><td>12:04</td><td>SKY</td><td>Kim Lee</td><td>Unassisted</td></tr>
+  <tr><td>67:40</td><td>MAR</td><td>Jane Smith</td><td>Ana Ruiz</td></tr>
+  <tr><td>96:15</td><td>MAR</td><td>Ana Ruiz</td><td>Jane Smith; Mia Ortiz</td></tr>
+</table>
+<table>
+  <caption>Navigation</caption>
+  <tr><td>Home</td></tr>
+</table>
+<p>Attendance: 312</p>
+</body>
+</html>`;
+
+describe('extractSoccerBoxScoreText', () => {
+  it('should keep the linescore and scoring summary in order', () => {
+    const text = extractSoccerBoxScoreText(SAMPLE_HTML);
+
+    expect(text).toContain("Game: Women's Soccer vs Skyline on 9/14/2024 - Box Score");
+    expect(text).toContain('Score By Period:');
+    expect(text).toContain('Marin | 0 | 1 | 1 | 2');
+    expect(text).toContain('Scoring Summary:');
+    expect(text.indexOf('12:04 | SKY')).toBeLessThan(text.indexOf('96:15 | MAR'));
+    expect(text).toContain('Attendance: 312');
+  });
+
+  it('should drop scripts, styles and navigation tables', () => {
+    const text = extractSoccerBoxScoreText(SAMPLE_HTML);
+
+    expect(text).not.toContain('analytics');
+    expect(text).not.toContain('Navigation');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Soccer Box Score HTML Parser
+ *
+ * Extracts relevant box score data from SIDEARM Sports soccer HTML pages for
+ * men's and women's soccer. extractSoccerBoxScoreText converts the HTML into
+ * clean, structured text for ParseSoccerBoxScore, keeping the scoring summary
+ * and cautions in order since the story signals depend on goal minutes.
+ */
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Flatten a table's rows into lines of pipe-separated cells
+ */
+function tableRows(tableContent: string): string[] {
+  const rows: string[] = [];
+  for (const row of tableContent.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)) {
+    const cells = [...row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/g)].map(m => stripTags(m[1]));
+    if (cells.some(Boolean)) rows.push(cells.join(' | '));
+  }
+  return rows;
+}
+
+/**
+ * Extract clean box score text from soccer HTML
+ * This preprocessing step reduces the input size significantly for LLM parsing.
+ */
+export function extractSoccerBoxScoreText(html: string): string {
+  const lines: string[] = [];
+
+  const titleMatch = html.match(/<meta property="og:title" content="([^"]+)"/) ||
+                     html.match(/<title>([^<]+)<\/title>/);
+  if (titleMatch) {
+    lines.push(`Game: ${titleMatch[1].trim()}`);
+    lines.push('');
+  }
+
+  // Period-by-period linescore (1st, 2nd, OT1, OT2, Total)
+  const lineScoreSection = html.match(/<div class="linescore">([\s\S]*?)<\/table>/);
+  if (lineScoreSection) {
+    lines.push('Score By Period:');
+    lines.push(...tableRows(lineScoreSection[1]));
+    lines.push('');
+  }
+
+  // Every captioned table: team stats, player stats, goalkeeping, scoring summary, cautions
+  let cleaned = html.replace(/<script[\s\S]*?<\/script>/gi, '');
+  cleaned = cleaned.replace(/<style[\s\S]*?<\/style>/gi, '');
+
+  for (const table of cleaned.matchAll(/<caption[^>]*>([\s\S]*?)<\/caption>([\s\S]*?)<\/table>/g)) {
+    const caption = stripTags(table[1]);
+    if (!caption || caption.toLowerCase().includes('navigation')) continue;
+
+    const rows = tableRows(table[2]);
+    if (rows.length === 0) continue;
+
+    lines.push(`${caption}:`);
+    lines.push(...rows);
+    lines.push('');
+  }
+
+  // Shootout and overtime notes often appear outside the tables
+  const text = stripTags(cleaned);
+  const shootoutMatch = text.match(/(?:PK|Penalty Kicks?|Shootout)[^.]{0,60}?\(?\d+\s*-\s*\d+\)?/i);
+  if (shootoutMatch) {
+    lines.push(`Shootout: ${shootoutMatch[0].trim()}`);
+  }
+
+  const attendanceMatch = text.match(/Attendance:\s*([\d,]+)/i);
+  if (attendanceMatch) {
+    lines.push(`Attendance: ${attendanceMatch[1]}`);
+  }
+
+  const dateMatch = html.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (dateMatch) {
+    lines.push(`Date: ${dateMatch[0]}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,111 @@
+/**
+ * Baseball sport module
+ *
+ * Box scores come from the athletics site HTML and are parsed deterministically,
+ * with ParseBaseballBoxScore as the fallback.
+ */
+
+import { b, type BaseballBoxScore } from '../../../baml_client/index.js';
+import { extractBaseballBoxScoreText, parseBaseballBoxScoreHtml } from '../baseball-parser.js';
+import type { ValidationResult } from '../normalizer.js';
+import {
+  computeBaseballStorySignals,
+  BASEBALL_PRESETS,
+  type BaseballPresetLevel,
+  type BaseballThresholds,
+} from '../story-signals.js';
+import { asRecord, type SportModule } from './registry.js';
+
+export const baseball = {
+  id: 'baseball',
+  name: 'Baseball',
+  siteCodes: { bsb: 'Baseball' },
+  sourceFormat: 'html',
+  presets: BASEBALL_PRESETS,
+  defaultPreset: 'college',
+
+  extractText: (html) => extractBaseballBoxScoreText(html),
+  parseDeterministic: (html) => parseBaseballBoxScoreHtml(html),
+  parseWithLlm: (text) => b.ParseBaseballBoxScore(text),
+  validate: (boxScore) => validateBaseballBoxScore(boxScore),
+  computeSignals: (boxScore, levelOrThresholds, priority) =>
+    computeBaseballStorySignals(boxScore, levelOrThresholds as BaseballPresetLevel | BaseballThresholds, priority),
+  detectTriggersWithLlm: (boxScore) => b.DetectBaseballTriggers(boxScore),
+  generateRecap: (boxScore, guidance) => b.GenerateBaseballRecap(boxScore, guidance),
+
+  isBoxScore(value) {
+    const metadata = asRecord(asRecord(value)?.metadata);
+    return metadata !== null && 'innings' in metadata && !('periods' in metadata);
+  },
+} as const satisfies SportModule<BaseballBoxScore, BaseballThresholds>;
+
+/**
+ * Validate a parsed BaseballBoxScore against our schema requirements
+ */
+function validateBaseballBoxScore(boxScore: BaseballBoxScore): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!boxScore.metadata) {
+    errors.push('Missing metadata');
+    return { valid: false, errors, warnings };
+  }
+
+  const { metadata, inning_scores } = boxScore;
+
+  if (!metadata.home_team) errors.push('Missing home_team in metadata');
+  if (!metadata.away_team) errors.push('Missing away_team in metadata');
+  if (metadata.home_score === undefined || metadata.home_score === null) {
+    errors.push('Missing home_score in metadata');
+  }
+  if (metadata.away_score === undefined || metadata.away_score === null) {
+    errors.push('Missing away_score in metadata');
+  }
+  if (!metadata.innings || metadata.innings < 1) {
+    errors.push('Missing innings in metadata');
+  }
+
+  for (const side of ['home_team', 'away_team'] as const) {
+    const team = boxScore[side];
+    if (!team) {
+      errors.push(`Missing ${side} stats`);
+      continue;
+    }
+
+    if (!team.team_name) errors.push(`Missing ${side}.team_name`);
+    if (!team.batters || team.batters.length === 0) {
+      warnings.push(`${side} has no batters`);
+    }
+    if (!team.pitchers || team.pitchers.length === 0) {
+      warnings.push(`${side} has no pitchers`);
+    }
+
+    const score = side === 'home_team' ? metadata.home_score : metadata.away_score;
+    if (team.runs !== score) {
+      warnings.push(`${side} runs mismatch: team_total=${team.runs}, metadata=${score}`);
+    }
+
+    // Innings pitched uses thirds notation, so only .0, .1 and .2 are valid
+    for (const pitcher of team.pitchers || []) {
+      const thirds = Math.round((pitcher.innings_pitched % 1) * 10);
+      if (thirds > 2) {
+        warnings.push(`${side} pitcher ${pitcher.name} has invalid innings_pitched: ${pitcher.innings_pitched}`);
+      }
+    }
+  }
+
+  if (inning_scores && inning_scores.length === 2) {
+    const [awayTotal, homeTotal] = inning_scores.map((innings) => innings.reduce((a, b) => a + b, 0));
+    if (awayTotal !== metadata.away_score || homeTotal !== metadata.home_score) {
+      warnings.push(
+        `inning_scores do not sum to final score: ${awayTotal}-${homeTotal} vs ${metadata.away_score}-${metadata.home_score}`
+      );
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Basketball sport module
+ *
+ * Covers men's and women's basketball. Box scores come from the SIDEARM monospace
+ * template and are parsed deterministically, with ParseBoxScore as the fallback.
+ */
+
+import { b, type BoxScore } from '../../../baml_client/index.js';
+import { parseBasketballBoxScoreText } from '../basketball-parser.js';
+import { validateBoxScore } from '../normalizer.js';
+import {
+  computeStorySignals,
+  BASKETBALL_PRESETS,
+  type BasketballPresetLevel,
+  type BasketballThresholds,
+} from '../story-signals.js';
+import { asRecord, type SportModule } from './registry.js';
+
+export const basketball = {
+  id: 'basketball',
+  name: 'Basketball',
+  siteCodes: { mbkb: "Men's Basketball", wbkb: "Women's Basketball" },
+  sourceFormat: 'text',
+  playByPlay: true,
+  presets: BASKETBALL_PRESETS,
+  defaultPreset: 'college',
+
+  parseDeterministic: (text) => parseBasketballBoxScoreText(text),
+  parseWithLlm: (text) => b.ParseBoxScore(text),
+  validate: (boxScore) => validateBoxScore(boxScore),
+  computeSignals: (boxScore, levelOrThresholds, priority) =>
+    computeStorySignals(boxScore, levelOrThresholds as BasketballPresetLevel | BasketballThresholds, priority),
+  detectTriggersWithLlm: (boxScore) => b.DetectTriggers(boxScore),
+  generateRecap: (boxScore, guidance) => b.GenerateRecap(boxScore, guidance),
+
+  isBoxScore(value) {
+    const homeTeam = asRecord(asRecord(value)?.home_team);
+    return homeTeam !== null && 'total_points' in homeTeam && 'total_rebounds' in homeTeam;
+  },
+} as const satisfies SportModule<BoxScore, BasketballThresholds>;
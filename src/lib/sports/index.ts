@@ -0,0 +1,39 @@
+/**
+ * Built-in sports
+ *
+ * Importing this module registers every supported sport. To add a sport, write a
+ * SportModule alongside these and add it to BUILT_IN_SPORTS; its id and site codes
+ * join SportId and SiteCode from there.
+ */
+
+import { registerSport } from './registry.js';
+import { baseball } from './baseball.js';
+import { softball } from './softball.js';
+import { waterpolo } from './waterpolo.js';
+import { volleyball } from './volleyball.js';
+import { soccer } from './soccer.js';
+import { basketball } from './basketball.js';
+
+// Most specific shapes first: detectSport tries structural checks in this order.
+// Soccer goes before water polo because both have goalkeepers. Softball shares the
+// baseball shape and is only matched by its discriminator.
+const BUILT_IN_SPORTS = [baseball, softball, soccer, waterpolo, volleyball, basketball] as const;
+
+for (const sport of BUILT_IN_SPORTS) {
+  registerSport(sport);
+}
+
+/**
+ * Registered sport identifiers, e.g. 'basketball'
+ */
+export type SportId = (typeof BUILT_IN_SPORTS)[number]['id'];
+
+/**
+ * Athletics site codes served by the registered sports, e.g. 'wbkb'
+ */
+export type SiteCode = SiteCodesOf<(typeof BUILT_IN_SPORTS)[number]>;
+
+type SiteCodesOf<T> = T extends { siteCodes: infer Codes } ? keyof Codes & string : never;
+
+export * from './registry.js';
+export { basketball, baseball, softball, waterpolo, volleyball, soccer };
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import type { StorySignals } from '../../../baml_client/types.js';
+import {
+  registerSport,
+  getSport,
+  getSportForSiteCode,
+  getSiteCodeLabel,
+  listSports,
+  detectSport,
+  rankGamesAcrossSports,
+  asRecord,
+  SportRegistryError,
+  type SportModule,
+} from './registry.js';
+
+/**
+ * Signals at a given priority score, tiered the way story-signals would
+ */
+function signalsFor(priority_score: number, overrides: Partial<StorySignals> = {}): StorySignals {
+  return {
+    is_close_game: false,
+    is_overtime: false,
+    has_standout_performance: false,
+    is_conference_game: false,
+    margin: 10,
+    standout_count: 0,
+    priority_score,
+    signal_reasons: [],
+    tier: priority_score >= 5 ? 'high' : priority_score >= 2 ? 'medium' : 'low',
+    ...overrides,
+  };
+}
+
+/**
+ * Box score for the fake sports: just the score their signals report
+ */
+interface FakeBoxScore {
+  score: number;
+}
+
+/**
+ * Minimal module for exercising the registry without touching the cache or LLM
+ */
+function fakeSport(overrides: Partial<SportModule<FakeBoxScore>>): SportModule<FakeBoxScore> {
+  return {
+    id: 'basketball',
+    name: 'Fake',
+    siteCodes: {},
+    sourceFormat: 'text',
+    presets: {},
+    defaultPreset: 'college',
+    parseWithLlm: async () => ({ score: 0 }),
+    validate: () => ({ valid: true, errors: [], warnings: [] }),
+    computeSignals: () => {
+      throw new Error('not used');
+    },
+    detectTriggersWithLlm: async () => ({ triggers: [] }),
+    generateRecap: async () => {
+      throw new Error('not used');
+    },
+    isBoxScore: () => false,
+    ...overrides,
+  };
+}
+
+const waterpolo = fakeSport({
+  id: 'waterpolo',
+  siteCodes: { wwaterpolo: "Women's Water Polo" },
+  sourceFormat: 'html',
+  presets: { college: {}, highSchool: {} },
+  computeSignals: (boxScore, level) => signalsFor(boxScore.score, { is_overtime: true, signal_reasons: [String(level)] }),
+  isBoxScore: (value) => asRecord(asRecord(value)?.home_team)?.goalkeepers !== undefined,
+});
+const basketball = fakeSport({
+  id: 'basketball',
+  siteCodes: { mbkb: "Men's Basketball", wbkb: "Women's Basketball" },
+  presets: { college: {}, pro: {} },
+  computeSignals: (boxScore, level) => signalsFor(boxScore.score, { signal_reasons: [String(level)] }),
+  isBoxScore: (value) => asRecord(asRecord(value)?.home_team)?.total_rebounds !== undefined,
+});
+
+registerSport(waterpolo);
+registerSport(basketball);
+
+describe('sport registry', () => {
+  it('should look sports up by id and site code', () => {
+    expect(getSport('waterpolo')).toBe(waterpolo);
+    expect(getSportForSiteCode('wbkb')).toBe(basketball);
+    expect(getSportForSiteCode('wwaterpolo')?.sourceFormat).toBe('html');
+    expect(getSportForSiteCode('xyz')).toBeNull();
+    expect(getSiteCodeLabel('wbkb')).toBe("Women's Basketball");
+    expect(getSiteCodeLabel('xyz')).toBeNull();
+    expect(listSports()).toEqual([waterpolo, basketball]);
+  });
+
+  it('should throw for unknown sports', () => {
+    expect(() => getSport('curling')).toThrow(SportRegistryError);
+  });
+
+  it('should reject duplicate ids and site codes', () => {
+    expect(() => registerSport(fakeSport({ id: 'waterpolo' }))).toThrow(/already registered/);
+    expect(() => registerSport(fakeSport({ id: 'baseball', siteCodes: { mbkb: "Men's Basketball" } }))).toThrow(
+      /Site code 'mbkb'/
+    );
+  });
+
+  it('should prefer the explicit sport discriminator', () => {
+    const boxScore = { sport: 'basketball', home_team: { goalkeepers: [] } };
+    expect(detectSport(boxScore)).toBe(basketball);
+  });
+
+  it('should fall back to structural checks for legacy JSON', () => {
+    expect(detectSport({ home_team: { goalkeepers: [] } })).toBe(waterpolo);
+    expect(detectSport({ home_team: { total_rebounds: 30 } })).toBe(basketball);
+    expect(detectSport({ sport: 'cricket', home_team: {} })).toBeNull();
+    expect(detectSport(null)).toBeNull();
+  });
+});
+
+describe('rankGamesAcrossSports', () => {
+  const blowout = { sport: 'basketball', score: 0, home_team: {} };
+  const thriller = { sport: 'waterpolo', score: 7.1, home_team: {} };
+  const legacy = { score: 4, home_team: { total_rebounds: 30 } };
+
+  it('should rank every sport on one list with its own signals', () => {
+    const ranking = rankGamesAcrossSports([blowout, thriller, legacy]);
+
+    expect(ranking.games.map((game) => game.box_score)).toEqual([thriller, legacy, blowout]);
+    expect(ranking.games.map((game) => game.sport)).toEqual(['waterpolo', 'basketball', 'basketball']);
+    expect(ranking.games.map((game) => game.tier)).toEqual(['high', 'medium', 'low']);
+    expect(ranking.summary).toBe(
+      '1 high-priority game (water polo OT thriller), 1 medium-priority game, 1 routine game'
+    );
+  });
+
+  it('should use a level only where the sport defines it', () => {
+    const ranking = rankGamesAcrossSports([blowout, thriller], 'pro');
+
+    expect(ranking.games.find((game) => game.sport === 'basketball')?.signals.signal_reasons).toEqual(['pro']);
+    expect(ranking.games.find((game) => game.sport === 'waterpolo')?.signals.signal_reasons).toEqual(['college']);
+  });
+
+  it('should throw for box scores no sport recognizes', () => {
+    expect(() => rankGamesAcrossSports([blowout, { sport: 'cricket' }])).toThrow(SportRegistryError);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Sport Registry
+ *
+ * Each supported sport plugs its parser, validator, signal computer, trigger
+ * detector, recap generator and threshold presets into one SportModule. Callers
+ * look sports up here instead of branching on sport-specific box score shapes.
+ *
+ * Box scores carry an explicit `sport` discriminator (set by the parse pipeline).
+ * For JSON cached before the discriminator existed, detectSport falls back to
+ * each module's structural check.
+ */
+
+import type {
+  StorySignals,
+  TriggerList,
+  GameRecap,
+  RecapGuidance,
+  PriorityRanking,
+} from '../../../baml_client/index.js';
+import {
+  buildPriorityRanking,
+  resolveSportPriority,
+  type PriorityOverrides,
+  type RankingEntry,
+  type SportPriority,
+} from '../story-signals.js';
+import type { ValidationResult } from '../normalizer.js';
+
+/**
+ * Cache options shared by every pipeline step
+ */
+export interface SportCacheOptions {
+  forceRefresh?: boolean;
+  model?: string;
+}
+
+/**
+ * Parse options. `html` is the original page for sports whose deterministic
+ * parser reads HTML while the cache is keyed on extracted text.
+ */
+export interface SportParseOptions extends SportCacheOptions {
+  html?: string;
+}
+
+/**
+ * Everything the pipeline needs to handle one sport
+ *
+ * The cached pipeline (parseSportBoxScoreCached, detectSportTriggersCached) runs
+ * the parse and trigger hooks, so a module only says how its sport is read.
+ */
+export interface SportModule<TBoxScore = unknown, TThresholds = unknown> {
+  /** Registry key, also written to box score JSON as `sport` */
+  id: string;
+  /** Human-readable name, e.g. "Water Polo" */
+  name: string;
+  /** Athletics site codes served by this module and the program each names, e.g. { wbkb: "Women's Basketball" } */
+  siteCodes: Readonly<Record<string, string>>;
+  /** Whether the fetcher saves the monospace text template or raw HTML */
+  sourceFormat: 'text' | 'html';
+  /** Whether the pipeline reads play-by-play pages alongside box scores */
+  playByPlay?: boolean;
+  /** Threshold presets by competition level */
+  presets: Record<string, TThresholds>;
+  /** Preset used when callers don't specify a level */
+  defaultPreset: string;
+
+  /** Flatten a fetched HTML page to the box score text that is cached and sent to the LLM */
+  extractText?(html: string): string;
+  /** Deterministic parser, given the page HTML when there is one; null when it can't read the input */
+  parseDeterministic?(source: string): TBoxScore | null;
+  /** LLM parse, used when there is no deterministic result or it fails validation */
+  parseWithLlm(text: string): Promise<TBoxScore>;
+  /** Check a parsed box score against schema requirements */
+  validate(boxScore: TBoxScore): ValidationResult;
+  /** Deterministic story signals for prioritization, with the sport's own priority settings unless given */
+  computeSignals(boxScore: TBoxScore, levelOrThresholds?: string | TThresholds, priority?: SportPriority): StorySignals;
+  /** LLM narrative trigger detection */
+  detectTriggersWithLlm(boxScore: TBoxScore): Promise<TriggerList>;
+  /** Long-form game recap, in the program's voice when guidance is given */
+  generateRecap(boxScore: TBoxScore, guidance?: RecapGuidance | null): Promise<GameRecap>;
+  /** Structural check for box score JSON that predates the `sport` discriminator */
+  isBoxScore(value: unknown): boolean;
+}
+
+/**
+ * Error thrown when a sport lookup fails or a registration conflicts
+ */
+export class SportRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly sport: string
+  ) {
+    super(message);
+    this.name = 'SportRegistryError';
+  }
+}
+
+const registry = new Map<string, SportModule>();
+
+/**
+ * Register a sport module. Registration order is the order detectSport tries
+ * structural checks, so register more specific shapes first.
+ */
+export function registerSport(module: SportModule): void {
+  if (registry.has(module.id)) {
+    throw new SportRegistryError(`Sport '${module.id}' is already registered`, module.id);
+  }
+
+  for (const code of Object.keys(module.siteCodes)) {
+    const owner = getSportForSiteCode(code);
+    if (owner) {
+      throw new SportRegistryError(
+        `Site code '${code}' is already registered to '${owner.id}'`,
+        module.id
+      );
+    }
+  }
+
+  registry.set(module.id, module);
+}
+
+/**
+ * Get a registered sport by id
+ *
+ * @throws SportRegistryError if no sport is registered under that id
+ */
+export function getSport(id: string): SportModule {
+  const module = registry.get(id);
+  if (!module) {
+    throw new SportRegistryError(`Unknown sport '${id}'`, id);
+  }
+  return module;
+}
+
+/**
+ * Find the sport that serves an athletics site code (e.g. 'wbkb' -> basketball)
+ */
+export function getSportForSiteCode(code: string): SportModule | null {
+  for (const module of registry.values()) {
+    if (Object.hasOwn(module.siteCodes, code)) return module;
+  }
+  return null;
+}
+
+/**
+ * The program a site code names, e.g. 'wbkb' -> "Women's Basketball"
+ */
+export function getSiteCodeLabel(code: string): string | null {
+  return getSportForSiteCode(code)?.siteCodes[code] ?? null;
+}
+
+/**
+ * All registered sports, in registration order
+ */
+export function listSports(): SportModule[] {
+  return [...registry.values()];
+}
+
+/**
+ * Work out which sport a box score belongs to
+ *
+ * Uses the explicit `sport` discriminator when present, otherwise asks each
+ * registered module whether the JSON has its shape.
+ *
+ * @returns The matching sport module, or null if nothing matches
+ */
+export function detectSport(boxScore: unknown): SportModule | null {
+  if (typeof boxScore !== 'object' || boxScore === null) return null;
+
+  const discriminator = (boxScore as { sport?: unknown }).sport;
+  if (typeof discriminator === 'string' && registry.has(discriminator)) {
+    return registry.get(discriminator)!;
+  }
+
+  for (const module of registry.values()) {
+    if (module.isBoxScore(boxScore)) return module;
+  }
+  return null;
+}
+
+/**
+ * Rank one night's games across every sport for coverage
+ *
+ * Each box score is scored by its own sport's signals and weights. Scores are
+ * normalized to one scale, so a water polo thriller and a basketball blowout
+ * land in the tiers they deserve and rank together. The coverage board orders
+ * its games through the same ranking (buildPriorityRanking).
+ *
+ * @param boxScores - Parsed box scores from any registered sport
+ * @param level - Competition level preset, for sports that define it (others use their default)
+ * @param overrides - A program's priority weights and tier cutoffs by sport (see priority-config)
+ * @throws SportRegistryError if a box score matches no registered sport
+ */
+export function rankGamesAcrossSports(
+  boxScores: unknown[],
+  level?: string,
+  overrides?: PriorityOverrides | null
+): PriorityRanking {
+  const entries = boxScores.map((boxScore): RankingEntry => {
+    const sport = detectSport(boxScore);
+    if (!sport) {
+      throw new SportRegistryError('Box score does not match any registered sport', 'unknown');
+    }
+    const preset = level && level in sport.presets ? level : sport.defaultPreset;
+    return {
+      boxScore: boxScore as RankingEntry['boxScore'],
+      signals: sport.computeSignals(boxScore, preset, resolveSportPriority(sport.id, overrides)),
+      sport: sport.id,
+    };
+  });
+
+  return buildPriorityRanking(entries);
+}
+
+/**
+ * Narrow an unknown value to a plain object for structural checks
+ */
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Soccer sport module
+ *
+ * Covers men's and women's soccer. Box scores come from SIDEARM HTML, which is
+ * flattened to text and parsed by ParseSoccerBoxScore.
+ */
+
+import { b, type SoccerBoxScore } from '../../../baml_client/index.js';
+import { extractSoccerBoxScoreText } from '../soccer-parser.js';
+import type { ValidationResult } from '../normalizer.js';
+import {
+  computeSoccerStorySignals,
+  SOCCER_PRESETS,
+  type SoccerPresetLevel,
+  type SoccerThresholds,
+} from '../story-signals.js';
+import { asRecord, type SportModule } from './registry.js';
+
+export const soccer = {
+  id: 'soccer',
+  name: 'Soccer',
+  siteCodes: { msoc: "Men's Soccer", wsoc: "Women's Soccer" },
+  sourceFormat: 'html',
+  presets: SOCCER_PRESETS,
+  defaultPreset: 'college',
+
+  extractText: (html) => extractSoccerBoxScoreText(html),
+  parseWithLlm: (text) => b.ParseSoccerBoxScore(text),
+  validate: (boxScore) => validateSoccerBoxScore(boxScore),
+  computeSignals: (boxScore, levelOrThresholds, priority) =>
+    computeSoccerStorySignals(boxScore, levelOrThresholds as SoccerPresetLevel | SoccerThresholds, priority),
+  detectTriggersWithLlm: (boxScore) => b.DetectSoccerTriggers(boxScore),
+  generateRecap: (boxScore, guidance) => b.GenerateSoccerRecap(boxScore, guidance),
+
+  isBoxScore(value) {
+    const homeTeam = asRecord(asRecord(value)?.home_team);
+    return homeTeam !== null && 'shots_on_goal' in homeTeam && 'corners' in homeTeam;
+  },
+} as const satisfies SportModule<SoccerBoxScore, SoccerThresholds>;
+
+/**
+ * Validate a parsed SoccerBoxScore against our schema requirements.
+ * The scoring summary should account for every goal; shootout kicks are not goals.
+ */
+function validateSoccerBoxScore(boxScore: SoccerBoxScore): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!boxScore.metadata) {
+    errors.push('Missing metadata');
+    return { valid: false, errors, warnings };
+  }
+
+  const { metadata, period_scores, shootout } = boxScore;
+
+  if (!metadata.home_team) errors.push('Missing home_team in metadata');
+  if (!metadata.away_team) errors.push('Missing away_team in metadata');
+  if (metadata.home_score === undefined || metadata.home_score === null) {
+    errors.push('Missing home_score in metadata');
+  }
+  if (metadata.away_score === undefined || metadata.away_score === null) {
+    errors.push('Missing away_score in metadata');
+  }
+
+  for (const side of ['home_team', 'away_team'] as const) {
+    const team = boxScore[side];
+    if (!team) {
+      errors.push(`Missing ${side} stats`);
+      continue;
+    }
+
+    if (!team.team_name) errors.push(`Missing ${side}.team_name`);
+    if (!team.players || team.players.length === 0) {
+      warnings.push(`${side} has no players`);
+    }
+    if (!team.goalkeepers || team.goalkeepers.length === 0) {
+      warnings.push(`${side} has no goalkeepers`);
+    }
+
+    const score = side === 'home_team' ? metadata.home_score : metadata.away_score;
+    if (team.goals !== score) {
+      warnings.push(`${side} goals mismatch: team_total=${team.goals}, metadata=${score}`);
+    }
+    if (team.shots_on_goal > team.shots) {
+      errors.push(`${side} has more shots on goal (${team.shots_on_goal}) than shots (${team.shots})`);
+    }
+  }
+
+  const totalGoals = metadata.home_score + metadata.away_score;
+  if ((boxScore.goals || []).length !== totalGoals) {
+    warnings.push(`Scoring summary lists ${(boxScore.goals || []).length} goals but the score is ${metadata.away_score}-${metadata.home_score}`);
+  }
+
+  if (period_scores) {
+    const awayTotal = period_scores.away_scores.reduce((a, b) => a + b, 0);
+    const homeTotal = period_scores.home_scores.reduce((a, b) => a + b, 0);
+    if (awayTotal !== metadata.away_score || homeTotal !== metadata.home_score) {
+      warnings.push(
+        `period_scores do not sum to final score: ${awayTotal}-${homeTotal} vs ${metadata.away_score}-${metadata.home_score}`
+      );
+    }
+  }
+
+  if (shootout && metadata.home_score !== metadata.away_score) {
+    errors.push('Shootout recorded for a match that was not tied');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Softball sport module
+ *
+ * Softball pages share the baseball layout, so box scores go through the baseball
+ * parser and BaseballBoxScore type, stamped with the 'softball' discriminator.
+ * Signals, triggers and recaps use softball rules: seven-inning regulation, the
+ * run rule, the international tie-breaker and circle-pitching norms.
+ */
+
+import { b, type BaseballBoxScore } from '../../../baml_client/index.js';
+import {
+  computeSoftballStorySignals,
+  SOFTBALL_PRESETS,
+  type SoftballPresetLevel,
+  type SoftballThresholds,
+} from '../story-signals.js';
+import { baseball } from './baseball.js';
+import type { SportModule } from './registry.js';
+
+export const softball = {
+  id: 'softball',
+  name: 'Softball',
+  siteCodes: { sball: 'Softball' },
+  sourceFormat: 'html',
+  presets: SOFTBALL_PRESETS,
+  defaultPreset: 'college',
+
+  extractText: baseball.extractText,
+  parseDeterministic: baseball.parseDeterministic,
+  parseWithLlm: baseball.parseWithLlm,
+  validate: baseball.validate,
+  computeSignals: (boxScore, levelOrThresholds, priority) =>
+    computeSoftballStorySignals(boxScore, levelOrThresholds as SoftballPresetLevel | SoftballThresholds, priority),
+  detectTriggersWithLlm: (boxScore) => b.DetectSoftballTriggers(boxScore),
+  generateRecap: (boxScore, guidance) => b.GenerateSoftballRecap(boxScore, guidance),
+
+  // A softball box score has the same shape as baseball, so it is only recognized
+  // by its sport discriminator
+  isBoxScore: () => false,
+} as const satisfies SportModule<BaseballBoxScore, SoftballThresholds>;
@@ -0,0 +1,116 @@
+/**
+ * Volleyball sport module
+ *
+ * Box scores come from SIDEARM HTML and are parsed deterministically, with
+ * ParseVolleyballBoxScore as the fallback.
+ */
+
+import { b, type VolleyballBoxScore } from '../../../baml_client/index.js';
+import { extractVolleyballBoxScoreText, parseVolleyballBoxScoreHtml } from '../volleyball-parser.js';
+import type { ValidationResult } from '../normalizer.js';
+import {
+  computeVolleyballStorySignals,
+  VOLLEYBALL_PRESETS,
+  type VolleyballPresetLevel,
+  type VolleyballThresholds,
+} from '../story-signals.js';
+import { asRecord, type SportModule } from './registry.js';
+
+export const volleyball = {
+  id: 'volleyball',
+  name: 'Volleyball',
+  siteCodes: { wvball: "Women's Volleyball" },
+  sourceFormat: 'html',
+  presets: VOLLEYBALL_PRESETS,
+  defaultPreset: 'college',
+
+  extractText: (html) => extractVolleyballBoxScoreText(html),
+  parseDeterministic: (html) => parseVolleyballBoxScoreHtml(html),
+  parseWithLlm: (text) => b.ParseVolleyballBoxScore(text),
+  validate: (boxScore) => validateVolleyballBoxScore(boxScore),
+  computeSignals: (boxScore, levelOrThresholds, priority) =>
+    computeVolleyballStorySignals(boxScore, levelOrThresholds as VolleyballPresetLevel | VolleyballThresholds, priority),
+  detectTriggersWithLlm: (boxScore) => b.DetectVolleyballTriggers(boxScore),
+  generateRecap: (boxScore, guidance) => b.GenerateVolleyballRecap(boxScore, guidance),
+
+  isBoxScore(value) {
+    const homeTeam = asRecord(asRecord(value)?.home_team);
+    return homeTeam !== null && 'sets_won' in homeTeam && 'digs' in homeTeam;
+  },
+} as const satisfies SportModule<VolleyballBoxScore, VolleyballThresholds>;
+
+/**
+ * Validate a parsed VolleyballBoxScore against our schema requirements.
+ * Scores are sets won, so they must agree with the set-by-set points.
+ */
+function validateVolleyballBoxScore(boxScore: VolleyballBoxScore): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!boxScore.metadata) {
+    errors.push('Missing metadata');
+    return { valid: false, errors, warnings };
+  }
+
+  const { metadata, set_scores } = boxScore;
+
+  if (!metadata.home_team) errors.push('Missing home_team in metadata');
+  if (!metadata.away_team) errors.push('Missing away_team in metadata');
+  if (metadata.home_score === undefined || metadata.home_score === null) {
+    errors.push('Missing home_score in metadata');
+  }
+  if (metadata.away_score === undefined || metadata.away_score === null) {
+    errors.push('Missing away_score in metadata');
+  }
+
+  // Best-of-five: the winner takes exactly three sets
+  if (Math.max(metadata.home_score, metadata.away_score) !== 3 || metadata.home_score + metadata.away_score > 5) {
+    warnings.push(`Unusual set score: ${metadata.away_score}-${metadata.home_score}`);
+  }
+
+  for (const side of ['home_team', 'away_team'] as const) {
+    const team = boxScore[side];
+    if (!team) {
+      errors.push(`Missing ${side} stats`);
+      continue;
+    }
+
+    if (!team.team_name) errors.push(`Missing ${side}.team_name`);
+    if (!team.players || team.players.length === 0) {
+      warnings.push(`${side} has no players`);
+    }
+
+    const score = side === 'home_team' ? metadata.home_score : metadata.away_score;
+    if (team.sets_won !== score) {
+      warnings.push(`${side} sets_won mismatch: team_total=${team.sets_won}, metadata=${score}`);
+    }
+
+    if (team.kills > team.total_attacks) {
+      errors.push(`${side} has more kills (${team.kills}) than total attacks (${team.total_attacks})`);
+    }
+  }
+
+  if (set_scores) {
+    const sets = Math.min(set_scores.away_scores.length, set_scores.home_scores.length);
+    let awayWon = 0;
+    let homeWon = 0;
+    for (let i = 0; i < sets; i++) {
+      if (set_scores.away_scores[i] > set_scores.home_scores[i]) awayWon++;
+      else if (set_scores.home_scores[i] > set_scores.away_scores[i]) homeWon++;
+    }
+    if (awayWon !== metadata.away_score || homeWon !== metadata.home_score) {
+      warnings.push(
+        `set_scores do not match sets won: ${awayWon}-${homeWon} vs ${metadata.away_score}-${metadata.home_score}`
+      );
+    }
+    if (sets !== metadata.sets) {
+      warnings.push(`set_scores has ${sets} sets but metadata.sets is ${metadata.sets}`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Water polo sport module
+ *
+ * Box scores come from SIDEARM HTML and are parsed deterministically, with
+ * ParseWaterPoloBoxScore as the fallback.
+ */
+
+import { b, type WaterPoloBoxScore } from '../../../baml_client/index.js';
+import { extractWaterPoloBoxScoreText, parseWaterPoloBoxScoreHtml } from '../waterpolo-parser.js';
+import type { ValidationResult } from '../normalizer.js';
+import {
+  computeWaterPoloStorySignals,
+  WATERPOLO_PRESETS,
+  type WaterPoloPresetLevel,
+  type WaterPoloThresholds,
+} from '../story-signals.js';
+import { asRecord, type SportModule } from './registry.js';
+
+export const waterpolo = {
+  id: 'waterpolo',
+  name: 'Water Polo',
+  siteCodes: { wwaterpolo: "Women's Water Polo", mwaterpolo: "Men's Water Polo" },
+  sourceFormat: 'html',
+  presets: WATERPOLO_PRESETS,
+  defaultPreset: 'college',
+
+  extractText: (html) => extractWaterPoloBoxScoreText(html),
+  parseDeterministic: (html) => parseWaterPoloBoxScoreHtml(html),
+  parseWithLlm: (text) => b.ParseWaterPoloBoxScore(text),
+  validate: (boxScore) => validateWaterPoloBoxScore(boxScore),
+  computeSignals: (boxScore, levelOrThresholds, priority) =>
+    computeWaterPoloStorySignals(boxScore, levelOrThresholds as WaterPoloPresetLevel | WaterPoloThresholds, priority),
+  detectTriggersWithLlm: (boxScore) => b.DetectWaterPoloTriggers(boxScore),
+  generateRecap: (boxScore, guidance) => b.GenerateWaterPoloRecap(boxScore, guidance),
+
+  isBoxScore(value) {
+    const homeTeam = asRecord(asRecord(value)?.home_team);
+    return homeTeam !== null && 'goalkeepers' in homeTeam;
+  },
+} as const satisfies SportModule<WaterPoloBoxScore, WaterPoloThresholds>;
+
+/**
+ * Validate a parsed WaterPoloBoxScore against our schema requirements
+ */
+function validateWaterPoloBoxScore(boxScore: WaterPoloBoxScore): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!boxScore.metadata) {
+    errors.push('Missing metadata');
+    return { valid: false, errors, warnings };
+  }
+
+  const { metadata, period_scores } = boxScore;
+
+  if (!metadata.home_team) errors.push('Missing home_team in metadata');
+  if (!metadata.away_team) errors.push('Missing away_team in metadata');
+  if (metadata.home_score === undefined || metadata.home_score === null) {
+    errors.push('Missing home_score in metadata');
+  }
+  if (metadata.away_score === undefined || metadata.away_score === null) {
+    errors.push('Missing away_score in metadata');
+  }
+
+  for (const side of ['home_team', 'away_team'] as const) {
+    const team = boxScore[side];
+    if (!team) {
+      errors.push(`Missing ${side} stats`);
+      continue;
+    }
+
+    if (!team.team_name) errors.push(`Missing ${side}.team_name`);
+    if (!team.players || team.players.length === 0) {
+      warnings.push(`${side} has no players`);
+    }
+    if (!team.goalkeepers || team.goalkeepers.length === 0) {
+      warnings.push(`${side} has no goalkeepers`);
+    }
+
+    // Goals must match the final score exactly - water polo scores are small
+    const score = side === 'home_team' ? metadata.home_score : metadata.away_score;
+    if (team.goals !== score) {
+      warnings.push(`${side} goals mismatch: team_total=${team.goals}, metadata=${score}`);
+    }
+  }
+
+  if (period_scores) {
+    const awayTotal = period_scores.away_scores.reduce((a, b) => a + b, 0);
+    const homeTotal = period_scores.home_scores.reduce((a, b) => a + b, 0);
+    if (awayTotal !== metadata.away_score || homeTotal !== metadata.home_score) {
+      warnings.push(
+        `period_scores do not sum to final score: ${awayTotal}-${homeTotal} vs ${metadata.away_score}-${metadata.home_score}`
+      );
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
@@ -1,14 +1,24 @@
 import { describe, it, expect } from 'vitest';
 import {
   computeStorySignals,
+  computeBaseballStorySignals,
+  computeSoftballStorySignals,
+  computeVolleyballStorySignals,
+  computeSoccerStorySignals,
   rankGamesForCoverage,
   getThresholds,
   BASKETBALL_THRESHOLDS,
   BASKETBALL_PRESETS,
+  PRIORITY_SCALE,
   PRIORITY_WEIGHTS,
+  SPORT_PRIORITY_WEIGHTS,
   TIER_THRESHOLDS,
+  recapLengthGuidance,
+  scorePriority,
+  buildPriorityRanking,
+  determineTier,
 } from './story-signals.js';
-import type { BoxScore } from '../../baml_client/index.js';
+import type { BoxScore, GameMomentum, BaseballBoxScore, TeamStats, VolleyballBoxScore, VolleyballPlayerStats, SoccerBoxScore, SoccerPlayerStats } from '../../baml_client/index.js';
 
 describe('computeStorySignals', () => {
   it('should detect a close overtime game with standout performance', () => {
@@ -93,13 +103,9 @@ describe('computeStorySignals', () => {
     expect(signals.margin).toBe(4);
     expect(signals.standout_count).toBe(1);
 
-    // Priority score should be: close(2) + overtime(3) + standout(2) + conference(1) = 8
-    const expectedScore =
-      PRIORITY_WEIGHTS.closeGame +
-      PRIORITY_WEIGHTS.overtime +
-      PRIORITY_WEIGHTS.standoutPerformance +
-      PRIORITY_WEIGHTS.conferenceGame;
-    expect(signals.priority_score).toBe(expectedScore);
+    // close(2) + overtime(3) + standout(2) + conference(1) = 8, every signal the
+    // game can earn without play-by-play, so it scores the full scale
+    expect(signals.priority_score).toBe(PRIORITY_SCALE);
 
     expect(signals.signal_reasons).toContain('Close game (4-point margin)');
     expect(signals.signal_reasons).toContain('Overtime game');
@@ -387,6 +393,90 @@ describe('computeStorySignals', () => {
   });
 });
 
+describe('computeStorySignals game dynamics', () => {
+  const team = (team_name: string, total_points: number) => ({
+    team_name,
+    total_points,
+    field_goals_made: 0,
+    field_goals_attempted: 0,
+    field_goal_percentage: 0,
+    three_pointers_made: 0,
+    three_pointers_attempted: 0,
+    three_point_percentage: 0,
+    free_throws_made: 0,
+    free_throws_attempted: 0,
+    free_throw_percentage: 0,
+    total_rebounds: 0,
+    assists: 0,
+    steals: 0,
+    blocks: 0,
+    turnovers: 0,
+    fouls: 0,
+    players: [],
+  });
+
+  const game = (momentum: Partial<GameMomentum> | null, homeScore = 70, awayScore = 58): BoxScore => ({
+    metadata: {
+      home_team: 'Marin',
+      away_team: 'Skyline',
+      home_score: homeScore,
+      away_score: awayScore,
+      is_overtime: false,
+      periods: 4,
+    },
+    home_team: team('Marin', homeScore),
+    away_team: team('Skyline', awayScore),
+    momentum: momentum && {
+      lead_changes: 0,
+      ties: 0,
+      home_largest_lead: 12,
+      away_largest_lead: 0,
+      biggest_run_team: null,
+      biggest_run_points: 0,
+      comeback_team: null,
+      comeback_size: 0,
+      last_two_minutes_home_points: 2,
+      last_two_minutes_away_points: 2,
+      margin_at_two_minutes: 12,
+      ...momentum,
+    },
+  });
+
+  it('should ignore dynamics when no play-by-play was attached', () => {
+    const signals = computeStorySignals(game(null));
+    expect(signals.priority_score).toBe(0);
+    expect(signals.signal_reasons).toEqual(['No major story signals detected']);
+  });
+
+  it('should weight a comeback and a back-and-forth game', () => {
+    const signals = computeStorySignals(
+      game({ comeback_team: 'Marin', comeback_size: 15, lead_changes: 11, ties: 6 })
+    );
+
+    expect(signals.priority_score).toBe(PRIORITY_WEIGHTS.gameDynamics);
+    expect(signals.signal_reasons).toEqual([
+      'Comeback from 15-point deficit: Marin',
+      'Back-and-forth: 11 lead changes, 6 ties',
+    ]);
+  });
+
+  it('should flag a winner that trailed with two minutes left', () => {
+    const signals = computeStorySignals(
+      game({ margin_at_two_minutes: 3, last_two_minutes_home_points: 2, last_two_minutes_away_points: 8 }, 60, 63)
+    );
+
+    expect(signals.signal_reasons).toContain('Late finish: Skyline outscored Marin 8-2 in the final two minutes');
+    expect(signals.priority_score).toBe(PRIORITY_WEIGHTS.closeGame + PRIORITY_WEIGHTS.gameDynamics);
+  });
+
+  it('should report a big run without weighting it', () => {
+    const signals = computeStorySignals(game({ biggest_run_team: 'Marin', biggest_run_points: 16 }));
+
+    expect(signals.signal_reasons).toEqual(['16-0 run: Marin']);
+    expect(signals.priority_score).toBe(0);
+  });
+});
+
 describe('rankGamesForCoverage', () => {
   it('should rank games by priority score in descending order', () => {
     // Create a high-priority game (OT thriller)
@@ -703,7 +793,7 @@ describe('rankGamesForCoverage', () => {
             name: 'Good Player',
             starter: true,
             minutes: 32,
-            points: 26,
+            points: 12,
             rebounds: 7,
             assists: 5,
             steals: 2,
@@ -1342,8 +1432,8 @@ describe('priority tier calculation', () => {
 
     const signals = computeStorySignals(highPriorityGame, 'college');
 
-    // close=2 + overtime=3 + standout=2 + conference=1 = 8
-    expect(signals.priority_score).toBe(8);
+    // close=2 + overtime=3 + standout=2 + conference=1 = 8 of a possible 8
+    expect(signals.priority_score).toBe(10);
     expect(signals.tier).toBe('high');
   });
 
@@ -1381,7 +1471,7 @@ describe('priority tier calculation', () => {
             name: 'Good Player',
             starter: true,
             minutes: 32,
-            points: 22,
+            points: 12,
             rebounds: 7,
             assists: 5,
             steals: 2,
@@ -1421,8 +1511,8 @@ describe('priority tier calculation', () => {
 
     const signals = computeStorySignals(mediumPriorityGame, 'college');
 
-    // close=2 + standout=2 = 4
-    expect(signals.priority_score).toBe(4);
+    // close=2 of a possible 8
+    expect(signals.priority_score).toBe(2.5);
     expect(signals.tier).toBe('medium');
   });
 
@@ -1542,3 +1632,495 @@ describe('priority tier calculation', () => {
     expect(['high', 'medium', 'low']).toContain(signals.tier);
   });
 });
+
+describe('recapLengthGuidance', () => {
+  it('should scale recap length with the tier', () => {
+    expect(recapLengthGuidance('high')).toBe('5-7 body paragraphs, about 500-700 words in all.');
+    expect(recapLengthGuidance('low')).toBe('1-2 body paragraphs, about 100-175 words in all.');
+  });
+
+  it('should fall back to medium length for an unknown tier', () => {
+    expect(recapLengthGuidance('featured')).toBe(recapLengthGuidance('medium'));
+  });
+});
+
+describe('scorePriority', () => {
+  const allSignals = {
+    is_close_game: true,
+    is_overtime: true,
+    has_standout_performance: true,
+    is_conference_game: true,
+    has_game_dynamics: true,
+    has_momentum: true,
+  };
+
+  it('should leave basketball scores on their own scale', () => {
+    expect(scorePriority(allSignals, SPORT_PRIORITY_WEIGHTS.basketball)).toBe(10);
+    expect(scorePriority({ ...allSignals, is_overtime: false, is_conference_game: false, has_game_dynamics: false }, PRIORITY_WEIGHTS)).toBe(4);
+  });
+
+  it('should scale every sport to the same maximum', () => {
+    for (const weights of Object.values(SPORT_PRIORITY_WEIGHTS)) {
+      expect(scorePriority(allSignals, weights)).toBe(10);
+    }
+  });
+
+  it('should normalize sports without game dynamics', () => {
+    // close=2 + overtime=3 of a possible 7
+    const signals = { ...allSignals, has_standout_performance: false, is_conference_game: false };
+
+    expect(scorePriority(signals, SPORT_PRIORITY_WEIGHTS.waterpolo)).toBe(7.1);
+  });
+
+  it('should leave game dynamics out of the maximum without play-by-play', () => {
+    const signals = { ...allSignals, is_overtime: false, is_conference_game: false, has_game_dynamics: false, has_momentum: false };
+
+    // close=2 + standout=2 of a possible 8, the same as baseball's weights give
+    expect(scorePriority(signals, SPORT_PRIORITY_WEIGHTS.basketball)).toBe(5);
+    expect(scorePriority(signals, SPORT_PRIORITY_WEIGHTS.baseball)).toBe(5);
+  });
+
+  it('should put the same signals in the same tier in every sport', () => {
+    const noSignals = { is_close_game: false, is_overtime: false, has_standout_performance: false, is_conference_game: false };
+    const combinations = [
+      noSignals,
+      { ...noSignals, is_conference_game: true },
+      { ...noSignals, is_overtime: true },
+      { ...noSignals, is_close_game: true, is_conference_game: true },
+      { ...noSignals, is_close_game: true, is_overtime: true },
+      { ...noSignals, is_overtime: true, has_standout_performance: true },
+      { ...noSignals, is_close_game: true, has_standout_performance: true, is_conference_game: true },
+      { ...allSignals, has_game_dynamics: false, has_momentum: false },
+    ];
+
+    for (const signals of combinations) {
+      const tiers = Object.values(SPORT_PRIORITY_WEIGHTS).map((weights) => determineTier(scorePriority(signals, weights)));
+      expect(new Set(tiers).size, JSON.stringify(signals)).toBe(1);
+    }
+  });
+
+  it('should score nothing when every weight is zero', () => {
+    const zero = { closeGame: 0, overtime: 0, standoutPerformance: 0, conferenceGame: 0, gameDynamics: 0 };
+
+    expect(scorePriority(allSignals, zero)).toBe(0);
+  });
+});
+
+describe('buildPriorityRanking', () => {
+  const team = (team_name: string): TeamStats => ({
+    team_name,
+    total_points: 0,
+    field_goals_made: 0,
+    field_goals_attempted: 0,
+    field_goal_percentage: 0,
+    three_pointers_made: 0,
+    three_pointers_attempted: 0,
+    three_point_percentage: 0,
+    free_throws_made: 0,
+    free_throws_attempted: 0,
+    free_throw_percentage: 0,
+    total_rebounds: 0,
+    assists: 0,
+    steals: 0,
+    blocks: 0,
+    turnovers: 0,
+    fouls: 0,
+    players: [],
+  });
+
+  // Named after the sport so the home-team tiebreak sorts by sport
+  const boxScore = (sport: string): BoxScore => ({
+    metadata: { home_team: sport, away_team: 'Skyline', home_score: 70, away_score: 60, is_overtime: false, periods: 2 },
+    home_team: team(sport),
+    away_team: team('Skyline'),
+  });
+
+  const game = (sport: string, priority_score: number, overrides = {}) => ({
+    boxScore: boxScore(sport),
+    sport,
+    signals: {
+      is_close_game: false,
+      is_overtime: false,
+      has_standout_performance: false,
+      is_conference_game: false,
+      margin: 10,
+      standout_count: 0,
+      priority_score,
+      signal_reasons: [],
+      tier: determineTier(priority_score),
+      ...overrides,
+    },
+  });
+
+  it('should tier games from different sports on one scale', () => {
+    const ranking = buildPriorityRanking([
+      game('basketball', 2),
+      game('soccer', 5.7, { is_overtime: true }),
+      game('volleyball', 0),
+    ]);
+
+    expect(ranking.games.map((g) => [g.sport, g.tier])).toEqual([
+      ['soccer', 'high'],
+      ['basketball', 'medium'],
+      ['volleyball', 'low'],
+    ]);
+    expect(ranking.summary).toBe('1 high-priority game (soccer OT thriller), 1 medium-priority game, 1 routine game');
+  });
+
+  it("should keep the tier from a program's own cutoffs", () => {
+    const ranking = buildPriorityRanking([game('soccer', 5.7, { tier: 'medium' })]);
+
+    expect(ranking.games[0].tier).toBe('medium');
+  });
+
+  it('should order by tier before score, then by home team', () => {
+    const ranking = buildPriorityRanking([
+      game('soccer', 5.7, { tier: 'medium' }),
+      game('waterpolo', 4, { tier: 'high' }),
+      game('basketball', 2),
+      game('baseball', 2),
+    ]);
+
+    expect(ranking.games.map((g) => g.sport)).toEqual(['waterpolo', 'soccer', 'baseball', 'basketball']);
+  });
+});
+
+describe('computeBaseballStorySignals', () => {
+  const baseballGame = (overrides: { innings?: number; homeScore?: number; awayScore?: number } = {}): BaseballBoxScore => ({
+    metadata: {
+      home_team: 'Marin',
+      away_team: 'Skyline',
+      home_score: overrides.homeScore ?? 5,
+      away_score: overrides.awayScore ?? 4,
+      innings: overrides.innings ?? 9,
+      game_type: 'Conference',
+    },
+    home_team: {
+      team_name: 'Marin',
+      runs: overrides.homeScore ?? 5,
+      hits: 9,
+      errors: 1,
+      batters: [
+        { name: 'Jane Smith', at_bats: 4, runs: 2, hits: 3, rbi: 4, walks: 0, strikeouts: 1, home_runs: 1 },
+      ],
+      pitchers: [
+        { name: 'Ana Ruiz', innings_pitched: 7, hits_allowed: 5, runs_allowed: 3, earned_runs: 3, walks: 2, strikeouts: 11 },
+      ],
+    },
+    away_team: {
+      team_name: 'Skyline',
+      runs: overrides.awayScore ?? 4,
+      hits: 7,
+      errors: 2,
+      batters: [],
+      pitchers: [],
+    },
+    sport: 'baseball',
+  });
+
+  it('should detect a close extra-inning conference game with standouts', () => {
+    const signals = computeBaseballStorySignals(baseballGame({ innings: 11 }));
+
+    expect(signals.is_close_game).toBe(true);
+    expect(signals.is_overtime).toBe(true);
+    expect(signals.is_conference_game).toBe(true);
+    expect(signals.has_standout_performance).toBe(true);
+    expect(signals.standout_count).toBe(2);
+    expect(signals.signal_reasons).toContain('Close game (1-run margin)');
+    expect(signals.signal_reasons).toContain('Extra innings (11 innings)');
+    expect(signals.signal_reasons).toContain('Standout pitcher: Ana Ruiz (11 strikeouts)');
+    expect(signals.tier).toBe('high');
+  });
+
+  it('should treat innings beyond a 7-inning high school game as extras', () => {
+    const signals = computeBaseballStorySignals(baseballGame({ innings: 8 }), 'highSchool');
+    expect(signals.is_overtime).toBe(true);
+
+    const college = computeBaseballStorySignals(baseballGame({ innings: 8 }), 'college');
+    expect(college.is_overtime).toBe(false);
+  });
+
+  it('should not flag a lopsided game as close', () => {
+    const signals = computeBaseballStorySignals(baseballGame({ homeScore: 12, awayScore: 2 }));
+    expect(signals.is_close_game).toBe(false);
+    expect(signals.is_overtime).toBe(false);
+  });
+});
+
+describe('computeSoftballStorySignals', () => {
+  const softballGame = (
+    overrides: { innings?: number; homeScore?: number; awayScore?: number; strikeouts?: number } = {}
+  ): BaseballBoxScore => ({
+    metadata: {
+      home_team: 'Marin',
+      away_team: 'Skyline',
+      home_score: overrides.homeScore ?? 3,
+      away_score: overrides.awayScore ?? 2,
+      innings: overrides.innings ?? 7,
+    },
+    home_team: {
+      team_name: 'Marin',
+      runs: overrides.homeScore ?? 3,
+      hits: 6,
+      errors: 0,
+      batters: [
+        { name: 'Jane Smith', at_bats: 3, runs: 1, hits: 1, rbi: 1, walks: 0, strikeouts: 0 },
+      ],
+      pitchers: [
+        { name: 'Ana Ruiz', innings_pitched: 7, hits_allowed: 4, runs_allowed: 2, earned_runs: 2, walks: 1, strikeouts: overrides.strikeouts ?? 6 },
+      ],
+    },
+    away_team: {
+      team_name: 'Skyline',
+      runs: overrides.awayScore ?? 2,
+      hits: 4,
+      errors: 1,
+      batters: [],
+      pitchers: [],
+    },
+    sport: 'softball',
+  });
+
+  it('should flag a run-rule finish before regulation', () => {
+    const signals = computeSoftballStorySignals(softballGame({ innings: 5, homeScore: 9, awayScore: 1 }));
+
+    expect(signals.is_close_game).toBe(false);
+    expect(signals.is_overtime).toBe(false);
+    expect(signals.signal_reasons[0]).toBe('Run rule: ended after 5 innings (8-run margin)');
+  });
+
+  it('should not treat a game shortened without a run-rule margin as a run-rule game', () => {
+    const signals = computeSoftballStorySignals(softballGame({ innings: 5, homeScore: 4, awayScore: 1 }));
+    expect(signals.signal_reasons).toEqual(['No major story signals detected']);
+
+    // Fifteen after three only counts where that rule is in effect
+    const rout = softballGame({ innings: 3, homeScore: 15, awayScore: 0 });
+    expect(computeSoftballStorySignals(rout, 'college').signal_reasons[0]).not.toMatch(/^Run rule/);
+    expect(computeSoftballStorySignals(rout, 'highSchool').signal_reasons[0]).toBe(
+      'Run rule: ended after 3 innings (15-run margin)'
+    );
+  });
+
+  it('should treat the eighth inning as extras played under the tie-breaker', () => {
+    const signals = computeSoftballStorySignals(softballGame({ innings: 8 }));
+
+    expect(signals.is_overtime).toBe(true);
+    expect(signals.signal_reasons).toContain('Extra innings (8 innings, international tie-breaker)');
+  });
+
+  it('should use circle-pitcher strikeout thresholds by level', () => {
+    const game = softballGame({ strikeouts: 9 });
+
+    expect(computeSoftballStorySignals(game, 'highSchool').has_standout_performance).toBe(true);
+    expect(computeSoftballStorySignals(game, 'college').has_standout_performance).toBe(false);
+  });
+});
+
+describe('computeVolleyballStorySignals', () => {
+  const player = (name: string, stats: Partial<VolleyballPlayerStats>): VolleyballPlayerStats => ({
+    name,
+    kills: 0,
+    attack_errors: 0,
+    total_attacks: 0,
+    hitting_percentage: 0,
+    assists: 0,
+    service_aces: 0,
+    service_errors: 0,
+    digs: 0,
+    block_solos: 0,
+    block_assists: 0,
+    ...stats,
+  });
+
+  const team = (team_name: string, sets_won: number, players: VolleyballPlayerStats[]) => ({
+    team_name,
+    sets_won,
+    kills: 0,
+    attack_errors: 0,
+    total_attacks: 0,
+    hitting_percentage: 0,
+    assists: 0,
+    service_aces: 0,
+    service_errors: 0,
+    digs: 0,
+    block_solos: 0,
+    block_assists: 0,
+    total_blocks: 0,
+    players,
+  });
+
+  const match = (away: number[], home: number[], homePlayers: VolleyballPlayerStats[] = []): VolleyballBoxScore => {
+    const awayWon = away.filter((points, i) => points > home[i]).length;
+    const homeWon = home.filter((points, i) => points > away[i]).length;
+    return {
+      metadata: {
+        home_team: 'Marin',
+        away_team: 'Skyline',
+        home_score: homeWon,
+        away_score: awayWon,
+        sets: away.length,
+      },
+      home_team: team('Marin', homeWon, homePlayers),
+      away_team: team('Skyline', awayWon, []),
+      set_scores: { away_scores: away, home_scores: home },
+      sport: 'volleyball',
+    };
+  };
+
+  it('should detect a five-set comeback from 0-2 down', () => {
+    const signals = computeVolleyballStorySignals(match([25, 25, 20, 22, 12], [22, 23, 25, 25, 15]));
+
+    expect(signals.is_overtime).toBe(true);
+    expect(signals.is_close_game).toBe(true);
+    expect(signals.margin).toBe(1);
+    expect(signals.signal_reasons).toContain('Five-set match');
+    expect(signals.signal_reasons).toContain('Comeback from 0-2 down: Marin');
+  });
+
+  it('should score a comeback like any other close five-set match', () => {
+    const comeback = computeVolleyballStorySignals(match([25, 25, 20, 22, 12], [22, 23, 25, 25, 15]));
+    const frontRunner = computeVolleyballStorySignals(match([22, 23, 25, 25, 12], [25, 25, 20, 22, 15]));
+
+    expect(frontRunner.signal_reasons).not.toContain('Comeback from 0-2 down: Marin');
+    expect(comeback.priority_score).toBe(frontRunner.priority_score);
+  });
+
+  it('should flag triple-doubles as standout performances', () => {
+    const signals = computeVolleyballStorySignals(
+      match([20, 18, 21], [25, 25, 25], [player('Ana Ruiz', { kills: 11, digs: 12, assists: 24 })])
+    );
+
+    expect(signals.has_standout_performance).toBe(true);
+    expect(signals.standout_count).toBe(1);
+    expect(signals.signal_reasons).toContain('Triple-double: Ana Ruiz (11 kills, 12 digs, 24 assists)');
+  });
+
+  it('should treat a lopsided sweep as routine', () => {
+    const signals = computeVolleyballStorySignals(match([12, 15, 14], [25, 25, 25]));
+
+    expect(signals.is_close_game).toBe(false);
+    expect(signals.is_overtime).toBe(false);
+    expect(signals.signal_reasons).not.toContain('Five-set match');
+    expect(signals.tier).toBe('low');
+  });
+
+  it('should use preset thresholds for standout kills', () => {
+    const boxScore = match([20, 18, 21], [25, 25, 25], [player('Jane Smith', { kills: 13 })]);
+
+    expect(computeVolleyballStorySignals(boxScore, 'college').has_standout_performance).toBe(false);
+    expect(computeVolleyballStorySignals(boxScore, 'highSchool').has_standout_performance).toBe(true);
+  });
+});
+
+describe('computeSoccerStorySignals', () => {
+  const player = (name: string, goals: number, assists = 0): SoccerPlayerStats => ({
+    name,
+    starter: true,
+    shots: goals + 1,
+    shots_on_goal: goals,
+    goals,
+    assists,
+  });
+
+  const team = (team_name: string, goals: number, players: SoccerPlayerStats[], saves = 3) => ({
+    team_name,
+    goals,
+    shots: 10,
+    shots_on_goal: 5,
+    saves,
+    corners: 4,
+    players,
+    goalkeepers: [{ name: `${team_name} Keeper`, goals_allowed: 0, saves }],
+  });
+
+  const goal = (minute: number, teamName: string, scorer: string) => ({ minute, team: teamName, scorer, assists: [] });
+
+  const game = (overrides: Partial<SoccerBoxScore> & { homeScore: number; awayScore: number }): SoccerBoxScore => {
+    const { homeScore, awayScore, ...rest } = overrides;
+    return {
+      metadata: {
+        home_team: 'Marin',
+        away_team: 'Skyline',
+        home_score: homeScore,
+        away_score: awayScore,
+        periods: 2,
+      },
+      home_team: team('Marin', homeScore, []),
+      away_team: team('Skyline', awayScore, []),
+      goals: [],
+      cards: [],
+      sport: 'soccer',
+      ...rest,
+    };
+  };
+
+  it('should detect a late winner that completes a comeback', () => {
+    const signals = computeSoccerStorySignals(
+      game({
+        homeScore: 2,
+        awayScore: 1,
+        goals: [goal(12, 'SKY', 'Kim Lee'), goal(55, 'MAR', 'Jane Smith'), goal(88, 'MAR', 'Ana Ruiz')],
+      })
+    );
+
+    expect(signals.is_close_game).toBe(true);
+    expect(signals.signal_reasons).toContain("Late winner: Ana Ruiz (88')");
+    expect(signals.signal_reasons).toContain('Comeback from 1-goal deficit: Marin');
+  });
+
+  it('should report clean sheets and hat tricks', () => {
+    const signals = computeSoccerStorySignals(
+      game({
+        homeScore: 4,
+        awayScore: 0,
+        home_team: team('Marin', 4, [player('Jane Smith', 3), player('Ana Ruiz', 1, 2)]),
+      })
+    );
+
+    expect(signals.is_close_game).toBe(false);
+    expect(signals.signal_reasons).toContain('Clean sheet: Marin (Marin Keeper, 3 saves)');
+    expect(signals.signal_reasons).toContain('Hat trick: Jane Smith (3 goals)');
+    expect(signals.signal_reasons).toContain('Standout performance: Ana Ruiz (2 assists)');
+    expect(signals.standout_count).toBe(2);
+  });
+
+  it('should treat a penalty shootout as overtime', () => {
+    const signals = computeSoccerStorySignals(
+      game({
+        homeScore: 1,
+        awayScore: 1,
+        metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 1, away_score: 1, periods: 4 },
+        goals: [goal(30, 'Marin', 'Jane Smith'), goal(75, 'Skyline', 'Kim Lee')],
+        shootout: { away_made: 3, away_attempts: 5, home_made: 4, home_attempts: 5 },
+      })
+    );
+
+    expect(signals.is_overtime).toBe(true);
+    expect(signals.margin).toBe(0);
+    expect(signals.signal_reasons).toContain('Draw');
+    expect(signals.signal_reasons).toContain('Decided on penalties (3-4): Marin advance');
+    expect(signals.signal_reasons.some((r) => r.startsWith('Late winner'))).toBe(false);
+  });
+
+  it('should call an overtime winner a golden goal', () => {
+    const signals = computeSoccerStorySignals(
+      game({
+        homeScore: 0,
+        awayScore: 1,
+        metadata: { home_team: 'Marin', away_team: 'Skyline', home_score: 0, away_score: 1, periods: 3 },
+        goals: [goal(97, 'Skyline', 'Kim Lee')],
+      })
+    );
+
+    expect(signals.is_overtime).toBe(true);
+    expect(signals.signal_reasons).toContain("Golden goal: Kim Lee (97')");
+    expect(signals.signal_reasons).toContain('Clean sheet: Skyline (Skyline Keeper, 3 saves)');
+  });
+
+  it('should move the late-winner window for high school matches', () => {
+    const boxScore = game({ homeScore: 1, awayScore: 0, goals: [goal(72, 'Marin', 'Jane Smith')] });
+
+    expect(computeSoccerStorySignals(boxScore, 'college').signal_reasons.some((r) => r.startsWith('Late winner'))).toBe(false);
+    expect(computeSoccerStorySignals(boxScore, 'highSchool').signal_reasons).toContain("Late winner: Jane Smith (72')");
+  });
+});
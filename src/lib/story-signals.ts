@@ -12,6 +12,10 @@ import type {
   RankedGame,
   PriorityRanking,
   WaterPoloBoxScore,
+  BaseballBoxScore,
+  VolleyballBoxScore,
+  VolleyballPlayerStats,
+  SoccerBoxScore,
 } from '../../baml_client/index.js';
 
 /**
@@ -72,6 +76,28 @@ export type BasketballPresetLevel = keyof typeof BASKETBALL_PRESETS;
  */
 export const BASKETBALL_THRESHOLDS: BasketballThresholds = BASKETBALL_PRESETS.college;
 
+/**
+ * Threshold configuration for basketball game dynamics, read from play-by-play momentum.
+ */
+export interface MomentumThresholds {
+  /** Deficit the winner must overcome to count as a comeback */
+  comebackDeficit: number;
+  /** Lead changes that make a game back-and-forth */
+  leadChanges: number;
+  /** Unanswered points that count as a scoring run */
+  scoringRun: number;
+}
+
+/**
+ * Game dynamics thresholds. Runs and comebacks are similar in size across levels,
+ * so these are shared by every basketball preset.
+ */
+export const MOMENTUM_THRESHOLDS: MomentumThresholds = {
+  comebackDeficit: 10,
+  leadChanges: 10,
+  scoringRun: 10,
+};
+
 /**
  * Threshold configuration for water polo story signals.
  * Water polo is lower-scoring than basketball, so thresholds are calibrated accordingly.
@@ -135,15 +161,387 @@ export type WaterPoloPresetLevel = keyof typeof WATERPOLO_PRESETS;
 export const WATERPOLO_THRESHOLDS: WaterPoloThresholds = WATERPOLO_PRESETS.college;
 
 /**
- * Weights for priority score calculation
+ * Threshold configuration for baseball story signals.
+ */
+export interface BaseballThresholds {
+  /** Run margin that qualifies as a "close game" */
+  closeGameMargin: number;
+  /** Scheduled innings; anything beyond this is extra innings */
+  regulationInnings: number;
+  /** Hits threshold for a standout batter */
+  standoutHits: number;
+  /** RBI threshold for a standout batter */
+  standoutRbi: number;
+  /** Home run threshold for a standout batter */
+  standoutHomeRuns: number;
+  /** Strikeouts threshold for a standout pitcher */
+  standoutStrikeouts: number;
+}
+
+/**
+ * Preset threshold configurations for baseball at different competition levels.
+ */
+export const BASEBALL_PRESETS = {
+  /** MLB / affiliated minor league level */
+  pro: {
+    closeGameMargin: 1,
+    regulationInnings: 9,
+    standoutHits: 4,
+    standoutRbi: 5,
+    standoutHomeRuns: 2,
+    standoutStrikeouts: 10,
+  },
+  /** NCAA / junior college level */
+  college: {
+    closeGameMargin: 2,
+    regulationInnings: 9,
+    standoutHits: 3,
+    standoutRbi: 4,
+    standoutHomeRuns: 2,
+    standoutStrikeouts: 10,
+  },
+  /** High school varsity level (seven-inning games) */
+  highSchool: {
+    closeGameMargin: 2,
+    regulationInnings: 7,
+    standoutHits: 3,
+    standoutRbi: 4,
+    standoutHomeRuns: 2,
+    standoutStrikeouts: 8,
+  },
+} as const satisfies Record<string, BaseballThresholds>;
+
+export type BaseballPresetLevel = keyof typeof BASEBALL_PRESETS;
+
+/**
+ * Default baseball thresholds (college level).
+ */
+export const BASEBALL_THRESHOLDS: BaseballThresholds = BASEBALL_PRESETS.college;
+
+/**
+ * A run rule: the game ends once a team leads by `margin` runs after `afterInnings` innings.
+ */
+export interface RunRule {
+  afterInnings: number;
+  margin: number;
+}
+
+/**
+ * Threshold configuration for softball story signals.
+ * Softball uses the baseball box score, so it extends the baseball thresholds.
+ */
+export interface SoftballThresholds extends BaseballThresholds {
+  /** Run rules in effect, checked when a game ends before regulation */
+  runRules: readonly RunRule[];
+  /** First inning played with the international tie-breaker (runner on second), or null if not used */
+  tieBreakerStartInning: number | null;
+}
+
+/**
+ * Preset threshold configurations for softball at different competition levels.
+ * Strikeout thresholds reflect pitching from the circle over seven innings.
+ */
+export const SOFTBALL_PRESETS = {
+  /** WBSC international play */
+  international: {
+    closeGameMargin: 1,
+    regulationInnings: 7,
+    standoutHits: 3,
+    standoutRbi: 4,
+    standoutHomeRuns: 2,
+    standoutStrikeouts: 12,
+    runRules: [
+      { afterInnings: 3, margin: 15 },
+      { afterInnings: 4, margin: 10 },
+      { afterInnings: 5, margin: 7 },
+    ],
+    tieBreakerStartInning: 8,
+  },
+  /** NCAA / junior college level */
+  college: {
+    closeGameMargin: 2,
+    regulationInnings: 7,
+    standoutHits: 3,
+    standoutRbi: 4,
+    standoutHomeRuns: 2,
+    standoutStrikeouts: 10,
+    runRules: [{ afterInnings: 5, margin: 8 }],
+    tieBreakerStartInning: 8,
+  },
+  /** High school varsity level */
+  highSchool: {
+    closeGameMargin: 2,
+    regulationInnings: 7,
+    standoutHits: 3,
+    standoutRbi: 4,
+    standoutHomeRuns: 2,
+    standoutStrikeouts: 8,
+    runRules: [
+      { afterInnings: 3, margin: 15 },
+      { afterInnings: 5, margin: 10 },
+    ],
+    tieBreakerStartInning: 8,
+  },
+} as const satisfies Record<string, SoftballThresholds>;
+
+export type SoftballPresetLevel = keyof typeof SOFTBALL_PRESETS;
+
+/**
+ * Default softball thresholds (college level).
+ */
+export const SOFTBALL_THRESHOLDS: SoftballThresholds = SOFTBALL_PRESETS.college;
+
+/**
+ * Threshold configuration for volleyball story signals.
+ * Matches are best-of-five; the score is sets won, so closeness is judged on points.
+ */
+export interface VolleyballThresholds {
+  /** Total point differential across all sets that qualifies as a "close match" */
+  closeMatchPointMargin: number;
+  /** Kills threshold for standout performance */
+  standoutKills: number;
+  /** Digs threshold for standout performance */
+  standoutDigs: number;
+  /** Assists threshold for standout performance (setters) */
+  standoutAssists: number;
+  /** Service aces threshold for standout performance */
+  standoutAces: number;
+  /** Total blocks (solos + block assists) threshold for standout performance */
+  standoutBlocks: number;
+  /** Per-category threshold for a triple-double (kills, digs and assists) */
+  tripleDoubleThreshold: number;
+}
+
+/**
+ * Preset threshold configurations for volleyball at different competition levels.
+ */
+export const VOLLEYBALL_PRESETS = {
+  /** NCAA Division I level */
+  elite: {
+    closeMatchPointMargin: 8,
+    standoutKills: 20,
+    standoutDigs: 20,
+    standoutAssists: 50,
+    standoutAces: 4,
+    standoutBlocks: 8,
+    tripleDoubleThreshold: 10,
+  },
+  /** NCAA Division II/III / junior college level */
+  college: {
+    closeMatchPointMargin: 10,
+    standoutKills: 15,
+    standoutDigs: 20,
+    standoutAssists: 40,
+    standoutAces: 4,
+    standoutBlocks: 6,
+    tripleDoubleThreshold: 10,
+  },
+  /** High school varsity level */
+  highSchool: {
+    closeMatchPointMargin: 10,
+    standoutKills: 12,
+    standoutDigs: 15,
+    standoutAssists: 30,
+    standoutAces: 5,
+    standoutBlocks: 5,
+    tripleDoubleThreshold: 10,
+  },
+} as const satisfies Record<string, VolleyballThresholds>;
+
+export type VolleyballPresetLevel = keyof typeof VOLLEYBALL_PRESETS;
+
+/**
+ * Default volleyball thresholds (college level).
+ */
+export const VOLLEYBALL_THRESHOLDS: VolleyballThresholds = VOLLEYBALL_PRESETS.college;
+
+/**
+ * Threshold configuration for soccer story signals.
+ * Used for both men's and women's soccer; match length varies by level.
+ */
+export interface SoccerThresholds {
+  /** Goal margin that qualifies as a "close game" (draws always qualify) */
+  closeGameMargin: number;
+  /** Length of regulation in minutes; goals after this are overtime goals */
+  regulationMinutes: number;
+  /** A game-winning goal at or after this minute counts as a late winner */
+  lateWinnerMinute: number;
+  /** Goals threshold for standout performance */
+  standoutGoals: number;
+  /** Assists threshold for standout performance */
+  standoutAssists: number;
+  /** Saves threshold for standout goalkeeper performance */
+  standoutSaves: number;
+  /** Goals for a hat trick */
+  hatTrickGoals: number;
+}
+
+/**
+ * Preset threshold configurations for soccer at different competition levels.
+ */
+export const SOCCER_PRESETS = {
+  /** NCAA Division I / professional level */
+  elite: {
+    closeGameMargin: 1,
+    regulationMinutes: 90,
+    lateWinnerMinute: 80,
+    standoutGoals: 2,
+    standoutAssists: 2,
+    standoutSaves: 8,
+    hatTrickGoals: 3,
+  },
+  /** NCAA Division II/III / junior college level */
+  college: {
+    closeGameMargin: 1,
+    regulationMinutes: 90,
+    lateWinnerMinute: 80,
+    standoutGoals: 2,
+    standoutAssists: 2,
+    standoutSaves: 7,
+    hatTrickGoals: 3,
+  },
+  /** High school varsity level (two 40-minute halves) */
+  highSchool: {
+    closeGameMargin: 1,
+    regulationMinutes: 80,
+    lateWinnerMinute: 70,
+    standoutGoals: 2,
+    standoutAssists: 2,
+    standoutSaves: 6,
+    hatTrickGoals: 3,
+  },
+} as const satisfies Record<string, SoccerThresholds>;
+
+export type SoccerPresetLevel = keyof typeof SOCCER_PRESETS;
+
+/**
+ * Default soccer thresholds (college level).
+ */
+export const SOCCER_THRESHOLDS: SoccerThresholds = SOCCER_PRESETS.college;
+
+/**
+ * Weights a sport gives each story signal when computing its priority score
+ */
+export interface PriorityWeights {
+  closeGame: number;
+  overtime: number;
+  standoutPerformance: number;
+  conferenceGame: number;
+  /** Play-by-play game flow; only basketball box scores carry it */
+  gameDynamics: number;
+}
+
+/**
+ * Weights for priority score calculation (basketball)
  */
 export const PRIORITY_WEIGHTS = {
   closeGame: 2,
   overtime: 3,
   standoutPerformance: 2,
   conferenceGame: 1,
+  gameDynamics: 2,
 } as const;
 
+/**
+ * Priority weights by sport. The same signal isn't equally newsworthy everywhere:
+ * one-goal soccer games are the norm, a five-set volleyball match is already
+ * flagged close, and multi-goal water polo games are routine.
+ */
+export const SPORT_PRIORITY_WEIGHTS = {
+  basketball: PRIORITY_WEIGHTS,
+  waterpolo: { closeGame: 2, overtime: 3, standoutPerformance: 1, conferenceGame: 1, gameDynamics: 0 },
+  baseball: { closeGame: 2, overtime: 3, standoutPerformance: 2, conferenceGame: 1, gameDynamics: 0 },
+  softball: { closeGame: 2, overtime: 3, standoutPerformance: 2, conferenceGame: 1, gameDynamics: 0 },
+  volleyball: { closeGame: 2, overtime: 2, standoutPerformance: 2, conferenceGame: 1, gameDynamics: 0 },
+  soccer: { closeGame: 1, overtime: 3, standoutPerformance: 2, conferenceGame: 1, gameDynamics: 0 },
+} as const satisfies Record<string, PriorityWeights>;
+
+export type PrioritySport = keyof typeof SPORT_PRIORITY_WEIGHTS;
+
+/**
+ * Scale every sport's priority score is reported on (basketball's maximum)
+ */
+export const PRIORITY_SCALE = 10;
+
+/**
+ * The signals that feed a priority score
+ */
+export interface PrioritySignals {
+  is_close_game: boolean;
+  is_overtime: boolean;
+  has_standout_performance: boolean;
+  is_conference_game: boolean;
+  /** Basketball game flow worth weighting (see describeGameDynamics) */
+  has_game_dynamics?: boolean;
+  /** Whether the game had play-by-play momentum to read game dynamics from */
+  has_momentum?: boolean;
+}
+
+/**
+ * Weighted priority score, normalized to PRIORITY_SCALE
+ *
+ * Sports weigh signals differently, so their raw sums top out at different
+ * values. Scaling by the game's maximum keeps a score, and the tier it falls
+ * in, meaning the same thing for a water polo game as for a basketball game.
+ * Game dynamics only counts toward that maximum when the game had play-by-play
+ * momentum; a basketball game without it can't earn the weight.
+ */
+export function scorePriority(signals: PrioritySignals, weights: PriorityWeights): number {
+  const raw =
+    (signals.is_close_game ? weights.closeGame : 0) +
+    (signals.is_overtime ? weights.overtime : 0) +
+    (signals.has_standout_performance ? weights.standoutPerformance : 0) +
+    (signals.is_conference_game ? weights.conferenceGame : 0) +
+    (signals.has_game_dynamics ? weights.gameDynamics : 0);
+  const max =
+    weights.closeGame +
+    weights.overtime +
+    weights.standoutPerformance +
+    weights.conferenceGame +
+    (signals.has_momentum || signals.has_game_dynamics ? weights.gameDynamics : 0);
+
+  return max > 0 ? Math.round((raw / max) * PRIORITY_SCALE * 10) / 10 : 0;
+}
+
+/**
+ * How one sport turns signals into a priority score and tier
+ */
+export interface SportPriority {
+  weights: PriorityWeights;
+  tiers: TierThresholds;
+}
+
+/**
+ * A program's changes to the built-in priority settings, by sport
+ * (see priority-config for the file they're read from)
+ */
+export type PriorityOverrides = Partial<
+  Record<PrioritySport, { weights?: Partial<PriorityWeights>; tiers?: Partial<TierThresholds> }>
+>;
+
+/**
+ * The built-in priority settings for a sport
+ */
+export function defaultPriority(sport: PrioritySport): SportPriority {
+  return { weights: SPORT_PRIORITY_WEIGHTS[sport], tiers: TIER_THRESHOLDS };
+}
+
+/**
+ * A sport's priority settings with a program's overrides applied
+ *
+ * Unknown sports fall back to basketball's settings.
+ */
+export function resolveSportPriority(sport: string, overrides?: PriorityOverrides | null): SportPriority {
+  const key = (sport in SPORT_PRIORITY_WEIGHTS ? sport : 'basketball') as PrioritySport;
+  const defaults = defaultPriority(key);
+  const override = overrides?.[key];
+
+  return {
+    weights: { ...defaults.weights, ...override?.weights },
+    tiers: { ...defaults.tiers, ...override?.tiers },
+  };
+}
+
 /**
  * Get thresholds for a given preset level.
  * Accepts either a preset name or a custom threshold object.
@@ -173,6 +571,55 @@ function hasStandoutStats(
   );
 }
 
+/**
+ * Describe the game dynamics found in a box score's play-by-play momentum
+ *
+ * Comebacks, back-and-forth games and late finishes count toward the priority
+ * score. A big run shows up in most blowouts too, so it is reported but not weighted.
+ */
+function describeGameDynamics(
+  boxScore: BoxScore,
+  thresholds: MomentumThresholds = MOMENTUM_THRESHOLDS
+): { weighted: boolean; reasons: string[] } {
+  const momentum = boxScore.momentum;
+  if (!momentum) return { weighted: false, reasons: [] };
+
+  const { metadata } = boxScore;
+  const reasons: string[] = [];
+  let weighted = false;
+
+  if (momentum.comeback_team && momentum.comeback_size >= thresholds.comebackDeficit) {
+    reasons.push(`Comeback from ${momentum.comeback_size}-point deficit: ${momentum.comeback_team}`);
+    weighted = true;
+  }
+
+  if (momentum.lead_changes >= thresholds.leadChanges) {
+    reasons.push(`Back-and-forth: ${momentum.lead_changes} lead changes, ${momentum.ties} ties`);
+    weighted = true;
+  }
+
+  // A winner that trailed or was tied with two minutes left finished it in crunch time
+  const winner = Math.sign(metadata.home_score - metadata.away_score);
+  if (winner !== 0 && winner * momentum.margin_at_two_minutes <= 0) {
+    const [winnerName, loserName] = winner === 1
+      ? [metadata.home_team, metadata.away_team]
+      : [metadata.away_team, metadata.home_team];
+    const [winnerPoints, loserPoints] = winner === 1
+      ? [momentum.last_two_minutes_home_points, momentum.last_two_minutes_away_points]
+      : [momentum.last_two_minutes_away_points, momentum.last_two_minutes_home_points];
+    reasons.push(
+      `Late finish: ${winnerName} outscored ${loserName} ${winnerPoints}-${loserPoints} in the final two minutes`
+    );
+    weighted = true;
+  }
+
+  if (momentum.biggest_run_team && momentum.biggest_run_points >= thresholds.scoringRun) {
+    reasons.push(`${momentum.biggest_run_points}-0 run: ${momentum.biggest_run_team}`);
+  }
+
+  return { weighted, reasons };
+}
+
 /**
  * Compute story signals from a box score using deterministic rules
  *
@@ -182,11 +629,13 @@ function hasStandoutStats(
  *
  * @param boxScore - Parsed box score data
  * @param levelOrThresholds - Preset level name ('pro', 'college', 'highSchool', 'youth') or custom thresholds
+ * @param priority - Priority weights and tier cutoffs (defaults to the sport's own)
  * @returns StorySignals object with flags, counts, and priority score
  */
 export function computeStorySignals(
   boxScore: BoxScore,
-  levelOrThresholds: BasketballPresetLevel | BasketballThresholds = 'college'
+  levelOrThresholds: BasketballPresetLevel | BasketballThresholds = 'college',
+  priority: SportPriority = defaultPriority('basketball')
 ): StorySignals {
   const thresholds = getThresholds(levelOrThresholds);
   const { metadata, home_team, away_team } = boxScore;
@@ -216,12 +665,21 @@ export function computeStorySignals(
   const is_conference_game =
     metadata.game_type?.toLowerCase().includes('conference') || false;
 
+  // Game flow from the play-by-play, when it was attached
+  const dynamics = describeGameDynamics(boxScore);
+
   // Calculate priority score using weighted formula
-  const priority_score =
-    (is_close_game ? PRIORITY_WEIGHTS.closeGame : 0) +
-    (is_overtime ? PRIORITY_WEIGHTS.overtime : 0) +
-    (has_standout_performance ? PRIORITY_WEIGHTS.standoutPerformance : 0) +
-    (is_conference_game ? PRIORITY_WEIGHTS.conferenceGame : 0);
+  const priority_score = scorePriority(
+    {
+      is_close_game,
+      is_overtime,
+      has_standout_performance,
+      is_conference_game,
+      has_game_dynamics: dynamics.weighted,
+      has_momentum: !!boxScore.momentum,
+    },
+    priority.weights
+  );
 
   // Generate human-readable signal reasons
   const signal_reasons: string[] = [];
@@ -234,6 +692,8 @@ export function computeStorySignals(
     signal_reasons.push('Overtime game');
   }
 
+  signal_reasons.push(...dynamics.reasons);
+
   if (has_standout_performance) {
     if (standout_count === 1) {
       const player = standoutPlayers[0];
@@ -258,7 +718,7 @@ export function computeStorySignals(
   }
 
   // Determine tier based on priority score
-  const tier = determineTier(priority_score);
+  const tier = determineTier(priority_score, priority.tiers);
 
   return {
     is_close_game,
@@ -273,10 +733,19 @@ export function computeStorySignals(
   };
 }
 
+/**
+ * Minimum priority scores for the high and medium tiers
+ */
+export interface TierThresholds {
+  high: number;
+  medium: number;
+}
+
 /**
  * Tier thresholds for priority classification
  */
 export const TIER_THRESHOLDS = {
+  // On the PRIORITY_SCALE every sport's score is normalized to
   high: 5, // score >= 5
   medium: 2, // score 2-4
   // low is anything < 2
@@ -285,10 +754,10 @@ export const TIER_THRESHOLDS = {
 /**
  * Determine the priority tier based on the priority score
  */
-function determineTier(score: number): 'high' | 'medium' | 'low' {
-  if (score >= TIER_THRESHOLDS.high) {
+export function determineTier(score: number, tiers: TierThresholds = TIER_THRESHOLDS): 'high' | 'medium' | 'low' {
+  if (score >= tiers.high) {
     return 'high';
-  } else if (score >= TIER_THRESHOLDS.medium) {
+  } else if (score >= tiers.medium) {
     return 'medium';
   } else {
     return 'low';
@@ -298,7 +767,7 @@ function determineTier(score: number): 'high' | 'medium' | 'low' {
 /**
  * Generate coverage guidance based on priority tier and signals
  */
-function generateCoverageGuidance(tier: string, signals: StorySignals): string {
+export function generateCoverageGuidance(tier: string, signals: StorySignals): string {
   if (tier === 'high') {
     return 'Emphasize clutch moments, individual performances, and game flow. This is a featured story that deserves deep coverage with quotes, context, and narrative arc.';
   } else if (tier === 'medium') {
@@ -309,62 +778,95 @@ function generateCoverageGuidance(tier: string, signals: StorySignals): string {
 }
 
 /**
- * Rank games for coverage based on story signals
- *
- * Takes multiple box scores, computes their story signals, and produces a ranked list
- * with priority tiers. This helps SIDs see "what matters tonight" before any deep
- * analysis begins.
- *
- * @param boxScores - Array of parsed box score data
- * @param levelOrThresholds - Preset level name ('pro', 'college', 'highSchool', 'youth') or custom thresholds
- * @returns PriorityRanking with games sorted by priority score and summary
+ * Recap length by priority tier. A featured game earns a full story; a routine
+ * one gets a short write-up rather than the same five paragraphs.
  */
-export function rankGamesForCoverage(
-  boxScores: BoxScore[],
-  levelOrThresholds: BasketballPresetLevel | BasketballThresholds = 'college'
-): PriorityRanking {
-  // Compute signals for each game
-  const gamesWithSignals = boxScores.map((boxScore) => ({
-    boxScore,
-    signals: computeStorySignals(boxScore, levelOrThresholds),
-  }));
-
-  // Sort by priority score (descending)
-  const sortedGames = gamesWithSignals.sort(
-    (a, b) => b.signals.priority_score - a.signals.priority_score
-  );
+export const RECAP_LENGTHS = {
+  high: { bodyParagraphs: '5-7', words: '500-700' },
+  medium: { bodyParagraphs: '3-4', words: '250-400' },
+  low: { bodyParagraphs: '1-2', words: '100-175' },
+} as const;
+
+/**
+ * Length instruction for a recap at a priority tier (unknown tiers get medium)
+ */
+export function recapLengthGuidance(tier: string): string {
+  const length = RECAP_LENGTHS[tier as keyof typeof RECAP_LENGTHS] ?? RECAP_LENGTHS.medium;
+  return `${length.bodyParagraphs} body paragraphs, about ${length.words} words in all.`;
+}
+
+/**
+ * A game and its signals, ready to rank
+ */
+export interface RankingEntry {
+  boxScore: RankedGame['box_score'];
+  signals: StorySignals;
+  /** Registered sport id, when ranking across sports */
+  sport?: string;
+}
+
+/**
+ * What makes a high-priority game stand out, in a word or two
+ */
+function describeHighPriorityGame(game: RankedGame): string {
+  const sport = game.sport ? `${game.sport.replace(/^waterpolo$/, 'water polo')} ` : '';
+  if (game.signals.is_overtime) return `${sport}OT thriller`;
+  if (game.signals.is_close_game) return `close ${sport}game`;
+  return `high-priority ${sport}game`;
+}
+
+const TIER_ORDER = ['high', 'medium', 'low'];
+
+/**
+ * How many ranked games fall in each tier
+ */
+export function countTiers(games: Array<Pick<RankedGame, 'tier'>>): Record<'high' | 'medium' | 'low', number> {
+  return {
+    high: games.filter((g) => g.tier === 'high').length,
+    medium: games.filter((g) => g.tier === 'medium').length,
+    low: games.filter((g) => g.tier === 'low').length,
+  };
+}
 
+/**
+ * Order games by tier, then priority score, and sum up the night
+ *
+ * Scores must share a scale (see scorePriority) for the order to be fair. Each
+ * game keeps the tier its signals were given, since a program can set its own
+ * cutoffs per sport; that can put a lower score in a higher tier, so tiers are
+ * ordered first. Ties go to the home team's name, so a night always ranks the
+ * same way.
+ */
+export function buildPriorityRanking(entries: RankingEntry[]): PriorityRanking {
   // Create ranked games with tiers and coverage guidance
-  const rankedGames: RankedGame[] = sortedGames.map(({ boxScore, signals }) => {
-    const tier = determineTier(signals.priority_score);
-    const coverage_guidance = generateCoverageGuidance(tier, signals);
-
-    return {
-      box_score: boxScore,
-      signals,
-      tier,
-      coverage_guidance,
-    };
-  });
+  const rankedGames: RankedGame[] = entries
+    .map(({ boxScore, signals, sport }): RankedGame => {
+      const tier = TIER_ORDER.includes(signals.tier) ? signals.tier : determineTier(signals.priority_score);
+      const coverage_guidance = generateCoverageGuidance(tier, signals);
+
+      return {
+        box_score: boxScore,
+        ...(sport ? { sport } : {}),
+        signals,
+        tier,
+        coverage_guidance,
+      };
+    })
+    .sort(
+      (a, b) =>
+        TIER_ORDER.indexOf(a.tier) - TIER_ORDER.indexOf(b.tier) ||
+        b.signals.priority_score - a.signals.priority_score ||
+        a.box_score.metadata.home_team.localeCompare(b.box_score.metadata.home_team)
+    );
 
   // Generate summary
-  const tierCounts = {
-    high: rankedGames.filter((g) => g.tier === 'high').length,
-    medium: rankedGames.filter((g) => g.tier === 'medium').length,
-    low: rankedGames.filter((g) => g.tier === 'low').length,
-  };
+  const tierCounts = countTiers(rankedGames);
 
   const summaryParts: string[] = [];
 
   if (tierCounts.high > 0) {
     const highGames = rankedGames.filter((g) => g.tier === 'high');
-    const descriptors = highGames
-      .map((g) => {
-        if (g.signals.is_overtime) return 'OT thriller';
-        if (g.signals.is_close_game) return 'close game';
-        return 'high-priority game';
-      })
-      .slice(0, 2); // Show up to 2 descriptors
+    const descriptors = highGames.map(describeHighPriorityGame).slice(0, 2); // Show up to 2 descriptors
 
     summaryParts.push(
       `${tierCounts.high} high-priority ${tierCounts.high === 1 ? 'game' : 'games'} (${descriptors.join(', ')})`
@@ -391,6 +893,30 @@ export function rankGamesForCoverage(
   };
 }
 
+/**
+ * Rank games for coverage based on story signals
+ *
+ * Takes multiple box scores, computes their story signals, and produces a ranked list
+ * with priority tiers. This helps SIDs see "what matters tonight" before any deep
+ * analysis begins. For a night across several sports, use rankGamesAcrossSports from
+ * the sport registry.
+ *
+ * @param boxScores - Array of parsed box score data
+ * @param levelOrThresholds - Preset level name ('pro', 'college', 'highSchool', 'youth') or custom thresholds
+ * @returns PriorityRanking with games sorted by priority score and summary
+ */
+export function rankGamesForCoverage(
+  boxScores: BoxScore[],
+  levelOrThresholds: BasketballPresetLevel | BasketballThresholds = 'college'
+): PriorityRanking {
+  return buildPriorityRanking(
+    boxScores.map((boxScore) => ({
+      boxScore,
+      signals: computeStorySignals(boxScore, levelOrThresholds),
+    }))
+  );
+}
+
 /**
  * Get water polo thresholds for a given preset level.
  * Accepts either a preset name or a custom threshold object.
@@ -435,11 +961,13 @@ function hasStandoutGoalkeeperStats(
  *
  * @param boxScore - Parsed water polo box score data
  * @param levelOrThresholds - Preset level name or custom thresholds
+ * @param priority - Priority weights and tier cutoffs (defaults to the sport's own)
  * @returns StorySignals object with flags, counts, and priority score
  */
 export function computeWaterPoloStorySignals(
   boxScore: WaterPoloBoxScore,
-  levelOrThresholds: WaterPoloPresetLevel | WaterPoloThresholds = 'college'
+  levelOrThresholds: WaterPoloPresetLevel | WaterPoloThresholds = 'college',
+  priority: SportPriority = defaultPriority('waterpolo')
 ): StorySignals {
   const thresholds = getWaterPoloThresholds(levelOrThresholds);
   const { metadata, home_team, away_team } = boxScore;
@@ -485,11 +1013,10 @@ export function computeWaterPoloStorySignals(
     metadata.game_type?.toLowerCase().includes('conference') || false;
 
   // Calculate priority score using weighted formula
-  const priority_score =
-    (is_close_game ? PRIORITY_WEIGHTS.closeGame : 0) +
-    (is_overtime ? PRIORITY_WEIGHTS.overtime : 0) +
-    (has_standout_performance ? PRIORITY_WEIGHTS.standoutPerformance : 0) +
-    (is_conference_game ? PRIORITY_WEIGHTS.conferenceGame : 0);
+  const priority_score = scorePriority(
+    { is_close_game, is_overtime, has_standout_performance, is_conference_game },
+    priority.weights
+  );
 
   // Generate human-readable signal reasons
   const signal_reasons: string[] = [];
@@ -534,7 +1061,7 @@ export function computeWaterPoloStorySignals(
   }
 
   // Determine tier based on priority score
-  const tier = determineTier(priority_score);
+  const tier = determineTier(priority_score, priority.tiers);
 
   return {
     is_close_game,
@@ -548,3 +1075,604 @@ export function computeWaterPoloStorySignals(
     tier,
   };
 }
+
+/**
+ * Get baseball thresholds for a given preset level.
+ * Accepts either a preset name or a custom threshold object.
+ */
+export function getBaseballThresholds(
+  levelOrThresholds: BaseballPresetLevel | BaseballThresholds = 'college'
+): BaseballThresholds {
+  if (typeof levelOrThresholds === 'string') {
+    return BASEBALL_PRESETS[levelOrThresholds];
+  }
+  return levelOrThresholds;
+}
+
+/**
+ * Compute story signals from a baseball box score using deterministic rules
+ *
+ * @param boxScore - Parsed baseball box score data
+ * @param levelOrThresholds - Preset level name or custom thresholds
+ * @param priority - Priority weights and tier cutoffs (defaults to the sport's own)
+ * @returns StorySignals object with flags, counts, and priority score
+ */
+export function computeBaseballStorySignals(
+  boxScore: BaseballBoxScore,
+  levelOrThresholds: BaseballPresetLevel | BaseballThresholds = 'college',
+  priority: SportPriority = defaultPriority('baseball')
+): StorySignals {
+  const thresholds = getBaseballThresholds(levelOrThresholds);
+  const { metadata, home_team, away_team } = boxScore;
+
+  // Calculate margin
+  const margin = Math.abs(metadata.home_score - metadata.away_score);
+
+  // Check if it's a close game
+  const is_close_game = margin <= thresholds.closeGameMargin;
+
+  // Extra innings play the role of overtime
+  const is_overtime = metadata.innings > thresholds.regulationInnings;
+
+  // Check for standout batters across both teams
+  const allBatters = [...(home_team?.batters || []), ...(away_team?.batters || [])];
+  const standoutBatters = allBatters.filter(
+    (batter) =>
+      batter.hits >= thresholds.standoutHits ||
+      batter.rbi >= thresholds.standoutRbi ||
+      (batter.home_runs ?? 0) >= thresholds.standoutHomeRuns
+  );
+
+  // Check for standout pitchers across both teams
+  const allPitchers = [...(home_team?.pitchers || []), ...(away_team?.pitchers || [])];
+  const standoutPitchers = allPitchers.filter(
+    (pitcher) => pitcher.strikeouts >= thresholds.standoutStrikeouts
+  );
+
+  const standout_count = standoutBatters.length + standoutPitchers.length;
+  const has_standout_performance = standout_count > 0;
+
+  // Check if it's a conference game
+  const is_conference_game =
+    metadata.game_type?.toLowerCase().includes('conference') || false;
+
+  // Calculate priority score using weighted formula
+  const priority_score = scorePriority(
+    { is_close_game, is_overtime, has_standout_performance, is_conference_game },
+    priority.weights
+  );
+
+  // Generate human-readable signal reasons
+  const signal_reasons: string[] = [];
+
+  if (is_close_game) {
+    signal_reasons.push(`Close game (${margin}-run margin)`);
+  }
+
+  if (is_overtime) {
+    signal_reasons.push(`Extra innings (${metadata.innings} innings)`);
+  }
+
+  if (standoutBatters.length > 0) {
+    if (standoutBatters.length === 1) {
+      const batter = standoutBatters[0];
+      const stats: string[] = [];
+      if (batter.hits >= thresholds.standoutHits) stats.push(`${batter.hits}-for-${batter.at_bats}`);
+      if (batter.rbi >= thresholds.standoutRbi) stats.push(`${batter.rbi} RBI`);
+      if ((batter.home_runs ?? 0) >= thresholds.standoutHomeRuns) stats.push(`${batter.home_runs} HR`);
+      signal_reasons.push(`Standout performance: ${batter.name} (${stats.join(', ')})`);
+    } else {
+      signal_reasons.push(`${standoutBatters.length} standout batting performances`);
+    }
+  }
+
+  if (standoutPitchers.length > 0) {
+    if (standoutPitchers.length === 1) {
+      const pitcher = standoutPitchers[0];
+      signal_reasons.push(`Standout pitcher: ${pitcher.name} (${pitcher.strikeouts} strikeouts)`);
+    } else {
+      signal_reasons.push(`${standoutPitchers.length} standout pitching performances`);
+    }
+  }
+
+  if (is_conference_game) {
+    signal_reasons.push('Conference game');
+  }
+
+  // If no signals, add a default reason
+  if (signal_reasons.length === 0) {
+    signal_reasons.push('No major story signals detected');
+  }
+
+  // Determine tier based on priority score
+  const tier = determineTier(priority_score, priority.tiers);
+
+  return {
+    is_close_game,
+    is_overtime,
+    has_standout_performance,
+    is_conference_game,
+    margin,
+    standout_count,
+    priority_score,
+    signal_reasons,
+    tier,
+  };
+}
+
+/**
+ * Get volleyball thresholds for a given preset level.
+ * Accepts either a preset name or a custom threshold object.
+ */
+export function getVolleyballThresholds(
+  levelOrThresholds: VolleyballPresetLevel | VolleyballThresholds = 'college'
+): VolleyballThresholds {
+  if (typeof levelOrThresholds === 'string') {
+    return VOLLEYBALL_PRESETS[levelOrThresholds];
+  }
+  return levelOrThresholds;
+}
+
+/**
+ * Check if a volleyball player recorded a triple-double (kills, digs and assists)
+ */
+function isVolleyballTripleDouble(
+  player: VolleyballPlayerStats,
+  thresholds: VolleyballThresholds = VOLLEYBALL_THRESHOLDS
+): boolean {
+  return (
+    player.kills >= thresholds.tripleDoubleThreshold &&
+    player.digs >= thresholds.tripleDoubleThreshold &&
+    player.assists >= thresholds.tripleDoubleThreshold
+  );
+}
+
+/**
+ * Check if the match winner dropped the first two sets
+ */
+function isVolleyballComeback(boxScore: VolleyballBoxScore): boolean {
+  const { metadata, set_scores } = boxScore;
+  if (!set_scores || metadata.home_score === metadata.away_score) return false;
+
+  const [winner, loser] = metadata.home_score > metadata.away_score
+    ? [set_scores.home_scores, set_scores.away_scores]
+    : [set_scores.away_scores, set_scores.home_scores];
+
+  return winner.length >= 2 && winner[0] < loser[0] && winner[1] < loser[1];
+}
+
+/**
+ * Compute story signals from a volleyball box score using deterministic rules
+ *
+ * Five-set matches fill the overtime slot (the fifth set is the tiebreaker), and
+ * triple-doubles count as standout performances. A comeback from 0-2 down only
+ * adds a reason and carries no weight of its own: winning from there takes
+ * five sets, so the match already scores as close and as a five-setter.
+ *
+ * @param boxScore - Parsed volleyball box score data
+ * @param levelOrThresholds - Preset level name or custom thresholds
+ * @param priority - Priority weights and tier cutoffs (defaults to the sport's own)
+ * @returns StorySignals object with flags, counts, and priority score
+ */
+export function computeVolleyballStorySignals(
+  boxScore: VolleyballBoxScore,
+  levelOrThresholds: VolleyballPresetLevel | VolleyballThresholds = 'college',
+  priority: SportPriority = defaultPriority('volleyball')
+): StorySignals {
+  const thresholds = getVolleyballThresholds(levelOrThresholds);
+  const { metadata, home_team, away_team, set_scores } = boxScore;
+
+  // Margin in sets, e.g. 2 for a 3-1 match
+  const margin = Math.abs(metadata.home_score - metadata.away_score);
+
+  // Total point differential across every set played
+  const pointMargin = set_scores
+    ? Math.abs(
+        set_scores.home_scores.reduce((a, b) => a + b, 0) -
+        set_scores.away_scores.reduce((a, b) => a + b, 0)
+      )
+    : null;
+
+  // A five-set match goes to the tiebreaker set
+  const sets = metadata.sets || metadata.home_score + metadata.away_score;
+  const is_overtime = sets >= 5;
+
+  // Close if it went the distance or the points were nearly even
+  const is_close_game =
+    is_overtime || (pointMargin !== null && pointMargin <= thresholds.closeMatchPointMargin);
+
+  const is_comeback = isVolleyballComeback(boxScore);
+
+  // Check for standout performances across both teams
+  const allPlayers = [...(home_team?.players || []), ...(away_team?.players || [])];
+  const totalBlocks = (player: VolleyballPlayerStats) => player.block_solos + player.block_assists;
+
+  const tripleDoubles = allPlayers.filter((player) => isVolleyballTripleDouble(player, thresholds));
+  const standoutPlayers = allPlayers.filter(
+    (player) =>
+      tripleDoubles.includes(player) ||
+      player.kills >= thresholds.standoutKills ||
+      player.digs >= thresholds.standoutDigs ||
+      player.assists >= thresholds.standoutAssists ||
+      player.service_aces >= thresholds.standoutAces ||
+      totalBlocks(player) >= thresholds.standoutBlocks
+  );
+
+  const standout_count = standoutPlayers.length;
+  const has_standout_performance = standout_count > 0;
+
+  // Check if it's a conference game
+  const is_conference_game =
+    metadata.game_type?.toLowerCase().includes('conference') || false;
+
+  // Calculate priority score using weighted formula
+  const priority_score = scorePriority(
+    { is_close_game, is_overtime, has_standout_performance, is_conference_game },
+    priority.weights
+  );
+
+  // Generate human-readable signal reasons
+  const signal_reasons: string[] = [];
+
+  if (is_close_game) {
+    signal_reasons.push(
+      pointMargin !== null
+        ? `Close match (${metadata.away_score}-${metadata.home_score} in sets, ${pointMargin}-point margin)`
+        : `Close match (${metadata.away_score}-${metadata.home_score} in sets)`
+    );
+  }
+
+  if (is_overtime) {
+    signal_reasons.push('Five-set match');
+  }
+
+  if (is_comeback) {
+    const winner = metadata.home_score > metadata.away_score ? metadata.home_team : metadata.away_team;
+    signal_reasons.push(`Comeback from 0-2 down: ${winner}`);
+  }
+
+  for (const player of tripleDoubles) {
+    signal_reasons.push(
+      `Triple-double: ${player.name} (${player.kills} kills, ${player.digs} digs, ${player.assists} assists)`
+    );
+  }
+
+  const otherStandouts = standoutPlayers.filter((player) => !tripleDoubles.includes(player));
+  if (otherStandouts.length > 0) {
+    if (otherStandouts.length === 1) {
+      const player = otherStandouts[0];
+      const stats: string[] = [];
+      if (player.kills >= thresholds.standoutKills) stats.push(`${player.kills} kills`);
+      if (player.digs >= thresholds.standoutDigs) stats.push(`${player.digs} digs`);
+      if (player.assists >= thresholds.standoutAssists) stats.push(`${player.assists} assists`);
+      if (player.service_aces >= thresholds.standoutAces) stats.push(`${player.service_aces} aces`);
+      if (totalBlocks(player) >= thresholds.standoutBlocks) stats.push(`${totalBlocks(player)} blocks`);
+      signal_reasons.push(`Standout performance: ${player.name} (${stats.join(', ')})`);
+    } else {
+      signal_reasons.push(`${otherStandouts.length} standout performances`);
+    }
+  }
+
+  if (is_conference_game) {
+    signal_reasons.push('Conference game');
+  }
+
+  // If no signals, add a default reason
+  if (signal_reasons.length === 0) {
+    signal_reasons.push('No major story signals detected');
+  }
+
+  // Determine tier based on priority score
+  const tier = determineTier(priority_score, priority.tiers);
+
+  return {
+    is_close_game,
+    is_overtime,
+    has_standout_performance,
+    is_conference_game,
+    margin,
+    standout_count,
+    priority_score,
+    signal_reasons,
+    tier,
+  };
+}
+
+/**
+ * Get soccer thresholds for a given preset level.
+ * Accepts either a preset name or a custom threshold object.
+ */
+export function getSoccerThresholds(
+  levelOrThresholds: SoccerPresetLevel | SoccerThresholds = 'college'
+): SoccerThresholds {
+  if (typeof levelOrThresholds === 'string') {
+    return SOCCER_PRESETS[levelOrThresholds];
+  }
+  return levelOrThresholds;
+}
+
+/**
+ * Work out which side a scoring-summary team label refers to.
+ * Summaries often use abbreviations ("MAR"), so prefixes match too.
+ */
+function soccerSide(label: string, metadata: SoccerBoxScore['metadata']): 'home' | 'away' | null {
+  const normalized = label.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const matches = (teamName: string) => {
+    const team = teamName.trim().toLowerCase();
+    return team === normalized || team.startsWith(normalized) || normalized.startsWith(team);
+  };
+
+  if (matches(metadata.home_team)) return 'home';
+  if (matches(metadata.away_team)) return 'away';
+  return null;
+}
+
+/**
+ * Walk the scoring summary to find the game-winning goal and the largest
+ * deficit the eventual winner overcame.
+ */
+function analyzeSoccerTimeline(
+  boxScore: SoccerBoxScore,
+  winner: 'home' | 'away' | null
+): { winningGoal: SoccerBoxScore['goals'][number] | null; largestDeficit: number } {
+  const { metadata, goals } = boxScore;
+  if (!winner || !goals || goals.length === 0) return { winningGoal: null, largestDeficit: 0 };
+
+  const loserFinal = winner === 'home' ? metadata.away_score : metadata.home_score;
+  const score = { home: 0, away: 0 };
+  const loser = winner === 'home' ? 'away' : 'home';
+  let winningGoal: SoccerBoxScore['goals'][number] | null = null;
+  let largestDeficit = 0;
+
+  for (const goal of goals) {
+    const side = soccerSide(goal.team, metadata);
+    if (!side) return { winningGoal: null, largestDeficit: 0 };
+
+    score[side]++;
+    largestDeficit = Math.max(largestDeficit, score[loser] - score[winner]);
+
+    // The winner's goal that put them one ahead of the loser's final tally
+    if (side === winner && score[winner] === loserFinal + 1) {
+      winningGoal = goal;
+    }
+  }
+
+  return { winningGoal, largestDeficit };
+}
+
+/**
+ * Compute story signals from a soccer box score using deterministic rules
+ *
+ * Overtime covers extra periods and penalty shootouts. Late winners, clean
+ * sheets, comebacks and hat tricks are reported in signal_reasons; hat tricks
+ * also count as standout performances.
+ *
+ * @param boxScore - Parsed soccer box score data
+ * @param levelOrThresholds - Preset level name or custom thresholds
+ * @param priority - Priority weights and tier cutoffs (defaults to the sport's own)
+ * @returns StorySignals object with flags, counts, and priority score
+ */
+export function computeSoccerStorySignals(
+  boxScore: SoccerBoxScore,
+  levelOrThresholds: SoccerPresetLevel | SoccerThresholds = 'college',
+  priority: SportPriority = defaultPriority('soccer')
+): StorySignals {
+  const thresholds = getSoccerThresholds(levelOrThresholds);
+  const { metadata, home_team, away_team, shootout } = boxScore;
+
+  // Calculate margin
+  const margin = Math.abs(metadata.home_score - metadata.away_score);
+
+  // Check if it's a close game (draws included)
+  const is_close_game = margin <= thresholds.closeGameMargin;
+
+  // Extra periods or a shootout
+  const is_overtime = (metadata.periods || 2) > 2 || !!shootout;
+
+  // Winner on goals, or on penalties after a draw
+  let winner: 'home' | 'away' | null = null;
+  if (metadata.home_score !== metadata.away_score) {
+    winner = metadata.home_score > metadata.away_score ? 'home' : 'away';
+  } else if (shootout && shootout.home_made !== shootout.away_made) {
+    winner = shootout.home_made > shootout.away_made ? 'home' : 'away';
+  }
+  const winnerName = winner === 'home' ? metadata.home_team : winner === 'away' ? metadata.away_team : null;
+
+  // A shootout winner's "winning goal" is the kick, not a timeline goal
+  const decidedOnGoals = metadata.home_score !== metadata.away_score;
+  const { winningGoal, largestDeficit } = analyzeSoccerTimeline(boxScore, winner);
+
+  // Check for standout performances across both teams
+  const allPlayers = [...(home_team?.players || []), ...(away_team?.players || [])];
+  const hatTricks = allPlayers.filter((player) => player.goals >= thresholds.hatTrickGoals);
+  const standoutPlayers = allPlayers.filter(
+    (player) =>
+      player.goals >= thresholds.standoutGoals ||
+      player.assists >= thresholds.standoutAssists
+  );
+
+  const allGoalkeepers = [...(home_team?.goalkeepers || []), ...(away_team?.goalkeepers || [])];
+  const standoutGoalkeepers = allGoalkeepers.filter((gk) => gk.saves >= thresholds.standoutSaves);
+
+  const standout_count = standoutPlayers.length + standoutGoalkeepers.length;
+  const has_standout_performance = standout_count > 0;
+
+  // Check if it's a conference game
+  const is_conference_game =
+    metadata.game_type?.toLowerCase().includes('conference') || false;
+
+  // Calculate priority score using weighted formula
+  const priority_score = scorePriority(
+    { is_close_game, is_overtime, has_standout_performance, is_conference_game },
+    priority.weights
+  );
+
+  // Generate human-readable signal reasons
+  const signal_reasons: string[] = [];
+
+  if (is_close_game) {
+    signal_reasons.push(margin === 0 ? 'Draw' : `Close game (${margin}-goal margin)`);
+  }
+
+  if (shootout) {
+    signal_reasons.push(
+      `Decided on penalties (${shootout.away_made}-${shootout.home_made})${winnerName ? `: ${winnerName} advance` : ''}`
+    );
+  } else if (is_overtime) {
+    signal_reasons.push('Overtime');
+  }
+
+  if (decidedOnGoals && winningGoal) {
+    const clock = winningGoal.added_time ? `${winningGoal.minute}+${winningGoal.added_time}'` : `${winningGoal.minute}'`;
+    if (winningGoal.minute > thresholds.regulationMinutes) {
+      signal_reasons.push(`Golden goal: ${winningGoal.scorer} (${clock})`);
+    } else if (winningGoal.minute >= thresholds.lateWinnerMinute) {
+      signal_reasons.push(`Late winner: ${winningGoal.scorer} (${clock})`);
+    }
+  }
+
+  if (winnerName && largestDeficit > 0) {
+    signal_reasons.push(`Comeback from ${largestDeficit}-goal deficit: ${winnerName}`);
+  }
+
+  for (const [teamName, conceded, keepers] of [
+    [metadata.home_team, metadata.away_score, home_team?.goalkeepers || []],
+    [metadata.away_team, metadata.home_score, away_team?.goalkeepers || []],
+  ] as const) {
+    if (conceded !== 0) continue;
+    const saves = keepers.reduce((total, gk) => total + gk.saves, 0);
+    const keeperNames = keepers.map((gk) => gk.name).join(', ');
+    signal_reasons.push(
+      keeperNames ? `Clean sheet: ${teamName} (${keeperNames}, ${saves} saves)` : `Clean sheet: ${teamName}`
+    );
+  }
+
+  for (const player of hatTricks) {
+    signal_reasons.push(`Hat trick: ${player.name} (${player.goals} goals)`);
+  }
+
+  const otherStandouts = standoutPlayers.filter((player) => !hatTricks.includes(player));
+  if (otherStandouts.length > 0) {
+    if (otherStandouts.length === 1) {
+      const player = otherStandouts[0];
+      const stats: string[] = [];
+      if (player.goals >= thresholds.standoutGoals) stats.push(`${player.goals} goals`);
+      if (player.assists >= thresholds.standoutAssists) stats.push(`${player.assists} assists`);
+      signal_reasons.push(`Standout performance: ${player.name} (${stats.join(', ')})`);
+    } else {
+      signal_reasons.push(`${otherStandouts.length} standout field player performances`);
+    }
+  }
+
+  if (standoutGoalkeepers.length > 0) {
+    if (standoutGoalkeepers.length === 1) {
+      const gk = standoutGoalkeepers[0];
+      signal_reasons.push(`Standout goalkeeper: ${gk.name} (${gk.saves} saves)`);
+    } else {
+      signal_reasons.push(`${standoutGoalkeepers.length} standout goalkeeper performances`);
+    }
+  }
+
+  if (is_conference_game) {
+    signal_reasons.push('Conference game');
+  }
+
+  // If no signals, add a default reason
+  if (signal_reasons.length === 0) {
+    signal_reasons.push('No major story signals detected');
+  }
+
+  // Determine tier based on priority score
+  const tier = determineTier(priority_score, priority.tiers);
+
+  return {
+    is_close_game,
+    is_overtime,
+    has_standout_performance,
+    is_conference_game,
+    margin,
+    standout_count,
+    priority_score,
+    signal_reasons,
+    tier,
+  };
+}
+
+/**
+ * Get softball thresholds for a given preset level.
+ * Accepts either a preset name or a custom threshold object.
+ */
+export function getSoftballThresholds(
+  levelOrThresholds: SoftballPresetLevel | SoftballThresholds = 'college'
+): SoftballThresholds {
+  if (typeof levelOrThresholds === 'string') {
+    return SOFTBALL_PRESETS[levelOrThresholds];
+  }
+  return levelOrThresholds;
+}
+
+/**
+ * Find the run rule that ended a game early, if any
+ *
+ * A game that stopped before regulation only counts as a run-rule game when the
+ * margin satisfies one of the rules; otherwise it was shortened for another reason
+ * (weather, darkness, travel).
+ */
+function findRunRule(
+  innings: number,
+  margin: number,
+  thresholds: SoftballThresholds
+): RunRule | null {
+  if (innings >= thresholds.regulationInnings) return null;
+  return thresholds.runRules.find((rule) => innings >= rule.afterInnings && margin >= rule.margin) ?? null;
+}
+
+/**
+ * Compute story signals from a softball box score using deterministic rules
+ *
+ * Builds on the baseball signals with seven-inning regulation and softball
+ * thresholds, then notes run-rule finishes and extra innings played under the
+ * international tie-breaker.
+ *
+ * @param boxScore - Parsed softball box score data
+ * @param levelOrThresholds - Preset level name or custom thresholds
+ * @param priority - Priority weights and tier cutoffs (defaults to the sport's own)
+ * @returns StorySignals object with flags, counts, and priority score
+ */
+export function computeSoftballStorySignals(
+  boxScore: BaseballBoxScore,
+  levelOrThresholds: SoftballPresetLevel | SoftballThresholds = 'college',
+  priority: SportPriority = defaultPriority('softball')
+): StorySignals {
+  const thresholds = getSoftballThresholds(levelOrThresholds);
+  const signals = computeBaseballStorySignals(boxScore, thresholds, priority);
+  const { innings } = boxScore.metadata;
+
+  // Extra innings under the tie-breaker start with a runner on second
+  const usesTieBreaker =
+    signals.is_overtime &&
+    thresholds.tieBreakerStartInning !== null &&
+    innings >= thresholds.tieBreakerStartInning;
+
+  const signal_reasons = signals.signal_reasons
+    .filter((reason) => reason !== 'No major story signals detected')
+    .map((reason) =>
+      usesTieBreaker && reason.startsWith('Extra innings')
+        ? `Extra innings (${innings} innings, international tie-breaker)`
+        : reason
+    );
+
+  const runRule = findRunRule(innings, signals.margin, thresholds);
+  if (runRule) {
+    // A run-rule game is never close or extra innings, so this leads the game-shape reasons
+    signal_reasons.unshift(`Run rule: ended after ${innings} innings (${signals.margin}-run margin)`);
+  }
+
+  if (signal_reasons.length === 0) {
+    signal_reasons.push('No major story signals detected');
+  }
+
+  return { ...signals, signal_reasons };
+}
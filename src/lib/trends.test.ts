@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { computePlayerTrends, computeTeamTrend, trendTriggers, type TrendGame } from './trends.js';
+import type { PlayerGameLog, StatLine } from './season-stats.js';
+
+const games = (results: string, homeAway: string): TrendGame[] =>
+  [...results].map((result, i) => ({
+    result: result as TrendGame['result'],
+    homeAway: homeAway[i] === 'h' ? 'home' : 'away',
+  }));
+
+const logs = (lines: StatLine[]): PlayerGameLog[] =>
+  lines.map((stats, i) => ({ gameDate: `2024-01-${String(i + 1).padStart(2, '0')}`, opponent: 'Opponent', result: 'W', stats }));
+
+describe('computeTeamTrend', () => {
+  it('should compute record, home/road split and current streak', () => {
+    const trend = computeTeamTrend('Marin', games('WLWWW', 'hahah'));
+
+    expect(trend).toEqual({
+      team_name: 'Marin',
+      record: '4-1',
+      home_record: '3-0',
+      road_record: '1-1',
+      streak: 'W3',
+      snapped_streak: null,
+    });
+  });
+
+  it('should note a losing streak this game ended', () => {
+    const trend = computeTeamTrend('Marin', games('WLLLLW', 'hhhhhh'));
+
+    expect(trend.streak).toBe('W1');
+    expect(trend.snapped_streak).toBe('L4');
+  });
+
+  it('should show ties in the record', () => {
+    expect(computeTeamTrend('Marin', games('WTL', 'hha')).record).toBe('1-1-1');
+  });
+});
+
+describe('computePlayerTrends', () => {
+  it('should report a live double-figure streak', () => {
+    const trends = computePlayerTrends('basketball', 'Jane Smith', 'Marin', logs([
+      { points: 4 },
+      { points: 12 },
+      { points: 10 },
+      { points: 15 },
+      { points: 11 },
+    ]));
+
+    expect(trends).toHaveLength(1);
+    expect(trends[0]).toMatchObject({ kind: 'streak', stat: 'points', games: 4 });
+    expect(trends[0].description).toBe('Double figures in 4 straight games');
+  });
+
+  it('should not count pitcher-only lines against a hitting streak', () => {
+    const trends = computePlayerTrends('baseball', 'Two-Way', 'Marin', logs([
+      { at_bats: 4, hits: 1 },
+      { at_bats: 3, hits: 2 },
+      { pitching_outs: 18, pitching_strikeouts: 5 },
+      { at_bats: 4, hits: 1 },
+      { at_bats: 5, hits: 1 },
+      { at_bats: 4, hits: 3 },
+    ]));
+
+    expect(trends.map((t) => t.description)).toEqual(['5-game hitting streak']);
+  });
+
+  it('should report recent form well above the season average', () => {
+    const season = [6, 8, 7, 6, 16, 18, 15, 20, 17].map((points) => ({ points }));
+    const trends = computePlayerTrends('basketball', 'Jane Smith', 'Marin', logs(season));
+    const form = trends.find((t) => t.kind === 'recent_form');
+
+    expect(form).toMatchObject({ stat: 'points', recent_average: 17.2, season_average: 12.6, games: 5 });
+    expect(form!.description).toBe('Averaging 17.2 points over the last 5 games (12.6 for the season)');
+  });
+
+  it('should wait for enough games before reporting recent form', () => {
+    const trends = computePlayerTrends('basketball', 'Jane Smith', 'Marin', logs([{ points: 2 }, { points: 25 }]));
+
+    expect(trends.filter((t) => t.kind === 'recent_form')).toEqual([]);
+  });
+});
+
+describe('trendTriggers', () => {
+  it('should emit TREND triggers for win streaks and snapped skids but not losing streaks', () => {
+    const triggers = trendTriggers({
+      teams: [
+        computeTeamTrend('Marin', games('WWWWW', 'hhhhh')),
+        computeTeamTrend('Skyline', games('WLLLL', 'aaaaa')),
+      ],
+      players: [],
+    });
+
+    expect(triggers).toHaveLength(1);
+    expect(triggers[0]).toMatchObject({ category: 'TREND', description: 'Marin has won 5 straight (5-0)' });
+  });
+
+  it('should emit player streak triggers with the team in key stats', () => {
+    const players = computePlayerTrends('waterpolo', 'Keeper', 'Marin', logs([
+      { goalkeeper_minutes: 32, saves: 11 },
+      { goalkeeper_minutes: 32, saves: 12 },
+      { goalkeeper_minutes: 28, saves: 10 },
+    ]));
+    const [trigger] = trendTriggers({ teams: [], players });
+
+    expect(trigger.player_name).toBe('Keeper');
+    expect(trigger.description).toBe('Keeper: 10+ saves in 3 straight games');
+    expect(trigger.key_stats).toEqual({ team: 'Marin', games: '3' });
+  });
+});
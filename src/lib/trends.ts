@@ -0,0 +1,290 @@
+/**
+ * Season Trends
+ *
+ * Streaks and recent form over a team's stored games: winning and losing streaks,
+ * home and road records, consecutive double-figure games, hitting streaks,
+ * consecutive big-save games in water polo, and "averaging X over the last N
+ * games" when a player's recent form runs well above their season.
+ *
+ * Inputs always include the game being covered as the last entry, so a streak is
+ * only reported while it's alive. The results feed TREND triggers and the
+ * SeasonTrends context passed to GameInterview and SynthesizeNarratives.
+ */
+
+import {
+  TriggerCategory,
+  type PlayerTrend,
+  type SeasonTrends,
+  type TeamTrend,
+  type Trigger,
+} from '../../baml_client/types.js';
+import type { PlayerGameLog, SeasonSport } from './season-stats.js';
+
+/**
+ * A team's result in one game, in date order
+ */
+export interface TrendGame {
+  result: 'W' | 'L' | 'T';
+  homeAway: 'home' | 'away';
+}
+
+/**
+ * Consecutive games meeting a mark, e.g. 10+ points
+ */
+export interface StreakRule {
+  stat: string;
+  min: number;
+  /** Shortest streak worth reporting */
+  minLength: number;
+  /** Only games with this stat count, so a pitcher-only line doesn't break a hitting streak */
+  requires?: string;
+  describe: (length: number) => string;
+}
+
+/**
+ * A stat checked for recent form, with the smallest recent average worth reporting
+ */
+export interface RecentFormRule {
+  stat: string;
+  label: string;
+  floor: number;
+}
+
+/**
+ * Thresholds for season trends
+ */
+export interface TrendThresholds {
+  /** Win streak length for a team trigger */
+  teamStreak: number;
+  /** Losing streak length that makes ending it a story */
+  snappedStreak: number;
+  /** Games in the recent-form window */
+  recentGames: number;
+  /** Recent average must be at least this multiple of the season average */
+  recentFormRatio: number;
+  streaks: Record<SeasonSport, readonly StreakRule[]>;
+  recentForm: Record<SeasonSport, readonly RecentFormRule[]>;
+}
+
+const DIAMOND_STREAKS: readonly StreakRule[] = [
+  { stat: 'hits', min: 1, minLength: 5, requires: 'at_bats', describe: (n) => `${n}-game hitting streak` },
+];
+
+const DIAMOND_FORM: readonly RecentFormRule[] = [
+  { stat: 'hits', label: 'hits', floor: 1.5 },
+  { stat: 'rbi', label: 'RBIs', floor: 1.5 },
+  { stat: 'pitching_strikeouts', label: 'strikeouts', floor: 7 },
+];
+
+export const TREND_THRESHOLDS: TrendThresholds = {
+  teamStreak: 3,
+  snappedStreak: 3,
+  recentGames: 5,
+  recentFormRatio: 1.25,
+  streaks: {
+    basketball: [
+      { stat: 'points', min: 10, minLength: 3, describe: (n) => `Double figures in ${n} straight games` },
+      { stat: 'rebounds', min: 10, minLength: 3, describe: (n) => `Double-digit rebounds in ${n} straight games` },
+    ],
+    baseball: DIAMOND_STREAKS,
+    softball: DIAMOND_STREAKS,
+    waterpolo: [
+      { stat: 'goals', min: 1, minLength: 4, describe: (n) => `Scored in ${n} straight games` },
+      { stat: 'saves', min: 10, minLength: 3, requires: 'goalkeeper_minutes', describe: (n) => `10+ saves in ${n} straight games` },
+    ],
+  },
+  recentForm: {
+    basketball: [
+      { stat: 'points', label: 'points', floor: 10 },
+      { stat: 'rebounds', label: 'rebounds', floor: 6 },
+      { stat: 'assists', label: 'assists', floor: 4 },
+    ],
+    baseball: DIAMOND_FORM,
+    softball: DIAMOND_FORM,
+    waterpolo: [
+      { stat: 'goals', label: 'goals', floor: 2 },
+      { stat: 'saves', label: 'saves', floor: 8 },
+    ],
+  },
+};
+
+function formatRecord(games: TrendGame[]): string {
+  const wins = games.filter((game) => game.result === 'W').length;
+  const losses = games.filter((game) => game.result === 'L').length;
+  const ties = games.filter((game) => game.result === 'T').length;
+  return ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`;
+}
+
+/**
+ * Length of the run of `result` ending at index `end`
+ */
+function runLength(games: TrendGame[], end: number): number {
+  let length = 0;
+  for (let i = end; i >= 0 && games[i].result === games[end].result; i--) length++;
+  return length;
+}
+
+/**
+ * Compute a team's record, home/road split and current streak
+ *
+ * @param teamName - Team name as it appears in the box score
+ * @param games - The team's games in date order, ending with the game being covered
+ * @param thresholds - Trend thresholds (defaults to TREND_THRESHOLDS)
+ */
+export function computeTeamTrend(
+  teamName: string,
+  games: TrendGame[],
+  thresholds: TrendThresholds = TREND_THRESHOLDS
+): TeamTrend {
+  const last = games.length - 1;
+  const streak = last >= 0 ? `${games[last].result}${runLength(games, last)}` : '';
+
+  // The run before the current one, when this game is the first of a new run
+  let snapped_streak: string | null = null;
+  if (last >= 1 && runLength(games, last) === 1) {
+    const previous = runLength(games, last - 1);
+    if (previous >= thresholds.snappedStreak) snapped_streak = `${games[last - 1].result}${previous}`;
+  }
+
+  return {
+    team_name: teamName,
+    record: formatRecord(games),
+    home_record: formatRecord(games.filter((game) => game.homeAway === 'home')),
+    road_record: formatRecord(games.filter((game) => game.homeAway === 'away')),
+    streak,
+    snapped_streak,
+  };
+}
+
+function average(logs: PlayerGameLog[], stat: string): number | null {
+  const values = logs.map((log) => log.stats[stat]).filter((value) => value !== undefined);
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Compute a player's live streaks and recent form
+ *
+ * @param sport - Sport of the logs
+ * @param player - Player name
+ * @param teamName - Team name as it appears in the box score
+ * @param logs - The player's season game logs in date order, ending with the game being covered
+ * @param thresholds - Trend thresholds (defaults to TREND_THRESHOLDS)
+ */
+export function computePlayerTrends(
+  sport: SeasonSport,
+  player: string,
+  teamName: string,
+  logs: PlayerGameLog[],
+  thresholds: TrendThresholds = TREND_THRESHOLDS
+): PlayerTrend[] {
+  const trends: PlayerTrend[] = [];
+
+  for (const rule of thresholds.streaks[sport]) {
+    const counted = rule.requires ? logs.filter((log) => log.stats[rule.requires!] !== undefined) : logs;
+    let length = 0;
+    for (let i = counted.length - 1; i >= 0 && (counted[i].stats[rule.stat] ?? 0) >= rule.min; i--) length++;
+
+    if (length >= rule.minLength) {
+      trends.push({
+        player_name: player,
+        team_name: teamName,
+        kind: 'streak',
+        stat: rule.stat,
+        description: rule.describe(length),
+        games: length,
+        recent_average: null,
+        season_average: null,
+      });
+    }
+  }
+
+  // Recent form needs a season to compare against, not just the recent window
+  if (logs.length >= thresholds.recentGames + 3) {
+    const recent = logs.slice(-thresholds.recentGames);
+    for (const { stat, label, floor } of thresholds.recentForm[sport]) {
+      const recentAverage = average(recent, stat);
+      const seasonAverage = average(logs, stat);
+      if (recentAverage === null || seasonAverage === null || recentAverage < floor) continue;
+      if (recentAverage < seasonAverage * thresholds.recentFormRatio) continue;
+
+      trends.push({
+        player_name: player,
+        team_name: teamName,
+        kind: 'recent_form',
+        stat,
+        description: `Averaging ${recentAverage} ${label} over the last ${recent.length} games (${seasonAverage} for the season)`,
+        games: recent.length,
+        recent_average: recentAverage,
+        season_average: seasonAverage,
+      });
+    }
+  }
+
+  return trends;
+}
+
+/**
+ * Turn season trends into TREND triggers, ordered by salience
+ *
+ * Losing streaks stay in the context but don't become triggers; ending one does.
+ */
+export function trendTriggers(
+  trends: SeasonTrends,
+  thresholds: TrendThresholds = TREND_THRESHOLDS
+): Trigger[] {
+  const triggers: Trigger[] = [];
+
+  for (const team of trends.teams) {
+    const wins = team.streak.startsWith('W') ? parseInt(team.streak.slice(1), 10) : 0;
+    if (wins >= thresholds.teamStreak) {
+      triggers.push({
+        category: TriggerCategory.TREND,
+        description: `${team.team_name} has won ${wins} straight (${team.record})`,
+        player_name: null,
+        key_stats: { streak: team.streak, record: team.record },
+        follow_up_question: `What has been working for ${team.team_name} during this ${wins}-game winning streak?`,
+        salience_score: Math.min(0.85, 0.6 + 0.05 * (wins - thresholds.teamStreak)),
+      });
+    }
+
+    if (team.snapped_streak?.startsWith('L')) {
+      const losses = team.snapped_streak.slice(1);
+      triggers.push({
+        category: TriggerCategory.TREND,
+        description: `${team.team_name} snapped a ${losses}-game losing streak`,
+        player_name: null,
+        key_stats: { snapped_streak: team.snapped_streak, record: team.record },
+        follow_up_question: `What changed for ${team.team_name} to end the ${losses}-game skid?`,
+        salience_score: 0.65,
+      });
+    }
+  }
+
+  for (const trend of trends.players) {
+    const key_stats: Record<string, string> = { team: trend.team_name, games: String(trend.games) };
+    if (trend.kind === 'streak') {
+      triggers.push({
+        category: TriggerCategory.TREND,
+        description: `${trend.player_name}: ${trend.description}`,
+        player_name: trend.player_name,
+        key_stats,
+        follow_up_question: `What's behind ${trend.player_name}'s consistency during this stretch?`,
+        salience_score: Math.min(0.8, 0.55 + 0.03 * trend.games),
+      });
+    } else {
+      key_stats[`recent_${trend.stat}`] = String(trend.recent_average);
+      key_stats[`season_${trend.stat}`] = String(trend.season_average);
+      triggers.push({
+        category: TriggerCategory.TREND,
+        description: `${trend.player_name}: ${trend.description}`,
+        player_name: trend.player_name,
+        key_stats,
+        follow_up_question: `What's changed for ${trend.player_name} over the last ${trend.games} games?`,
+        salience_score: 0.5,
+      });
+    }
+  }
+
+  return triggers.sort((a, b) => b.salience_score - a.salience_score);
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { detectRuleTriggers, TRIGGER_RULE_THRESHOLDS } from './trigger-rules.js';
+import type { BoxScore, PlayerStats, TeamStats } from '../../baml_client/index.js';
+
+const player = (name: string, stats: Partial<PlayerStats> = {}): PlayerStats => ({
+  name,
+  position: 'F',
+  starter: true,
+  minutes: 20,
+  points: 6,
+  rebounds: 3,
+  assists: 1,
+  steals: 0,
+  blocks: 0,
+  turnovers: 1,
+  fouls: 2,
+  field_goals_made: 3,
+  field_goals_attempted: 8,
+  three_pointers_made: 0,
+  three_pointers_attempted: 1,
+  free_throws_made: 0,
+  free_throws_attempted: 0,
+  ...stats,
+});
+
+const team = (team_name: string, players: PlayerStats[], stats: Partial<TeamStats> = {}): TeamStats => ({
+  team_name,
+  total_points: players.reduce((sum, p) => sum + p.points, 0),
+  field_goals_made: 0,
+  field_goals_attempted: 0,
+  field_goal_percentage: 0,
+  three_pointers_made: 0,
+  three_pointers_attempted: 0,
+  three_point_percentage: 0,
+  free_throws_made: 10,
+  free_throws_attempted: 14,
+  free_throw_percentage: 71.4,
+  total_rebounds: 30,
+  assists: 12,
+  steals: 5,
+  blocks: 2,
+  turnovers: 12,
+  fouls: 15,
+  players,
+  ...stats,
+});
+
+const game = (home: TeamStats, away: TeamStats, metadata: Partial<BoxScore['metadata']> = {}): BoxScore => ({
+  metadata: {
+    home_team: home.team_name,
+    away_team: away.team_name,
+    home_score: home.total_points,
+    away_score: away.total_points,
+    is_overtime: false,
+    periods: 4,
+    ...metadata,
+  },
+  home_team: home,
+  away_team: away,
+});
+
+const QUIET = team('Skyline', [player('Kim Lee'), player('Joy Park')]);
+
+describe('detectRuleTriggers', () => {
+  it('should emit nothing for a game without notable lines', () => {
+    const boxScore = game(team('Marin', [player('Jane Smith')]), QUIET);
+    expect(detectRuleTriggers(boxScore).triggers).toEqual([]);
+  });
+
+  it('should emit a single scoring trigger at the highest tier reached', () => {
+    const boxScore = game(
+      team('Marin', [player('Jane Smith', { points: 31, field_goals_made: 11, field_goals_attempted: 20 })]),
+      QUIET
+    );
+    const scoring = detectRuleTriggers(boxScore).triggers.filter((t) => t.key_stats.points === '31');
+
+    expect(scoring).toHaveLength(1);
+    expect(scoring[0]).toMatchObject({
+      category: 'STATISTICAL_EXTREME',
+      player_name: 'Jane Smith',
+      description: 'Jane Smith scored 31 points',
+      key_stats: { points: '31', fg: '11-20', fg_pct: '55.0%' },
+      salience_score: 0.85,
+    });
+    expect(scoring[0].follow_up_question).toContain('Jane Smith');
+  });
+
+  it('should recognize efficient scoring on enough attempts', () => {
+    const efficient = game(
+      team('Marin', [player('Jane Smith', { points: 22, field_goals_made: 9, field_goals_attempted: 14 })]),
+      QUIET
+    );
+    const [trigger] = detectRuleTriggers(efficient).triggers;
+    expect(trigger.description).toBe('Jane Smith scored 22 points on 9-of-14 shooting');
+
+    // 5-of-6 is hot but below the attempt minimum
+    const fewShots = game(
+      team('Marin', [player('Jane Smith', { field_goals_made: 5, field_goals_attempted: 6 })]),
+      QUIET
+    );
+    expect(detectRuleTriggers(fewShots).triggers).toEqual([]);
+  });
+
+  it('should rank a triple-double first', () => {
+    const boxScore = game(
+      team('Marin', [
+        player('Jane Smith', { points: 26 }),
+        player('Ana Ruiz', { position: 'G', points: 14, rebounds: 11, assists: 10 }),
+      ]),
+      QUIET
+    );
+    const [first] = detectRuleTriggers(boxScore).triggers;
+
+    expect(first.description).toBe('Ana Ruiz recorded a triple-double');
+    expect(first.key_stats).toEqual({ points: '14', rebounds: '11', assists: '10' });
+    expect(first.salience_score).toBe(0.95);
+  });
+
+  it('should credit a reserve who outscored every starter', () => {
+    const boxScore = game(
+      team('Marin', [
+        player('Jane Smith', { points: 12 }),
+        player('Tia Adams', { starter: false, minutes: 18, points: 17 }),
+      ]),
+      QUIET
+    );
+    const bench = detectRuleTriggers(boxScore).triggers.filter((t) => t.category === 'UNEXPECTED_PERFORMANCE');
+
+    expect(bench).toHaveLength(1);
+    expect(bench[0].description).toBe('Tia Adams led Marin with 17 points off the bench');
+  });
+
+  it('should detect balanced scoring and rebounding dominance for the team that earned them', () => {
+    const scorers = ['A', 'B', 'C', 'D'].map((name) => player(name, { points: 11 }));
+    const boxScore = game(team('Marin', scorers, { total_rebounds: 48 }), QUIET);
+    const descriptions = detectRuleTriggers(boxScore).triggers.map((t) => t.description);
+
+    expect(descriptions).toContain('Marin had 4 players in double figures');
+    expect(descriptions).toContain('Marin outrebounded Skyline 48-30');
+    expect(descriptions.some((d) => d.startsWith('Skyline'))).toBe(false);
+  });
+
+  it('should use position-aware thresholds for blocks and ball security', () => {
+    const boxScore = game(
+      team('Marin', [
+        player('Big', { position: 'C', blocks: 3 }),
+        player('Wing', { position: 'F', blocks: 2 }),
+        player('Point', { position: 'G', assists: 6, turnovers: 0 }),
+      ]),
+      QUIET
+    );
+    const descriptions = detectRuleTriggers(boxScore).triggers.map((t) => t.description);
+
+    expect(descriptions).toContain('Wing blocked 2 shots');
+    expect(descriptions).not.toContain('Big blocked 3 shots');
+    expect(descriptions).toContain('Point had 6 assists without a turnover');
+  });
+
+  it('should add overtime and momentum triggers', () => {
+    const boxScore: BoxScore = {
+      ...game(team('Marin', [player('Jane Smith')]), QUIET, { is_overtime: true, periods: 5, home_score: 70, away_score: 66 }),
+      momentum: {
+        lead_changes: 3,
+        ties: 2,
+        home_largest_lead: 4,
+        away_largest_lead: 12,
+        biggest_run_team: 'Marin',
+        biggest_run_points: 11,
+        comeback_team: 'Marin',
+        comeback_size: 12,
+        last_two_minutes_home_points: 4,
+        last_two_minutes_away_points: 2,
+        margin_at_two_minutes: 2,
+      },
+    };
+    const clutch = detectRuleTriggers(boxScore).triggers.filter((t) => t.category === 'CLUTCH_MOMENT');
+
+    expect(clutch.map((t) => t.description)).toEqual([
+      'Marin came back from 12 points down',
+      'Marin won 70-66 in overtime',
+      'Marin scored 11 unanswered points',
+    ]);
+  });
+
+  it('should accept custom thresholds', () => {
+    const boxScore = game(team('Marin', [player('Jane Smith', { points: 18 })]), QUIET);
+
+    expect(detectRuleTriggers(boxScore).triggers).toEqual([]);
+    expect(
+      detectRuleTriggers(boxScore, { ...TRIGGER_RULE_THRESHOLDS, strongPoints: 18 }).triggers
+    ).toHaveLength(1);
+  });
+});
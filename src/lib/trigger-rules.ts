@@ -0,0 +1,525 @@
+/**
+ * Rule-Based Basketball Trigger Engine
+ *
+ * Implements the hard numeric rules from the DetectTriggers prompt as plain
+ * TypeScript, emitting the same Trigger shape with categories, key stats and
+ * templated follow-up questions. Rule triggers are instant, free and repeatable;
+ * EnrichTriggers then only has to rank them, sharpen the wording and add the
+ * non-obvious ones.
+ *
+ * Like the prompt, the rules celebrate positives: nothing here flags a player
+ * for a poor line, and team-level triggers credit the team that earned them.
+ */
+
+import { TriggerCategory, type BoxScore, type PlayerStats, type TeamStats, type Trigger, type TriggerList } from '../../baml_client/types.js';
+import { MOMENTUM_THRESHOLDS, type MomentumThresholds } from './story-signals.js';
+
+/**
+ * Thresholds for the trigger rules, matching the numbers in the DetectTriggers prompt
+ */
+export interface TriggerRuleThresholds {
+  /** Points for a strong scoring game */
+  strongPoints: number;
+  /** Points for an exceptional scoring game */
+  exceptionalPoints: number;
+  /** Points for an efficient scoring game (with efficientFgPct on minFgAttempts) */
+  efficientPoints: number;
+  /** FG% for hot shooting */
+  efficientFgPct: number;
+  /** Minimum FGA for FG% rules */
+  minFgAttempts: number;
+  /** 3PT% for excellent outside shooting */
+  threePointPct: number;
+  /** Minimum 3PA for the 3PT% rule */
+  minThreePointAttempts: number;
+  /** FT% for clutch free throw shooting */
+  freeThrowPct: number;
+  /** Minimum FTA for the FT% rule */
+  minFreeThrowAttempts: number;
+  /** Double figures in a category, for double-doubles and triple-doubles */
+  doubleDouble: number;
+  /** Rebounds for an impressive rebounding game */
+  impressiveRebounds: number;
+  /** Rebounds for a dominant rebounding game */
+  dominantRebounds: number;
+  /** Assists for an excellent playmaking game */
+  excellentAssists: number;
+  /** Assists for an exceptional playmaking game */
+  exceptionalAssists: number;
+  /** Minutes for a zero-turnover game to count */
+  cleanGameMinutes: number;
+  /** Assists for a guard's zero-turnover game */
+  cleanGuardAssists: number;
+  /** Steals for active defense */
+  steals: number;
+  /** Blocks for a center */
+  bigBlocks: number;
+  /** Blocks for a guard or forward */
+  perimeterBlocks: number;
+  /** Points for a productive reserve */
+  benchPoints: number;
+  /** Maximum minutes for a reserve's output to count as limited minutes */
+  benchMaxMinutes: number;
+  /** Assists for a big showing playmaking range */
+  bigAssists: number;
+  /** Rebounds for a guard */
+  guardRebounds: number;
+  /** Players in double figures for balanced scoring */
+  balancedScorers: number;
+  /** Team rebound differential for rebounding dominance */
+  reboundDifferential: number;
+  /** Team free throws made differential for a free throw margin */
+  freeThrowDifferential: number;
+}
+
+/**
+ * Default trigger rule thresholds, taken from the DetectTriggers prompt
+ */
+export const TRIGGER_RULE_THRESHOLDS: TriggerRuleThresholds = {
+  strongPoints: 25,
+  exceptionalPoints: 30,
+  efficientPoints: 20,
+  efficientFgPct: 60,
+  minFgAttempts: 10,
+  threePointPct: 50,
+  minThreePointAttempts: 5,
+  freeThrowPct: 90,
+  minFreeThrowAttempts: 8,
+  doubleDouble: 10,
+  impressiveRebounds: 12,
+  dominantRebounds: 15,
+  excellentAssists: 8,
+  exceptionalAssists: 10,
+  cleanGameMinutes: 25,
+  cleanGuardAssists: 5,
+  steals: 3,
+  bigBlocks: 4,
+  perimeterBlocks: 2,
+  benchPoints: 15,
+  benchMaxMinutes: 20,
+  bigAssists: 5,
+  guardRebounds: 10,
+  balancedScorers: 4,
+  reboundDifferential: 15,
+  freeThrowDifferential: 10,
+};
+
+function percentage(made: number, attempted: number): number {
+  return attempted > 0 ? (made / attempted) * 100 : 0;
+}
+
+function formatPct(made: number, attempted: number): string {
+  return `${percentage(made, attempted).toFixed(1)}%`;
+}
+
+function isCenter(player: PlayerStats): boolean {
+  return /\bC\b/i.test(player.position ?? '');
+}
+
+function isGuard(player: PlayerStats): boolean {
+  return /^G/i.test(player.position ?? '');
+}
+
+function trigger(
+  category: TriggerCategory,
+  description: string,
+  key_stats: Record<string, string>,
+  follow_up_question: string,
+  salience_score: number,
+  player_name: string | null = null
+): Trigger {
+  return { category, description, player_name, key_stats, follow_up_question, salience_score };
+}
+
+// ============================================================================
+// Player Rules
+// ============================================================================
+
+function scoringTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const { name, points, field_goals_made: fgm, field_goals_attempted: fga } = player;
+  const shooting = { points: String(points), fg: `${fgm}-${fga}`, fg_pct: formatPct(fgm, fga) };
+  const hot = fga >= t.minFgAttempts && percentage(fgm, fga) >= t.efficientFgPct;
+
+  if (points >= t.exceptionalPoints) {
+    return [trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} scored ${points} points`,
+      shooting,
+      `What was working for ${name} offensively tonight?`,
+      0.85,
+      name
+    )];
+  }
+  if (points >= t.efficientPoints && hot) {
+    return [trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} scored ${points} points on ${fgm}-of-${fga} shooting`,
+      shooting,
+      `How did ${name} find such good looks tonight?`,
+      0.75,
+      name
+    )];
+  }
+  if (points >= t.strongPoints) {
+    return [trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} scored ${points} points`,
+      shooting,
+      `What was working for ${name} offensively tonight?`,
+      0.7,
+      name
+    )];
+  }
+  if (hot) {
+    return [trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} shot ${fgm}-of-${fga} from the field`,
+      shooting,
+      `What was ${name} seeing on those shots?`,
+      0.55,
+      name
+    )];
+  }
+  return [];
+}
+
+function shootingTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+  const { name } = player;
+  const { three_pointers_made: tpm, three_pointers_attempted: tpa } = player;
+  const { free_throws_made: ftm, free_throws_attempted: fta } = player;
+
+  if (tpa >= t.minThreePointAttempts && percentage(tpm, tpa) >= t.threePointPct) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} made ${tpm} of ${tpa} three-pointers`,
+      { three_pt: `${tpm}-${tpa}`, three_pt_pct: formatPct(tpm, tpa) },
+      `Was the outside shot part of the game plan for ${name}?`,
+      0.6,
+      name
+    ));
+  }
+
+  if (fta >= t.minFreeThrowAttempts && percentage(ftm, fta) >= t.freeThrowPct) {
+    triggers.push(trigger(
+      TriggerCategory.CLUTCH_MOMENT,
+      `${name} made ${ftm} of ${fta} free throws`,
+      { ft: `${ftm}-${fta}`, ft_pct: formatPct(ftm, fta) },
+      `Did ${name}'s free throws come in key moments late in the game?`,
+      0.55,
+      name
+    ));
+  }
+
+  return triggers;
+}
+
+function allAroundTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const { name, points, rebounds, assists, steals, blocks } = player;
+  const categories = { points, rebounds, assists, steals, blocks };
+  const doubleFigures = Object.entries(categories).filter(([, value]) => value >= t.doubleDouble);
+  const keyStats = Object.fromEntries(doubleFigures.map(([stat, value]) => [stat, String(value)]));
+
+  if (doubleFigures.length >= 3) {
+    return [trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} recorded a triple-double`,
+      keyStats,
+      `How did ${name} fill up the stat sheet in so many ways tonight?`,
+      0.95,
+      name
+    )];
+  }
+  if (doubleFigures.length === 2) {
+    return [trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} recorded a double-double (${doubleFigures.map(([stat, value]) => `${value} ${stat}`).join(', ')})`,
+      keyStats,
+      `What allowed ${name} to impact the game on both fronts?`,
+      0.7,
+      name
+    )];
+  }
+  return [];
+}
+
+function reboundingTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const { name, rebounds } = player;
+  if (rebounds < t.impressiveRebounds) return [];
+
+  const dominant = rebounds >= t.dominantRebounds;
+  return [trigger(
+    TriggerCategory.STATISTICAL_EXTREME,
+    `${name} pulled down ${rebounds} rebounds`,
+    {
+      rebounds: String(rebounds),
+      ...(player.offensive_rebounds != null ? { offensive_rebounds: String(player.offensive_rebounds) } : {}),
+    },
+    `What was ${name}'s approach on the glass tonight?`,
+    dominant ? 0.8 : 0.65,
+    name
+  )];
+}
+
+function playmakingTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+  const { name, assists, turnovers, minutes, points } = player;
+
+  if (assists >= t.excellentAssists) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} dished out ${assists} assists`,
+      { assists: String(assists), turnovers: String(turnovers) },
+      `How was ${name} creating for teammates tonight?`,
+      assists >= t.exceptionalAssists ? 0.75 : 0.6,
+      name
+    ));
+  }
+
+  // Zero turnovers only matters with real minutes and real usage
+  if (turnovers === 0) {
+    if (isGuard(player) && assists >= t.cleanGuardAssists) {
+      triggers.push(trigger(
+        TriggerCategory.STATISTICAL_EXTREME,
+        `${name} had ${assists} assists without a turnover`,
+        { assists: String(assists), turnovers: '0' },
+        `What has gone into ${name}'s ball security?`,
+        0.55,
+        name
+      ));
+    } else if (minutes >= t.cleanGameMinutes && (points >= 10 || assists >= t.cleanGuardAssists)) {
+      triggers.push(trigger(
+        TriggerCategory.STATISTICAL_EXTREME,
+        `${name} played ${minutes} minutes without a turnover`,
+        { minutes: String(minutes), points: String(points), turnovers: '0' },
+        `What has gone into ${name}'s ball security?`,
+        0.5,
+        name
+      ));
+    }
+  }
+
+  return triggers;
+}
+
+function defensiveTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+  const { name, steals, blocks } = player;
+
+  if (steals >= t.steals) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} came up with ${steals} steals`,
+      { steals: String(steals) },
+      `What was ${name} reading on defense tonight?`,
+      0.5,
+      name
+    ));
+  }
+
+  if (blocks >= (isCenter(player) ? t.bigBlocks : t.perimeterBlocks)) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${name} blocked ${blocks} shots`,
+      { blocks: String(blocks), ...(player.position ? { position: player.position } : {}) },
+      `How did ${name} protect the rim tonight?`,
+      0.5,
+      name
+    ));
+  }
+
+  return triggers;
+}
+
+function versatilityTriggers(player: PlayerStats, t: TriggerRuleThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+  const { name, assists, rebounds } = player;
+
+  if (isCenter(player) && assists >= t.bigAssists) {
+    triggers.push(trigger(
+      TriggerCategory.UNEXPECTED_PERFORMANCE,
+      `${name} had ${assists} assists from the ${player.position} spot`,
+      { assists: String(assists), position: player.position ?? '' },
+      `Is playmaking a growing part of ${name}'s role?`,
+      0.6,
+      name
+    ));
+  }
+
+  if (isGuard(player) && rebounds >= t.guardRebounds) {
+    triggers.push(trigger(
+      TriggerCategory.UNEXPECTED_PERFORMANCE,
+      `${name} grabbed ${rebounds} rebounds as a guard`,
+      { rebounds: String(rebounds), position: player.position ?? '' },
+      `What got ${name} so involved on the boards tonight?`,
+      0.6,
+      name
+    ));
+  }
+
+  return triggers;
+}
+
+// ============================================================================
+// Team Rules
+// ============================================================================
+
+function benchTriggers(team: TeamStats, t: TriggerRuleThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+  const starters = team.players.filter((player) => player.starter);
+  const bench = team.players.filter((player) => !player.starter);
+  if (bench.length === 0) return triggers;
+
+  const topStarter = Math.max(0, ...starters.map((player) => player.points));
+  const topReserve = bench.reduce((best, player) => (player.points > best.points ? player : best));
+
+  if (starters.length > 0 && topReserve.points > topStarter) {
+    triggers.push(trigger(
+      TriggerCategory.UNEXPECTED_PERFORMANCE,
+      `${topReserve.name} led ${team.team_name} with ${topReserve.points} points off the bench`,
+      { points: String(topReserve.points), minutes: String(topReserve.minutes), top_starter_points: String(topStarter) },
+      `What did ${topReserve.name} bring off the bench tonight?`,
+      0.8,
+      topReserve.name
+    ));
+  }
+
+  for (const player of bench) {
+    if (player === topReserve && triggers.length > 0) continue;
+    if (player.points >= t.benchPoints && player.minutes <= t.benchMaxMinutes) {
+      triggers.push(trigger(
+        TriggerCategory.UNEXPECTED_PERFORMANCE,
+        `${player.name} scored ${player.points} points in ${player.minutes} minutes off the bench`,
+        { points: String(player.points), minutes: String(player.minutes) },
+        `How did ${player.name} make such an impact in limited minutes?`,
+        0.65,
+        player.name
+      ));
+    }
+  }
+
+  return triggers;
+}
+
+function teamPatternTriggers(team: TeamStats, opponent: TeamStats, t: TriggerRuleThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+
+  const scorers = team.players.filter((player) => player.points >= 10);
+  if (scorers.length >= t.balancedScorers) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${team.team_name} had ${scorers.length} players in double figures`,
+      Object.fromEntries(scorers.map((player) => [player.name, String(player.points)])),
+      `Was the balanced scoring by design for ${team.team_name}?`,
+      0.55
+    ));
+  }
+
+  const reboundDiff = team.total_rebounds - opponent.total_rebounds;
+  if (reboundDiff >= t.reboundDifferential) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${team.team_name} outrebounded ${opponent.team_name} ${team.total_rebounds}-${opponent.total_rebounds}`,
+      { rebounds: String(team.total_rebounds), opponent_rebounds: String(opponent.total_rebounds), differential: `+${reboundDiff}` },
+      `What was the emphasis on the glass for ${team.team_name}?`,
+      0.6
+    ));
+  }
+
+  const freeThrowDiff = team.free_throws_made - opponent.free_throws_made;
+  if (freeThrowDiff >= t.freeThrowDifferential) {
+    triggers.push(trigger(
+      TriggerCategory.STATISTICAL_EXTREME,
+      `${team.team_name} made ${freeThrowDiff} more free throws than ${opponent.team_name}`,
+      {
+        ft: `${team.free_throws_made}-${team.free_throws_attempted}`,
+        opponent_ft: `${opponent.free_throws_made}-${opponent.free_throws_attempted}`,
+      },
+      `How did ${team.team_name} get to the line so often?`,
+      0.45
+    ));
+  }
+
+  return triggers;
+}
+
+// ============================================================================
+// Game Rules
+// ============================================================================
+
+function gameTriggers(boxScore: BoxScore, momentumThresholds: MomentumThresholds): Trigger[] {
+  const triggers: Trigger[] = [];
+  const { metadata, momentum } = boxScore;
+  const winner = metadata.home_score >= metadata.away_score ? metadata.home_team : metadata.away_team;
+  const score = `${Math.max(metadata.home_score, metadata.away_score)}-${Math.min(metadata.home_score, metadata.away_score)}`;
+
+  if (metadata.is_overtime) {
+    triggers.push(trigger(
+      TriggerCategory.CLUTCH_MOMENT,
+      `${winner} won ${score} in overtime`,
+      { final: score, periods: String(metadata.periods) },
+      `What was the message heading into overtime?`,
+      0.8
+    ));
+  }
+
+  if (momentum?.comeback_team && momentum.comeback_size >= momentumThresholds.comebackDeficit) {
+    triggers.push(trigger(
+      TriggerCategory.CLUTCH_MOMENT,
+      `${momentum.comeback_team} came back from ${momentum.comeback_size} points down`,
+      { deficit: String(momentum.comeback_size), final: score },
+      `What changed for ${momentum.comeback_team} during the comeback?`,
+      0.85
+    ));
+  }
+
+  if (momentum?.biggest_run_team && momentum.biggest_run_points >= momentumThresholds.scoringRun) {
+    triggers.push(trigger(
+      TriggerCategory.CLUTCH_MOMENT,
+      `${momentum.biggest_run_team} scored ${momentum.biggest_run_points} unanswered points`,
+      { run: `${momentum.biggest_run_points}-0` },
+      `Who sparked the ${momentum.biggest_run_points}-0 run for ${momentum.biggest_run_team}?`,
+      0.6
+    ));
+  }
+
+  return triggers;
+}
+
+/**
+ * Detect triggers from a basketball box score using deterministic rules
+ *
+ * @param boxScore - Parsed basketball box score
+ * @param thresholds - Rule thresholds (defaults to the DetectTriggers prompt values)
+ * @returns TriggerList ordered by salience, highest first
+ */
+export function detectRuleTriggers(
+  boxScore: BoxScore,
+  thresholds: TriggerRuleThresholds = TRIGGER_RULE_THRESHOLDS
+): TriggerList {
+  const triggers: Trigger[] = [];
+  const teams: Array<[TeamStats, TeamStats]> = [
+    [boxScore.home_team, boxScore.away_team],
+    [boxScore.away_team, boxScore.home_team],
+  ];
+
+  for (const [team, opponent] of teams) {
+    for (const player of team.players) {
+      triggers.push(
+        ...allAroundTriggers(player, thresholds),
+        ...scoringTriggers(player, thresholds),
+        ...shootingTriggers(player, thresholds),
+        ...reboundingTriggers(player, thresholds),
+        ...playmakingTriggers(player, thresholds),
+        ...defensiveTriggers(player, thresholds),
+        ...versatilityTriggers(player, thresholds)
+      );
+    }
+    triggers.push(...benchTriggers(team, thresholds), ...teamPatternTriggers(team, opponent, thresholds));
+  }
+
+  triggers.push(...gameTriggers(boxScore, MOMENTUM_THRESHOLDS));
+
+  // Stable sort keeps the home team first among equal salience
+  return { triggers: triggers.sort((a, b) => b.salience_score - a.salience_score) };
+}
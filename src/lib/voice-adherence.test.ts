@@ -0,0 +1,103 @@
+/**
+ * Tests for voice adherence checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import type { GameRecap } from '../../baml_client/types.js';
+import { parseVoiceProfile } from './voice-profile.js';
+import { checkVoiceAdherence, terminologyRules, voiceOutputText } from './voice-adherence.js';
+
+const profile = parseVoiceProfile(readFileSync('profiles/example-marin-wbkb.md', 'utf-8'));
+
+const recap = (overrides: Partial<GameRecap> = {}): GameRecap => ({
+  headline: 'Mariners Battle Back to Top Diablo Valley',
+  subheadline: 'College of Marin rallied from 12 down in front of the home crowd',
+  lead_paragraph:
+    'College of Marin fought through a cold first half and rallied together to beat Diablo Valley College 68-64 on Tuesday.',
+  body_paragraphs: ['The local sophomore credited her teammates and the effort on the defensive end. Mariner Pride on display.'],
+  key_stats: ['Outscored DVC 22-10 in the fourth quarter'],
+  player_of_the_game: 'Maya Chen - 18 points, 11 rebounds',
+  ...overrides,
+});
+
+describe('terminologyRules', () => {
+  it('should sort quoted terms by the words leading up to them', () => {
+    const rules = terminologyRules(profile.terminology);
+
+    expect(rules.preferred).toEqual(['College of Marin', 'COM', 'student-athlete']);
+    expect(rules.avoided).toEqual(['Marin', 'junior college', 'JC']);
+    expect(rules.discouraged).toEqual(['player']);
+  });
+
+  it('should return empty rules without a terminology answer', () => {
+    expect(terminologyRules(null)).toEqual({ preferred: [], avoided: [], discouraged: [] });
+  });
+});
+
+describe('voiceOutputText', () => {
+  it('should flatten a recap into its prose', () => {
+    const text = voiceOutputText(recap());
+
+    expect(text).toContain('Mariners Battle Back');
+    expect(text).toContain('Outscored DVC');
+    expect(text).toContain('Maya Chen');
+  });
+});
+
+describe('checkVoiceAdherence', () => {
+  it('should pass on-voice copy', () => {
+    const report = checkVoiceAdherence(recap(), profile);
+
+    expect(report.passed).toBe(true);
+    expect(report.avoidedTerms).toEqual([]);
+    expect(report.bannedTones).toEqual([]);
+    expect(report.signaturePhrases.used).toEqual(['Mariner Pride']);
+    expect(report.personality.every((trait) => trait.matches.length > 0)).toBe(true);
+    expect(report.score).toBe(100);
+  });
+
+  it('should not count a preferred term as a use of an avoided one', () => {
+    const report = checkVoiceAdherence('College of Marin won again.', profile);
+
+    expect(report.avoidedTerms).toEqual([]);
+  });
+
+  it('should flag avoided terms and ruled-out tones', () => {
+    const report = checkVoiceAdherence(
+      recap({
+        headline: 'Marin Crushed Overmatched Diablo Valley',
+        lead_paragraph: 'The junior college leveraged its depth. The JC bench outscored DVC 30-4.',
+      }),
+      profile
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.avoidedTerms).toEqual([
+      { term: 'Marin', count: 1 },
+      { term: 'junior college', count: 1 },
+      { term: 'JC', count: 1 },
+    ]);
+    expect(report.bannedTones.map((tone) => tone.tone)).toEqual(['arrogant', 'elitist', 'corporate']);
+    expect(report.bannedTones[0].matches).toEqual(['crushed', 'overmatched']);
+    expect(report.score).toBeLessThan(50);
+  });
+
+  it('should note personality traits with nothing behind them', () => {
+    const report = checkVoiceAdherence('College of Marin beat Diablo Valley College 68-64.', profile);
+
+    expect(report.personality.find((trait) => trait.trait === 'Gritty')?.matches).toEqual([]);
+    expect(report.signaturePhrases.missing).toEqual(profile.signaturePhrases);
+    expect(report.passed).toBe(true);
+    expect(report.score).toBeLessThan(100);
+  });
+
+  it('should average in the judge score and fail below 60', () => {
+    const judge = { score: 40, on_voice: [], off_voice: ['"statement win" reads as bragging'], summary: 'Too boastful' };
+    const report = checkVoiceAdherence(recap(), profile, judge);
+
+    expect(report.score).toBe(70);
+    expect(report.passed).toBe(false);
+    expect(report.judge).toEqual(judge);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Voice Adherence
+ *
+ * Checks generated copy against the program's voice profile after the fact.
+ * SynthesizeNarratives and the recap prompts are told to match the personality
+ * words and avoid the "never sound like" tones; this reads what came back and
+ * reports where it didn't: terms the SID said never to use, wording that leans
+ * toward a ruled-out tone, personality traits with nothing in the copy behind
+ * them, and which signature phrases made it in.
+ *
+ * The checks are deterministic keyword matches, so they catch "junior college"
+ * but not a smug sentence. JudgeVoiceAdherence is the optional second read for
+ * that; its score is averaged in when it ran.
+ */
+
+import type { GameRecap, NarrativeSynthesis, VoiceJudgment } from '../../baml_client/types.js';
+import type { VoiceProfile } from './voice-profile.js';
+
+/**
+ * Terms from the profile's "always use (or avoid)" answer
+ */
+export interface TerminologyRules {
+  /** "Always say ..." */
+  preferred: string[];
+  /** "never ...", "not ...", "avoid ..." */
+  avoided: string[];
+  /** "... rather than ...", "... instead of ..." - a preference, not a rule */
+  discouraged: string[];
+}
+
+/**
+ * A term found in the copy and how often
+ */
+export interface TermMatch {
+  term: string;
+  count: number;
+}
+
+/**
+ * Result of checking copy against a voice profile
+ */
+export interface VoiceAdherenceReport {
+  program: string | null;
+  /** 0-100; the judge's score is averaged in when it ran */
+  score: number;
+  /** False when the copy uses a ruled-out term or tone, or the judge scored it under 60 */
+  passed: boolean;
+  avoidedTerms: TermMatch[];
+  discouragedTerms: TermMatch[];
+  /** Ruled-out tones and the words in the copy that lean toward them */
+  bannedTones: Array<{ tone: string; matches: string[] }>;
+  /** Ruled-out tones with no keyword list, left to the judge */
+  uncheckedTones: string[];
+  /** Personality traits and the words in the copy that back them up */
+  personality: Array<{ trait: string; matches: string[] }>;
+  signaturePhrases: { used: string[]; missing: string[] };
+  judge: VoiceJudgment | null;
+}
+
+/**
+ * Words that lean toward tones SIDs commonly rule out, keyed by a word in the tone
+ */
+const TONE_MARKERS: Record<string, string[]> = {
+  arrogant: ['dominated', 'dominates', 'crushed', 'destroyed', 'embarrassed', 'humiliated', 'overmatched', 'outclassed'],
+  elitist: ['lesser', 'lowly', 'beneath', 'overmatched', 'outclassed'],
+  dismissive: ['just a', 'merely', 'only a'],
+  corporate: ['leverage', 'leveraged', 'leveraging', 'synergy', 'stakeholders', 'deliverables', 'best-in-class', 'value proposition'],
+  polished: ['unparalleled', 'world-class', 'premier', 'elevated'],
+  sensational: ["you won't believe", 'insane', 'shocking', 'jaw-dropping', 'unbelievable'],
+  clickbait: ["you won't believe", 'shocking', 'jaw-dropping'],
+  hype: ['insane', 'unstoppable', 'legendary', 'epic'],
+  negative: ['disappointing', 'embarrassing', 'meltdown', 'collapse'],
+  snarky: ['of course', 'apparently', 'somehow'],
+};
+
+/**
+ * Words that back up common personality traits, keyed by a word in the trait
+ */
+const PERSONALITY_MARKERS: Record<string, string[]> = {
+  gritty: ['grit', 'gritty', 'battled', 'fought', 'scrapped', 'hustle', 'tough', 'grind'],
+  resilient: ['bounced back', 'responded', 'rallied', 'overcame', 'resilient', 'comeback', 'answered'],
+  family: ['family', 'together', 'teammates', 'each other', 'sisterhood', 'brotherhood'],
+  community: ['community', 'local', 'hometown', 'home crowd', 'neighbors'],
+  'blue-collar': ['work', 'effort', 'hard-working', 'blue-collar', 'hustle'],
+  competitive: ['compete', 'competed', 'competitive', 'battle', 'battled'],
+  humble: ['credit', 'grateful', 'thankful'],
+  proud: ['pride', 'proud'],
+  energetic: ['energy', 'electric', 'fast-paced', 'spark'],
+  academic: ['classroom', 'student-athlete', 'academic', 'scholar'],
+};
+
+const ESCAPE = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Count whole-word occurrences of a term. Short all-caps terms like "JC" match
+ * case-sensitively so they don't hit ordinary words.
+ */
+function countTerm(text: string, term: string): number {
+  const caseSensitive = term.length <= 4 && term === term.toUpperCase();
+  const pattern = new RegExp(`(?<![\\w-])${term.replace(ESCAPE, '\\$&')}(?![\\w-])`, caseSensitive ? 'g' : 'gi');
+  return text.match(pattern)?.length ?? 0;
+}
+
+function termMatches(text: string, terms: string[]): TermMatch[] {
+  return terms
+    .map((term) => ({ term, count: countTerm(text, term) }))
+    .filter((match) => match.count > 0);
+}
+
+function markersFor(label: string, lexicon: Record<string, string[]>): string[] | null {
+  const lower = label.toLowerCase();
+  const keys = Object.keys(lexicon).filter((key) => lower.includes(key));
+  if (keys.length === 0) return null;
+  return [...new Set(keys.flatMap((key) => lexicon[key]))];
+}
+
+/**
+ * Flatten a recap or synthesis into the prose a reader would see
+ */
+export function voiceOutputText(output: GameRecap | NarrativeSynthesis | string): string {
+  if (typeof output === 'string') return output;
+  if ('headline' in output) {
+    return [
+      output.headline,
+      output.subheadline,
+      output.lead_paragraph,
+      ...output.body_paragraphs,
+      ...output.key_stats,
+      output.player_of_the_game,
+    ].join('\n\n');
+  }
+  return [
+    ...output.angles.flatMap((angle) => [angle.title, angle.hook, angle.audience_relevance]),
+    output.lead_recommendation,
+    output.audience_note ?? '',
+  ].join('\n\n');
+}
+
+/**
+ * Sort the quoted terms in a terminology answer into preferred, avoided and
+ * discouraged by the words leading up to each quote in its clause
+ *
+ * @example
+ * terminologyRules('Always say "College of Marin" or "COM," never "junior college" or "JC"')
+ * // { preferred: ['College of Marin', 'COM'], avoided: ['junior college', 'JC'], discouraged: [] }
+ */
+export function terminologyRules(text: string | null): TerminologyRules {
+  const rules: TerminologyRules = { preferred: [], avoided: [], discouraged: [] };
+  if (!text) return rules;
+
+  for (const match of text.matchAll(/["“]([^"”]+)["”]/g)) {
+    const term = match[1].trim().replace(/[.,;:!?]+$/, '');
+    if (!term) continue;
+
+    // Blank out earlier quotes, keeping punctuation that ends one ("Marin.") as a clause break
+    const before = text
+      .slice(0, match.index)
+      .replace(/["“]([^"”]*)["”]/g, (_, quoted: string) => `""${quoted.match(/[.;,]+$/)?.[0] ?? ''}`);
+    const clause = before.split(/[.;,—–]/).pop() ?? '';
+
+    if (/\b(rather than|instead of)\b/i.test(clause)) rules.discouraged.push(term);
+    else if (/\b(never|not|avoid|don't|do not)\b/i.test(clause)) rules.avoided.push(term);
+    else rules.preferred.push(term);
+  }
+  return rules;
+}
+
+/**
+ * Check copy against a voice profile
+ *
+ * Preferred terms are blanked out before looking for avoided ones, so "College
+ * of Marin" doesn't count as a use of "Marin".
+ *
+ * @param output - A GameRecap, NarrativeSynthesis or plain text
+ * @param profile - Parsed voice profile (see parseVoiceProfile)
+ * @param judge - JudgeVoiceAdherence result, if it ran
+ */
+export function checkVoiceAdherence(
+  output: GameRecap | NarrativeSynthesis | string,
+  profile: VoiceProfile,
+  judge: VoiceJudgment | null = null
+): VoiceAdherenceReport {
+  const text = voiceOutputText(output);
+  const rules = terminologyRules(profile.terminology);
+
+  let stripped = text;
+  for (const term of [...rules.preferred].sort((a, b) => b.length - a.length)) {
+    stripped = stripped.replace(new RegExp(term.replace(ESCAPE, '\\$&'), 'gi'), ' ');
+  }
+  const avoidedTerms = termMatches(stripped, rules.avoided);
+  const discouragedTerms = termMatches(stripped, rules.discouraged);
+
+  const bannedTones: VoiceAdherenceReport['bannedTones'] = [];
+  const uncheckedTones: string[] = [];
+  for (const tone of profile.bannedTones) {
+    const markers = markersFor(tone, TONE_MARKERS);
+    if (!markers) {
+      uncheckedTones.push(tone);
+      continue;
+    }
+    const matches = termMatches(text, markers).map((match) => match.term);
+    if (matches.length > 0) bannedTones.push({ tone, matches });
+  }
+
+  const personality: VoiceAdherenceReport['personality'] = [];
+  for (const trait of profile.personality) {
+    const markers = markersFor(trait, PERSONALITY_MARKERS);
+    if (markers) personality.push({ trait, matches: termMatches(text, markers).map((match) => match.term) });
+  }
+
+  const used = profile.signaturePhrases.filter((phrase) => countTerm(text, phrase) > 0);
+  const missing = profile.signaturePhrases.filter((phrase) => !used.includes(phrase));
+
+  // Ruled-out terms and tones cost the most; a missing signature phrase barely registers
+  const backed = personality.filter((trait) => trait.matches.length > 0).length;
+  const coverage = personality.length > 0 ? backed / personality.length : 1;
+  let score =
+    100 -
+    20 * avoidedTerms.length -
+    15 * bannedTones.length -
+    5 * discouragedTerms.length -
+    20 * (1 - coverage) -
+    (profile.signaturePhrases.length > 0 && used.length === 0 ? 5 : 0);
+  score = Math.max(0, Math.min(100, Math.round(score)));
+  if (judge) score = Math.round((score + judge.score) / 2);
+
+  return {
+    program: profile.programName,
+    score,
+    passed: avoidedTerms.length === 0 && bannedTones.length === 0 && (!judge || judge.score >= 60),
+    avoidedTerms,
+    discouragedTerms,
+    bannedTones,
+    uncheckedTones,
+    personality,
+    signaturePhrases: { used, missing },
+    judge,
+  };
+}
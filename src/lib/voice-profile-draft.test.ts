@@ -0,0 +1,75 @@
+/**
+ * Tests for voice profile drafting helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fillVoiceProfileTemplate, htmlToText, recurringPhrases } from './voice-profile-draft.js';
+import { parseVoiceProfile, validateVoiceProfile } from './voice-profile.js';
+
+const template = readFileSync('profiles/TEMPLATE.md', 'utf-8');
+
+describe('htmlToText', () => {
+  it('should keep paragraph breaks and drop scripts', () => {
+    const html = '<html><script>track()</script><h1>Mariners Win</h1><p>College of Marin&nbsp;won &amp; moved on.</p></html>';
+
+    expect(htmlToText(html)).toBe('Mariners Win\nCollege of Marin won & moved on.');
+  });
+});
+
+describe('recurringPhrases', () => {
+  const recaps = [
+    'College of Marin rallied late. "That\'s Mariner Pride," the coach said of her student-athletes.',
+    'Mariner Pride was on display as College of Marin won again. The student-athletes celebrated.',
+    'College of Marin fell on the road.',
+  ];
+
+  it('should find phrases used in more than one recap', () => {
+    const phrases = recurringPhrases(recaps);
+
+    expect(phrases[0]).toEqual({ phrase: 'College of Marin', recaps: 3 });
+    expect(phrases).toContainEqual({ phrase: 'Mariner Pride', recaps: 2 });
+    expect(phrases).toContainEqual({ phrase: 'student-athletes', recaps: 2 });
+  });
+
+  it('should drop sub-phrases of a phrase used as often', () => {
+    const phrases = recurringPhrases(recaps).map((entry) => entry.phrase);
+
+    expect(phrases).not.toContain('College of');
+    expect(phrases).not.toContain('Marin');
+  });
+
+  it('should respect minRecaps', () => {
+    expect(recurringPhrases(recaps, { minRecaps: 3 })).toEqual([{ phrase: 'College of Marin', recaps: 3 }]);
+  });
+});
+
+describe('fillVoiceProfileTemplate', () => {
+  const draft = {
+    program_name: 'College of Marin Mariners Women\'s Basketball',
+    answers: [
+      { number: 1, answer: "We're a community college program in Marin County.", confidence: 'high', evidence: 'Every recap' },
+      { number: 2, answer: 'Gritty, resilient, family-oriented', confidence: 'medium', evidence: 'Comeback framing in 5 of 8 recaps' },
+      { number: 8, answer: null, confidence: 'low', evidence: 'No rivalry games in the recaps' },
+    ],
+  };
+
+  it('should write answers with confidence notes into the template layout', () => {
+    const markdown = fillVoiceProfileTemplate(template, draft, 8);
+
+    expect(markdown).toMatch(/^# Voice Profile: College of Marin Mariners Women's Basketball/);
+    expect(markdown).toContain('Drafted from 8 published recaps');
+    expect(markdown).not.toContain('Copy this file');
+    expect(markdown).toContain("> We're a community college program in Marin County.\n\n**Draft confidence: high** — Every recap");
+    expect(markdown).toContain('**Draft confidence: low** — No rivalry games in the recaps');
+  });
+
+  it('should parse as a profile with the undrafted questions unanswered', () => {
+    const profile = parseVoiceProfile(fillVoiceProfileTemplate(template, draft, 8));
+
+    expect(profile.programName).toBe("College of Marin Mariners Women's Basketball");
+    expect(profile.personality).toEqual(['Gritty', 'resilient', 'family-oriented']);
+    expect(profile.unanswered.map((q) => q.number)).toEqual([3, 4, 5, 6, 7, 8, 9, 10, null]);
+    expect(validateVoiceProfile(profile).valid).toBe(false);
+  });
+});
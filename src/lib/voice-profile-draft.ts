@@ -0,0 +1,173 @@
+/**
+ * Voice Profile Drafts
+ *
+ * Helpers for drafting a program's voice profile from recaps it already
+ * published: turning saved HTML into text, finding phrases that recur across
+ * recaps, and writing DraftVoiceProfile's answers into the TEMPLATE.md layout
+ * with a confidence note under each one for the SID to review.
+ *
+ * The draft parses like any other profile, so validateVoiceProfile reports the
+ * questions the recaps couldn't answer.
+ */
+
+import type { DraftedAnswer, VoiceProfileDraft } from '../../baml_client/types.js';
+import { UNANSWERED_PLACEHOLDER } from './voice-profile.js';
+
+/**
+ * Strip a saved recap page down to its text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<\/(p|div|h[1-6]|li|br)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+/**
+ * A phrase and how many recaps use it
+ */
+export interface RecurringPhrase {
+  phrase: string;
+  recaps: number;
+}
+
+export interface RecurringPhraseOptions {
+  /** Recaps a phrase must appear in (default 2) */
+  minRecaps?: number;
+  /** Longest phrase in words (default 4) */
+  maxWords?: number;
+  /** Most phrases to return (default 30) */
+  limit?: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'they', 'this', 'to', 'was',
+  'were', 'with',
+]);
+
+/**
+ * Phrases of two or more words, plus hyphenated words like "student-athletes",
+ * that appear in at least `minRecaps` recaps. Phrases can't start or end on a
+ * stopword, and a phrase is dropped when a longer one containing it appears in
+ * as many recaps.
+ *
+ * @returns Most widely used first
+ */
+export function recurringPhrases(texts: string[], options: RecurringPhraseOptions = {}): RecurringPhrase[] {
+  const { minRecaps = 2, maxWords = 4, limit = 30 } = options;
+  const counts = new Map<string, { phrase: string; recaps: number }>();
+
+  for (const text of texts) {
+    const seen = new Set<string>();
+    // Sentences bound phrases so "won. The" isn't one
+    for (const sentence of text.split(/[.!?;:\n"“”()]+/)) {
+      const words = sentence.match(/[A-Za-z][A-Za-z'’-]*/g) ?? [];
+      for (let start = 0; start < words.length; start++) {
+        for (let length = 1; length <= maxWords && start + length <= words.length; length++) {
+          const slice = words.slice(start, start + length);
+          if (length === 1 && !slice[0].includes('-')) continue;
+          if (STOPWORDS.has(slice[0].toLowerCase()) || STOPWORDS.has(slice[length - 1].toLowerCase())) continue;
+
+          const phrase = slice.join(' ');
+          const key = phrase.toLowerCase();
+          if (seen.has(key)) continue;
+          seen.add(key);
+          const entry = counts.get(key) ?? { phrase, recaps: 0 };
+          entry.recaps++;
+          counts.set(key, entry);
+        }
+      }
+    }
+  }
+
+  const frequent = [...counts.values()].filter((entry) => entry.recaps >= minRecaps);
+  const kept = frequent.filter(
+    (entry) =>
+      !frequent.some(
+        (other) =>
+          other !== entry &&
+          other.recaps === entry.recaps &&
+          ` ${other.phrase.toLowerCase()} `.includes(` ${entry.phrase.toLowerCase()} `)
+      )
+  );
+
+  return kept
+    .sort((a, b) => b.recaps - a.recaps || b.phrase.split(' ').length - a.phrase.split(' ').length || a.phrase.localeCompare(b.phrase))
+    .slice(0, limit);
+}
+
+const QUESTION_HEADING = /^###\s+(\d+)\.\s/;
+const SECTION_HEADING = /^##\s+(.+?)\s*$/;
+
+function confidenceNote(answer: DraftedAnswer): string {
+  return `**Draft confidence: ${answer.confidence}** — ${answer.evidence}`;
+}
+
+/**
+ * Write a draft into the voice profile template
+ *
+ * Each "[Your answer here]" is replaced by the drafted answer, followed by its
+ * confidence note. Questions the draft left null keep the placeholder, with the
+ * note saying why, so they still show up as unanswered.
+ *
+ * @param template - TEMPLATE.md content
+ * @param draft - DraftVoiceProfile result
+ * @param recapCount - Number of recaps the draft was read from
+ */
+export function fillVoiceProfileTemplate(template: string, draft: VoiceProfileDraft, recapCount: number): string {
+  const lines = template.split(/\r?\n/);
+  const output: string[] = [];
+  let current: number | null | undefined;
+  let inIntro = false;
+
+  for (const line of lines) {
+    if (/^#\s+Voice Profile Template/.test(line)) {
+      output.push(`# Voice Profile: ${draft.program_name}`, '');
+      output.push(
+        `*Drafted from ${recapCount} published recaps. Review every answer and its confidence note, then delete the notes.*`
+      );
+      inIntro = true;
+      continue;
+    }
+    // The template's "copy this file" instructions don't belong in a profile
+    if (inIntro) {
+      if (line.startsWith('---') || line.startsWith('#')) inIntro = false;
+      else continue;
+      output.push('');
+    }
+
+    const question = line.match(QUESTION_HEADING);
+    const section = line.match(SECTION_HEADING);
+    if (question) current = parseInt(question[1], 10);
+    else if (section) current = /^additional context$/i.test(section[1]) ? null : undefined;
+
+    const drafted =
+      line.trim() === `> ${UNANSWERED_PLACEHOLDER}` && current !== undefined
+        ? draft.answers.find((answer) => (answer.number ?? null) === current)
+        : undefined;
+    if (!drafted) {
+      output.push(line);
+      continue;
+    }
+
+    if (drafted.answer?.trim()) {
+      output.push(...drafted.answer.trim().split(/\r?\n/).map((text) => (text ? `> ${text}` : '>')));
+    } else {
+      output.push(line);
+    }
+    output.push('', confidenceNote(drafted));
+  }
+
+  return output.join('\n');
+}
@@ -8,6 +8,10 @@ import {
   voiceProfileExists,
   getVoiceProfileTemplate,
   VoiceProfileError,
+  parseVoiceProfile,
+  validateVoiceProfile,
+  formatVoiceProfile,
+  loadProgramVoiceProfile,
 } from './voice-profile.js';
 
 describe('loadVoiceProfile', () => {
@@ -65,3 +69,95 @@ describe('getVoiceProfileTemplate', () => {
     expect(result.isTemplate).toBe(true);
   });
 });
+
+describe('parseVoiceProfile', () => {
+  const marin = loadVoiceProfile('profiles/example-marin-wbkb.md');
+
+  it('should map the numbered answers onto typed fields', () => {
+    const profile = marin.profile;
+
+    expect(profile.programName).toBe("College of Marin Mariners Women's Basketball");
+    expect(profile.personality).toEqual(['Gritty', 'family-oriented', 'resilient', 'community-connected', 'blue-collar']);
+    expect(profile.bannedTones).toEqual([
+      'arrogant',
+      'elitist',
+      'dismissive of community college athletics',
+      'corporate',
+      'overly polished',
+    ]);
+    expect(profile.signaturePhrases).toEqual(['Mariner Pride', 'Family First', 'Built Different']);
+    expect(profile.audiences).toContain('parents of players');
+    expect(profile.rivalries).toContain('Diablo Valley College');
+    expect(profile.unanswered).toEqual([]);
+    expect(marin.isTemplate).toBe(false);
+  });
+
+  it('should list every question of the template as unanswered', () => {
+    const profile = getVoiceProfileTemplate().profile;
+
+    expect(profile.unanswered).toHaveLength(11);
+    expect(profile.answers.every((a) => a.answer === null)).toBe(true);
+    expect(profile.personality).toEqual([]);
+  });
+
+  it('should report a placeholder answer as unanswered', () => {
+    const halfFilled = marin.content.replace(/> Gritty.*$/m, '> [Your answer here]');
+    const profile = parseVoiceProfile(halfFilled);
+
+    expect(profile.unanswered).toEqual([{ number: 2, title: "What's your program's personality?" }]);
+  });
+});
+
+describe('validateVoiceProfile', () => {
+  it('should pass a complete profile', () => {
+    expect(validateVoiceProfile(loadVoiceProfile('profiles/example-marin-wbkb.md').profile)).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it('should report unanswered questions and a half-filled profile', () => {
+    const content = loadVoiceProfile('profiles/example-marin-wbkb.md').content
+      .replace(/> Our biggest rival.*$/m, '> [Your answer here]')
+      .replace(/> This season we're rebuilding.*$/m, '>')
+      .replace(/> Gritty.*$/m, '> Gritty, resilient');
+    const result = validateVoiceProfile(content);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Question 8 ("What\'s your rivalry situation?") is unanswered']);
+    expect(result.warnings).toEqual([
+      'Additional Context is unanswered',
+      'Profile is partially filled: 9 of 10 questions answered',
+      'Personality lists 2 words; the template asks for 3-5',
+    ]);
+  });
+});
+
+describe('formatVoiceProfile', () => {
+  it('should include only answered questions from the requested sections', () => {
+    const content = loadVoiceProfile('profiles/example-marin-wbkb.md').content.replace(
+      /> "Mariner Pride".*$/m,
+      '> [Your answer here]'
+    );
+    const text = formatVoiceProfile(parseVoiceProfile(content), ['storytelling']);
+
+    expect(text).toContain('## 7. What player stories do you love to tell?');
+    expect(text).toContain('## 8. What\'s your rivalry situation?');
+    expect(text).not.toContain('Any signature phrases');
+    expect(text).not.toContain('Who are you?');
+    expect(text).not.toContain('[Your answer here]');
+  });
+});
+
+describe('loadProgramVoiceProfile', () => {
+  it("should load a program's profile by id", () => {
+    const profile = loadProgramVoiceProfile('example-marin-wbkb');
+
+    expect(profile?.programName).toBe("College of Marin Mariners Women's Basketball");
+  });
+
+  it('should return null when the program has no profile', () => {
+    expect(loadProgramVoiceProfile('nowhere-wbkb')).toBeNull();
+  });
+});
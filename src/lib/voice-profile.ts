@@ -6,13 +6,16 @@
  * structured questions about program identity, audience, storytelling preferences,
  * and practical guidelines.
  *
- * This module implements the simple approach: return raw markdown that the LLM can
- * interpret directly. This preserves nuance and requires no parsing logic.
+ * The raw markdown is still returned for prompts that want it whole, but profiles
+ * are also parsed into a typed VoiceProfile (parseVoiceProfile) so callers can pull
+ * out personality words, banned tones and signature phrases, inject only the
+ * sections a prompt needs, and report questions the SID hasn't answered yet.
  */
 
 import { readFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import type { ValidationResult } from './normalizer.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, '../..');
@@ -33,9 +36,15 @@ export interface VoiceProfileResult {
   path: string;
 
   /**
-   * Whether this is the default template (not a filled-out profile)
+   * Whether this is the default template (not a filled-out profile): the template
+   * file itself, or a copy with no questions answered
    */
   isTemplate: boolean;
+
+  /**
+   * The profile parsed into typed fields
+   */
+  profile: VoiceProfile;
 }
 
 /**
@@ -92,12 +101,14 @@ export function loadVoiceProfile(
   if (existsSync(resolvedPath)) {
     try {
       const content = readFileSync(resolvedPath, 'utf-8');
-      const isTemplate = resolvedPath.includes('TEMPLATE.md');
+      const profile = parseVoiceProfile(content);
+      const isTemplate = resolvedPath.includes('TEMPLATE.md') || profile.answers.every((a) => a.answer === null);
 
       return {
         content,
         path: resolvedPath,
         isTemplate,
+        profile,
       };
     } catch (error) {
       throw new VoiceProfileError(
@@ -120,6 +131,7 @@ export function loadVoiceProfile(
           content,
           path: templatePath,
           isTemplate: true,
+          profile: parseVoiceProfile(content),
         };
       } catch (error) {
         throw new VoiceProfileError(
@@ -171,3 +183,273 @@ export function voiceProfileExists(profilePath: string): boolean {
 export function getVoiceProfileTemplate(): VoiceProfileResult {
   return loadVoiceProfile('profiles/TEMPLATE.md');
 }
+
+/**
+ * Path of a program's voice profile, e.g. profiles/marin-wbkb.md
+ */
+export function programVoiceProfilePath(program: string): string {
+  return join('profiles', `${program}.md`);
+}
+
+/**
+ * Load and parse a program's voice profile, or null if it hasn't written one yet
+ *
+ * @param program - Program id, e.g. "marin-wbkb"
+ */
+export function loadProgramVoiceProfile(program: string): VoiceProfile | null {
+  const path = programVoiceProfilePath(program);
+  return voiceProfileExists(path) ? loadVoiceProfile(path).profile : null;
+}
+
+// ============================================================================
+// Parsing and Validation
+// ============================================================================
+
+/**
+ * Placeholder the template puts under every question
+ */
+export const UNANSWERED_PLACEHOLDER = '[Your answer here]';
+
+/**
+ * Template sections, in order. Numbered questions map onto these by number so a
+ * renamed heading doesn't move a question.
+ */
+export type VoiceProfileSection = 'identity' | 'audience' | 'storytelling' | 'guidelines' | 'additional';
+
+export const VOICE_PROFILE_SECTIONS: readonly VoiceProfileSection[] = [
+  'identity',
+  'audience',
+  'storytelling',
+  'guidelines',
+  'additional',
+];
+
+/**
+ * Sections narrative synthesis reads. Picking angles needs who the program is,
+ * who's reading and what stories land; naming rules only matter once writing.
+ */
+export const SYNTHESIS_VOICE_SECTIONS: readonly VoiceProfileSection[] = ['identity', 'audience', 'storytelling'];
+
+/**
+ * The numbered template questions and the section each belongs to
+ */
+export const VOICE_PROFILE_QUESTIONS: ReadonlyArray<{ number: number; title: string; section: VoiceProfileSection }> = [
+  { number: 1, title: 'Who are you?', section: 'identity' },
+  { number: 2, title: "What's your program's personality?", section: 'identity' },
+  { number: 3, title: 'What do you never want to sound like?', section: 'identity' },
+  { number: 4, title: 'Who reads your content?', section: 'audience' },
+  { number: 5, title: 'What does your fanbase care about most?', section: 'audience' },
+  { number: 6, title: 'What makes a "big deal" for your program?', section: 'audience' },
+  { number: 7, title: 'What player stories do you love to tell?', section: 'storytelling' },
+  { number: 8, title: "What's your rivalry situation?", section: 'storytelling' },
+  { number: 9, title: 'Any signature phrases or traditions?', section: 'storytelling' },
+  { number: 10, title: 'Any names or terms to always use (or avoid)?', section: 'guidelines' },
+];
+
+/**
+ * One question from a profile and the SID's answer
+ */
+export interface VoiceProfileAnswer {
+  /** Question number, or null for the unnumbered Additional Context section */
+  number: number | null;
+  title: string;
+  section: VoiceProfileSection;
+  /** The answer text, or null when blank or still the placeholder */
+  answer: string | null;
+}
+
+/**
+ * A voice profile parsed into typed fields
+ *
+ * List fields are split from the free-text answers; the full answers stay in
+ * `answers` for prompts that want the SID's own wording.
+ */
+export interface VoiceProfile {
+  /** From the "# Voice Profile: ..." heading */
+  programName: string | null;
+  identity: string | null;
+  personality: string[];
+  bannedTones: string[];
+  audiences: string[];
+  fanbaseValues: string[];
+  bigDeals: string[];
+  playerStories: string | null;
+  rivalries: string | null;
+  signaturePhrases: string[];
+  terminology: string | null;
+  additionalContext: string | null;
+  answers: VoiceProfileAnswer[];
+  /** Template questions that are missing, blank or still the placeholder */
+  unanswered: Array<{ number: number | null; title: string }>;
+}
+
+const QUESTION_HEADING = /^###\s+(\d+)\.\s+(.+?)\s*$/;
+const SECTION_HEADING = /^##\s+(.+?)\s*$/;
+const PROFILE_HEADING = /^#\s+Voice Profile:\s*(.+?)\s*$/;
+
+function sectionFor(number: number | null): VoiceProfileSection {
+  return VOICE_PROFILE_QUESTIONS.find((q) => q.number === number)?.section ?? 'additional';
+}
+
+/**
+ * Split a free-text answer into list items on commas, semicolons, sentence
+ * breaks and dashes
+ */
+function splitList(text: string | null): string[] {
+  if (!text) return [];
+  return text
+    .split(/[,;]|\.\s+|\s+[—–-]\s+/)
+    .map((item) => item.trim().replace(/^(and|or)\s+/i, '').replace(/\.$/, '').trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Pull tones out of "Never arrogant, never elitist. Avoid sounding corporate or
+ * overly polished" and drop explanatory clauses ("we're real people...")
+ */
+function splitTones(text: string | null): string[] {
+  return splitList(text)
+    .map((item) => item.replace(/^(never|avoid sounding|avoid|don't sound|not|no)\s+/i, ''))
+    .flatMap((item) => item.split(/\s+or\s+/))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0 && !/^(we|we're|our|us|they|it|it's|this)\b/i.test(item));
+}
+
+/**
+ * Quoted phrases like "Mariner Pride", falling back to list items when nothing is quoted
+ */
+function quotedPhrases(text: string | null): string[] {
+  if (!text) return [];
+  const quoted = [...text.matchAll(/["“]([^"”]+)["”]/g)].map((match) => match[1].trim());
+  return quoted.length > 0 ? quoted : splitList(text);
+}
+
+/**
+ * Parse voice profile markdown into a VoiceProfile
+ *
+ * Expects the TEMPLATE.md layout: "### N. Question" headings with the answer in
+ * a "> " blockquote, and an unnumbered "## Additional Context" section.
+ *
+ * @param markdown - Profile markdown
+ * @returns The parsed profile; never throws, unanswered questions are listed instead
+ */
+export function parseVoiceProfile(markdown: string): VoiceProfile {
+  const answers: VoiceProfileAnswer[] = [];
+  let programName: string | null = null;
+  let current: { number: number | null; title: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const text = current.lines.join('\n').trim();
+    const answered = text !== '' && !text.includes(UNANSWERED_PLACEHOLDER);
+    answers.push({
+      number: current.number,
+      title: current.title,
+      section: sectionFor(current.number),
+      answer: answered ? text : null,
+    });
+    current = null;
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const profileHeading = line.match(PROFILE_HEADING);
+    const question = line.match(QUESTION_HEADING);
+    const section = line.match(SECTION_HEADING);
+
+    if (profileHeading) {
+      programName = profileHeading[1];
+    } else if (question) {
+      flush();
+      current = { number: parseInt(question[1], 10), title: question[2], lines: [] };
+    } else if (section) {
+      flush();
+      // Additional Context has no numbered question; the section is the question
+      if (/^additional context$/i.test(section[1])) {
+        current = { number: null, title: section[1], lines: [] };
+      }
+    } else if (current && line.startsWith('>')) {
+      current.lines.push(line.replace(/^>\s?/, ''));
+    }
+  }
+  flush();
+
+  const answerTo = (number: number | null) => answers.find((a) => a.number === number)?.answer ?? null;
+
+  const unanswered = [
+    ...VOICE_PROFILE_QUESTIONS.filter((q) => answerTo(q.number) === null).map(({ number, title }) => ({ number, title })),
+    ...(answers.some((a) => a.number === null && a.answer !== null) ? [] : [{ number: null, title: 'Additional Context' }]),
+  ];
+
+  return {
+    programName,
+    identity: answerTo(1),
+    personality: splitList(answerTo(2)),
+    bannedTones: splitTones(answerTo(3)),
+    audiences: splitList(answerTo(4)),
+    fanbaseValues: splitList(answerTo(5)),
+    bigDeals: splitList(answerTo(6)),
+    playerStories: answerTo(7),
+    rivalries: answerTo(8),
+    signaturePhrases: quotedPhrases(answerTo(9)),
+    terminology: answerTo(10),
+    additionalContext: answerTo(null),
+    answers,
+    unanswered,
+  };
+}
+
+/**
+ * Check a profile for unanswered questions
+ *
+ * Every numbered question must be answered. Additional Context is optional, and
+ * a personality answer outside the template's 3-5 words is a warning.
+ *
+ * @param profile - A parsed profile or profile markdown
+ */
+export function validateVoiceProfile(profile: VoiceProfile | string): ValidationResult {
+  const parsed = typeof profile === 'string' ? parseVoiceProfile(profile) : profile;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const { number, title } of parsed.unanswered) {
+    if (number === null) {
+      warnings.push('Additional Context is unanswered');
+    } else {
+      errors.push(`Question ${number} ("${title}") is unanswered`);
+    }
+  }
+
+  const answered = VOICE_PROFILE_QUESTIONS.length - errors.length;
+  if (answered > 0 && errors.length > 0) {
+    warnings.push(`Profile is partially filled: ${answered} of ${VOICE_PROFILE_QUESTIONS.length} questions answered`);
+  }
+
+  if (parsed.personality.length > 0 && (parsed.personality.length < 3 || parsed.personality.length > 5)) {
+    warnings.push(`Personality lists ${parsed.personality.length} words; the template asks for 3-5`);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Render the answered questions of a profile for a prompt
+ *
+ * Placeholder answers and the template's hint text are left out, so a
+ * half-filled profile doesn't feed "[Your answer here]" to the LLM.
+ *
+ * @param profile - A parsed profile
+ * @param sections - Sections to include (defaults to all)
+ */
+export function formatVoiceProfile(
+  profile: VoiceProfile,
+  sections: readonly VoiceProfileSection[] = VOICE_PROFILE_SECTIONS
+): string {
+  const lines: string[] = [`# Voice Profile${profile.programName ? `: ${profile.programName}` : ''}`];
+
+  for (const answer of profile.answers) {
+    if (answer.answer === null || !sections.includes(answer.section)) continue;
+    lines.push('', `## ${answer.number === null ? answer.title : `${answer.number}. ${answer.title}`}`, '', answer.answer);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVolleyballBoxScoreHtml,
+  extractVolleyballBoxScoreText,
+  hittingPercentage,
+} from './volleyball-parser.js';
+
+const HEADER = ['#', 'Player', 'SP', 'K', 'E', 'TA', 'PCT', 'AST', 'SA', 'SE', 'RE', 'DIG', 'BS', 'BA', 'BE', 'BHE', 'PTS']
+  .map((label) => `<th>${label}</th>`)
+  .join('');
+
+const cells = (values: Array<string | number>) => values.map((v) => `<td>${v}</td>`).join('');
+
+const statTable = (team: string, rows: string, totals: Array<string | number>) => `
+<table>
+  <caption class="caption"><h2><span class="team-name">${team}</span> Individual Statistics</h2></caption>
+  <thead><tr>${HEADER}</tr></thead>
+  <tbody>${rows}</tbody>
+  <tfoot><tr><td></td><th>Totals</th>${cells(totals)}</tr></tfoot>
+</table>`;
+
+const SAMPLE_HTML = `<!DOCTYPE html>
+<html>
+<head><meta property="og:title" content="Women's Volleyball vs Skyline on 9/14/2024 - Box Score" /></head>
+<body>
+<span class="team-name">Skyline</span>
+<span class="team-name">Marin</span>
+<div class="linescore">
+<table>
+  <thead><tr><th>Team</th><th>1</th><th>2</th><th>3</th><th>4</th><th>5</th><th>F</th></tr></thead>
+  <tr><th class="name">Skyline</th><td class="score">25</td><td class="score">25</td><td class="score">20</td><td class="score">22</td><td class="score">12</td><td class="score total">2</td></tr>
+  <tr><th class="name">Marin</th><td class="score">22</td><td class="score">23</td><td class="score">25</td><td class="score">25</td><td class="score">15</td><td class="score total">3</td></tr>
+</table>
+</div>
+${statTable(
+  'Skyline',
+  `<tr><td>2</td><th class="row-head"><a class="player-name" href="#">Lee, Kim</a></th>${cells([5, 18, 6, 44, '.273', 1, 1, 2, 3, 9, 0, 2, 0, 0, 20])}</tr>
+   <tr><td>10</td><th class="row-head"><a class="player-name" href="#">Park, Joy</a></th>${cells([5, 4, 2, 15, '.133', 38, 0, 1, 0, 11, 0, 1, 0, 1, 4.5])}</tr>`,
+  [5, 22, 8, 59, '.237', 39, 1, 3, 3, 20, 0, 3, 0, 1, 24.5]
+)}
+${statTable(
+  'Marin',
+  `<tr><td>7</td><th class="row-head"><a class="player-name" href="#">Smith, Jane</a></th>${cells([5, 21, 5, 48, '.333', 2, 3, 1, 2, 14, 1, 3, 0, 0, 26.5])}</tr>
+   <tr><td>3</td><th class="row-head"><a class="player-name" href="#">Ruiz, Ana</a></th>${cells([5, 11, 2, 25, '.360', 45, 2, 2, 0, 12, 0, 1, 0, 0, 13.5])}</tr>`,
+  [5, 32, 7, 73, '.342', 47, 5, 3, 2, 26, 1, 4, 0, 0, 40]
+)}
+<p>Site: Kentfield, Calif. (Gym)</p>
+<p>Attendance: 214</p>
+</body>
+</html>`;
+
+describe('parseVolleyballBoxScoreHtml', () => {
+  it('should parse metadata with sets won as the score', () => {
+    const boxScore = parseVolleyballBoxScoreHtml(SAMPLE_HTML);
+
+    expect(boxScore).not.toBeNull();
+    expect(boxScore!.metadata.away_team).toBe('Skyline');
+    expect(boxScore!.metadata.home_team).toBe('Marin');
+    expect(boxScore!.metadata.away_score).toBe(2);
+    expect(boxScore!.metadata.home_score).toBe(3);
+    expect(boxScore!.metadata.sets).toBe(5);
+    expect(boxScore!.metadata.attendance).toBe(214);
+    expect(boxScore!.metadata.venue).toBe('Kentfield, Calif. (Gym)');
+    expect(boxScore!.sport).toBe('volleyball');
+  });
+
+  it('should parse set scores with the away team first', () => {
+    const boxScore = parseVolleyballBoxScoreHtml(SAMPLE_HTML);
+
+    expect(boxScore!.set_scores).toEqual({
+      away_scores: [25, 25, 20, 22, 12],
+      home_scores: [22, 23, 25, 25, 15],
+    });
+  });
+
+  it('should map player columns by header label', () => {
+    const boxScore = parseVolleyballBoxScoreHtml(SAMPLE_HTML);
+    const [smith, ruiz] = boxScore!.home_team.players;
+
+    expect(smith).toMatchObject({
+      name: 'Smith, Jane',
+      number: '7',
+      sets_played: 5,
+      kills: 21,
+      attack_errors: 5,
+      total_attacks: 48,
+      hitting_percentage: 0.333,
+      service_aces: 3,
+      digs: 14,
+      block_solos: 1,
+      block_assists: 3,
+      points: 26.5,
+    });
+    expect(ruiz.assists).toBe(45);
+  });
+
+  it('should build team totals from tfoot and recompute hitting percentage', () => {
+    const boxScore = parseVolleyballBoxScoreHtml(SAMPLE_HTML);
+
+    expect(boxScore!.home_team.sets_won).toBe(3);
+    expect(boxScore!.home_team.kills).toBe(32);
+    expect(boxScore!.home_team.hitting_percentage).toBe(0.342);
+    expect(boxScore!.home_team.total_blocks).toBe(3);
+    expect(boxScore!.away_team.digs).toBe(20);
+  });
+
+  it('should return null when the stat tables are missing', () => {
+    const withoutTables = SAMPLE_HTML.replace(/<table>\s*<caption[\s\S]*<\/table>/, '');
+    expect(parseVolleyballBoxScoreHtml(withoutTables)).toBeNull();
+  });
+
+  it('should return null for already-extracted text', () => {
+    expect(parseVolleyballBoxScoreHtml(extractVolleyballBoxScoreText(SAMPLE_HTML))).toBeNull();
+  });
+});
+
+describe('extractVolleyballBoxScoreText', () => {
+  it('should flatten set scores and player rows', () => {
+    const text = extractVolleyballBoxScoreText(SAMPLE_HTML);
+
+    expect(text).toContain('Score By Set:');
+    expect(text).toContain('Marin Player Stats:');
+    expect(text).toMatch(/Smith, Jane\s+5\s+21\s+5\s+48/);
+    expect(text).toContain('TOTALS');
+  });
+});
+
+describe('hittingPercentage', () => {
+  it('should handle zero attempts', () => {
+    expect(hittingPercentage(0, 0, 0)).toBe(0);
+    expect(hittingPercentage(10, 4, 30)).toBe(0.2);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Volleyball Box Score HTML Parser
+ *
+ * Extracts relevant box score data from SIDEARM Sports volleyball HTML pages.
+ * parseVolleyballBoxScoreHtml reads the set linescore and individual stat tables
+ * directly into a VolleyballBoxScore. extractVolleyballBoxScoreText converts the
+ * HTML into clean, structured text for the LLM fallback path.
+ */
+
+import type {
+  VolleyballBoxScore,
+  VolleyballPlayerStats,
+  VolleyballTeamStats,
+} from '../../baml_client/index.js';
+
+const CAPTIONED_TABLE = /<caption[^>]*>([\s\S]*?)<\/caption>([\s\S]*?)<\/table>/g;
+
+/**
+ * Stat columns in the order the text extraction prints them
+ */
+const STAT_COLUMNS = ['SP', 'K', 'E', 'TA', 'PCT', 'AST', 'SA', 'SE', 'RE', 'DIG', 'BS', 'BA', 'BE', 'BHE', 'PTS'];
+
+interface StatTable {
+  teamName: string;
+  labels: string[];
+  rows: Array<{ number: string | null; name: string; stats: string[] }>;
+  totals: string[] | null;
+}
+
+interface SetLine {
+  team: string;
+  sets: number[];
+  setsWon: number | null;
+}
+
+function toInt(value: string | undefined): number {
+  const parsed = parseInt((value || '').trim(), 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Hitting percentage rounded to three places, 0 when there were no attempts
+ */
+export function hittingPercentage(kills: number, errors: number, attempts: number): number {
+  return attempts > 0 ? Math.round(((kills - errors) / attempts) * 1000) / 1000 : 0;
+}
+
+/**
+ * Read the team name out of a stat table caption
+ */
+function readCaptionTeam(caption: string): string {
+  const teamMatch = caption.match(/class="team-name[^"]*"[^>]*>\s*([^<]+?)\s*</);
+  if (teamMatch) return teamMatch[1].trim();
+  return stripTags(caption).replace(/\s*-?\s*(?:Individual|Player)?\s*(?:Statistics|Stats)\s*$/i, '').trim();
+}
+
+/**
+ * Read stat column labels, dropping the jersey number and player columns
+ */
+function readColumnLabels(tableContent: string): string[] | null {
+  const thead = tableContent.match(/<thead>([\s\S]*?)<\/thead>/);
+  if (!thead) return null;
+
+  const labels = [...thead[1].matchAll(/<th[^>]*>([\s\S]*?)<\/th>/g)].map(m => stripTags(m[1]).toUpperCase());
+  const playerIndex = labels.findIndex(label => label === 'PLAYER' || label === 'NAME');
+  return playerIndex === -1 ? null : labels.slice(playerIndex + 1);
+}
+
+/**
+ * Find the per-team individual stat tables (the ones with kill and dig columns)
+ */
+function findStatTables(html: string): StatTable[] {
+  const tables: StatTable[] = [];
+
+  for (const match of html.matchAll(CAPTIONED_TABLE)) {
+    const content = match[2];
+    const labels = readColumnLabels(content);
+    if (!labels || !labels.includes('K') || !labels.includes('DIG')) continue;
+
+    const body = content.replace(/<tfoot>[\s\S]*?<\/tfoot>/, '').replace(/<thead>[\s\S]*?<\/thead>/, '');
+    const rows: StatTable['rows'] = [];
+
+    for (const row of body.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)) {
+      const head = row[1].match(/^\s*(?:<td[^>]*>([^<]*)<\/td>\s*)?<th[^>]*>([\s\S]*?)<\/th>([\s\S]*)$/);
+      if (!head) continue;
+
+      const nameMatch = head[2].match(/class="player-name[^"]*"[^>]*>([^<]+)</) || head[2].match(/>([^<]+)<\/a>/);
+      const name = nameMatch ? nameMatch[1].trim() : stripTags(head[2]);
+      if (!name || /^(totals?|team)$/i.test(name)) continue;
+
+      rows.push({
+        number: head[1]?.trim() || null,
+        name,
+        stats: [...head[3].matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim()),
+      });
+    }
+
+    const tfoot = content.match(/<tfoot>([\s\S]*?)<\/tfoot>/);
+    const totalCells = tfoot ? [...tfoot[1].matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim()) : [];
+
+    tables.push({
+      teamName: readCaptionTeam(match[1]),
+      labels,
+      rows,
+      // tfoot repeats the stat columns, sometimes with leading label cells
+      totals: totalCells.length >= labels.length ? totalCells.slice(-labels.length) : null,
+    });
+  }
+
+  return tables;
+}
+
+/**
+ * Parse the set-by-set linescore. The away team row comes first.
+ */
+function parseSetScores(html: string): SetLine[] {
+  const lineScoreSection = html.match(/<div class="linescore">([\s\S]*?)<\/table>/);
+  if (!lineScoreSection) return [];
+
+  const teamRows = [...lineScoreSection[1].matchAll(/<th[^>]*class="name[^"]*"[^>]*>([^<]+)<\/th>([\s\S]*?)(?=<\/tr>)/g)];
+
+  return teamRows.map(row => {
+    // Unplayed fourth and fifth sets are left blank
+    const sets = [...row[2].matchAll(/<td class="score">([^<]*)<\/td>/g)]
+      .map(m => m[1].trim())
+      .filter(score => score !== '' && score !== '-')
+      .map(score => toInt(score));
+    const total = row[2].match(/<td class="score total">(\d+)<\/td>/);
+    return {
+      team: row[1].trim(),
+      sets,
+      setsWon: total ? toInt(total[1]) : null,
+    };
+  });
+}
+
+/**
+ * Read team names from the scoreboard spans, away team first
+ */
+function readTeamNames(html: string): string[] {
+  const teamNames: string[] = [];
+  for (const match of html.matchAll(/<span class="team-name[^"]*">([^<]+)<\/span>/g)) {
+    const name = match[1].trim();
+    if (name && !teamNames.includes(name)) teamNames.push(name);
+    if (teamNames.length >= 2) break;
+  }
+  return teamNames;
+}
+
+/**
+ * Extract clean box score text from volleyball HTML
+ * This preprocessing step reduces the input size significantly for LLM parsing.
+ */
+export function extractVolleyballBoxScoreText(html: string): string {
+  const lines: string[] = [];
+
+  const titleMatch = html.match(/<meta property="og:title" content="([^"]+)"/) ||
+                     html.match(/<title>([^<]+)<\/title>/);
+  if (titleMatch) {
+    lines.push(`Game: ${titleMatch[1].trim()}`);
+    lines.push('');
+  }
+
+  const setLines = parseSetScores(html);
+  if (setLines.length >= 2) {
+    const setCount = Math.max(setLines[0].sets.length, setLines[1].sets.length);
+    lines.push('Score By Set:');
+    lines.push(`${'Team'.padEnd(20)} ${Array.from({ length: setCount }, (_, i) => String(i + 1).padStart(3)).join(' ')}  Sets`);
+    for (const line of setLines.slice(0, 2)) {
+      const won = line.setsWon === null ? '' : String(line.setsWon).padStart(4);
+      lines.push(`${line.team.padEnd(20)} ${line.sets.map(s => String(s).padStart(3)).join(' ')}  ${won}`);
+    }
+    lines.push('');
+  }
+
+  for (const table of findStatTables(html)) {
+    const columns = STAT_COLUMNS.filter(column => table.labels.includes(column));
+    const format = (stats: string[]) =>
+      columns.map(column => (stats[table.labels.indexOf(column)] ?? '').padStart(5)).join('');
+
+    lines.push(`${table.teamName} Player Stats:`);
+    lines.push(`${'#'.padEnd(4)} ${'Player'.padEnd(24)}${columns.map(c => c.padStart(5)).join('')}`);
+    for (const row of table.rows) {
+      lines.push(`${(row.number ?? '-').padEnd(4)} ${row.name.slice(0, 24).padEnd(24)}${format(row.stats)}`);
+    }
+    if (table.totals) {
+      lines.push(`${''.padEnd(4)} ${'TOTALS'.padEnd(24)}${format(table.totals)}`);
+    }
+    lines.push('');
+  }
+
+  const attendanceMatch = html.match(/Attendance:\s*([\d,]+)/i);
+  if (attendanceMatch) {
+    lines.push(`Attendance: ${attendanceMatch[1]}`);
+  }
+
+  const dateMatch = html.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (dateMatch) {
+    lines.push(`Date: ${dateMatch[0]}`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Structured Parsing
+// ============================================================================
+
+/**
+ * Convert one individual stats row into VolleyballPlayerStats
+ */
+function toPlayerStats(labels: string[], row: StatTable['rows'][number]): VolleyballPlayerStats {
+  const stat = (label: string) => {
+    const index = labels.indexOf(label);
+    return index === -1 ? undefined : row.stats[index];
+  };
+  const optional = (label: string) => {
+    const value = stat(label);
+    return value === undefined ? null : toInt(value);
+  };
+
+  const kills = toInt(stat('K'));
+  const attackErrors = toInt(stat('E'));
+  const totalAttacks = toInt(stat('TA'));
+  const points = stat('PTS');
+
+  return {
+    name: row.name,
+    number: row.number,
+    sets_played: optional('SP'),
+    kills,
+    attack_errors: attackErrors,
+    total_attacks: totalAttacks,
+    hitting_percentage: hittingPercentage(kills, attackErrors, totalAttacks),
+    assists: toInt(stat('AST')),
+    service_aces: toInt(stat('SA')),
+    service_errors: toInt(stat('SE')),
+    reception_errors: optional('RE'),
+    digs: toInt(stat('DIG')),
+    block_solos: toInt(stat('BS')),
+    block_assists: toInt(stat('BA')),
+    blocking_errors: optional('BE'),
+    ball_handling_errors: optional('BHE'),
+    points: points === undefined || points === '' ? null : parseFloat(points),
+  };
+}
+
+/**
+ * Build team totals from the tfoot row, or by summing players when it is missing
+ */
+function buildTeamStats(table: StatTable, setsWon: number): VolleyballTeamStats {
+  const players = table.rows.map(row => toPlayerStats(table.labels, row));
+  const totalsRow = table.totals ? toPlayerStats(table.labels, { number: null, name: 'Totals', stats: table.totals }) : null;
+  const sum = (key: 'kills' | 'attack_errors' | 'total_attacks' | 'assists' | 'service_aces' | 'service_errors' | 'digs' | 'block_solos' | 'block_assists') =>
+    totalsRow ? totalsRow[key] : players.reduce((total, p) => total + p[key], 0);
+
+  const kills = sum('kills');
+  const attackErrors = sum('attack_errors');
+  const totalAttacks = sum('total_attacks');
+  const blockSolos = sum('block_solos');
+  const blockAssists = sum('block_assists');
+
+  return {
+    team_name: table.teamName,
+    sets_won: setsWon,
+    kills,
+    attack_errors: attackErrors,
+    total_attacks: totalAttacks,
+    hitting_percentage: hittingPercentage(kills, attackErrors, totalAttacks),
+    assists: sum('assists'),
+    service_aces: sum('service_aces'),
+    service_errors: sum('service_errors'),
+    reception_errors: totalsRow
+      ? totalsRow.reception_errors
+      : players.reduce((total, p) => total + (p.reception_errors ?? 0), 0),
+    digs: sum('digs'),
+    block_solos: blockSolos,
+    block_assists: blockAssists,
+    total_blocks: blockSolos + blockAssists / 2,
+    players,
+  };
+}
+
+/**
+ * Count sets won by each side from per-set points, away first
+ */
+function countSetsWon(away: number[], home: number[]): [number, number] {
+  let awayWon = 0;
+  let homeWon = 0;
+  for (let i = 0; i < Math.min(away.length, home.length); i++) {
+    if (away[i] > home[i]) awayWon++;
+    else if (home[i] > away[i]) homeWon++;
+  }
+  return [awayWon, homeWon];
+}
+
+/**
+ * Parse SIDEARM volleyball box score HTML directly into a VolleyballBoxScore
+ *
+ * This is the deterministic alternative to ParseVolleyballBoxScore. Hitting
+ * percentages are recomputed from kills, errors and attempts rather than read
+ * from the page, so they are never rounded differently between teams.
+ *
+ * @param html - Raw box score page HTML
+ * @returns Parsed VolleyballBoxScore, or null if the linescore or stat tables are missing
+ */
+export function parseVolleyballBoxScoreHtml(html: string): VolleyballBoxScore | null {
+  const setLines = parseSetScores(html);
+  if (setLines.length < 2) return null;
+
+  const tables = findStatTables(html);
+  if (tables.length < 2) return null;
+
+  const teamNames = readTeamNames(html);
+  const [awayName, homeName] = teamNames.length >= 2 ? teamNames : [setLines[0].team, setLines[1].team];
+
+  // Stat tables are listed away team first; match by name when the captions allow it
+  const findTable = (teamName: string, fallbackIndex: number) =>
+    tables.find(t => t.teamName === teamName) ?? tables[fallbackIndex];
+
+  const away_scores = setLines[0].sets;
+  const home_scores = setLines[1].sets;
+  const [awaySetsCounted, homeSetsCounted] = countSetsWon(away_scores, home_scores);
+  const away_score = setLines[0].setsWon ?? awaySetsCounted;
+  const home_score = setLines[1].setsWon ?? homeSetsCounted;
+
+  const away_team = { ...buildTeamStats(findTable(awayName, 0), away_score), team_name: awayName };
+  const home_team = { ...buildTeamStats(findTable(homeName, 1), home_score), team_name: homeName };
+  if (away_team.players.length === 0 || home_team.players.length === 0) return null;
+
+  const attendanceMatch = html.match(/Attendance:\s*([\d,]+)/i);
+  const dateMatch = html.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  const venueMatch = stripTags(html).match(/(?:Site|Location):\s*(.+?)(?=\s+(?:Attendance|Referee|Officials|Start|Time)\b|$)/i);
+
+  return {
+    metadata: {
+      date: dateMatch ? dateMatch[0] : null,
+      venue: venueMatch ? venueMatch[1].trim() : null,
+      home_team: homeName,
+      away_team: awayName,
+      home_score,
+      away_score,
+      sets: Math.max(away_scores.length, home_scores.length),
+      game_type: null,
+      attendance: attendanceMatch ? toInt(attendanceMatch[1].replace(/,/g, '')) : null,
+    },
+    home_team,
+    away_team,
+    set_scores: { away_scores, home_scores },
+    sport: 'volleyball',
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { parseWaterPoloBoxScoreHtml, extractWaterPoloBoxScoreText } from './waterpolo-parser.js';
+
+const playerTable = (team: string, rows: string, totals: string) => `
+<table>
+  <caption>${team} - Player Stats</caption>
+  <thead><tr><th>#</th><th>Player</th><th>SH</th><th>G</th><th>A</th><th>PTS</th><th>EX</th><th>DEX</th><th>STL</th><th>FB</th><th>Sprint</th></tr></thead>
+  <tbody>${rows}</tbody>
+  <tfoot><tr><td></td><td>Totals</td>${totals}</tr></tfoot>
+</table>`;
+
+const goalieTable = (team: string, rows: string) => `
+<table>
+  <caption>${team} - Goalie Statistics</caption>
+  <tbody>${rows}</tbody>
+</table>`;
+
+const SAMPLE_HTML = `<!DOCTYPE html>
+<html>
+<head><meta property="og:title" content="Women's Water Polo vs CLU on 1/30/2026 - Box Score" /></head>
+<body>
+<span id="away-team">CSUN</span>
+<span id="home-team">CLU</span>
+<span class="score winner">13</span>
+<span class="score loser">5</span>
+<table>
+  <caption>Team Score By Period</caption>
+  <thead><tr><th>Team</th><th>1</th><th>2</th><th>3</th><th>4</th><th>F</th></tr></thead>
+  <tr><td class="winner"><span>CSUN</span></td><td>3</td><td>2</td><td>6</td><td>2</td><td>13</td></tr>
+  <tr><td class="loser"><span>CLU</span></td><td>1</td><td>2</td><td>1</td><td>1</td><td>5</td></tr>
+</table>
+${playerTable(
+  'CSUN',
+  `<tr><td>4</td><th>Brooks, Ava <span>- 6G, 1A</span></th><td>9</td><td>6</td><td>1</td><td>7</td><td>0</td><td>2</td><td>3</td><td>0</td><td>3-1</td></tr>
+   <tr><td>7</td><th>Kim, Lena</th><td>8</td><td>7</td><td>2</td><td>9</td><td>1</td><td>1</td><td>2</td><td>1</td><td></td></tr>`,
+  '<td>17</td><td>13</td><td>3</td><td>16</td><td>1</td><td>3</td><td>5</td><td>1</td><td>3-1</td>'
+)}
+${playerTable(
+  'CLU',
+  `<tr><td>1</td><td><a href="/roster/1">de Souza, Izzy</a></td><td>0</td><td>0</td><td>0</td><td>0</td><td>0</td><td>0</td><td>1</td><td>0</td><td>0-0</td></tr>
+   <tr><td>9</td><td><a href="/roster/9">Ortiz, Mia</a></td><td>12</td><td>5</td><td>0</td><td>5</td><td>2</td><td>0</td><td>1</td><td>0</td><td>1-3</td></tr>`,
+  '<td>12</td><td>5</td><td>0</td><td>5</td><td>2</td><td>0</td><td>2</td><td>0</td><td>1-3</td>'
+)}
+${goalieTable('CSUN', '<tr><td>1</td><td><a href="#">Diaz, Eva</a></td><td>32:00</td><td>5</td><td>11</td></tr>')}
+${goalieTable(
+  'CLU',
+  `<tr><td>1</td><td><a href="#">de Souza, Izzy</a></td><td>24:00</td><td>10</td><td>10</td></tr>
+   <tr><td>1A</td><td><a href="#">Raquel, Sophie</a></td><td>8:00</td><td>3</td><td>3</td></tr>`
+)}
+<p>Samuelson Aquatics Center</p>
+<p>Attendance: 1,204</p>
+</body>
+</html>`;
+
+describe('parseWaterPoloBoxScoreHtml', () => {
+  it('should parse metadata and final score', () => {
+    const boxScore = parseWaterPoloBoxScoreHtml(SAMPLE_HTML);
+
+    expect(boxScore).not.toBeNull();
+    expect(boxScore!.metadata.away_team).toBe('CSUN');
+    expect(boxScore!.metadata.home_team).toBe('CLU');
+    expect(boxScore!.metadata.away_score).toBe(13);
+    expect(boxScore!.metadata.home_score).toBe(5);
+    expect(boxScore!.metadata.periods).toBe(4);
+    expect(boxScore!.metadata.date).toBe('1/30/2026');
+    expect(boxScore!.metadata.venue).toBe('Samuelson Aquatics Center');
+    expect(boxScore!.metadata.attendance).toBe(1204);
+  });
+
+  it('should parse period scores with the away team first', () => {
+    const boxScore = parseWaterPoloBoxScoreHtml(SAMPLE_HTML)!;
+
+    expect(boxScore.period_scores).toEqual({
+      away_scores: [3, 2, 6, 2],
+      home_scores: [1, 2, 1, 1],
+    });
+  });
+
+  it('should parse field players including sprints and name formats', () => {
+    const boxScore = parseWaterPoloBoxScoreHtml(SAMPLE_HTML)!;
+
+    const brooks = boxScore.away_team.players[0];
+    expect(brooks.name).toBe('Brooks, Ava');
+    expect(brooks.number).toBe('4');
+    expect(brooks.goals).toBe(6);
+    expect(brooks.drawn_exclusions).toBe(2);
+    expect(brooks.sprints).toBe('3-1');
+
+    // Blank sprint cells default to no sprints taken
+    expect(boxScore.away_team.players[1].sprints).toBe('0-0');
+
+    expect(boxScore.home_team.players.map((p) => p.name)).toEqual(['de Souza, Izzy', 'Ortiz, Mia']);
+  });
+
+  it('should use tfoot totals for team stats', () => {
+    const boxScore = parseWaterPoloBoxScoreHtml(SAMPLE_HTML)!;
+
+    expect(boxScore.away_team.goals).toBe(13);
+    expect(boxScore.away_team.shots).toBe(17);
+    expect(boxScore.away_team.steals).toBe(5);
+    expect(boxScore.away_team.sprints).toBe('3-1');
+    expect(boxScore.home_team.goals).toBe(5);
+  });
+
+  it('should parse goalkeepers for each team', () => {
+    const boxScore = parseWaterPoloBoxScoreHtml(SAMPLE_HTML)!;
+
+    expect(boxScore.away_team.goalkeepers).toEqual([
+      { name: 'Diaz, Eva', number: '1', minutes: '32:00', goals_allowed: 5, saves: 11 },
+    ]);
+    expect(boxScore.home_team.goalkeepers).toHaveLength(2);
+    expect(boxScore.home_team.goalkeepers[1].number).toBe('1A');
+  });
+
+  it('should return null when player stats tables are missing', () => {
+    expect(parseWaterPoloBoxScoreHtml('<html><body>No box score</body></html>')).toBeNull();
+  });
+
+  it('should return null for already-extracted text', () => {
+    expect(parseWaterPoloBoxScoreHtml(extractWaterPoloBoxScoreText(SAMPLE_HTML))).toBeNull();
+  });
+});
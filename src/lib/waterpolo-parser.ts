@@ -2,9 +2,38 @@
  * Water Polo Box Score HTML Parser
  *
  * Extracts relevant box score data from SIDEARM Sports water polo HTML pages.
- * Converts the HTML into clean, structured text that can be parsed by the LLM.
+ * parseWaterPoloBoxScoreHtml reads the tables directly into a WaterPoloBoxScore.
+ * extractWaterPoloBoxScoreText converts the HTML into clean, structured text for
+ * the LLM fallback path.
  */
 
+import type {
+  WaterPoloBoxScore,
+  WaterPoloGoalkeeperStats,
+  WaterPoloPlayerStats,
+  WaterPoloTeamStats,
+} from '../../baml_client/index.js';
+
+/**
+ * Extract a player name from a player stats name cell
+ */
+function extractPlayerName(nameCell: string): string {
+  // Try anchor tag first (CLU format)
+  const anchorMatch = nameCell.match(/<a[^>]*>([^<]+)<\/a>/);
+  if (anchorMatch) {
+    return anchorMatch[1].trim();
+  }
+
+  // Try getting text before any span (CSUN format has name then "- 2G, 2A" span)
+  const textMatch = nameCell.match(/^\s*([A-Za-z][A-Za-z\s,.'()-]+?)(?:\s*<span|$)/);
+  if (textMatch) {
+    return textMatch[1].trim();
+  }
+
+  // Fallback: strip all tags and get first line
+  return nameCell.replace(/<[^>]+>/g, ' ').trim().split('\n')[0].trim();
+}
+
 /**
  * Extract clean box score text from water polo HTML
  * This preprocessing step reduces the input size significantly for LLM parsing.
@@ -110,22 +139,7 @@ export function extractWaterPoloBoxScoreText(html: string): string {
       const nameCell = row[2] || row[3] || '';
 
       // Extract player name - could be in anchor tag, plain text, or with span
-      let playerName = '';
-
-      // Try anchor tag first (CLU format)
-      const anchorMatch = nameCell.match(/<a[^>]*>([^<]+)<\/a>/);
-      if (anchorMatch) {
-        playerName = anchorMatch[1].trim();
-      } else {
-        // Try getting text before any span (CSUN format has name then "- 2G, 2A" span)
-        const textMatch = nameCell.match(/^\s*([A-Za-z][A-Za-z\s,.'()-]+?)(?:\s*<span|$)/);
-        if (textMatch) {
-          playerName = textMatch[1].trim();
-        } else {
-          // Fallback: strip all tags and get first line
-          playerName = nameCell.replace(/<[^>]+>/g, ' ').trim().split('\n')[0].trim();
-        }
-      }
+      const playerName = extractPlayerName(nameCell);
 
       // Skip empty names, totals row, or summary spans
       if (!playerName || playerName.toLowerCase().includes('total') || playerName.startsWith('-')) continue;
@@ -272,3 +286,225 @@ export function extractWaterPoloBoxScoreRaw(html: string): string {
 
   return lines.join('\n');
 }
+
+// ============================================================================
+// Structured Parsing
+// ============================================================================
+
+function toInt(value: string | undefined): number {
+  const parsed = parseInt((value || '').trim(), 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Parse the rows of a "{Team} - Player Stats" table
+ */
+function parsePlayerStatsTable(tableContent: string): {
+  players: WaterPoloPlayerStats[];
+  totals: string[] | null;
+} {
+  const players: WaterPoloPlayerStats[] = [];
+  const body = tableContent.replace(/<tfoot>[\s\S]*?<\/tfoot>/, '');
+  const playerRows = [...body.matchAll(/<tr[^>]*>\s*<td[^>]*>([^<]*)<\/td>\s*(?:<th[^>]*>([\s\S]*?)<\/th>|<td[^>]*>([\s\S]*?)<\/td>)([\s\S]*?)<\/tr>/g)];
+
+  for (const row of playerRows) {
+    const name = extractPlayerName(row[2] || row[3] || '');
+    if (!name || name.toLowerCase().includes('total') || name.startsWith('-')) continue;
+
+    const stats = [...(row[4] || '').matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim());
+    if (stats.length < 9) continue;
+
+    const [sh, g, a, pts, ex, dex, stl, fb, sprint] = stats;
+    players.push({
+      name,
+      number: row[1].trim() || null,
+      shots: toInt(sh),
+      goals: toInt(g),
+      assists: toInt(a),
+      points: toInt(pts),
+      exclusions: toInt(ex),
+      drawn_exclusions: toInt(dex),
+      steals: toInt(stl),
+      field_blocks: toInt(fb),
+      sprints: sprint || '0-0',
+    });
+  }
+
+  const totalsMatch = tableContent.match(/<tfoot>[\s\S]*?<tr>([\s\S]*?)<\/tr>[\s\S]*?<\/tfoot>/);
+  const totalStats = totalsMatch
+    ? [...totalsMatch[1].matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim())
+    : [];
+
+  return { players, totals: totalStats.length >= 9 ? totalStats.slice(-9) : null };
+}
+
+/**
+ * Parse the rows of a "{Team} - Goalie Statistics" table
+ */
+function parseGoalieStatsTable(tableContent: string): WaterPoloGoalkeeperStats[] {
+  const goalkeepers: WaterPoloGoalkeeperStats[] = [];
+  const body = tableContent.replace(/<tfoot>[\s\S]*?<\/tfoot>/, '');
+  const goalieRows = [...body.matchAll(/<tr>\s*<td[^>]*>([^<]*)<\/td>\s*<(?:td|th)[^>]*>([\s\S]*?)<\/(?:td|th)>([\s\S]*?)<\/tr>/g)];
+
+  for (const row of goalieRows) {
+    const nameMatch = row[2].match(/>([^<]+)</);
+    const name = nameMatch
+      ? nameMatch[1].trim()
+      : row[2].replace(/<[^>]+>/g, '').trim().split('\n')[0].trim();
+    if (!name || name.toLowerCase().includes('total')) continue;
+
+    const stats = [...row[3].matchAll(/<td[^>]*>([^<]*)<\/td>/g)].map(m => m[1].trim());
+    if (stats.length < 3) continue;
+
+    const [minutes, ga, saves] = stats;
+    goalkeepers.push({
+      name,
+      number: row[1].trim() || null,
+      minutes: minutes || '0:00',
+      goals_allowed: toInt(ga),
+      saves: toInt(saves),
+    });
+  }
+
+  return goalkeepers;
+}
+
+/**
+ * Build team totals from the tfoot row, or by summing players when it is missing
+ */
+function buildTeamStats(
+  teamName: string,
+  players: WaterPoloPlayerStats[],
+  totals: string[] | null,
+  goalkeepers: WaterPoloGoalkeeperStats[]
+): WaterPoloTeamStats {
+  const sum = (key: 'shots' | 'goals' | 'assists' | 'points' | 'exclusions' | 'drawn_exclusions' | 'steals') =>
+    players.reduce((total, p) => total + p[key], 0);
+
+  if (totals) {
+    const [sh, g, a, pts, ex, dex, stl, fb, sprint] = totals;
+    return {
+      team_name: teamName,
+      goals: toInt(g),
+      shots: toInt(sh),
+      assists: toInt(a),
+      points: toInt(pts),
+      exclusions: toInt(ex),
+      drawn_exclusions: toInt(dex),
+      steals: toInt(stl),
+      field_blocks: toInt(fb),
+      sprints: sprint || null,
+      players,
+      goalkeepers,
+    };
+  }
+
+  return {
+    team_name: teamName,
+    goals: sum('goals'),
+    shots: sum('shots'),
+    assists: sum('assists'),
+    points: sum('points'),
+    exclusions: sum('exclusions'),
+    drawn_exclusions: sum('drawn_exclusions'),
+    steals: sum('steals'),
+    field_blocks: players.reduce((total, p) => total + (p.field_blocks ?? 0), 0),
+    sprints: null,
+    players,
+    goalkeepers,
+  };
+}
+
+/**
+ * Parse the "Team Score By Period" table. The away team row comes first.
+ */
+function parsePeriodScores(html: string): { away_scores: number[]; home_scores: number[] } | null {
+  const periodScoreSection = html.match(/<caption>Team Score By Period<\/caption>([\s\S]*?)<\/table>/);
+  if (!periodScoreSection) return null;
+
+  const rowMatches = [...periodScoreSection[1].matchAll(/<tr>\s*<td[^>]*class="(?:winner|loser)"[^>]*>([\s\S]*?)<\/td>([\s\S]*?)<\/tr>/g)];
+  if (rowMatches.length < 2) return null;
+
+  const [away, home] = rowMatches.slice(0, 2).map(row => {
+    const periodScores = [...row[2].matchAll(/<td[^>]*>(\d+)\s*<\/td>/g)].map(m => parseInt(m[1], 10));
+    periodScores.pop(); // Last one is the total
+    return periodScores;
+  });
+
+  if (away.length === 0 || away.length !== home.length) return null;
+  return { away_scores: away, home_scores: home };
+}
+
+/**
+ * Parse SIDEARM water polo box score HTML directly into a WaterPoloBoxScore
+ *
+ * This is the deterministic alternative to ParseWaterPoloBoxScore. It reads the
+ * same tables extractWaterPoloBoxScoreText walks, but emits typed data instead of
+ * flattened text, so repeated runs always produce identical output.
+ *
+ * @param html - Raw box score page HTML
+ * @returns Parsed WaterPoloBoxScore, or null if the player stats tables are missing
+ */
+export function parseWaterPoloBoxScoreHtml(html: string): WaterPoloBoxScore | null {
+  const playerSections = [...html.matchAll(/<caption>([^<]+)\s*-\s*Player Stats<\/caption>([\s\S]*?)<\/table>/g)];
+  if (playerSections.length < 2) return null;
+
+  const goalieSections = [...html.matchAll(/<caption>([^<]+)\s*-\s*Goalie Statistics<\/caption>([\s\S]*?)<\/table>/g)];
+
+  const awayTeamMatch = html.match(/id="away-team"[^>]*>([^<]+)</);
+  const homeTeamMatch = html.match(/id="home-team"[^>]*>([^<]+)</);
+
+  // Player stats tables are listed away team first
+  const awayName = awayTeamMatch ? awayTeamMatch[1].trim() : playerSections[0][1].trim();
+  const homeName = homeTeamMatch ? homeTeamMatch[1].trim() : playerSections[1][1].trim();
+
+  const findSection = <T extends RegExpMatchArray>(sections: T[], teamName: string, fallbackIndex: number) =>
+    sections.find(s => s[1].trim() === teamName) ?? sections[fallbackIndex];
+
+  const buildTeam = (teamName: string, index: number): WaterPoloTeamStats => {
+    const playerSection = findSection(playerSections, teamName, index);
+    const goalieSection = findSection(goalieSections, teamName, index);
+    const { players, totals } = parsePlayerStatsTable(playerSection[2]);
+    const goalkeepers = goalieSection ? parseGoalieStatsTable(goalieSection[2]) : [];
+    return buildTeamStats(teamName, players, totals, goalkeepers);
+  };
+
+  const away_team = buildTeam(awayName, 0);
+  const home_team = buildTeam(homeName, 1);
+  if (away_team.players.length === 0 || home_team.players.length === 0) return null;
+
+  const period_scores = parsePeriodScores(html);
+
+  // Prefer the scoreboard, then the period table, then summed goals
+  const scoreboard = [...html.matchAll(/class="score\s+(?:winner|loser)"[^>]*>\s*(\d+)\s*<\/span>/g)].map(m => parseInt(m[1], 10));
+  const sumScores = (scores: number[]) => scores.reduce((a, b) => a + b, 0);
+  const away_score = scoreboard.length >= 2
+    ? scoreboard[0]
+    : period_scores ? sumScores(period_scores.away_scores) : away_team.goals;
+  const home_score = scoreboard.length >= 2
+    ? scoreboard[1]
+    : period_scores ? sumScores(period_scores.home_scores) : home_team.goals;
+
+  const venueMatch = html.match(/Samuelson Aquatics Center|[A-Z][a-z]+ (?:Aquatics|Natatorium|Pool)[^<]*/);
+  const dateMatch = html.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/) ||
+                    html.match(/(\d{4})-(\d{2})-(\d{2})/);
+  const attendanceMatch = html.match(/Attendance:\s*([\d,]+)/i);
+
+  return {
+    metadata: {
+      date: dateMatch ? dateMatch[0] : null,
+      venue: venueMatch ? venueMatch[0].trim() : null,
+      home_team: homeName,
+      away_team: awayName,
+      home_score,
+      away_score,
+      periods: period_scores ? period_scores.away_scores.length : 4,
+      game_type: null,
+      attendance: attendanceMatch ? toInt(attendanceMatch[1].replace(/,/g, '')) : null,
+    },
+    home_team,
+    away_team,
+    period_scores,
+    sport: 'waterpolo',
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Tests for the zip writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zip.js';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const zip = createZip(
+    [
+      { name: 'article.html', content: '<p>Mariners win</p>' },
+      { name: 'metadata.json', content: encoder.encode('{}') },
+    ],
+    new Date(2026, 0, 28, 19, 30, 10)
+  );
+  const view = new DataView(zip.buffer);
+
+  it('should store each file after a local header', () => {
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('<p>Mariners win</p>')));
+    expect(view.getUint32(18, true)).toBe(19);
+    expect(new TextDecoder().decode(zip.slice(30, 42))).toBe('article.html');
+    expect(new TextDecoder().decode(zip.slice(42, 61))).toBe('<p>Mariners win</p>');
+  });
+
+  it('should stamp entries with the DOS date and time', () => {
+    expect(view.getUint16(10, true)).toBe((19 << 11) | (30 << 5) | 5);
+    expect(view.getUint16(12, true)).toBe((46 << 9) | (1 << 5) | 28);
+  });
+
+  it('should end with a directory of both entries', () => {
+    const end = zip.length - 22;
+    const centralStart = view.getUint32(end + 16, true);
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    expect(centralStart + view.getUint32(end + 12, true)).toBe(end);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Zip Archives
+ *
+ * Just enough of the zip format to hand an SID a story package: files are
+ * stored uncompressed, which every unzip tool and CMS upload form accepts.
+ * A few small text files don't gain enough from deflate to justify a dependency.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, e.g. "article.html" */
+  name: string;
+  content: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 checksum as zip stores it
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Date and time in MS-DOS format (2-second resolution, local time)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a zip archive of uncompressed entries
+ *
+ * @param modified - Timestamp for every entry (defaults to now)
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const files = entries.map((entry) => {
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    return { name: encoder.encode(entry.name), data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+
+  // Local file headers, each followed by its data
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed: 2.0
+    view.setUint16(offset + 6, 0x0800, true); // names are UTF-8
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, stamp.time, true);
+    view.setUint16(offset + 12, stamp.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.name, offset + 30);
+    bytes.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const centralStart = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, stamp.time, true);
+    view.setUint16(offset + 14, stamp.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  // End of central directory
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return bytes;
+}
@@ -0,0 +1,122 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import '$lib/sports'; // registers sports so site codes resolve
+import {
+  emptyNarrativeContext,
+  resolveProgram,
+  validateNarrativeContext,
+  type NarrativeContextPatch,
+} from '$lib/narrative-context';
+import {
+  deleteNarrativeContext,
+  getNarrativeContext,
+  listNarrativeContexts,
+  saveNarrativeContext,
+  updateNarrativeContext,
+} from '$lib/context-store';
+
+/**
+ * Resolve the program and season (default: the current season for the sport)
+ */
+function resolve(program: string, url: URL): { season: string; sport: string } | { error: string } {
+  return resolveProgram(program, url.searchParams.get('season')) ?? {
+    error: `Invalid program '${program}' (expected school-sitecode with a known site code, e.g. marin-wbkb)`,
+  };
+}
+
+/**
+ * GET /api/context/[program]
+ *
+ * Stored narrative context for a program (e.g. marin-wbkb).
+ *
+ * Query params:
+ * - season: season label (e.g. 2024-25); defaults to the current season
+ * - all: list every stored season for the program instead
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+  const target = resolve(params.program, url);
+  if ('error' in target) return json({ error: target.error }, { status: 400 });
+
+  if (url.searchParams.has('all')) {
+    return json({ program: params.program, seasons: listNarrativeContexts(params.program) });
+  }
+
+  const stored = getNarrativeContext(params.program, target.season);
+  if (!stored) {
+    return json({ error: `No context stored for ${params.program} ${target.season}` }, { status: 404 });
+  }
+  return json(stored);
+};
+
+/**
+ * PUT /api/context/[program]
+ *
+ * Replace the stored context with a full NarrativeContext body.
+ */
+export const PUT: RequestHandler = async ({ params, request, url }) => {
+  const target = resolve(params.program, url);
+  if ('error' in target) return json({ error: target.error }, { status: 400 });
+
+  try {
+    const context = await request.json();
+    const validation = validateNarrativeContext(context);
+    if (!validation.valid) {
+      return json({ error: 'Invalid context', errors: validation.errors }, { status: 400 });
+    }
+
+    const stored = saveNarrativeContext(params.program, target.season, context);
+    return json({ ...stored, warnings: validation.warnings });
+  } catch (e) {
+    console.error('Context save error:', e);
+    return json({ error: e instanceof Error ? e.message : 'Failed to save context' }, { status: 500 });
+  }
+};
+
+/**
+ * PATCH /api/context/[program]
+ *
+ * Merge a partial context into the stored one: players and audience segments
+ * are matched by name, rivalries and milestones are added to. Creates the
+ * context when none is stored, using the patch's team_name.
+ */
+export const PATCH: RequestHandler = async ({ params, request, url }) => {
+  const target = resolve(params.program, url);
+  if ('error' in target) return json({ error: target.error }, { status: 400 });
+
+  try {
+    const patch = await request.json();
+    const validation = validateNarrativeContext(patch, { partial: true });
+    if (!validation.valid) {
+      return json({ error: 'Invalid context', errors: validation.errors }, { status: 400 });
+    }
+
+    const { team_name, sport } = patch as NarrativeContextPatch;
+    const base = team_name ? emptyNarrativeContext(team_name, sport ?? target.sport) : undefined;
+    const stored = updateNarrativeContext(params.program, target.season, patch as NarrativeContextPatch, base);
+    if (!stored) {
+      return json(
+        { error: `No context stored for ${params.program} ${target.season}; include team_name to create one` },
+        { status: 404 }
+      );
+    }
+    return json(stored);
+  } catch (e) {
+    console.error('Context update error:', e);
+    return json({ error: e instanceof Error ? e.message : 'Failed to update context' }, { status: 500 });
+  }
+};
+
+/**
+ * DELETE /api/context/[program]
+ *
+ * Delete the stored context for the season.
+ */
+export const DELETE: RequestHandler = async ({ params, url }) => {
+  const target = resolve(params.program, url);
+  if ('error' in target) return json({ error: target.error }, { status: 400 });
+
+  if (!deleteNarrativeContext(params.program, target.season)) {
+    return json({ error: `No context stored for ${params.program} ${target.season}` }, { status: 404 });
+  }
+  return json({ deleted: true, program: params.program, season: target.season });
+};
@@ -0,0 +1,85 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getParsedGameDates, getParsedGamesForDate } from '$lib/cache';
+import { detectSport, getSportForSiteCode } from '$lib/sports';
+import { computeProgramSignals, type ProgramGame } from '$lib/cached-pipeline';
+import { buildCoverageBoard, type CoverageBoardEntry } from '$lib/coverage-board';
+import { loadPriorityConfig, PriorityConfigError } from '$lib/priority-config';
+import { resolveSportPriority } from '$lib/story-signals';
+
+// The fetcher pulls College of Marin's schedules, so its games belong to Marin programs
+const DEFAULT_SCHOOL = 'marin';
+
+/**
+ * GET /api/coverage?date=YYYY-MM-DD
+ *
+ * The coverage board for one date: every parsed game across all sports,
+ * ranked with its own sport's signals and ordered by tier. Defaults to the
+ * most recent date with parsed games. Pass `school` for program ids other
+ * than Marin's; the school's priority config (profiles/{school}-priority.json)
+ * sets the weights and tier cutoffs. Career and season highs from the season
+ * store are added to each game's signal reasons.
+ *
+ * Every game can be queued for a recap. Interviews (/api/interview) are
+ * basketball-only, so the board only offers them for basketball games.
+ *
+ * Returns the board and the dates that have games, newest first.
+ */
+export const GET: RequestHandler = async ({ url }) => {
+  const dates = getParsedGameDates();
+  const date = url.searchParams.get('date') || dates[0];
+  const school = url.searchParams.get('school') || DEFAULT_SCHOOL;
+
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return json({ error: `Invalid date '${date}' (expected YYYY-MM-DD)` }, { status: 400 });
+  }
+  if (!/^[a-z0-9]+$/.test(school)) {
+    return json({ error: `Invalid school '${school}' (expected a slug like marin)` }, { status: 400 });
+  }
+  if (!date) {
+    return json({ board: buildCoverageBoard('', []), dates });
+  }
+
+  let overrides: ReturnType<typeof loadPriorityConfig>;
+  try {
+    overrides = loadPriorityConfig(school);
+  } catch (error) {
+    if (error instanceof PriorityConfigError) {
+      return json({ error: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+
+  const entries: CoverageBoardEntry[] = [];
+  for (const game of getParsedGamesForDate(date)) {
+    const sport = (game.sport && getSportForSiteCode(game.sport)) || detectSport(game.boxScore);
+    if (!sport) {
+      console.warn(`[coverage] No sport module for ${game.filePath}; leaving it off the board`);
+      continue;
+    }
+
+    const { metadata } = game.boxScore as CoverageBoxScore;
+    const program = game.sport ? `${school}-${game.sport}` : null;
+    const priority = resolveSportPriority(sport.id, overrides);
+    entries.push({
+      id: game.contentHash,
+      siteCode: game.sport,
+      sport: sport.id,
+      program,
+      awayTeam: metadata.away_team,
+      homeTeam: metadata.home_team,
+      awayScore: metadata.away_score,
+      homeScore: metadata.home_score,
+      signals: program
+        ? computeProgramSignals(sport, game.boxScore as ProgramGame, program, { gameDate: date, priority })
+        : sport.computeSignals(game.boxScore, undefined, priority),
+      boxScore: game.boxScore,
+    });
+  }
+
+  return json({ board: buildCoverageBoard(date, entries), dates });
+};
+
+interface CoverageBoxScore {
+  metadata: { home_team: string; away_team: string; home_score: number; away_score: number };
+}
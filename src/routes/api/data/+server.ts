@@ -3,6 +3,7 @@ import type { RequestHandler } from './$types';
 import Database from 'better-sqlite3';
 import { join } from 'path';
 import { createHash } from 'crypto';
+import { getSiteCodeLabel } from '$lib/sports';
 
 const DB_PATH = join(process.cwd(), 'inbox', 'cache.db');
 
@@ -70,6 +71,7 @@ export const GET: RequestHandler = async ({ url }) => {
         filePath: raw.file_path,
         contentHash: raw.content_hash,
         sport: raw.sport,
+        sportName: raw.sport ? getSiteCodeLabel(raw.sport) : null,
         gameDate: raw.game_date,
         importedAt: raw.created_at,
         parsed: !!boxScore,
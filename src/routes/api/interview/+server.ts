@@ -0,0 +1,57 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { detectSport } from '$lib/sports';
+import { generateGameInterviewCached, generateOnboardingInterviewCached } from '$lib/cached-pipeline';
+import { getNarrativeContext } from '$lib/context-store';
+import { resolveProgram } from '$lib/narrative-context';
+
+/**
+ * POST /api/interview
+ *
+ * Generate (or load cached) interview questions for a program. Answers are
+ * submitted to /api/interview/[id]/answers with the returned interviewId.
+ *
+ * Body:
+ * - program: program id (e.g. marin-wbkb)
+ * - season: season label; defaults to the current season
+ * - type: 'onboarding' or 'game'
+ * - team_name, sport: onboarding only; default to the stored context's
+ * - boxScore: game only; a parsed basketball box score
+ */
+export const POST: RequestHandler = async ({ request }) => {
+  try {
+    const { program, season, type, team_name, sport, boxScore } = await request.json();
+
+    const target = typeof program === 'string' ? resolveProgram(program, season) : null;
+    if (!target) {
+      return json({ error: 'program must be a program id with a known site code, e.g. marin-wbkb' }, { status: 400 });
+    }
+
+    if (type === 'onboarding') {
+      const context = getNarrativeContext(program, target.season)?.context;
+      const teamName = team_name ?? context?.team_name;
+      if (!teamName) {
+        return json({ error: 'team_name is required when no context is stored for the program' }, { status: 400 });
+      }
+      const interview = await generateOnboardingInterviewCached(teamName, sport ?? context?.sport ?? target.sport);
+      return json({ ...interview, type, program, season: target.season });
+    }
+
+    if (type === 'game') {
+      if (!boxScore) {
+        return json({ error: 'Missing boxScore' }, { status: 400 });
+      }
+      // The interview prompt reads the basketball box score shape
+      if (detectSport(boxScore)?.id !== 'basketball') {
+        return json({ error: 'Game interviews currently support basketball box scores only' }, { status: 400 });
+      }
+      const interview = await generateGameInterviewCached(boxScore, program, { season: target.season });
+      return json({ ...interview, type, program, season: target.season });
+    }
+
+    return json({ error: "type must be 'onboarding' or 'game'" }, { status: 400 });
+  } catch (e) {
+    console.error('Interview error:', e);
+    return json({ error: e instanceof Error ? e.message : 'Failed to generate interview' }, { status: 500 });
+  }
+};
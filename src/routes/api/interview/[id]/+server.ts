@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getInterview, getInterviewAnswers, getInterviewType } from '$lib/cache';
+
+/**
+ * GET /api/interview/[id]
+ *
+ * A cached interview's questions, plus any submitted answers with the context
+ * update extracted from them and the changes it made.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+  const questions = getInterview(params.id);
+  if (!questions) {
+    return json({ error: 'Interview not found' }, { status: 404 });
+  }
+
+  return json({
+    interviewId: params.id,
+    type: getInterviewType(params.id),
+    questions,
+    answers: getInterviewAnswers(params.id),
+  });
+};
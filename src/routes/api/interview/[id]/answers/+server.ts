@@ -0,0 +1,59 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import '$lib/sports'; // registers sports so site codes resolve
+import { getInterview } from '$lib/cache';
+import { applyInterviewAnswers } from '$lib/cached-pipeline';
+import { matchInterviewAnswers } from '$lib/interview';
+import { emptyNarrativeContext, formatContextDiff, resolveProgram } from '$lib/narrative-context';
+
+/**
+ * POST /api/interview/[id]/answers
+ *
+ * Submit answers to an interview. The answers are stored with the interview,
+ * turned into structured context updates, and merged into the program's stored
+ * narrative context. The response lists every change for review.
+ *
+ * Body:
+ * - program: program id (e.g. marin-wbkb)
+ * - season: season label; defaults to the current season
+ * - answers: [{ question: index or question text, answer }]
+ * - team_name: starts a new context when none is stored for the season
+ * - apply: false to preview the changes without saving them
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+  const questions = getInterview(params.id) as Parameters<typeof matchInterviewAnswers>[0] | null;
+  if (!questions) {
+    return json({ error: 'Interview not found' }, { status: 404 });
+  }
+
+  try {
+    const { program, season, answers, team_name, apply } = await request.json();
+
+    const target = typeof program === 'string' ? resolveProgram(program, season) : null;
+    if (!target) {
+      return json({ error: 'program must be a program id with a known site code, e.g. marin-wbkb' }, { status: 400 });
+    }
+    if (!Array.isArray(answers)) {
+      return json({ error: 'answers must be an array' }, { status: 400 });
+    }
+
+    const matched = matchInterviewAnswers(questions, answers);
+    if (matched.errors.length > 0) {
+      return json({ error: 'Invalid answers', errors: matched.errors }, { status: 400 });
+    }
+    if (matched.answers.length === 0) {
+      return json({ error: 'No answers to submit' }, { status: 400 });
+    }
+
+    const base = team_name ? emptyNarrativeContext(team_name, target.sport) : undefined;
+    const result = await applyInterviewAnswers(params.id, matched.answers, program, target.season, {
+      base,
+      apply: apply !== false,
+    });
+    return json({ ...result, diff: formatContextDiff(result.changes) });
+  } catch (e) {
+    console.error('Interview answers error:', e);
+    const message = e instanceof Error ? e.message : 'Failed to process answers';
+    return json({ error: message }, { status: message.startsWith('No context stored') ? 404 : 500 });
+  }
+};
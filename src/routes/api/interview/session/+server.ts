@@ -0,0 +1,55 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { detectSport } from '$lib/sports';
+import { detectTriggersCached, startInterviewSession } from '$lib/cached-pipeline';
+import { listInterviewSessions } from '$lib/interview-session-store';
+import { resolveProgram } from '$lib/narrative-context';
+
+/**
+ * GET /api/interview/session
+ *
+ * Recent interview sessions, newest first.
+ *
+ * Query params:
+ * - program: only sessions for this program (e.g. marin-wbkb)
+ */
+export const GET: RequestHandler = async ({ url }) => {
+  return json({ sessions: listInterviewSessions(url.searchParams.get('program') ?? undefined) });
+};
+
+/**
+ * POST /api/interview/session
+ *
+ * Start a live post-game interview and return the first question.
+ *
+ * Body:
+ * - program: program id (e.g. marin-wbkb)
+ * - season: season label; defaults to the game's season
+ * - boxScore: a parsed basketball box score
+ * - triggers: the game's triggers; detected when omitted
+ */
+export const POST: RequestHandler = async ({ request }) => {
+  try {
+    const { program, season, boxScore, triggers } = await request.json();
+
+    if (typeof program !== 'string' || !resolveProgram(program, season)) {
+      return json({ error: 'program must be a program id with a known site code, e.g. marin-wbkb' }, { status: 400 });
+    }
+    if (!boxScore) {
+      return json({ error: 'Missing boxScore' }, { status: 400 });
+    }
+
+    // The question picker reads the basketball box score shape
+    const sport = detectSport(boxScore);
+    if (sport?.id !== 'basketball') {
+      return json({ error: 'Interview sessions currently support basketball box scores only' }, { status: 400 });
+    }
+
+    const gameTriggers = Array.isArray(triggers) ? triggers : (await detectTriggersCached(boxScore)).triggers;
+    const state = await startInterviewSession(boxScore, gameTriggers, program, { season: season ?? undefined });
+    return json(state);
+  } catch (e) {
+    console.error('Interview session error:', e);
+    return json({ error: e instanceof Error ? e.message : 'Failed to start interview' }, { status: 500 });
+  }
+};
@@ -0,0 +1,55 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { answerInterviewSession, finishInterviewSession } from '$lib/cached-pipeline';
+import { getInterviewSession } from '$lib/interview-session-store';
+import { sessionCoverage } from '$lib/interview';
+import { formatContextDiff } from '$lib/narrative-context';
+
+/**
+ * GET /api/interview/session/[id]
+ *
+ * A session's pending question, turn history and trigger coverage.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+  const session = getInterviewSession(params.id);
+  if (!session) {
+    return json({ error: 'Interview session not found' }, { status: 404 });
+  }
+  return json({ session, coverage: sessionCoverage(session.triggers, session.turns) });
+};
+
+/**
+ * POST /api/interview/session/[id]
+ *
+ * Answer the pending question and get the next one, or end the session.
+ * When the session completes, the answers are merged into the program's
+ * narrative context and the response includes the changes.
+ *
+ * Body:
+ * - answer: the SID's answer; an empty answer skips the question
+ * - end: true to finish now
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+  const session = getInterviewSession(params.id);
+  if (!session) {
+    return json({ error: 'Interview session not found' }, { status: 404 });
+  }
+  if (session.status === 'complete') {
+    return json({ error: 'Interview session is already complete' }, { status: 409 });
+  }
+
+  try {
+    const { answer, end } = await request.json();
+    if (!end && typeof answer !== 'string') {
+      return json({ error: 'answer must be a string' }, { status: 400 });
+    }
+
+    const state = end
+      ? await finishInterviewSession(params.id, 'Ended by SID')
+      : await answerInterviewSession(params.id, answer);
+    return json({ ...state, diff: state.contextResult ? formatContextDiff(state.contextResult.changes) : null });
+  } catch (e) {
+    console.error('Interview session error:', e);
+    return json({ error: e instanceof Error ? e.message : 'Failed to process answer' }, { status: 500 });
+  }
+};
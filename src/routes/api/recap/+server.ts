@@ -1,22 +1,37 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { b } from '$lib/baml-wrapper.server';
 import {
   hashContent,
   getRecap,
-  storeRecap,
+  getVoiceReport,
+  getFactCheck,
   getJob,
   getJobByInputHash,
   createOrGetJob,
   updateJobPhase,
   completeJob,
+  holdJobForReview,
   failJob,
   deleteJob,
   resetStaleJobs,
   cleanupOldJobs,
   type Job,
 } from '$lib/cache';
-import type { GameRecap, BaseballGameRecap, WaterPoloGameRecap } from '../../../baml_client/types';
+import { detectSport, getSport } from '$lib/sports';
+import {
+  checkRecapVoiceCached,
+  factCheckRecapCached,
+  generateChannelOutputCached,
+  prepareRecapInputs,
+  storeCheckedRecap,
+  type RecapBoxScore,
+} from '$lib/cached-pipeline';
+import { factCheckSummary } from '$lib/fact-check';
+import type { ExportBoxScore } from '$lib/export';
+import { CHANNELS, isChannel, type Channel } from '$lib/channels';
+import { parseVoiceProfile, type VoiceProfile } from '$lib/voice-profile';
+import { resolveProgram } from '$lib/narrative-context';
+import type { GameRecap } from '../../../../baml_client/types.js';
 
 // On server start, reset any stale jobs from previous runs
 resetStaleJobs(5);
@@ -45,6 +60,38 @@ function generateJobId(input: unknown): string {
   return `recap_${hash}`;
 }
 
+type RecapGuidance = ReturnType<typeof prepareRecapInputs>['guidance'];
+
+/**
+ * Voice report for a cached recap: checked against the posted profile, or the
+ * last one stored with the recap
+ */
+async function voiceReportFor(inputHash: string, recap: GameRecap, profile: VoiceProfile | null, judge: boolean) {
+  if (!profile) return getVoiceReport(inputHash)?.report ?? null;
+  return checkRecapVoiceCached(inputHash, recap, profile, { judge });
+}
+
+/**
+ * Fact check for a cached recap, run against the posted box score the first
+ * time and stored with the recap
+ */
+function factCheckFor(inputHash: string, recap: GameRecap, boxScore: ExportBoxScore) {
+  return factCheckRecapCached(inputHash, recap, boxScore);
+}
+
+/**
+ * A recap's version for the requested channel, generated once and cached
+ */
+async function channelOutputFor(channel: Channel | null, recap: GameRecap, guidance: RecapGuidance | null, boxScore: unknown) {
+  if (!channel) return {};
+  const { metadata } = boxScore as ChannelBoxScore;
+  const channelOutput = await generateChannelOutputCached(channel, recap, guidance, {
+    gameDate: metadata?.date ?? null,
+    venue: metadata?.venue ?? null,
+  });
+  return { channelOutput };
+}
+
 /**
  * POST /api/recap
  *
@@ -52,28 +99,86 @@ function generateJobId(input: unknown): string {
  * - First checks SQLite cache for completed recap
  * - If a job is in progress, returns the current status
  * - If no job exists, starts a new one and returns immediately with job ID
+ *
+ * Pass `program` (e.g. "marin-wbkb", with an optional `season`) to write the
+ * recap for that program: its voice profile, narrative context and the game's
+ * signals go into the prompt, and the tier sets the length. The cache key
+ * covers them, so a context or profile edit brings a fresh recap.
+ *
+ * Pass `voiceProfile` (profile markdown) to check the recap against it, and
+ * `judgeVoice: true` to add JudgeVoiceAdherence's read. A program's own profile
+ * is checked when none is posted. The report is stored with the cached recap
+ * and returned as `voiceReport`.
+ *
+ * Add `?channel=` (x, threads, instagram, press_release, newsletter or
+ * pa_script) for that channel's version of the recap as `channelOutput`:
+ * the output, its published text, and a check against the channel's limits.
+ *
+ * Every recap's numbers are checked against the box score (`factCheck`). A
+ * recap with critical mismatches finishes as `needs_review` instead of
+ * `completed` until it's approved at POST /api/recap/[jobId]/review.
+ *
+ * A finished recap downloads as HTML, Markdown, AP text or a story package
+ * from GET /api/recap/[jobId]/export.
  */
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async ({ request, url }) => {
   try {
-    const { boxScore } = await request.json();
+    const body = await request.json();
+    const boxScore: RecapBoxScore | undefined = body.boxScore;
+    const { program, season, voiceProfile, judgeVoice } = body;
+    const channel = url.searchParams.get('channel');
 
     if (!boxScore) {
       return json({ error: 'Box score data is required' }, { status: 400 });
     }
+    if (!boxScore.metadata || !boxScore.home_team || !boxScore.away_team) {
+      return json({ error: 'Box score needs metadata and both teams' }, { status: 400 });
+    }
+    if (channel !== null && !isChannel(channel)) {
+      return json(
+        { error: `Unknown channel '${channel}' (expected one of ${Object.keys(CHANNELS).join(', ')})` },
+        { status: 400 }
+      );
+    }
+    let profile = typeof voiceProfile === 'string' && voiceProfile.trim() ? parseVoiceProfile(voiceProfile) : null;
+
+    // Box scores carry a `sport` discriminator; older JSON is matched structurally
+    const sport = detectSport(boxScore) ?? getSport('basketball');
 
     // Generate hash for cache lookup
-    const inputHash = hashContent(JSON.stringify(boxScore));
+    let inputHash = hashContent(JSON.stringify(boxScore));
+    let guidance: RecapGuidance | null = null;
+    if (program) {
+      const resolved = resolveProgram(program, season);
+      if (!resolved) {
+        return json({ error: `Unknown program '${program}' (expected school-sitecode, e.g. marin-wbkb)` }, { status: 400 });
+      }
+      if (resolved.sport !== sport.id) {
+        return json({ error: `Program '${program}' is ${resolved.sport} but the box score is ${sport.id}` }, { status: 400 });
+      }
+
+      const inputs = prepareRecapInputs(sport, boxScore, program, { season: season || undefined });
+      inputHash = inputs.inputHash;
+      guidance = inputs.guidance;
+      profile = profile ?? inputs.voiceProfile;
+    }
     const jobId = `recap_${inputHash}`;
 
     // 1. First check SQLite cache for completed recap
-    const cachedRecap = getRecap(inputHash);
+    // The cache and job rows hold recaps as stored JSON; they're GameRecaps from here on
+    const cachedRecap = getRecap(inputHash) as GameRecap | null;
     if (cachedRecap) {
+      const factCheck = factCheckFor(inputHash, cachedRecap, boxScore);
+      const held = getFactCheck(inputHash)?.reviewStatus === 'needs_review';
       return json({
         jobId,
-        status: 'completed',
+        status: held ? 'needs_review' : 'completed',
         phase: 'complete',
-        phaseMessage: 'Loaded from cache',
+        phaseMessage: held ? factCheckSummary(factCheck) : 'Loaded from cache',
         recap: cachedRecap,
+        factCheck,
+        voiceReport: await voiceReportFor(inputHash, cachedRecap, profile, judgeVoice === true),
+        ...(await channelOutputFor(channel, cachedRecap, guidance, boxScore)),
         cached: true,
       });
     }
@@ -94,14 +199,16 @@ export const POST: RequestHandler = async ({ request }) => {
           phase: existingJob.phase,
           phaseMessage: existingJob.phaseMessage,
         });
-      } else if (existingJob.status === 'completed' && existingJob.result) {
+      } else if ((existingJob.status === 'completed' || existingJob.status === 'needs_review') && existingJob.result) {
         // Job completed (check result)
+        const recap = existingJob.result as GameRecap;
         return json({
           jobId: existingJob.id,
           status: existingJob.status,
           phase: existingJob.phase,
           phaseMessage: existingJob.phaseMessage,
-          recap: existingJob.result,
+          recap,
+          ...(await channelOutputFor(channel, recap, guidance, boxScore)),
         });
       }
       // Job failed - we'll create a new one below
@@ -115,13 +222,15 @@ export const POST: RequestHandler = async ({ request }) => {
         console.log(`Job ${jobById.id} is stale, resetting...`);
         deleteJob(jobById.id);
         // Continue to create new job below
-      } else if (jobById.status === 'completed' && jobById.result) {
+      } else if ((jobById.status === 'completed' || jobById.status === 'needs_review') && jobById.result) {
+        const recap = jobById.result as GameRecap;
         return json({
           jobId,
           status: jobById.status,
           phase: jobById.phase,
           phaseMessage: jobById.phaseMessage,
-          recap: jobById.result,
+          recap,
+          ...(await channelOutputFor(channel, recap, guidance, boxScore)),
         });
       } else if (jobById.status === 'processing' || jobById.status === 'pending') {
         return json({
@@ -140,7 +249,7 @@ export const POST: RequestHandler = async ({ request }) => {
     // If job was just created (pending), start processing
     if (job.status === 'pending') {
       // Start async processing - don't await
-      processRecapJob(jobId, inputHash, boxScore);
+      processRecapJob(jobId, inputHash, boxScore, guidance, profile, judgeVoice === true, channel);
     }
 
     // Return immediately with job info
@@ -159,56 +268,62 @@ export const POST: RequestHandler = async ({ request }) => {
   }
 };
 
-/**
- * Detect the sport type from the boxScore structure
- */
-function detectSportType(boxScore: unknown): 'baseball' | 'waterpolo' | 'basketball' {
-  if (typeof boxScore !== 'object' || boxScore === null) return 'basketball';
-  const metadata = (boxScore as Record<string, unknown>).metadata;
-  if (typeof metadata !== 'object' || metadata === null) return 'basketball';
-
-  // Baseball has innings
-  if ('innings' in metadata && !('periods' in metadata)) {
-    return 'baseball';
-  }
-
-  // Water polo has goalkeepers in team stats
-  const homeTeam = (boxScore as Record<string, unknown>).home_team;
-  if (typeof homeTeam === 'object' && homeTeam !== null && 'goalkeepers' in homeTeam) {
-    return 'waterpolo';
-  }
-
-  // Default to basketball
-  return 'basketball';
-}
-
 /**
  * Process recap generation asynchronously
  */
-async function processRecapJob(jobId: string, inputHash: string, boxScore: unknown): Promise<void> {
+async function processRecapJob(
+  jobId: string,
+  inputHash: string,
+  boxScore: RecapBoxScore,
+  guidance: RecapGuidance | null,
+  profile: VoiceProfile | null,
+  judgeVoice: boolean,
+  channel: Channel | null
+): Promise<void> {
   try {
     updateJobPhase(jobId, 'validating', 'Validating box score data...');
 
     // Small delay to allow the initial response to be sent
     await new Promise(resolve => setTimeout(resolve, 100));
 
-    updateJobPhase(jobId, 'calling_llm', 'Generating recap with AI...');
+    updateJobPhase(jobId, 'calling_llm', guidance ? 'Generating recap in the program\'s voice...' : 'Generating recap with AI...');
+
+    const sport = detectSport(boxScore) ?? getSport('basketball');
+    const recap = await sport.generateRecap(boxScore, guidance);
+
+    updateJobPhase(jobId, 'parsing_response', 'Processing response...');
 
-    let recap: GameRecap | BaseballGameRecap | WaterPoloGameRecap;
+    // Check the numbers, then store in SQLite cache for future requests; a
+    // check that throws fails the job without caching an unchecked recap
+    updateJobPhase(jobId, 'parsing_response', 'Checking stats against the box score...');
+    const factCheck = storeCheckedRecap(inputHash, recap, boxScore, 'claude-sonnet-4');
 
-    const sportType = detectSportType(boxScore);
-    if (sportType === 'baseball') {
-      recap = await b.GenerateBaseballRecap(boxScore as Parameters<typeof b.GenerateBaseballRecap>[0]);
-    } else if (sportType === 'waterpolo') {
-      recap = await b.GenerateWaterPoloRecap(boxScore as Parameters<typeof b.GenerateWaterPoloRecap>[0]);
-    } else {
-      recap = await b.GenerateRecap(boxScore as Parameters<typeof b.GenerateRecap>[0]);
+    // A failed voice check shouldn't cost the recap
+    if (profile) {
+      updateJobPhase(jobId, 'parsing_response', 'Checking voice...');
+      try {
+        await voiceReportFor(inputHash, recap, profile, judgeVoice);
+      } catch (error) {
+        console.error(`Voice check for ${jobId} failed:`, error);
+      }
     }
 
-    updateJobPhase(jobId, 'parsing_response', 'Processing response...');
+    // Channel output is cached for the next request; the job's result stays the recap
+    if (channel) {
+      updateJobPhase(jobId, 'parsing_response', `Writing ${CHANNELS[channel].name}...`);
+      try {
+        await channelOutputFor(channel, recap, guidance, boxScore);
+      } catch (error) {
+        console.error(`${CHANNELS[channel].name} for ${jobId} failed:`, error);
+      }
+    }
 
-    // Store in SQLite cache for future requests
-    storeRecap(inputHash, recap, 'claude-sonnet-4');
+    // Critical mismatches hold the recap for review instead of completing it
+    if (factCheck.needsReview) {
+      holdJobForReview(jobId, recap, factCheckSummary(factCheck));
+      console.log(`Job ${jobId} held for review: ${factCheckSummary(factCheck)}`);
+      return;
+    }
 
     // Complete the job
     completeJob(jobId, recap);
@@ -218,3 +333,7 @@ async function processRecapJob(jobId: string, inputHash: string, boxScore: unkno
     failJob(jobId, error instanceof Error ? error.message : 'Unknown error');
   }
 }
+
+interface ChannelBoxScore {
+  metadata?: { date?: string | null; venue?: string | null };
+}
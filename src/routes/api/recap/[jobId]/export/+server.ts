@@ -0,0 +1,57 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getFactCheck, getJob, getRecap, getRecapBoxScore } from '$lib/cache';
+import { EXPORT_FORMATS, exportRecap, isExportFormat, type ExportBoxScore } from '$lib/export';
+import type { GameRecap } from '../../../../../../baml_client/types.js';
+
+/**
+ * GET /api/recap/[jobId]/export?format=
+ *
+ * Download a finished recap for publishing:
+ * - html: standalone article page with the box score
+ * - markdown: Markdown with the CMS fields as front matter
+ * - text: plain-text AP-style copy
+ * - zip: story package with article.html, boxscore.html and metadata.json
+ *
+ * The job id is the one POST /api/recap returned. The recap is read from the
+ * cache, so exports keep working after the job itself is cleaned up. A recap
+ * held for review can't be exported until it's approved.
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+  const { jobId } = params;
+  const format = url.searchParams.get('format');
+
+  if (!isExportFormat(format)) {
+    return json(
+      { error: `Unknown export format '${format ?? ''}' (expected one of ${Object.keys(EXPORT_FORMATS).join(', ')})` },
+      { status: 400 }
+    );
+  }
+
+  const job = getJob(jobId);
+  const inputHash = job?.inputHash ?? jobId.replace(/^recap_/, '');
+  const recap = (getRecap(inputHash) ?? job?.result ?? null) as GameRecap | null;
+  if (!recap) {
+    return json({ error: `No finished recap for job ${jobId}` }, { status: 404 });
+  }
+  const factCheck = getFactCheck(inputHash);
+  if (factCheck?.reviewStatus === 'needs_review') {
+    return json(
+      { error: `Recap is held for review; approve it at /api/recap/${jobId}/review first`, factCheck: factCheck.report },
+      { status: 409 }
+    );
+  }
+
+  const exported = exportRecap(
+    format,
+    recap,
+    getRecapBoxScore(inputHash) as ExportBoxScore | null
+  );
+
+  return new Response(exported.body, {
+    headers: {
+      'Content-Type': exported.contentType,
+      'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${exported.filename}"`,
+    },
+  });
+};
@@ -0,0 +1,50 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { approveRecap, completeJob, getFactCheck, getJob, getRecap } from '$lib/cache';
+
+/**
+ * The cache hash behind a recap job id
+ */
+function recapHash(jobId: string): string {
+  return getJob(jobId)?.inputHash ?? jobId.replace(/^recap_/, '');
+}
+
+/**
+ * GET /api/recap/[jobId]/review
+ *
+ * The recap's fact-check report and review status (passed, needs_review or
+ * approved)
+ */
+export const GET: RequestHandler = async ({ params }) => {
+  const { jobId } = params;
+  const factCheck = getFactCheck(recapHash(jobId));
+
+  if (!factCheck) {
+    return json({ error: `No fact-checked recap for job ${jobId}` }, { status: 404 });
+  }
+
+  return json({ jobId, reviewStatus: factCheck.reviewStatus, factCheck: factCheck.report });
+};
+
+/**
+ * POST /api/recap/[jobId]/review
+ *
+ * Approve a recap held for review after checking the flagged claims against
+ * the box score. The job completes and the recap can be exported.
+ */
+export const POST: RequestHandler = async ({ params }) => {
+  const { jobId } = params;
+  const inputHash = recapHash(jobId);
+  const recap = getRecap(inputHash);
+
+  if (!recap || !approveRecap(inputHash)) {
+    return json({ error: `No finished recap for job ${jobId}` }, { status: 404 });
+  }
+
+  const job = getJob(jobId);
+  if (job?.status === 'needs_review') {
+    completeJob(jobId, job.result ?? recap);
+  }
+
+  return json({ jobId, status: 'completed', reviewStatus: 'approved', recap });
+};
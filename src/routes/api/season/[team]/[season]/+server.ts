@@ -0,0 +1,50 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getTeamSeason, getPlayerSeason, getPlayerGameLog, listTeamSeasons } from '$lib/season-store';
+
+/**
+ * GET /api/season/[team]/[season]
+ *
+ * Team season record, games, and per-player season stats.
+ *
+ * Query params:
+ * - sport: site code (e.g. wbkb); required when the team has several programs that season
+ * - player: return just this player's season stats and game log
+ * - before: only count games before this date (YYYY-MM-DD)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+  const { team, season } = params;
+  const player = url.searchParams.get('player');
+  const before = url.searchParams.get('before') ?? undefined;
+  let siteCode = url.searchParams.get('sport') ?? undefined;
+
+  if (before && !/^\d{4}-\d{2}-\d{2}$/.test(before)) {
+    return json({ error: 'before must be a YYYY-MM-DD date' }, { status: 400 });
+  }
+
+  if (!siteCode) {
+    const programs = listTeamSeasons(team).filter((row) => row.season === season);
+    if (programs.length > 1) {
+      return json(
+        { error: `${team} has several programs in ${season}; pass ?sport=`, sports: programs.map((row) => row.siteCode) },
+        { status: 400 }
+      );
+    }
+    siteCode = programs[0]?.siteCode;
+  }
+
+  if (player) {
+    const stats = getPlayerSeason(team, season, player, { siteCode, before });
+    if (!stats) {
+      return json({ error: `No games for ${player} in ${team} ${season}` }, { status: 404 });
+    }
+    return json({ team, season, siteCode, ...stats, gameLog: getPlayerGameLog(team, season, player, { siteCode, before }) });
+  }
+
+  const teamSeason = getTeamSeason(team, season, { siteCode, before });
+  if (!teamSeason) {
+    return json({ error: `No games recorded for ${team} in ${season}` }, { status: 404 });
+  }
+
+  return json(teamSeason);
+};
@@ -0,0 +1,159 @@
+#!/usr/bin/env npx tsx
+
+import 'dotenv/config';
+
+/**
+ * Build the season store from fetched box scores
+ *
+ * Parses each file in inbox/raw through its sport's cached parser and records it
+ * in both teams' seasons. Filenames carry the date and site code
+ * (2023-11-01_wbkb_euf7.txt), which give the season and the sport.
+ *
+ * Usage:
+ *   npx tsx tools/build-season.ts                       # Record every supported file
+ *   npx tsx tools/build-season.ts --sport wbkb          # One site code only
+ *   npx tsx tools/build-season.ts --show marin 2023-24 --sport wbkb  # Print a team season
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { closeCache } from '../src/lib/cache.js';
+import { parseSportBoxScoreCached } from '../src/lib/cached-pipeline.js';
+import { getSportForSiteCode } from '../src/lib/sports/index.js';
+import { recordSeasonGame, getTeamSeason, listTeamSeasons } from '../src/lib/season-store.js';
+import { isSeasonBoxScore, isSeasonSport } from '../src/lib/season-stats.js';
+
+const RAW_DIR = join(process.cwd(), 'inbox/raw');
+const FILENAME = /^(\d{4}-\d{2}-\d{2})_([a-z]+)_[^.]+\.(txt|html)$/;
+
+function printUsage() {
+  console.log(`
+Build Season Store - Season stats and player game logs
+
+Usage:
+  npx tsx tools/build-season.ts [options]
+
+Options:
+  --sport <code>          Only record (or show) this site code (e.g. wbkb, bsb)
+  --force                 Force re-parse (skip cache)
+  --show <team> <season>  Print a team's season instead of building
+  --list                  List recorded team seasons
+  --help                  Show this help message
+`);
+}
+
+interface Args {
+  sport?: string;
+  force?: boolean;
+  show?: { team: string; season: string };
+  list?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(args: string[]): Args {
+  const result: Args = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--sport':
+        result.sport = args[++i];
+        break;
+      case '--force':
+        result.force = true;
+        break;
+      case '--show':
+        result.show = { team: args[++i], season: args[++i] };
+        break;
+      case '--list':
+        result.list = true;
+        break;
+      case '--help':
+      case '-h':
+        result.help = true;
+        break;
+    }
+  }
+
+  return result;
+}
+
+function showTeamSeason(team: string, season: string, siteCode?: string) {
+  const teamSeason = getTeamSeason(team, season, { siteCode });
+  if (!teamSeason) {
+    console.error(`No games recorded for ${team} in ${season}`);
+    process.exit(1);
+  }
+
+  const { wins, losses, ties } = teamSeason.record;
+  console.log(`${teamSeason.teamName} ${season} (${teamSeason.siteCode}): ${wins}-${losses}${ties ? `-${ties}` : ''}`);
+  for (const game of teamSeason.games) {
+    const where = game.homeAway === 'home' ? 'vs' : 'at';
+    console.log(`  ${game.gameDate ?? '????-??-??'} ${game.result} ${game.teamScore}-${game.opponentScore} ${where} ${game.opponent}`);
+  }
+
+  console.log('\nPlayers:');
+  const players = [...teamSeason.players].sort((a, b) => b.games - a.games);
+  for (const player of players) {
+    const averages = Object.entries(player.averages)
+      .slice(0, 6)
+      .map(([stat, value]) => `${stat} ${value}`)
+      .join(', ');
+    console.log(`  ${player.player} (${player.games} GP): ${averages}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  if (args.list) {
+    for (const row of listTeamSeasons()) {
+      console.log(`${row.season}  ${row.siteCode.padEnd(10)}  ${row.team} (${row.games} games)`);
+    }
+    closeCache();
+    return;
+  }
+
+  if (args.show) {
+    showTeamSeason(args.show.team, args.show.season, args.sport);
+    closeCache();
+    return;
+  }
+
+  const files = readdirSync(RAW_DIR).filter((f) => FILENAME.test(f));
+  let recorded = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    const [, gameDate, siteCode] = file.match(FILENAME)!;
+    if (args.sport && siteCode !== args.sport) continue;
+
+    const sport = getSportForSiteCode(siteCode);
+    if (!sport || !isSeasonSport(sport.id)) continue;
+    const sportId = sport.id;
+
+    try {
+      const boxScore = await parseSportBoxScoreCached(sport, readFileSync(join(RAW_DIR, file), 'utf-8'), {
+        forceRefresh: args.force,
+      });
+      if (!isSeasonBoxScore(sportId, boxScore)) throw new Error(`not a ${sport.name} box score`);
+      const season = recordSeasonGame(boxScore, { sport: sportId, siteCode, gameDate, gameId: file });
+      console.log(`  ${file} -> ${season}`);
+      recorded++;
+    } catch (error) {
+      console.error(`  ${file} failed: ${error instanceof Error ? error.message : error}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nRecorded ${recorded} games${failed ? `, ${failed} failed` : ''}`);
+  closeCache();
+}
+
+main();
@@ -0,0 +1,214 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Calibrate priority weights and tier cutoffs from past coverage decisions
+ *
+ * Reads a CSV of games the SID has already decided on, with a header row and
+ * two columns: the game, and whether it was featured (yes/no, or the tier it
+ * was covered at: high/medium/low). A game is a raw input filename from
+ * inbox/raw (looked up in the cache, so run the pipeline first) or a box score
+ * JSON file. Fields can't contain commas.
+ *
+ *   game,featured
+ *   2026-01-28_wbkb_12345.txt,yes
+ *   2026-01-30_wbkb_12346.txt,no
+ *
+ * Each sport in the history is fit separately, starting from the school's
+ * current config. The tool reports how many decisions the current and fitted
+ * settings agree with; --write saves the fitted settings to the school's config.
+ *
+ * Usage:
+ *   npx tsx tools/calibrate-priority.ts decisions.csv --school marin
+ *   npx tsx tools/calibrate-priority.ts decisions.csv --school marin --sport basketball --write
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import { getParsedGamesForDate } from '../src/lib/cache.js';
+import { detectSport, getSportForSiteCode, type SportModule } from '../src/lib/sports/index.js';
+import { loadPriorityConfig, parsePriorityConfig, priorityConfigPath } from '../src/lib/priority-config.js';
+import {
+  calibratePriority,
+  parseCoverageDecision,
+  prioritySignalsOf,
+  type AgreementReport,
+  type CalibrationGame,
+} from '../src/lib/priority-calibration.js';
+import { resolveSportPriority, type PriorityOverrides, type PrioritySport } from '../src/lib/story-signals.js';
+
+// Below this many decisions a fit mostly memorizes the games it was given
+const MIN_GAMES = 10;
+
+function printUsage() {
+  console.log(`
+Calibrate Priority - Fit priority weights and tier cutoffs to past coverage decisions
+
+Usage:
+  npx tsx tools/calibrate-priority.ts <decisions.csv> --school <school> [options]
+
+Arguments:
+  decisions.csv           CSV with a header row: game,featured
+
+Options:
+  --school <school>       School slug whose config to start from and write, e.g. marin
+  --sport <sport>         Only calibrate one sport, e.g. basketball
+  --max-weight <n>        Largest whole-number weight to try (default: 4)
+  --write                 Save the fitted settings to profiles/<school>-priority.json
+  --help                  Show this help message
+`);
+}
+
+interface Args {
+  decisionsFile?: string;
+  school?: string;
+  sport?: string;
+  maxWeight?: number;
+  write?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(args: string[]): Args {
+  const result: Args = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--school':
+        result.school = args[++i];
+        break;
+      case '--sport':
+        result.sport = args[++i];
+        break;
+      case '--max-weight':
+        result.maxWeight = parseInt(args[++i], 10);
+        break;
+      case '--write':
+        result.write = true;
+        break;
+      case '--help':
+      case '-h':
+        result.help = true;
+        break;
+      default:
+        result.decisionsFile = arg;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find a game's box score and sport: a JSON file, or a raw input in the cache
+ */
+function loadGame(game: string): { boxScore: unknown; sport: SportModule } | null {
+  if (game.endsWith('.json')) {
+    if (!existsSync(game)) return null;
+    const boxScore = JSON.parse(readFileSync(game, 'utf-8'));
+    const sport = detectSport(boxScore);
+    return sport ? { boxScore, sport } : null;
+  }
+
+  // Raw inputs are named {date}_{siteCode}_{gameCode}
+  const name = basename(game);
+  const date = name.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  if (!date) return null;
+  const parsed = getParsedGamesForDate(date).find((row) => basename(row.filePath) === name);
+  if (!parsed) return null;
+  const sport = (parsed.sport && getSportForSiteCode(parsed.sport)) || detectSport(parsed.boxScore);
+  return sport ? { boxScore: parsed.boxScore, sport } : null;
+}
+
+function percent(report: AgreementReport): string {
+  return `${report.agreed}/${report.total} (${Math.round(report.rate * 100)}%)`;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help || !args.decisionsFile || !args.school) {
+    printUsage();
+    process.exit(args.help ? 0 : 1);
+  }
+  if (!existsSync(args.decisionsFile)) {
+    console.error(`File not found: ${args.decisionsFile}`);
+    process.exit(1);
+  }
+  if (args.maxWeight !== undefined && !(args.maxWeight >= 1)) {
+    console.error('--max-weight must be a whole number of at least 1');
+    process.exit(1);
+  }
+
+  const overrides: PriorityOverrides = loadPriorityConfig(args.school) ?? {};
+
+  // Gather the history by sport
+  const lines = readFileSync(args.decisionsFile, 'utf-8').split(/\r?\n/).filter((line) => line.trim());
+  const history = new Map<string, { sport: SportModule; games: CalibrationGame[] }>();
+  let skipped = 0;
+
+  for (const [index, line] of lines.slice(1).entries()) {
+    const [game, answer = ''] = line.split(',').map((field) => field.trim());
+    const decision = parseCoverageDecision(answer);
+    if (!decision) {
+      console.warn(`Line ${index + 2}: can't read "${answer}" as a decision (expected yes/no or high/medium/low); skipping`);
+      skipped++;
+      continue;
+    }
+    const loaded = loadGame(game);
+    if (!loaded) {
+      console.warn(`Line ${index + 2}: no parsed box score for ${game}; skipping`);
+      skipped++;
+      continue;
+    }
+    if (args.sport && loaded.sport.id !== args.sport) continue;
+
+    const { boxScore, sport } = loaded;
+    const entry = history.get(sport.id) ?? { sport, games: [] };
+    entry.games.push({
+      id: game,
+      signals: prioritySignalsOf((priority) => sport.computeSignals(boxScore, undefined, priority)),
+      decision,
+    });
+    history.set(sport.id, entry);
+  }
+
+  if (history.size === 0) {
+    console.error(`No games to calibrate${args.sport ? ` for ${args.sport}` : ''}${skipped ? ` (${skipped} skipped)` : ''}`);
+    process.exit(1);
+  }
+
+  for (const { sport, games } of history.values()) {
+    const start = resolveSportPriority(sport.id, overrides);
+    const result = calibratePriority(games, start, { maxWeight: args.maxWeight });
+
+    console.log(`\n${sport.name} (${games.length} ${games.length === 1 ? 'game' : 'games'})`);
+    console.log(`  Agreement before: ${percent(result.before)}`);
+    console.log(`  Agreement after:  ${percent(result.after)}`);
+    if (games.length < MIN_GAMES) {
+      console.log(`  Fewer than ${MIN_GAMES} decisions; the fit may not hold for next season's games`);
+    }
+
+    if (result.priority === start) {
+      console.log('  No settings agree with more decisions; keeping the current ones');
+      continue;
+    }
+
+    console.log(`  Weights: ${JSON.stringify(result.priority.weights)}`);
+    console.log(`  Tiers:   ${JSON.stringify(result.priority.tiers)}`);
+    for (const miss of result.after.disagreements.slice(0, 10)) {
+      console.log(`  Still disagrees: ${miss.id} (${miss.decision}, scored ${miss.score} → ${miss.tier})`);
+    }
+    overrides[sport.id as PrioritySport] = { weights: result.priority.weights, tiers: result.priority.tiers };
+  }
+
+  if (args.write) {
+    const path = priorityConfigPath(args.school);
+    parsePriorityConfig(overrides, path);
+    writeFileSync(path, JSON.stringify(overrides, null, 2) + '\n');
+    console.log(`\nWrote ${path}`);
+  } else {
+    console.log('\nRun with --write to save the fitted settings');
+  }
+}
+
+main();
@@ -0,0 +1,175 @@
+#!/usr/bin/env npx tsx
+
+import 'dotenv/config';
+
+/**
+ * Draft a voice profile from published recaps
+ *
+ * Reads a folder of a program's past recaps (.txt, .md or saved .html pages),
+ * finds phrases they keep using, and asks DraftVoiceProfile to answer the
+ * TEMPLATE.md questions from them. Writes profiles/{school}-{sport}.md with a
+ * confidence note under every answer for the SID to review.
+ *
+ * Usage:
+ *   npx tsx tools/draft-voice-profile.ts recaps/marin marin-wbkb
+ *   npx tsx tools/draft-voice-profile.ts recaps/marin marin-wbkb --sport-name "Women's Basketball"
+ *   npx tsx tools/draft-voice-profile.ts recaps/marin marin-wbkb --dry-run   # Print instead of writing
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { extname, join } from 'path';
+import { b } from '../baml_client/index.js';
+import { getSportForSiteCode } from '../src/lib/sports/index.js';
+import { parseProgramId } from '../src/lib/narrative-context.js';
+import { parseVoiceProfile, validateVoiceProfile } from '../src/lib/voice-profile.js';
+import { fillVoiceProfileTemplate, htmlToText, recurringPhrases } from '../src/lib/voice-profile-draft.js';
+
+const PROFILES_DIR = join(process.cwd(), 'profiles');
+const RECAP_EXTENSIONS = ['.txt', '.md', '.html', '.htm'];
+// Enough recaps to see a pattern without overrunning the prompt
+const MAX_RECAPS = 20;
+const MAX_RECAP_CHARS = 6000;
+
+function printUsage() {
+  console.log(`
+Draft Voice Profile - Onboard a program from its published recaps
+
+Usage:
+  npx tsx tools/draft-voice-profile.ts <recap-folder> <program> [options]
+
+Arguments:
+  recap-folder            Folder of past recaps (.txt, .md, .html)
+  program                 Program id, e.g. marin-wbkb
+
+Options:
+  --sport-name <name>     Sport as the SID would say it (default: the site code's program, e.g. "Women's Basketball")
+  --force                 Overwrite an existing profile
+  --dry-run               Print the draft instead of writing it
+  --help                  Show this help message
+`);
+}
+
+interface Args {
+  folder?: string;
+  program?: string;
+  sportName?: string;
+  force?: boolean;
+  dryRun?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(args: string[]): Args {
+  const result: Args = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--sport-name':
+        result.sportName = args[++i];
+        break;
+      case '--force':
+        result.force = true;
+        break;
+      case '--dry-run':
+        result.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        result.help = true;
+        break;
+      default:
+        positional.push(arg);
+    }
+  }
+
+  [result.folder, result.program] = positional;
+  return result;
+}
+
+function readRecaps(folder: string): string[] {
+  return readdirSync(folder)
+    .filter((file) => RECAP_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort()
+    .map((file) => {
+      const content = readFileSync(join(folder, file), 'utf-8');
+      return extname(file).toLowerCase().startsWith('.htm') ? htmlToText(content) : content.trim();
+    })
+    .filter((text) => text.length > 0);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help || !args.folder || !args.program) {
+    printUsage();
+    process.exit(args.help ? 0 : 1);
+  }
+
+  const program = parseProgramId(args.program);
+  const sport = program && getSportForSiteCode(program.siteCode);
+  if (!program || !sport) {
+    console.error(`Unknown program "${args.program}"; expected school-sitecode, e.g. marin-wbkb`);
+    process.exit(1);
+  }
+  if (!existsSync(args.folder)) {
+    console.error(`Recap folder not found: ${args.folder}`);
+    process.exit(1);
+  }
+
+  const outputPath = join(PROFILES_DIR, `${args.program}.md`);
+  if (existsSync(outputPath) && !args.force && !args.dryRun) {
+    console.error(`${outputPath} already exists; pass --force to overwrite`);
+    process.exit(1);
+  }
+
+  const recaps = readRecaps(args.folder);
+  if (recaps.length === 0) {
+    console.error(`No recaps (${RECAP_EXTENSIONS.join(', ')}) in ${args.folder}`);
+    process.exit(1);
+  }
+  const used = recaps.slice(-MAX_RECAPS).map((text) => text.slice(0, MAX_RECAP_CHARS));
+  if (used.length < recaps.length) {
+    console.log(`Using the last ${used.length} of ${recaps.length} recaps`);
+  }
+
+  const phrases = recurringPhrases(used);
+  console.log(`${used.length} recaps, ${phrases.length} recurring phrases`);
+  for (const { phrase, recaps: count } of phrases.slice(0, 10)) {
+    console.log(`  ${count}x ${phrase}`);
+  }
+
+  const template = readFileSync(join(PROFILES_DIR, 'TEMPLATE.md'), 'utf-8');
+  console.log(`\n[llm] DraftVoiceProfile - calling LLM...`);
+  const draft = await b.DraftVoiceProfile(
+    used,
+    phrases.map((entry) => `${entry.phrase} (${entry.recaps} recaps)`),
+    args.program,
+    args.sportName ?? sport.siteCodes[program.siteCode],
+    template
+  );
+
+  const markdown = fillVoiceProfileTemplate(template, draft, used.length);
+  if (args.dryRun) {
+    console.log(`\n${markdown}`);
+  } else {
+    writeFileSync(outputPath, markdown);
+    console.log(`\nWrote ${outputPath}`);
+  }
+
+  for (const answer of draft.answers) {
+    const label = answer.number === null || answer.number === undefined ? 'Additional Context' : `Q${answer.number}`;
+    console.log(`  ${label.padEnd(18)} ${answer.confidence.padEnd(6)} ${answer.answer ? '' : '(unanswered) '}${answer.evidence}`);
+  }
+
+  const validation = validateVoiceProfile(parseVoiceProfile(markdown));
+  for (const error of validation.errors) console.log(`  error: ${error}`);
+  for (const warning of validation.warnings) console.log(`  warning: ${warning}`);
+  console.log('\nReview every answer and its confidence note before using this profile.');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Export a recap for publishing
+ *
+ * Renders a cached recap and its box score as a standalone HTML article,
+ * Markdown with front matter, plain-text AP-style copy, or a zip story package
+ * for a CMS upload. Takes the job id POST /api/recap returned (or the recap's
+ * cache hash), or a recap JSON file with --recap and an optional --box-score.
+ * A cached recap held for review by the fact check needs --force.
+ *
+ * Usage:
+ *   npx tsx tools/export-recap.ts recap_3f2a... --format html
+ *   npx tsx tools/export-recap.ts recap_3f2a... --format zip --output exports/
+ *   npx tsx tools/export-recap.ts --recap recap.json --box-score boxscore.json --format text
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getFactCheck, getRecap, getRecapBoxScore } from '../src/lib/cache.js';
+import {
+  EXPORT_FORMATS,
+  exportRecap,
+  isExportFormat,
+  type ExportBoxScore,
+  type ExportFormat,
+} from '../src/lib/export.js';
+import type { GameRecap } from '../baml_client/types.js';
+
+function printUsage() {
+  console.log(`
+Export Recap - Render a recap as HTML, Markdown, AP text or a story package
+
+Usage:
+  npx tsx tools/export-recap.ts <job-id> --format <format> [options]
+  npx tsx tools/export-recap.ts --recap <file> [--box-score <file>] --format <format> [options]
+
+Arguments:
+  job-id                  Job id from POST /api/recap (recap_<hash>) or the recap's hash
+
+Options:
+  --format <format>       ${Object.keys(EXPORT_FORMATS).join(', ')}
+  --recap <file>          Recap JSON file instead of a cached recap
+  --box-score <file>      Box score JSON file to go with --recap
+  --output <path>         File or directory to write (default: print text, write zips to the current directory)
+  --force                 Export a recap held for review
+  --help                  Show this help message
+`);
+}
+
+interface Args {
+  jobId?: string;
+  format?: string;
+  recapFile?: string;
+  boxScoreFile?: string;
+  output?: string;
+  force?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(args: string[]): Args {
+  const result: Args = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--format':
+      case '-f':
+        result.format = args[++i];
+        break;
+      case '--recap':
+        result.recapFile = args[++i];
+        break;
+      case '--box-score':
+        result.boxScoreFile = args[++i];
+        break;
+      case '--output':
+      case '-o':
+        result.output = args[++i];
+        break;
+      case '--force':
+        result.force = true;
+        break;
+      case '--help':
+      case '-h':
+        result.help = true;
+        break;
+      default:
+        result.jobId = arg;
+    }
+  }
+
+  return result;
+}
+
+function readJson(path: string): unknown {
+  if (!existsSync(path)) {
+    console.error(`File not found: ${path}`);
+    process.exit(1);
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+function loadRecap(args: Args): { recap: GameRecap; boxScore: ExportBoxScore | null } {
+  if (args.recapFile) {
+    return {
+      recap: readJson(args.recapFile) as GameRecap,
+      boxScore: args.boxScoreFile ? (readJson(args.boxScoreFile) as ExportBoxScore) : null,
+    };
+  }
+
+  const inputHash = args.jobId!.replace(/^recap_/, '');
+  const recap = getRecap(inputHash);
+  if (!recap) {
+    console.error(`No cached recap for ${args.jobId}`);
+    process.exit(1);
+  }
+  const factCheck = getFactCheck(inputHash);
+  if (factCheck?.reviewStatus === 'needs_review' && !args.force) {
+    console.error('This recap is held for review: its fact check found numbers that don\'t match the box score.');
+    console.error('Approve it with POST /api/recap/<job-id>/review, or pass --force to export anyway');
+    process.exit(1);
+  }
+  const boxScore = getRecapBoxScore(inputHash) as ExportBoxScore | null;
+  if (!boxScore) {
+    console.warn('No box score stored with this recap; exporting the article alone');
+  }
+  return { recap: recap as GameRecap, boxScore };
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help || (!args.jobId && !args.recapFile) || !args.format) {
+    printUsage();
+    process.exit(args.help ? 0 : 1);
+  }
+  if (!isExportFormat(args.format)) {
+    console.error(`Unknown format "${args.format}"; expected one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+    process.exit(1);
+  }
+  const format: ExportFormat = args.format;
+
+  const { recap, boxScore } = loadRecap(args);
+  const exported = exportRecap(format, recap, boxScore);
+
+  // Text formats print unless asked to write; a zip always goes to a file
+  if (!args.output && typeof exported.body === 'string') {
+    process.stdout.write(exported.body);
+    return;
+  }
+
+  let outputPath = args.output ?? exported.filename;
+  if (args.output && (args.output.endsWith('/') || (existsSync(args.output) && statSync(args.output).isDirectory()))) {
+    mkdirSync(args.output, { recursive: true });
+    outputPath = join(args.output, exported.filename);
+  }
+  writeFileSync(outputPath, exported.body);
+  console.log(`Wrote ${outputPath}`);
+}
+
+main();
@@ -1,15 +1,22 @@
 #!/usr/bin/env npx ts-node
 
 /**
- * CLI tool for fetching basketball box scores from College of Marin Athletics
+ * CLI tool for fetching box scores from College of Marin Athletics
  *
  * Usage:
  *   npx ts-node tools/fetch-boxscores.ts --sport wbkb --season 2023-24
  *   npx ts-node tools/fetch-boxscores.ts --sport mbkb --season 2023-24 --max 5
+ *   npx ts-node tools/fetch-boxscores.ts --sport wbkb --season 2023-24 --play-by-play
  *   npx ts-node tools/fetch-boxscores.ts --list-seasons
  */
 
 import { fetchAllBoxScores, getAvailableSeasons, type Sport } from '../src/lib/fetcher.js';
+import { getSportForSiteCode, listSports } from '../src/lib/sports/index.js';
+
+const SITE_CODES = listSports().flatMap((sport) => Object.keys(sport.siteCodes));
+const PLAY_BY_PLAY_CODES = listSports()
+  .filter((sport) => sport.playByPlay)
+  .flatMap((sport) => Object.keys(sport.siteCodes));
 
 function printUsage() {
   console.log(`
@@ -19,10 +26,11 @@ Usage:
   npx ts-node tools/fetch-boxscores.ts [options]
 
 Options:
-  --sport <mbkb|wbkb>   Sport to fetch (mbkb = men's basketball, wbkb = women's)
+  --sport <code>        Sport to fetch (${SITE_CODES.join(', ')})
   --season <YYYY-YY>    Season to fetch (e.g., 2023-24)
   --max <number>        Maximum games to fetch (for testing)
   --delay <ms>          Delay between requests (default: 500ms)
+  --play-by-play        Also fetch play-by-play pages (${PLAY_BY_PLAY_CODES.join(', ')} only)
   --list-seasons        List available seasons
   --help                Show this help message
 
@@ -33,6 +41,12 @@ Examples:
   # Fetch first 5 men's basketball games
   npx ts-node tools/fetch-boxscores.ts --sport mbkb --season 2023-24 --max 5
 
+  # Fetch women's basketball with play-by-play for momentum analysis
+  npx ts-node tools/fetch-boxscores.ts --sport wbkb --season 2023-24 --play-by-play
+
+  # Fetch women's volleyball (saved as HTML)
+  npx ts-node tools/fetch-boxscores.ts --sport wvball --season 2024
+
   # List available seasons
   npx ts-node tools/fetch-boxscores.ts --list-seasons
 `);
@@ -43,6 +57,7 @@ function parseArgs(args: string[]): {
   season?: string;
   max?: number;
   delay?: number;
+  playByPlay?: boolean;
   listSeasons?: boolean;
   help?: boolean;
 } {
@@ -64,6 +79,9 @@ function parseArgs(args: string[]): {
       case '--delay':
         result.delay = parseInt(args[++i], 10);
         break;
+      case '--play-by-play':
+        result.playByPlay = true;
+        break;
       case '--list-seasons':
         result.listSeasons = true;
         break;
@@ -94,13 +112,18 @@ async function main() {
   }
 
   if (!args.sport) {
-    console.error('Error: --sport is required (mbkb or wbkb)');
+    console.error(`Error: --sport is required (${SITE_CODES.join(', ')})`);
     printUsage();
     process.exit(1);
   }
 
-  if (!['mbkb', 'wbkb'].includes(args.sport)) {
-    console.error(`Error: Invalid sport "${args.sport}". Must be mbkb or wbkb.`);
+  if (!getSportForSiteCode(args.sport)) {
+    console.error(`Error: Invalid sport "${args.sport}". Must be one of: ${SITE_CODES.join(', ')}.`);
+    process.exit(1);
+  }
+
+  if (args.playByPlay && !getSportForSiteCode(args.sport)?.playByPlay) {
+    console.error(`Error: --play-by-play is only supported for ${PLAY_BY_PLAY_CODES.join(', ')}`);
     process.exit(1);
   }
 
@@ -119,7 +142,8 @@ async function main() {
   try {
     const result = await fetchAllBoxScores(args.sport, args.season, {
       delay: args.delay ?? 500,
-      maxGames: args.max
+      maxGames: args.max,
+      playByPlay: args.playByPlay
     });
 
     console.log('\n--- Summary ---');
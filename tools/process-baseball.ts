@@ -3,7 +3,10 @@
 import 'dotenv/config';
 
 /**
- * Process baseball box scores through the cached pipeline
+ * Process baseball and softball box scores through the cached pipeline
+ *
+ * Softball files (site code "sball") share the baseball page layout and are
+ * parsed the same way, then run through the softball trigger prompt.
  *
  * Usage:
  *   npx tsx tools/process-baseball.ts --file <path>          # Process one file
@@ -17,12 +20,13 @@ import {
   storeRawInput,
   closeCache,
 } from '../src/lib/cache.js';
-import { parseBaseballBoxScoreCached, detectBaseballTriggersCached } from '../src/lib/cached-pipeline.js';
+import { parseSportBoxScoreCached, detectSportTriggersCached } from '../src/lib/cached-pipeline.js';
+import { baseball, softball } from '../src/lib/sports/index.js';
 import { extractBaseballBoxScoreText } from '../src/lib/baseball-parser.js';
 
 function printUsage() {
   console.log(`
-Process Baseball Box Scores - Cached Pipeline
+Process Baseball and Softball Box Scores - Cached Pipeline
 
 Usage:
   npx tsx tools/process-baseball.ts [options]
@@ -40,6 +44,9 @@ Examples:
 
   # Process with forced refresh
   npx tsx tools/process-baseball.ts --file inbox/raw/2026-01-30_bsb_crvb.html --force
+
+  # Process a softball game (detected from the sball site code)
+  npx tsx tools/process-baseball.ts --file inbox/raw/2026-02-14_sball_abcd.html
 `);
 }
 
@@ -95,6 +102,7 @@ async function processFile(
   const gameDate = match?.[1];
   const sport = match?.[2];
   storeRawInput(filePath, rawContent, sport, gameDate);
+  const sportModule = sport === 'sball' ? softball : baseball;
 
   // For HTML files, extract clean text first
   const isHtml = filePath.endsWith('.html') || rawContent.includes('<!DOCTYPE html');
@@ -109,8 +117,10 @@ async function processFile(
   console.log('─'.repeat(50));
 
   try {
-    const boxScore = await parseBaseballBoxScoreCached(content, {
+    // Pass the original HTML so the deterministic parser can skip the LLM entirely
+    const boxScore = await parseSportBoxScoreCached(sportModule, content, {
       forceRefresh: options.forceRefresh,
+      html: isHtml ? rawContent : undefined,
     });
 
     // Print summary
@@ -160,7 +170,7 @@ async function processFile(
     }
 
     if (!options.parseOnly) {
-      const triggers = await detectBaseballTriggersCached(boxScore, {
+      const triggers = await detectSportTriggersCached(sportModule, boxScore, {
         forceRefresh: options.forceRefresh,
       });
 
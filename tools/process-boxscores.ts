@@ -11,9 +11,10 @@ import 'dotenv/config';
  *   npx tsx tools/process-boxscores.ts --all --limit 5        # Process first 5 files
  *   npx tsx tools/process-boxscores.ts --stats                # Show cache stats
  *   npx tsx tools/process-boxscores.ts --file <path> --force  # Force refresh (skip cache)
+ *   npx tsx tools/process-boxscores.ts --all --triggers rules # Rule-based triggers, no LLM
  */
 
-import { readdirSync } from 'fs';
+import { readdirSync, existsSync, readFileSync } from 'fs';
 import { join, basename } from 'path';
 import {
   getCacheStats,
@@ -22,6 +23,10 @@ import {
   closeCache,
 } from '../src/lib/cache.js';
 import { processBoxScoreCached } from '../src/lib/cached-pipeline.js';
+import { computeStorySignals } from '../src/lib/story-signals.js';
+import { withHistoryHighlights } from '../src/lib/player-history.js';
+import { playByPlayPath } from '../src/lib/fetcher.js';
+import { parsePlayByPlayHtml } from '../src/lib/play-by-play-parser.js';
 
 const RAW_DIR = join(process.cwd(), 'inbox/raw');
 
@@ -38,6 +43,8 @@ Options:
   --limit <n>       Limit to n files (use with --all)
   --force           Force refresh (skip cache)
   --parse-only      Only parse box scores, don't detect triggers
+  --triggers <mode> Trigger detection: llm (default), rules (no LLM), or enrich
+                    (rule triggers ranked and enriched by the LLM)
   --stats           Show cache statistics
   --help            Show this help message
 
@@ -50,6 +57,9 @@ Examples:
 
   # Process first 3 files, force refresh
   npx tsx tools/process-boxscores.ts --all --limit 3 --force
+
+  # Instant rule-based triggers for every file
+  npx tsx tools/process-boxscores.ts --all --triggers rules
 `);
 }
 
@@ -59,6 +69,7 @@ interface Args {
   limit?: number;
   force?: boolean;
   parseOnly?: boolean;
+  triggers?: 'llm' | 'rules' | 'enrich';
   stats?: boolean;
   help?: boolean;
 }
@@ -85,6 +96,9 @@ function parseArgs(args: string[]): Args {
       case '--parse-only':
         result.parseOnly = true;
         break;
+      case '--triggers':
+        result.triggers = args[++i] as Args['triggers'];
+        break;
       case '--stats':
         result.stats = true;
         break;
@@ -100,35 +114,63 @@ function parseArgs(args: string[]): Args {
 
 async function processFile(
   filePath: string,
-  options: { forceRefresh?: boolean; parseOnly?: boolean }
+  options: { forceRefresh?: boolean; parseOnly?: boolean; triggers?: Args['triggers'] }
 ): Promise<void> {
   console.log(`\nProcessing: ${basename(filePath)}`);
   console.log('─'.repeat(50));
 
+  const match = basename(filePath).match(/^(\d{4}-\d{2}-\d{2})_(\w+)_\w+\.txt$/);
+  const gameDate = match?.[1];
+  const sport = match?.[2];
+
   // Get raw content from cache
   let rawInput = getRawInput(filePath);
 
   if (!rawInput) {
     // Try to import it
-    const { readFileSync } = await import('fs');
     const content = readFileSync(filePath, 'utf-8');
-    const match = basename(filePath).match(/^(\d{4}-\d{2}-\d{2})_(\w+)_\w+\.txt$/);
-    const gameDate = match?.[1];
-    const sport = match?.[2];
     storeRawInput(filePath, content, sport, gameDate);
     rawInput = { content, contentHash: '' };
   }
 
+  // Momentum comes from the play-by-play page, when one was fetched
+  const pbpPath = playByPlayPath(filePath);
+  const playByPlay = existsSync(pbpPath) ? parsePlayByPlayHtml(readFileSync(pbpPath, 'utf-8')) : null;
+
   try {
     const result = await processBoxScoreCached(rawInput.content, {
       forceRefresh: options.forceRefresh,
+      playByPlay: playByPlay ?? undefined,
+      triggerMode: options.triggers,
+      // Season/career highs need the game's date and program (see tools/build-season.ts)
+      history: gameDate && sport ? { siteCode: sport, gameDate } : undefined,
     });
 
     // Print summary
-    const { boxScore, triggers } = result;
+    const { boxScore, triggers, highlights, trends } = result;
     console.log(`\nGame: ${boxScore.metadata.away_team} @ ${boxScore.metadata.home_team}`);
     console.log(`Score: ${boxScore.metadata.away_score} - ${boxScore.metadata.home_score}`);
     console.log(`Date: ${boxScore.metadata.date || 'Unknown'}`);
+    if (boxScore.momentum) {
+      const { momentum } = boxScore;
+      console.log(`Momentum: ${momentum.lead_changes} lead changes, ${momentum.ties} ties, biggest run ${momentum.biggest_run_points}-0`);
+    }
+
+    const signals = withHistoryHighlights(computeStorySignals(boxScore), highlights);
+    console.log(`\nSignals (${signals.tier}, score ${signals.priority_score}):`);
+    for (const reason of signals.signal_reasons) {
+      console.log(`  • ${reason}`);
+    }
+
+    if (trends) {
+      console.log('\nSeason trends:');
+      for (const team of trends.teams) {
+        console.log(`  ${team.team_name}: ${team.record} (home ${team.home_record}, road ${team.road_record}), streak ${team.streak}`);
+      }
+      for (const trend of trends.players) {
+        console.log(`  • ${trend.player_name}: ${trend.description}`);
+      }
+    }
 
     if (!options.parseOnly) {
       console.log(`\nTriggers detected: ${triggers.triggers.length}`);
@@ -168,6 +210,7 @@ async function main() {
     await processFile(args.file, {
       forceRefresh: args.force,
       parseOnly: args.parseOnly,
+      triggers: args.triggers,
     });
   } else if (args.all) {
     const files = readdirSync(RAW_DIR)
@@ -181,6 +224,7 @@ async function main() {
       await processFile(file, {
         forceRefresh: args.force,
         parseOnly: args.parseOnly,
+        triggers: args.triggers,
       });
     }
 
@@ -0,0 +1,240 @@
+#!/usr/bin/env npx tsx
+
+import 'dotenv/config';
+
+/**
+ * Process soccer box scores through the cached pipeline
+ *
+ * Usage:
+ *   npx tsx tools/process-soccer.ts --file <path>          # Process one file
+ *   npx tsx tools/process-soccer.ts --file <path> --force  # Force refresh (skip cache)
+ */
+
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import {
+  getCacheStats,
+  storeRawInput,
+  closeCache,
+} from '../src/lib/cache.js';
+import { parseSportBoxScoreCached, detectSportTriggersCached } from '../src/lib/cached-pipeline.js';
+import { soccer } from '../src/lib/sports/index.js';
+import { extractSoccerBoxScoreText } from '../src/lib/soccer-parser.js';
+import { computeSoccerStorySignals } from '../src/lib/story-signals.js';
+
+function printUsage() {
+  console.log(`
+Process Soccer Box Scores - Cached Pipeline
+
+Usage:
+  npx tsx tools/process-soccer.ts [options]
+
+Options:
+  --file <path>     Process a single file
+  --force           Force refresh (skip cache)
+  --parse-only      Only parse box scores, don't detect triggers
+  --raw             Show raw extracted text before parsing
+  --stats           Show cache statistics
+  --help            Show this help message
+
+Examples:
+  # Process one file
+  npx tsx tools/process-soccer.ts --file inbox/raw/2024-09-14_wsoc_abcd.html
+
+  # Process with forced refresh and show raw text
+  npx tsx tools/process-soccer.ts --file inbox/raw/2024-09-14_wsoc_abcd.html --force --raw
+`);
+}
+
+interface Args {
+  file?: string;
+  force?: boolean;
+  parseOnly?: boolean;
+  showRaw?: boolean;
+  stats?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(args: string[]): Args {
+  const result: Args = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--file':
+        result.file = args[++i];
+        break;
+      case '--force':
+        result.force = true;
+        break;
+      case '--parse-only':
+        result.parseOnly = true;
+        break;
+      case '--raw':
+        result.showRaw = true;
+        break;
+      case '--stats':
+        result.stats = true;
+        break;
+      case '--help':
+      case '-h':
+        result.help = true;
+        break;
+    }
+  }
+
+  return result;
+}
+
+async function processFile(
+  filePath: string,
+  options: { forceRefresh?: boolean; parseOnly?: boolean; showRaw?: boolean }
+): Promise<void> {
+  console.log(`\nProcessing: ${basename(filePath)}`);
+  console.log('═'.repeat(60));
+
+  // Read the file content
+  const rawContent = readFileSync(filePath, 'utf-8');
+
+  // For HTML files, extract clean text first
+  const isHtml = filePath.endsWith('.html') || rawContent.includes('<!DOCTYPE html');
+  const content = isHtml ? extractSoccerBoxScoreText(rawContent) : rawContent;
+
+  // Store the EXTRACTED text in cache (not raw HTML) so hash matches parsed_boxscores
+  const match = basename(filePath).match(/^(\d{4}-\d{2}-\d{2})_(\w+)_\w+\.(html|txt)$/);
+  const gameDate = match?.[1];
+  const sport = match?.[2] || 'wsoc';
+  storeRawInput(filePath, content, sport, gameDate);
+
+  if (options.showRaw) {
+    console.log(`\nExtracted text (${content.length} chars):`);
+    console.log('─'.repeat(60));
+    console.log(content.slice(0, 3000));
+    if (content.length > 3000) {
+      console.log(`... (${content.length - 3000} more chars)`);
+    }
+    console.log('─'.repeat(60));
+  }
+
+  try {
+    const boxScore = await parseSportBoxScoreCached(soccer, content, {
+      forceRefresh: options.forceRefresh,
+    });
+
+    // Print game summary
+    console.log(`\n📊 GAME SUMMARY`);
+    console.log('─'.repeat(60));
+    console.log(`${boxScore.metadata.away_team} @ ${boxScore.metadata.home_team}`);
+    console.log(`Final: ${boxScore.metadata.away_score} - ${boxScore.metadata.home_score}`);
+    console.log(`Date: ${boxScore.metadata.date || 'Unknown'}`);
+    console.log(`Venue: ${boxScore.metadata.venue || 'Unknown'}`);
+
+    // Print period scores
+    if (boxScore.period_scores) {
+      console.log(`\n📋 SCORE BY PERIOD`);
+      console.log('─'.repeat(60));
+      const periods = boxScore.period_scores.away_scores.length;
+      const header = ['Team', ...Array.from({length: periods}, (_, i) => i < 2 ? `H${i+1}` : `OT${i-1}`), 'Total'].map(h => h.padStart(5)).join(' ');
+      console.log(header);
+
+      console.log([boxScore.metadata.away_team.slice(0, 5).padEnd(5), ...boxScore.period_scores.away_scores.map(s => String(s).padStart(5)), String(boxScore.metadata.away_score).padStart(5)].join(' '));
+      console.log([boxScore.metadata.home_team.slice(0, 5).padEnd(5), ...boxScore.period_scores.home_scores.map(s => String(s).padStart(5)), String(boxScore.metadata.home_score).padStart(5)].join(' '));
+    }
+
+    if (boxScore.shootout) {
+      console.log(`Shootout: ${boxScore.shootout.away_made}/${boxScore.shootout.away_attempts} - ${boxScore.shootout.home_made}/${boxScore.shootout.home_attempts}`);
+    }
+
+    // Print scoring summary
+    console.log(`\n⚽ SCORING SUMMARY`);
+    console.log('─'.repeat(60));
+    for (const goal of boxScore.goals || []) {
+      const clock = goal.added_time ? `${goal.minute}+${goal.added_time}'` : `${goal.minute}'`;
+      const assists = goal.assists.length > 0 ? ` (${goal.assists.join(', ')})` : '';
+      console.log(`  ${clock.padStart(6)} ${goal.team}: ${goal.scorer}${assists}`);
+    }
+
+    // Print team stats comparison
+    console.log(`\n📈 TEAM STATISTICS`);
+    console.log('─'.repeat(60));
+    console.log(`${'Stat'.padEnd(15)} ${boxScore.metadata.away_team.slice(0,8).padStart(10)} ${boxScore.metadata.home_team.slice(0,8).padStart(10)}`);
+    console.log(`${'Shots'.padEnd(15)} ${String(boxScore.away_team.shots).padStart(10)} ${String(boxScore.home_team.shots).padStart(10)}`);
+    console.log(`${'On goal'.padEnd(15)} ${String(boxScore.away_team.shots_on_goal).padStart(10)} ${String(boxScore.home_team.shots_on_goal).padStart(10)}`);
+    console.log(`${'Saves'.padEnd(15)} ${String(boxScore.away_team.saves).padStart(10)} ${String(boxScore.home_team.saves).padStart(10)}`);
+    console.log(`${'Corners'.padEnd(15)} ${String(boxScore.away_team.corners).padStart(10)} ${String(boxScore.home_team.corners).padStart(10)}`);
+    console.log(`${'Yellow cards'.padEnd(15)} ${String(boxScore.away_team.yellow_cards ?? 0).padStart(10)} ${String(boxScore.home_team.yellow_cards ?? 0).padStart(10)}`);
+
+    // Compute story signals
+    console.log(`\n📰 STORY SIGNALS`);
+    console.log('─'.repeat(60));
+    const signals = computeSoccerStorySignals(boxScore, 'college');
+    console.log(`Priority: ${signals.tier.toUpperCase()} (score: ${signals.priority_score})`);
+    console.log(`Reasons:`);
+    for (const reason of signals.signal_reasons) {
+      console.log(`  • ${reason}`);
+    }
+
+    if (!options.parseOnly) {
+      console.log(`\n🎯 NARRATIVE TRIGGERS`);
+      console.log('─'.repeat(60));
+
+      const triggers = await detectSportTriggersCached(soccer, boxScore, {
+        forceRefresh: options.forceRefresh,
+      });
+
+      console.log(`Detected ${triggers.triggers.length} triggers:\n`);
+      for (const trigger of triggers.triggers.slice(0, 6)) {
+        console.log(`  [${trigger.category}] ${trigger.description}`);
+        console.log(`    Salience: ${trigger.salience_score.toFixed(2)}`);
+        console.log(`    Follow-up: ${trigger.follow_up_question}`);
+        console.log('');
+      }
+      if (triggers.triggers.length > 6) {
+        console.log(`  ... and ${triggers.triggers.length - 6} more triggers`);
+      }
+    }
+
+    console.log('\n' + '═'.repeat(60));
+    console.log('Processing complete!');
+
+  } catch (error) {
+    console.error(`Error processing ${filePath}:`, error);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  if (args.stats) {
+    const stats = getCacheStats();
+    console.log('Cache Statistics:');
+    console.log(`  Raw inputs:       ${stats.rawInputs}`);
+    console.log(`  Parsed boxscores: ${stats.parsedBoxScores}`);
+    console.log(`  Triggers:         ${stats.triggers}`);
+    console.log(`  Interviews:       ${stats.interviews}`);
+    console.log(`  Narratives:       ${stats.narratives}`);
+    process.exit(0);
+  }
+
+  if (args.file) {
+    await processFile(args.file, {
+      forceRefresh: args.force,
+      parseOnly: args.parseOnly,
+      showRaw: args.showRaw,
+    });
+  } else {
+    console.error('Error: Specify --file <path>');
+    printUsage();
+    process.exit(1);
+  }
+
+  closeCache();
+}
+
+main();
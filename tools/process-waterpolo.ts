@@ -17,7 +17,8 @@ import {
   storeRawInput,
   closeCache,
 } from '../src/lib/cache.js';
-import { parseWaterPoloBoxScoreCached, detectWaterPoloTriggersCached } from '../src/lib/cached-pipeline.js';
+import { parseSportBoxScoreCached, detectSportTriggersCached } from '../src/lib/cached-pipeline.js';
+import { waterpolo } from '../src/lib/sports/index.js';
 import { extractWaterPoloBoxScoreText } from '../src/lib/waterpolo-parser.js';
 import { computeWaterPoloStorySignals } from '../src/lib/story-signals.js';
 
@@ -117,8 +118,10 @@ async function processFile(
   }
 
   try {
-    const boxScore = await parseWaterPoloBoxScoreCached(content, {
+    // Pass the original HTML so the deterministic parser can skip the LLM entirely
+    const boxScore = await parseSportBoxScoreCached(waterpolo, content, {
       forceRefresh: options.forceRefresh,
+      html: isHtml ? rawContent : undefined,
     });
 
     // Print game summary
@@ -211,7 +214,7 @@ async function processFile(
       console.log(`\n🎯 NARRATIVE TRIGGERS`);
       console.log('─'.repeat(60));
 
-      const triggers = await detectWaterPoloTriggersCached(boxScore, {
+      const triggers = await detectSportTriggersCached(waterpolo, boxScore, {
         forceRefresh: options.forceRefresh,
       });
 
@@ -0,0 +1,82 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Validate voice profiles
+ *
+ * Parses each profile against the TEMPLATE.md questions and reports what's
+ * unanswered or still says "[Your answer here]". Exits non-zero when any
+ * profile has unanswered questions, so it can gate a profile before use.
+ *
+ * Usage:
+ *   npx tsx tools/validate-voice-profile.ts                          # Every profile in profiles/
+ *   npx tsx tools/validate-voice-profile.ts profiles/marin-wbkb.md   # Specific profiles
+ *   npx tsx tools/validate-voice-profile.ts --show profiles/marin-wbkb.md  # Print parsed fields too
+ */
+
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { loadVoiceProfile, validateVoiceProfile, VoiceProfileError } from '../src/lib/voice-profile.js';
+
+function printUsage() {
+  console.log(`
+Validate Voice Profiles
+
+Usage:
+  npx tsx tools/validate-voice-profile.ts [options] [profile...]
+
+Options:
+  --show    Print the parsed fields for each profile
+  --help    Show this help message
+
+With no profiles given, checks every profile in profiles/ except TEMPLATE.md.
+`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    printUsage();
+    return;
+  }
+
+  const show = args.includes('--show');
+  let paths = args.filter((arg) => !arg.startsWith('--'));
+  if (paths.length === 0) {
+    paths = readdirSync(join(process.cwd(), 'profiles'))
+      .filter((file) => file.endsWith('.md') && file !== 'TEMPLATE.md')
+      .map((file) => join('profiles', file));
+  }
+
+  let failed = 0;
+  for (const path of paths) {
+    let loaded;
+    try {
+      loaded = loadVoiceProfile(path);
+    } catch (error) {
+      if (!(error instanceof VoiceProfileError)) throw error;
+      console.log(`✗ ${path}: ${error.message}`);
+      failed++;
+      continue;
+    }
+
+    const { profile } = loaded;
+    const result = validateVoiceProfile(profile);
+    console.log(`${result.valid ? '✓' : '✗'} ${path}${profile.programName ? ` (${profile.programName})` : ''}`);
+    for (const error of result.errors) console.log(`    error: ${error}`);
+    for (const warning of result.warnings) console.log(`    warning: ${warning}`);
+
+    if (show) {
+      console.log(`    personality: ${profile.personality.join(', ') || '-'}`);
+      console.log(`    banned tones: ${profile.bannedTones.join(', ') || '-'}`);
+      console.log(`    audiences: ${profile.audiences.join('; ') || '-'}`);
+      console.log(`    signature phrases: ${profile.signaturePhrases.join(', ') || '-'}`);
+    }
+
+    if (!result.valid) failed++;
+  }
+
+  console.log(`\n${paths.length - failed}/${paths.length} profiles complete`);
+  if (failed > 0) process.exit(1);
+}
+
+main();